@@ -0,0 +1,25 @@
+import { isFakeHubSpotEnabled } from "@/app/lib/fake-hubspot"
+import { benchmarkAnalytics } from "@/lib/analytics-benchmark"
+
+export const dynamic = "force-dynamic"
+
+// Times the analytics engine against the previous implementation on seeded synthetic rows:
+// ?contacts=1000..500000, ?seed=, ?runs=1..20. Development only, and it blocks the server while it runs.
+export async function GET(request: Request) {
+  if (!isFakeHubSpotEnabled()) return new Response("Not found", { status: 404 })
+
+  const query = new URL(request.url).searchParams
+  try {
+    const result = benchmarkAnalytics({
+      contacts: Number(query.get("contacts") ?? 10_000),
+      seed: Number(query.get("seed") ?? 1),
+      runs: Number(query.get("runs") ?? 5),
+    })
+    console.log(
+      `⏱️ Analytics benchmark, ${result.contacts} contacts: reference ${result.reference.medianMs}ms, engine ${result.engine.medianMs}ms (${result.speedup}x)`,
+    )
+    return Response.json(result)
+  } catch (e: any) {
+    return new Response(e.message, { status: 400 })
+  }
+}
@@ -0,0 +1,29 @@
+import { getFakeHubSpot, isFakeHubSpotEnabled } from "@/app/lib/fake-hubspot"
+
+export const dynamic = "force-dynamic"
+
+// Serves the fake HubSpot API under /api/fake-hubspot when FAKE_HUBSPOT=1; point HUBSPOT_BASE_URL here
+async function handle(request: Request, { params }: { params: Promise<{ path: string[] }> }) {
+  if (!isFakeHubSpotEnabled()) return new Response("Not found", { status: 404 })
+
+  const { path } = await params
+  const text = request.method === "POST" ? await request.text() : ""
+  let body: unknown = undefined
+  try {
+    body = text ? JSON.parse(text) : undefined
+  } catch {
+    return Response.json({ status: "error", message: "Invalid JSON body", category: "VALIDATION_ERROR" }, { status: 400 })
+  }
+
+  const response = getFakeHubSpot().handle(
+    request.method,
+    `/${path.join("/")}`,
+    new URL(request.url).searchParams,
+    body,
+    request.headers.get("authorization"),
+  )
+  return Response.json(response.body, { status: response.status, headers: response.headers })
+}
+
+export const GET = handle
+export const POST = handle
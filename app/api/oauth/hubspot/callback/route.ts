@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { installPortal, OAUTH_STATE_COOKIE, oauthRedirectUri } from "@/app/lib/hubspot-oauth"
+import { PORTAL_COOKIE, PORTAL_COOKIE_OPTIONS } from "@/app/lib/portals"
+import { startSyncSchedule } from "@/app/lib/sync-schedule"
+
+export const dynamic = "force-dynamic"
+
+// HubSpot redirects here with a one-time code once the user approves the install
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const expectedState = request.cookies.get(OAUTH_STATE_COOKIE)?.value
+
+  const error = params.get("error")
+  if (error) return new Response(`HubSpot did not authorize the install: ${error}`, { status: 400 })
+
+  const code = params.get("code")
+  if (!code || !expectedState || params.get("state") !== expectedState) {
+    return new Response("Invalid or expired install request. Start the install again from the dashboard.", {
+      status: 400,
+    })
+  }
+
+  try {
+    const portal = await installPortal(code, oauthRedirectUri(request.url))
+    startSyncSchedule(portal.id)
+
+    // Switch this browser to the new portal straight away
+    const response = NextResponse.redirect(new URL("/", request.url))
+    response.cookies.delete(OAUTH_STATE_COOKIE)
+    response.cookies.set(PORTAL_COOKIE, portal.id, PORTAL_COOKIE_OPTIONS)
+    return response
+  } catch (e: any) {
+    console.error("HubSpot OAuth install failed:", e)
+    return new Response(`Failed to install the HubSpot portal: ${e?.message || e}`, { status: 500 })
+  }
+}
@@ -0,0 +1,20 @@
+import { randomBytes } from "crypto"
+import { NextResponse } from "next/server"
+import { authorizationUrl, OAUTH_STATE_COOKIE, oauthConfig, oauthRedirectUri } from "@/app/lib/hubspot-oauth"
+
+export const dynamic = "force-dynamic"
+
+// Sends the user to HubSpot to pick a portal and approve the app; HubSpot then calls the callback route
+export async function GET(request: Request) {
+  if (!oauthConfig()) {
+    return new Response("HubSpot OAuth is not configured: set HUBSPOT_CLIENT_ID and HUBSPOT_CLIENT_SECRET.", {
+      status: 503,
+    })
+  }
+
+  // Echoed back by HubSpot, so the callback can tell the install was started here
+  const state = randomBytes(16).toString("hex")
+  const response = NextResponse.redirect(authorizationUrl(oauthRedirectUri(request.url), state))
+  response.cookies.set(OAUTH_STATE_COOKIE, state, { httpOnly: true, sameSite: "lax", maxAge: 10 * 60, path: "/" })
+  return response
+}
@@ -0,0 +1,62 @@
+import type { SyncProgressEvent } from "@/lib/types"
+import { getSyncJobs, isFinishedEvent } from "@/app/lib/sync-jobs"
+import { activePortalId } from "@/app/lib/portals"
+
+export const dynamic = "force-dynamic"
+
+// Proxies close idle connections, so a comment line goes out every so often while a long page is fetched
+const KEEP_ALIVE_MS = 15_000
+
+// Server-sent events for one sync job: everything so far is replayed, then live events until the job ends.
+// Only jobs of the browser's own portal are found, so another portal's progress is never streamed.
+export async function GET(request: Request, { params }: { params: Promise<{ jobId: string }> }) {
+  const { jobId } = await params
+  const jobs = getSyncJobs()
+  const job = jobs.get(jobId)
+  if (!job || job.portalId !== (await activePortalId())) return new Response("Unknown sync job", { status: 404 })
+
+  const encoder = new TextEncoder()
+  let cleanup = (_closeStream = true) => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      const send = (event: SyncProgressEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+
+      job.events.forEach(send)
+      if (job.status !== "running") {
+        controller.close()
+        return
+      }
+
+      // Nothing runs between the replay and subscribing, so no event can be missed
+      const unsubscribe = jobs.subscribe(jobId, (event) => {
+        send(event)
+        if (isFinishedEvent(event)) cleanup()
+      })
+      const keepAlive = setInterval(() => controller.enqueue(encoder.encode(": keep-alive\n\n")), KEEP_ALIVE_MS)
+
+      cleanup = (closeStream = true) => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(keepAlive)
+        if (closeStream) controller.close()
+      }
+      // An aborted request may have cancelled or errored the stream already, and closing it then would throw
+      request.signal.addEventListener("abort", () => cleanup(false))
+    },
+    // The browser went away, so the stream is already closed
+    cancel() {
+      cleanup(false)
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
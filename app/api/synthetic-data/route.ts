@@ -0,0 +1,47 @@
+import { isFakeHubSpotEnabled } from "@/app/lib/fake-hubspot"
+import { generateSyntheticCrm, syntheticCsvChunks, syntheticFixtureChunks } from "@/lib/synthetic-crm"
+
+export const dynamic = "force-dynamic"
+
+// Downloads a seeded synthetic portal: ?format=csv (AccountData columns, for the Import Data tab) or
+// ?format=fixtures (JSON for FAKE_HUBSPOT_FIXTURES), with ?contacts=1000..500000 and ?seed=. Development only.
+export async function GET(request: Request) {
+  if (!isFakeHubSpotEnabled()) return new Response("Not found", { status: 404 })
+
+  const query = new URL(request.url).searchParams
+  const format = query.get("format") ?? "csv"
+  if (format !== "csv" && format !== "fixtures") {
+    return new Response('format must be "csv" or "fixtures"', { status: 400 })
+  }
+  const seed = Number(query.get("seed") ?? 1)
+  const contacts = Number(query.get("contacts") ?? 1_000)
+
+  let crm
+  try {
+    crm = generateSyntheticCrm({ seed, contacts })
+  } catch (e: any) {
+    return new Response(e.message, { status: 400 })
+  }
+
+  // Generated one chunk per pull, so a large dataset streams out instead of being built in memory
+  const chunks = format === "csv" ? syntheticCsvChunks(crm) : syntheticFixtureChunks(crm)
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = chunks.next()
+      if (next.done) controller.close()
+      else controller.enqueue(encoder.encode(next.value))
+    },
+    cancel() {
+      chunks.return(undefined)
+    },
+  })
+
+  const filename = `synthetic-crm-${contacts}-seed-${seed}.${format === "csv" ? "csv" : "json"}`
+  return new Response(stream, {
+    headers: {
+      "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+      "Content-Disposition": `attachment; filename="${filename}"`,
+    },
+  })
+}
@@ -0,0 +1,81 @@
+import { getCrmRepository } from "@/app/lib/crm-repository"
+import { CONTACT_PROPERTIES } from "@/app/lib/hubspot-sync"
+import {
+  applyWebhookEvents,
+  hubSpotContactFetcher,
+  parseWebhookEvents,
+  verifyWebhookSignature,
+  type HubSpotWebhookEvent,
+  type WebhookResult,
+} from "@/app/lib/hubspot-webhooks"
+import { connectToPortal, portalForHub } from "@/app/lib/portals"
+import { loadQualificationRules } from "@/app/lib/settings-store"
+import { ruleProperties } from "@/lib/qualification-rules"
+
+export const dynamic = "force-dynamic"
+
+// Applies one portal's share of a webhook batch to that portal's store
+function applyPortalEvents(portalId: string, events: HubSpotWebhookEvent[]): Promise<WebhookResult> {
+  const rules = loadQualificationRules(portalId)
+  const properties = Array.from(new Set([...CONTACT_PROPERTIES, ...ruleProperties(rules)]))
+  // Only connect when an event needs a contact read back
+  const fetchContacts = (ids: string[]) => {
+    const { client, runner } = connectToPortal(portalId)
+    return hubSpotContactFetcher(client, runner, properties)(ids)
+  }
+  return applyWebhookEvents(events, getCrmRepository(portalId), rules, fetchContacts)
+}
+
+// Target URL for the HubSpot app's contact webhook subscriptions
+export async function POST(request: Request) {
+  const secret = process.env.HUBSPOT_CLIENT_SECRET?.trim()
+  if (!secret) return new Response("HUBSPOT_CLIENT_SECRET is not configured", { status: 503 })
+
+  const body = await request.text()
+  const signed = verifyWebhookSignature(secret, {
+    method: request.method,
+    // Behind a proxy request.url may not be the public URL HubSpot signed
+    uri: process.env.HUBSPOT_WEBHOOK_URL?.trim() || request.url,
+    body,
+    signature: request.headers.get("x-hubspot-signature-v3"),
+    timestamp: request.headers.get("x-hubspot-request-timestamp"),
+  })
+  if (!signed) return new Response("Invalid or expired signature", { status: 401 })
+
+  let events: HubSpotWebhookEvent[]
+  try {
+    events = parseWebhookEvents(body)
+  } catch (e: any) {
+    return new Response(e.message || "Malformed webhook payload", { status: 400 })
+  }
+
+  // One batch can mix portals that installed the app
+  const byPortal = new Map<string, HubSpotWebhookEvent[]>()
+  let unknownPortal = 0
+  events.forEach((event) => {
+    const portalId = portalForHub(event.portalId)
+    if (!portalId) {
+      unknownPortal++
+      return
+    }
+    byPortal.set(portalId, [...(byPortal.get(portalId) ?? []), event])
+  })
+  if (unknownPortal > 0) console.warn(`🪝 Ignored ${unknownPortal} webhook events from portals that are not connected`)
+
+  try {
+    const results: Record<string, WebhookResult> = {}
+    for (const [portalId, portalEvents] of byPortal) {
+      const result = await applyPortalEvents(portalId, portalEvents)
+      console.log(
+        `🪝 Applied ${result.received} HubSpot webhook events to portal ${portalId}: ${result.upserted} upserted, ` +
+          `${result.removed} removed, ${result.fetched} fetched, ${result.ignored} ignored`,
+      )
+      results[portalId] = result
+    }
+    return Response.json(results)
+  } catch (e: any) {
+    // A non-2xx response makes HubSpot retry the batch later
+    console.error("Failed to apply HubSpot webhook events:", e)
+    return new Response(e?.message || "Failed to apply webhook events", { status: 500 })
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import type { StoredContact } from "@/lib/types"
+import { createInMemoryCrmRepository } from "@/app/lib/crm-repository"
+
+const contact = (id: string, createdate: string | null, extra: Record<string, string | null> = {}): StoredContact => ({
+  id,
+  properties: { createdate, lastmodifieddate: createdate, email: `${id}@example.com`, ...extra },
+  companyIds: [],
+})
+
+describe("contacts", () => {
+  it("inserts, updates in place and deletes", () => {
+    const repository = createInMemoryCrmRepository()
+    repository.upsertContacts([contact("1", "2025-01-10T12:00:00Z"), contact("2", "2025-02-10T12:00:00Z")])
+    expect(repository.countContacts()).toBe(2)
+
+    repository.upsertContacts([{ ...contact("1", "2025-01-10T12:00:00Z", { lifecyclestage: "customer" }), companyIds: ["9"] }])
+    expect(repository.countContacts()).toBe(2)
+    expect(repository.getContact("1")).toEqual({
+      id: "1",
+      properties: expect.objectContaining({ lifecyclestage: "customer" }),
+      companyIds: ["9"],
+    })
+
+    repository.deleteContacts(["1", "missing"])
+    expect(repository.hasContact("1")).toBe(false)
+    expect(repository.getContact("1")).toBeNull()
+    expect(repository.getContacts().map((stored) => stored.id)).toEqual(["2"])
+  })
+
+  it("filters by created date, inclusive at both ends", () => {
+    const repository = createInMemoryCrmRepository()
+    repository.upsertContacts([
+      contact("jan", "2025-01-15T00:00:00Z"),
+      contact("feb", "2025-02-01T00:00:00Z"),
+      contact("mar", "2025-03-31T23:59:59Z"),
+      contact("apr", "2025-04-01T00:00:00Z"),
+    ])
+    const ids = (from?: string, to?: string) =>
+      repository
+        .getContacts({ createdFrom: from ? new Date(from) : undefined, createdTo: to ? new Date(to) : undefined })
+        .map((stored) => stored.id)
+        .sort()
+
+    expect(ids("2025-02-01T00:00:00Z", "2025-03-31T23:59:59Z")).toEqual(["feb", "mar"])
+    expect(ids("2025-03-01T00:00:00Z")).toEqual(["apr", "mar"])
+    expect(ids(undefined, "2025-01-31T00:00:00Z")).toEqual(["jan"])
+  })
+
+  it("drops contacts without a usable createdate once a range is set", () => {
+    const repository = createInMemoryCrmRepository()
+    repository.upsertContacts([
+      contact("dated", "2025-01-15T00:00:00Z"),
+      contact("undated", null),
+      contact("garbled", "not a date"),
+    ])
+
+    expect(repository.getContacts()).toHaveLength(3)
+    expect(repository.getContacts({ createdFrom: new Date("2000-01-01") }).map((stored) => stored.id)).toEqual(["dated"])
+    expect(repository.getContacts({ createdTo: new Date("2100-01-01") }).map((stored) => stored.id)).toEqual(["dated"])
+  })
+})
+
+describe("transaction", () => {
+  it("rolls back every write when the callback throws", () => {
+    const repository = createInMemoryCrmRepository()
+    repository.upsertContacts([contact("kept", "2025-01-01T00:00:00Z")])
+
+    expect(() =>
+      repository.transaction(() => {
+        repository.upsertContacts([contact("new", "2025-01-02T00:00:00Z")])
+        repository.deleteContacts(["kept"])
+        repository.saveSyncMetadata({ ...repository.getSyncMetadata(), watermark: "2025-01-02T00:00:00Z" })
+        throw new Error("sync failed")
+      }),
+    ).toThrow("sync failed")
+
+    expect(repository.getContacts().map((stored) => stored.id)).toEqual(["kept"])
+    expect(repository.getSyncMetadata().watermark).toBeNull()
+  })
+
+  it("returns the callback's result when it commits", () => {
+    const repository = createInMemoryCrmRepository()
+    const count = repository.transaction(() => {
+      repository.upsertContacts([contact("1", null)])
+      return repository.countContacts()
+    })
+
+    expect(count).toBe(1)
+    expect(repository.countContacts()).toBe(1)
+  })
+})
+
+describe("sync metadata", () => {
+  it("starts empty and round-trips", () => {
+    const repository = createInMemoryCrmRepository()
+    expect(repository.getSyncMetadata().lastSyncAt).toBeNull()
+
+    const meta = {
+      ...repository.getSyncMetadata(),
+      watermark: "2025-03-01T00:00:00.000Z",
+      lastSyncAt: "2025-03-02T00:00:00.000Z",
+      lastSyncMode: "incremental" as const,
+    }
+    repository.saveSyncMetadata(meta)
+    expect(repository.getSyncMetadata()).toEqual(meta)
+  })
+})
@@ -0,0 +1,301 @@
+import type {
+  StoredCompany,
+  StoredContact,
+  StoredDeal,
+  StoredOwner,
+  StoredPipelineStage,
+  SyncMetadata,
+  SyncMode,
+} from "@/lib/types"
+import { getCrmDatabase, openCrmDatabase, type CrmDatabase } from "@/app/lib/db"
+
+export interface ContactQuery {
+  createdFrom?: Date
+  createdTo?: Date
+}
+
+// Everything the sync and analytics pipeline needs from local storage
+export interface CrmRepository {
+  transaction<T>(fn: () => T): T
+  getContacts(query?: ContactQuery): StoredContact[]
+  countContacts(): number
+  getContact(id: string): StoredContact | null
+  hasContact(id: string): boolean
+  upsertContacts(contacts: StoredContact[]): void
+  deleteContacts(ids: string[]): void
+  clearContacts(): void
+  getCompanies(ids?: string[]): Map<string, StoredCompany>
+  upsertCompanies(companies: StoredCompany[]): void
+  clearCompanies(): void
+  getDeals(): StoredDeal[]
+  upsertDeals(deals: StoredDeal[]): void
+  clearDeals(): void
+  getPipelineStages(): Map<string, StoredPipelineStage>
+  replacePipelineStages(stages: StoredPipelineStage[]): void
+  getOwners(): Map<string, StoredOwner>
+  replaceOwners(owners: StoredOwner[]): void
+  getSyncMetadata(): SyncMetadata
+  saveSyncMetadata(meta: SyncMetadata): void
+}
+
+type ContactRow = { id: string; properties: string; company_ids: string }
+type CompanyRow = { id: string; properties: string }
+type DealRow = { id: string; properties: string; contact_ids: string; company_ids: string }
+type PipelineStageRow = {
+  id: string
+  pipeline_id: string
+  pipeline_label: string
+  label: string
+  display_order: number
+  is_closed: number
+  is_won: number
+}
+type OwnerRow = { id: string; first_name: string | null; last_name: string | null; email: string | null }
+
+const toTimestamp = (value: string | null | undefined): string | null => {
+  if (!value) return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+export class SqliteCrmRepository implements CrmRepository {
+  constructor(private readonly db: CrmDatabase) {}
+
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)()
+  }
+
+  getContacts(query: ContactQuery = {}): StoredContact[] {
+    const conditions: string[] = []
+    const params: string[] = []
+    if (query.createdFrom) {
+      conditions.push("created_at >= ?")
+      params.push(query.createdFrom.toISOString())
+    }
+    if (query.createdTo) {
+      conditions.push("created_at <= ?")
+      params.push(query.createdTo.toISOString())
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""
+
+    const rows = this.db.prepare(`SELECT id, properties, company_ids FROM contacts ${where}`).all(...params) as ContactRow[]
+    return rows.map((row) => ({
+      id: row.id,
+      properties: JSON.parse(row.properties),
+      companyIds: JSON.parse(row.company_ids),
+    }))
+  }
+
+  countContacts(): number {
+    return (this.db.prepare("SELECT COUNT(*) AS count FROM contacts").get() as { count: number }).count
+  }
+
+  getContact(id: string): StoredContact | null {
+    const row = this.db.prepare("SELECT id, properties, company_ids FROM contacts WHERE id = ?").get(id) as
+      | ContactRow
+      | undefined
+    return row ? { id: row.id, properties: JSON.parse(row.properties), companyIds: JSON.parse(row.company_ids) } : null
+  }
+
+  hasContact(id: string): boolean {
+    return this.db.prepare("SELECT 1 FROM contacts WHERE id = ?").get(id) !== undefined
+  }
+
+  upsertContacts(contacts: StoredContact[]) {
+    const statement = this.db.prepare(`
+      INSERT INTO contacts (id, properties, company_ids, created_at, last_modified_at)
+      VALUES (@id, @properties, @companyIds, @createdAt, @lastModifiedAt)
+      ON CONFLICT (id) DO UPDATE SET
+        properties = excluded.properties,
+        company_ids = excluded.company_ids,
+        created_at = excluded.created_at,
+        last_modified_at = excluded.last_modified_at
+    `)
+    this.transaction(() => {
+      contacts.forEach((contact) =>
+        statement.run({
+          id: contact.id,
+          properties: JSON.stringify(contact.properties),
+          companyIds: JSON.stringify(contact.companyIds),
+          createdAt: toTimestamp(contact.properties.createdate),
+          lastModifiedAt: toTimestamp(contact.properties.lastmodifieddate),
+        }),
+      )
+    })
+  }
+
+  deleteContacts(ids: string[]) {
+    const statement = this.db.prepare("DELETE FROM contacts WHERE id = ?")
+    this.transaction(() => ids.forEach((id) => statement.run(id)))
+  }
+
+  clearContacts() {
+    this.db.prepare("DELETE FROM contacts").run()
+  }
+
+  getCompanies(ids?: string[]): Map<string, StoredCompany> {
+    const rows = ids
+      ? ids.map((id) => this.db.prepare("SELECT id, properties FROM companies WHERE id = ?").get(id) as CompanyRow | undefined)
+      : (this.db.prepare("SELECT id, properties FROM companies").all() as CompanyRow[])
+
+    const companies = new Map<string, StoredCompany>()
+    rows.forEach((row) => {
+      if (row) companies.set(row.id, { id: row.id, properties: JSON.parse(row.properties) })
+    })
+    return companies
+  }
+
+  upsertCompanies(companies: StoredCompany[]) {
+    const statement = this.db.prepare(`
+      INSERT INTO companies (id, properties) VALUES (@id, @properties)
+      ON CONFLICT (id) DO UPDATE SET properties = excluded.properties
+    `)
+    this.transaction(() => {
+      companies.forEach((company) =>
+        statement.run({ id: company.id, properties: JSON.stringify(company.properties) }),
+      )
+    })
+  }
+
+  clearCompanies() {
+    this.db.prepare("DELETE FROM companies").run()
+  }
+
+  getDeals(): StoredDeal[] {
+    const rows = this.db.prepare("SELECT id, properties, contact_ids, company_ids FROM deals").all() as DealRow[]
+    return rows.map((row) => ({
+      id: row.id,
+      properties: JSON.parse(row.properties),
+      contactIds: JSON.parse(row.contact_ids),
+      companyIds: JSON.parse(row.company_ids),
+    }))
+  }
+
+  upsertDeals(deals: StoredDeal[]) {
+    const statement = this.db.prepare(`
+      INSERT INTO deals (id, properties, contact_ids, company_ids)
+      VALUES (@id, @properties, @contactIds, @companyIds)
+      ON CONFLICT (id) DO UPDATE SET
+        properties = excluded.properties,
+        contact_ids = excluded.contact_ids,
+        company_ids = excluded.company_ids
+    `)
+    this.transaction(() => {
+      deals.forEach((deal) =>
+        statement.run({
+          id: deal.id,
+          properties: JSON.stringify(deal.properties),
+          contactIds: JSON.stringify(deal.contactIds),
+          companyIds: JSON.stringify(deal.companyIds),
+        }),
+      )
+    })
+  }
+
+  clearDeals() {
+    this.db.prepare("DELETE FROM deals").run()
+  }
+
+  getPipelineStages(): Map<string, StoredPipelineStage> {
+    const rows = this.db.prepare("SELECT * FROM pipeline_stages").all() as PipelineStageRow[]
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        {
+          id: row.id,
+          pipelineId: row.pipeline_id,
+          pipelineLabel: row.pipeline_label,
+          label: row.label,
+          displayOrder: row.display_order,
+          isClosed: row.is_closed === 1,
+          isWon: row.is_won === 1,
+        },
+      ]),
+    )
+  }
+
+  replacePipelineStages(stages: StoredPipelineStage[]) {
+    const statement = this.db.prepare(`
+      INSERT INTO pipeline_stages (id, pipeline_id, pipeline_label, label, display_order, is_closed, is_won)
+      VALUES (@id, @pipelineId, @pipelineLabel, @label, @displayOrder, @isClosed, @isWon)
+    `)
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM pipeline_stages").run()
+      stages.forEach((stage) =>
+        statement.run({ ...stage, isClosed: stage.isClosed ? 1 : 0, isWon: stage.isWon ? 1 : 0 }),
+      )
+    })
+  }
+
+  getOwners(): Map<string, StoredOwner> {
+    const rows = this.db.prepare("SELECT id, first_name, last_name, email FROM owners").all() as OwnerRow[]
+    return new Map(
+      rows.map((row) => [
+        row.id,
+        {
+          id: row.id,
+          firstName: row.first_name ?? undefined,
+          lastName: row.last_name ?? undefined,
+          email: row.email ?? undefined,
+        },
+      ]),
+    )
+  }
+
+  replaceOwners(owners: StoredOwner[]) {
+    const statement = this.db.prepare(
+      "INSERT INTO owners (id, first_name, last_name, email) VALUES (@id, @firstName, @lastName, @email)",
+    )
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM owners").run()
+      owners.forEach((owner) =>
+        statement.run({
+          id: owner.id,
+          firstName: owner.firstName ?? null,
+          lastName: owner.lastName ?? null,
+          email: owner.email ?? null,
+        }),
+      )
+    })
+  }
+
+  getSyncMetadata(): SyncMetadata {
+    const rows = this.db.prepare("SELECT key, value FROM sync_metadata").all() as Array<{ key: string; value: string | null }>
+    const values = Object.fromEntries(rows.map((row) => [row.key, row.value]))
+    return {
+      watermark: values.watermark ?? null,
+      dealWatermark: values.dealWatermark ?? null,
+      lastSyncAt: values.lastSyncAt ?? null,
+      lastFullSyncAt: values.lastFullSyncAt ?? null,
+      lastSyncMode: (values.lastSyncMode as SyncMode | undefined) ?? null,
+      rulesFingerprint: values.rulesFingerprint ?? null,
+      lastWebhookAt: values.lastWebhookAt ?? null,
+    }
+  }
+
+  saveSyncMetadata(meta: SyncMetadata) {
+    const statement = this.db.prepare(`
+      INSERT INTO sync_metadata (key, value) VALUES (?, ?)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value
+    `)
+    this.transaction(() => {
+      Object.entries(meta).forEach(([key, value]) => statement.run(key, value))
+    })
+  }
+}
+
+export function createInMemoryCrmRepository(): SqliteCrmRepository {
+  return new SqliteCrmRepository(openCrmDatabase(":memory:"))
+}
+
+const sharedRepositories = new Map<string, CrmRepository>()
+
+// Each HubSpot portal mirrors into its own database
+export function getCrmRepository(portalId: string): CrmRepository {
+  let repository = sharedRepositories.get(portalId)
+  if (!repository) {
+    repository = new SqliteCrmRepository(getCrmDatabase(portalId))
+    sharedRepositories.set(portalId, repository)
+  }
+  return repository
+}
@@ -0,0 +1,161 @@
+import Database from "better-sqlite3"
+import fs from "fs"
+import path from "path"
+
+export type CrmDatabase = Database.Database
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), ".data", "crm.sqlite")
+
+// The portal synced with the HUBSPOT_API_KEY private-app token. Its data stays in the main database, which
+// also holds the portal registry; every portal installed through OAuth gets a database file of its own.
+export const DEFAULT_PORTAL_ID = "default"
+
+// Each entry upgrades the schema by one version; never edit a migration once it has shipped
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE contacts (
+    id TEXT PRIMARY KEY,
+    properties TEXT NOT NULL,
+    company_ids TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT,
+    last_modified_at TEXT
+  );
+  CREATE INDEX contacts_created_at ON contacts (created_at);
+
+  CREATE TABLE companies (
+    id TEXT PRIMARY KEY,
+    properties TEXT NOT NULL
+  );
+
+  CREATE TABLE owners (
+    id TEXT PRIMARY KEY,
+    first_name TEXT,
+    last_name TEXT,
+    email TEXT
+  );
+
+  CREATE TABLE sync_metadata (
+    key TEXT PRIMARY KEY,
+    value TEXT
+  );
+  `,
+  `
+  CREATE TABLE deals (
+    id TEXT PRIMARY KEY,
+    properties TEXT NOT NULL,
+    contact_ids TEXT NOT NULL DEFAULT '[]',
+    company_ids TEXT NOT NULL DEFAULT '[]'
+  );
+
+  CREATE TABLE pipeline_stages (
+    id TEXT PRIMARY KEY,
+    pipeline_id TEXT NOT NULL,
+    pipeline_label TEXT NOT NULL,
+    label TEXT NOT NULL,
+    display_order INTEGER NOT NULL DEFAULT 0,
+    is_closed INTEGER NOT NULL DEFAULT 0,
+    is_won INTEGER NOT NULL DEFAULT 0
+  );
+  `,
+  `
+  CREATE TABLE imports (
+    id TEXT PRIMARY KEY,
+    file_name TEXT NOT NULL,
+    headers TEXT NOT NULL,
+    rows TEXT NOT NULL,
+    errors TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL
+  );
+
+  CREATE TABLE import_profiles (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    mapping TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE sync_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    trigger TEXT NOT NULL,
+    requested_mode TEXT NOT NULL,
+    mode TEXT,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT,
+    fetched INTEGER,
+    upserted INTEGER,
+    removed INTEGER,
+    deals INTEGER,
+    api_calls INTEGER,
+    error TEXT
+  );
+  `,
+  `
+  CREATE TABLE metric_snapshots (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id INTEGER,
+    taken_at TEXT NOT NULL,
+    metrics TEXT NOT NULL
+  );
+  CREATE INDEX metric_snapshots_taken_at ON metric_snapshots (taken_at);
+  `,
+  `
+  CREATE TABLE portals (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    domain TEXT,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    scopes TEXT NOT NULL DEFAULT '[]',
+    installed_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+]
+
+function migrate(db: CrmDatabase) {
+  const currentVersion = db.pragma("user_version", { simple: true }) as number
+  MIGRATIONS.slice(currentVersion).forEach((migration, index) => {
+    db.transaction(() => {
+      db.exec(migration)
+      db.pragma(`user_version = ${currentVersion + index + 1}`)
+    })()
+  })
+}
+
+// Pass ":memory:" for a throwaway database, e.g. in tests
+export function openCrmDatabase(filename: string = process.env.CRM_DB_PATH || DEFAULT_DB_PATH): CrmDatabase {
+  if (filename !== ":memory:") fs.mkdirSync(path.dirname(filename), { recursive: true })
+  const db = new Database(filename)
+  if (filename !== ":memory:") db.pragma("journal_mode = WAL")
+  migrate(db)
+  return db
+}
+
+// OAuth portals are keyed by their numeric HubSpot hub ID, which also keeps the file name safe
+export function portalDatabasePath(portalId: string): string {
+  const mainPath = process.env.CRM_DB_PATH || DEFAULT_DB_PATH
+  if (portalId === DEFAULT_PORTAL_ID) return mainPath
+  if (!/^\d+$/.test(portalId)) throw new Error(`Invalid HubSpot portal ID "${portalId}"`)
+  return path.join(path.dirname(mainPath), "portals", `${portalId}.sqlite`)
+}
+
+const sharedDatabases = new Map<string, CrmDatabase>()
+
+export function getCrmDatabase(portalId: string = DEFAULT_PORTAL_ID): CrmDatabase {
+  let db = sharedDatabases.get(portalId)
+  if (!db) {
+    db = openCrmDatabase(portalDatabasePath(portalId))
+    sharedDatabases.set(portalId, db)
+  }
+  return db
+}
@@ -0,0 +1,73 @@
+import type { StoredContact, StoredDeal, StoredPipelineStage } from "@/lib/types"
+
+export type DealStatus = "open" | "won" | "lost"
+
+export interface ContactDealTotals {
+  wonAmount: number
+  openAmount: number
+  wonCount: number
+  openCount: number
+}
+
+export function getDealStatus(deal: StoredDeal, stages: Map<string, StoredPipelineStage>): DealStatus {
+  const stageId = deal.properties.dealstage || ""
+  const stage = stages.get(stageId)
+  if (stage) {
+    if (!stage.isClosed) return "open"
+    return stage.isWon ? "won" : "lost"
+  }
+
+  // Unknown stage (pipelines not synced yet): fall back to HubSpot's default stage IDs
+  if (stageId === "closedwon") return "won"
+  if (stageId === "closedlost") return "lost"
+  return "open"
+}
+
+export function getDealAmount(deal: StoredDeal): number {
+  const amount = Number.parseFloat(deal.properties.amount || "")
+  return isFinite(amount) ? amount : 0
+}
+
+const lowestId = (ids: string[]): string | undefined =>
+  [...ids].sort((a, b) => Number(a) - Number(b) || a.localeCompare(b))[0]
+
+// Credits each deal to exactly one contact in `contacts`: its lowest-ID associated contact,
+// otherwise the lowest-ID contact at one of its companies. Deals with neither are left out.
+export function attributeDealsToContacts(
+  deals: StoredDeal[],
+  contacts: StoredContact[],
+  stages: Map<string, StoredPipelineStage>,
+): Map<string, ContactDealTotals> {
+  const contactIds = new Set(contacts.map((contact) => contact.id))
+  const contactsByCompany = new Map<string, string[]>()
+  contacts.forEach((contact) =>
+    contact.companyIds.forEach((companyId) => {
+      const existing = contactsByCompany.get(companyId) ?? []
+      existing.push(contact.id)
+      contactsByCompany.set(companyId, existing)
+    }),
+  )
+
+  const totals = new Map<string, ContactDealTotals>()
+  deals.forEach((deal) => {
+    const status = getDealStatus(deal, stages)
+    if (status === "lost") return
+
+    const contactId =
+      lowestId(deal.contactIds.filter((id) => contactIds.has(id))) ??
+      lowestId(deal.companyIds.flatMap((companyId) => contactsByCompany.get(companyId) ?? []))
+    if (!contactId) return
+
+    const contactTotals = totals.get(contactId) ?? { wonAmount: 0, openAmount: 0, wonCount: 0, openCount: 0 }
+    if (status === "won") {
+      contactTotals.wonAmount += getDealAmount(deal)
+      contactTotals.wonCount++
+    } else {
+      contactTotals.openAmount += getDealAmount(deal)
+      contactTotals.openCount++
+    }
+    totals.set(contactId, contactTotals)
+  })
+
+  return totals
+}
@@ -0,0 +1,426 @@
+import { randomUUID } from "crypto"
+import { readFileSync } from "fs"
+import type { FakeHubSpotFixtures, FakeHubSpotRecord } from "@/lib/fake-hubspot-fixtures"
+import { syntheticFixtures, type SyntheticCrmOptions } from "@/lib/synthetic-crm"
+
+// A stand-in for the slice of the HubSpot API the sync uses, served by app/api/fake-hubspot in development.
+// Point HUBSPOT_BASE_URL at it and the app (or an integration test) talks to seeded fixtures instead of a portal.
+
+export interface FakeHubSpotLimits {
+  perTenSeconds: number // HubSpot's rolling 10-second budget for private apps
+  searchPerSecond: number // The Search API has its own, much smaller budget
+  daily: number
+}
+
+export interface FakeHubSpotResetOptions {
+  fixtures?: FakeHubSpotFixtures
+  generate?: SyntheticCrmOptions
+  limits?: Partial<FakeHubSpotLimits>
+}
+
+export interface FakeHubSpotResponse {
+  status: number
+  body: unknown
+  headers: Record<string, string>
+}
+
+type ObjectType = "contacts" | "companies" | "deals"
+
+const OBJECT_TYPES: ObjectType[] = ["contacts", "companies", "deals"]
+const DEFAULT_LIMITS: FakeHubSpotLimits = { perTenSeconds: 100, searchPerSecond: 5, daily: 250_000 }
+// The same caps the real API enforces, so paging bugs show up here first
+const MAX_PAGE_SIZE = { list: 100, search: 200, batch: 100, owners: 500 }
+const SEARCH_RESULT_CAP = 10_000
+
+const MODIFIED_PROPERTY: Record<ObjectType, string> = {
+  contacts: "lastmodifieddate",
+  companies: "hs_lastmodifieddate",
+  deals: "hs_lastmodifieddate",
+}
+const DEFAULT_PROPERTIES: Record<ObjectType, string[]> = {
+  contacts: ["firstname", "lastname", "email"],
+  companies: ["name", "domain"],
+  deals: ["dealname", "amount", "dealstage", "pipeline", "closedate"],
+}
+// The getPage associations parameter takes singular or plural names; responses always use the plural
+const PLURAL_TYPES: Record<string, ObjectType> = { contact: "contacts", company: "companies", deal: "deals" }
+const SINGULAR_TYPES: Record<ObjectType, string> = { contacts: "contact", companies: "company", deals: "deal" }
+
+type Filter = { propertyName: string; operator: string; value?: string; highValue?: string; values?: string[] }
+type SearchRequest = {
+  filterGroups?: Array<{ filters: Filter[] }>
+  sorts?: Array<string | { propertyName: string; direction?: string }>
+  properties?: string[]
+  limit?: number
+  after?: string
+}
+
+class FakeHubSpotError extends Error {
+  constructor(
+    readonly status: number,
+    readonly category: string,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+// Dates are stored as ISO strings but filtered with epoch milliseconds, so both sides are normalised
+function comparable(value: string | null | undefined): number | string | null {
+  if (value === null || value === undefined || value === "") return null
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value)
+  const time = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : NaN
+  return isNaN(time) ? value.toLowerCase() : time
+}
+
+function matchesFilter(properties: Record<string, string | null>, filter: Filter): boolean {
+  const actual = comparable(properties[filter.propertyName])
+  const expected = comparable(filter.value)
+  switch (filter.operator) {
+    case "HAS_PROPERTY":
+      return actual !== null
+    case "NOT_HAS_PROPERTY":
+      return actual === null
+    case "EQ":
+      return actual === expected
+    case "NEQ":
+      return actual !== expected
+    case "IN":
+      return (filter.values ?? []).some((value) => comparable(value) === actual)
+    case "NOT_IN":
+      return !(filter.values ?? []).some((value) => comparable(value) === actual)
+    case "CONTAINS_TOKEN":
+      return typeof actual === "string" && typeof expected === "string" && actual.includes(expected.replace(/\*/g, ""))
+  }
+  if (actual === null || expected === null) return false
+  switch (filter.operator) {
+    case "GT":
+      return actual > expected
+    case "GTE":
+      return actual >= expected
+    case "LT":
+      return actual < expected
+    case "LTE":
+      return actual <= expected
+    case "BETWEEN": {
+      const high = comparable(filter.highValue)
+      return high !== null && actual >= expected && actual <= high
+    }
+  }
+  throw new FakeHubSpotError(400, "VALIDATION_ERROR", `Unsupported filter operator ${filter.operator}`)
+}
+
+function compareValues(a: number | string | null, b: number | string | null): number {
+  if (a === b) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  return a < b ? -1 : 1
+}
+
+const pageSize = (requested: unknown, fallback: number, max: number) =>
+  Math.min(Math.max(Number(requested) || fallback, 1), max)
+
+// Cursors are offsets, like HubSpot's opaque ones they only need to round-trip through paging.next.after
+const pageOffset = (after: unknown) => Math.max(Number(after) || 0, 0)
+
+function paged<T>(items: T[], offset: number, limit: number, link: string) {
+  const results = items.slice(offset, offset + limit)
+  const next = offset + limit < items.length ? String(offset + limit) : null
+  return { results, paging: next ? { next: { after: next, link: `${link}?after=${next}` } } : undefined }
+}
+
+const listParam = (query: URLSearchParams, name: string): string[] =>
+  query.getAll(name).flatMap((value) => value.split(",")).map((value) => value.trim()).filter(Boolean)
+
+export class FakeHubSpot {
+  private records = {} as Record<ObjectType, Map<string, FakeHubSpotRecord>>
+  private fixtures!: FakeHubSpotFixtures
+  private limits = DEFAULT_LIMITS
+  private recentRequests: number[] = []
+  private recentSearches: number[] = []
+  private dailyCount = 0
+
+  constructor(options: FakeHubSpotResetOptions = {}) {
+    this.reset(options)
+  }
+
+  reset({ fixtures, generate, limits }: FakeHubSpotResetOptions = {}) {
+    this.fixtures = fixtures ?? syntheticFixtures(generate)
+    OBJECT_TYPES.forEach((type) => {
+      this.records[type] = new Map(this.fixtures[type].map((record) => [record.id, record]))
+    })
+    // Unset limits keep their defaults
+    const overrides = Object.entries(limits ?? {}).filter(([, value]) => typeof value === "number" && value > 0)
+    this.limits = { ...DEFAULT_LIMITS, ...Object.fromEntries(overrides) }
+    this.recentRequests = []
+    this.recentSearches = []
+    this.dailyCount = 0
+  }
+
+  counts() {
+    return {
+      owners: this.fixtures.owners.length,
+      contacts: this.records.contacts.size,
+      companies: this.records.companies.size,
+      deals: this.records.deals.size,
+    }
+  }
+
+  handle(method: string, path: string, query: URLSearchParams, body: any, authorization: string | null): FakeHubSpotResponse {
+    try {
+      if (method === "POST" && path === "/_fake/reset") {
+        try {
+          this.reset(body ?? {})
+        } catch (e: any) {
+          throw new FakeHubSpotError(400, "VALIDATION_ERROR", e?.message || "Invalid reset options")
+        }
+        return { status: 200, body: { counts: this.counts(), limits: this.limits }, headers: {} }
+      }
+      if (!authorization?.startsWith("Bearer ")) {
+        throw new FakeHubSpotError(401, "INVALID_AUTHENTICATION", "Authentication credentials not found.")
+      }
+
+      const isSearch = method === "POST" && /^\/crm\/v3\/objects\/\w+\/search$/.test(path)
+      const limited = this.checkRateLimit(isSearch)
+      if (limited) return limited
+      return { status: 200, body: this.route(method, path, query, body), headers: this.rateLimitHeaders(isSearch) }
+    } catch (e) {
+      if (!(e instanceof FakeHubSpotError)) throw e
+      return {
+        status: e.status,
+        body: { status: "error", message: e.message, correlationId: randomUUID(), category: e.category },
+        headers: {},
+      }
+    }
+  }
+
+  private route(method: string, path: string, query: URLSearchParams, body: any): unknown {
+    let match: RegExpMatchArray | null
+    if (method === "GET" && (match = path.match(/^\/crm\/v3\/objects\/(\w+)$/))) {
+      return this.listObjects(this.objectType(match[1]), query)
+    }
+    if (method === "POST" && (match = path.match(/^\/crm\/v3\/objects\/(\w+)\/search$/))) {
+      return this.search(this.objectType(match[1]), body ?? {})
+    }
+    if (method === "POST" && (match = path.match(/^\/crm\/v3\/objects\/(\w+)\/batch\/read$/))) {
+      return this.batchRead(this.objectType(match[1]), body ?? {})
+    }
+    if (method === "GET" && /^\/crm\/v3\/owners\/?$/.test(path)) {
+      return this.listOwners(query)
+    }
+    if (method === "POST" && (match = path.match(/^\/crm\/v4\/associations\/(\w+)\/(\w+)\/batch\/read$/))) {
+      return this.readAssociations(this.objectType(match[1]), this.objectType(match[2]), body ?? {})
+    }
+    if (method === "GET" && (match = path.match(/^\/crm\/v3\/pipelines\/(\w+)$/))) {
+      return { results: match[1] === "deals" ? this.fixtures.pipelines.map((pipeline) => this.toPipeline(pipeline)) : [] }
+    }
+    throw new FakeHubSpotError(404, "OBJECT_NOT_FOUND", `The fake HubSpot API does not implement ${method} ${path}`)
+  }
+
+  private objectType(name: string): ObjectType {
+    const type = PLURAL_TYPES[name] ?? name
+    if (!OBJECT_TYPES.includes(type as ObjectType)) {
+      throw new FakeHubSpotError(400, "VALIDATION_ERROR", `Unknown object type ${name}`)
+    }
+    return type as ObjectType
+  }
+
+  // --- Objects ---
+  private toObject(type: ObjectType, record: FakeHubSpotRecord, properties: string[], associations: ObjectType[] = []) {
+    const selected: Record<string, string | null> = { hs_object_id: record.id }
+    const requested = properties.length > 0 ? properties : DEFAULT_PROPERTIES[type]
+    for (const property of [...requested, "createdate", MODIFIED_PROPERTY[type]]) {
+      if (property in record.properties) selected[property] = record.properties[property]
+    }
+    const createdAt = record.properties.createdate ?? new Date(0).toISOString()
+    const object: Record<string, unknown> = {
+      id: record.id,
+      properties: selected,
+      createdAt,
+      updatedAt: record.properties[MODIFIED_PROPERTY[type]] ?? createdAt,
+      archived: false,
+    }
+    const withIds = associations.filter((to) => (record.associations[to] ?? []).length > 0)
+    if (withIds.length > 0) {
+      object.associations = Object.fromEntries(
+        withIds.map((to) => [
+          to,
+          { results: record.associations[to].map((id) => ({ id, type: `${SINGULAR_TYPES[type]}_to_${SINGULAR_TYPES[to]}` })) },
+        ]),
+      )
+    }
+    return object
+  }
+
+  private listObjects(type: ObjectType, query: URLSearchParams) {
+    const properties = listParam(query, "properties")
+    const associations = listParam(query, "associations").map((name) => this.objectType(name))
+    const records = Array.from(this.records[type].values())
+    const page = paged(records, pageOffset(query.get("after")), pageSize(query.get("limit"), 10, MAX_PAGE_SIZE.list), `/crm/v3/objects/${type}`)
+    return { ...page, results: page.results.map((record) => this.toObject(type, record, properties, associations)) }
+  }
+
+  private search(type: ObjectType, request: SearchRequest) {
+    const limit = pageSize(request.limit, 10, MAX_PAGE_SIZE.search)
+    const offset = pageOffset(request.after)
+    if (offset + limit > SEARCH_RESULT_CAP) {
+      throw new FakeHubSpotError(400, "VALIDATION_ERROR", `Search results are capped at ${SEARCH_RESULT_CAP}`)
+    }
+
+    const groups = request.filterGroups ?? []
+    const matches = Array.from(this.records[type].values()).filter(
+      (record) =>
+        groups.length === 0 || groups.some((group) => group.filters.every((filter) => matchesFilter(record.properties, filter))),
+    )
+    const sorts = (request.sorts ?? []).map((sort) =>
+      typeof sort === "string" ? { propertyName: sort, direction: "ASCENDING" } : sort,
+    )
+    if (sorts.length === 0) sorts.push({ propertyName: "hs_object_id", direction: "ASCENDING" })
+    matches.sort((a, b) => {
+      for (const sort of sorts) {
+        const value = (record: FakeHubSpotRecord) =>
+          comparable(sort.propertyName === "hs_object_id" ? record.id : record.properties[sort.propertyName])
+        const order = compareValues(value(a), value(b))
+        if (order !== 0) return sort.direction === "DESCENDING" ? -order : order
+      }
+      return 0
+    })
+
+    const page = paged(matches, offset, limit, `/crm/v3/objects/${type}/search`)
+    return {
+      total: matches.length,
+      ...page,
+      results: page.results.map((record) => this.toObject(type, record, request.properties ?? [])),
+    }
+  }
+
+  private batchRead(type: ObjectType, request: { inputs?: Array<{ id: string }>; properties?: string[] }) {
+    const inputs = request.inputs ?? []
+    if (inputs.length > MAX_PAGE_SIZE.batch) {
+      throw new FakeHubSpotError(400, "VALIDATION_ERROR", `Batch reads take at most ${MAX_PAGE_SIZE.batch} inputs`)
+    }
+    const startedAt = new Date().toISOString()
+    const results = inputs
+      .map((input) => this.records[type].get(String(input.id)))
+      .filter((record): record is FakeHubSpotRecord => !!record)
+      .map((record) => this.toObject(type, record, request.properties ?? []))
+    return { status: "COMPLETE", results, startedAt, completedAt: new Date().toISOString() }
+  }
+
+  // --- Owners, associations and pipelines ---
+  private listOwners(query: URLSearchParams) {
+    const email = query.get("email")?.toLowerCase()
+    const owners = this.fixtures.owners.filter((owner) => !email || owner.email === email)
+    const page = paged(owners, pageOffset(query.get("after")), pageSize(query.get("limit"), 100, MAX_PAGE_SIZE.owners), "/crm/v3/owners/")
+    const timestamp = new Date(0).toISOString()
+    return {
+      ...page,
+      results: page.results.map((owner) => ({ ...owner, type: "PERSON", archived: false, createdAt: timestamp, updatedAt: timestamp })),
+    }
+  }
+
+  private readAssociations(from: ObjectType, to: ObjectType, request: { inputs?: Array<{ id: string }> }) {
+    const inputs = request.inputs ?? []
+    if (inputs.length > MAX_PAGE_SIZE.batch * 10) {
+      throw new FakeHubSpotError(400, "VALIDATION_ERROR", `Association reads take at most ${MAX_PAGE_SIZE.batch * 10} inputs`)
+    }
+    const startedAt = new Date().toISOString()
+    const results = inputs.flatMap((input) => {
+      const record = this.records[from].get(String(input.id))
+      const ids = record?.associations[to] ?? []
+      if (ids.length === 0) return []
+      return [
+        {
+          from: { id: record!.id },
+          to: ids.map((id) => ({ toObjectId: id, associationTypes: [{ category: "HUBSPOT_DEFINED", typeId: 1, label: null }] })),
+        },
+      ]
+    })
+    return { status: "COMPLETE", results, startedAt, completedAt: new Date().toISOString() }
+  }
+
+  private toPipeline(pipeline: FakeHubSpotFixtures["pipelines"][number]) {
+    const timestamp = new Date(0).toISOString()
+    const audit = { createdAt: timestamp, updatedAt: timestamp, archived: false }
+    return { ...pipeline, ...audit, stages: pipeline.stages.map((stage) => ({ ...stage, ...audit })) }
+  }
+
+  // --- Rate limits ---
+  // Rolling windows like HubSpot's; a rejected request does not count against the budget
+  private checkRateLimit(isSearch: boolean): FakeHubSpotResponse | null {
+    const now = Date.now()
+    this.recentRequests = this.recentRequests.filter((at) => now - at < 10_000)
+    this.recentSearches = this.recentSearches.filter((at) => now - at < 1_000)
+
+    const reject = (policyName: string, message: string, retryAfterMs: number): FakeHubSpotResponse => ({
+      status: 429,
+      body: { status: "error", message, errorType: "RATE_LIMIT", correlationId: randomUUID(), policyName },
+      headers: { ...this.rateLimitHeaders(isSearch), "retry-after": String(Math.max(1, Math.ceil(retryAfterMs / 1000))) },
+    })
+
+    if (this.dailyCount >= this.limits.daily) {
+      return reject("DAILY", "You have reached your daily limit.", 60_000)
+    }
+    if (isSearch && this.recentSearches.length >= this.limits.searchPerSecond) {
+      return reject("SECONDLY", "You have reached your secondly limit.", 1_000 - (now - this.recentSearches[0]))
+    }
+    if (!isSearch && this.recentRequests.length >= this.limits.perTenSeconds) {
+      return reject("TEN_SECONDLY_ROLLING", "You have reached your ten_secondly_rolling limit.", 10_000 - (now - this.recentRequests[0]))
+    }
+
+    this.dailyCount++
+    if (isSearch) this.recentSearches.push(now)
+    else this.recentRequests.push(now)
+    return null
+  }
+
+  // The Search API does not send the per-interval headers, just as in HubSpot
+  private rateLimitHeaders(isSearch: boolean): Record<string, string> {
+    const headers: Record<string, string> = {
+      "x-hubspot-ratelimit-daily": String(this.limits.daily),
+      "x-hubspot-ratelimit-daily-remaining": String(Math.max(this.limits.daily - this.dailyCount, 0)),
+    }
+    if (isSearch) return headers
+    return {
+      ...headers,
+      "x-hubspot-ratelimit-interval-milliseconds": "10000",
+      "x-hubspot-ratelimit-max": String(this.limits.perTenSeconds),
+      "x-hubspot-ratelimit-remaining": String(Math.max(this.limits.perTenSeconds - this.recentRequests.length, 0)),
+    }
+  }
+}
+
+export function isFakeHubSpotEnabled(): boolean {
+  return process.env.FAKE_HUBSPOT === "1"
+}
+
+// FAKE_HUBSPOT_FIXTURES names a JSON fixtures file; otherwise the portal is generated from FAKE_HUBSPOT_SEED
+// with FAKE_HUBSPOT_CONTACTS contacts
+function initialOptions(): FakeHubSpotResetOptions {
+  const file = process.env.FAKE_HUBSPOT_FIXTURES?.trim()
+  const limit = (name: string) => Number(process.env[name]) || undefined
+  return {
+    fixtures: file ? (JSON.parse(readFileSync(file, "utf8")) as FakeHubSpotFixtures) : undefined,
+    generate: {
+      seed: Number(process.env.FAKE_HUBSPOT_SEED) || undefined,
+      contacts: Number(process.env.FAKE_HUBSPOT_CONTACTS) || undefined,
+    },
+    limits: {
+      perTenSeconds: limit("FAKE_HUBSPOT_RATE_LIMIT"),
+      searchPerSecond: limit("FAKE_HUBSPOT_SEARCH_RATE_LIMIT"),
+      daily: limit("FAKE_HUBSPOT_DAILY_LIMIT"),
+    },
+  }
+}
+
+// On globalThis so the fixtures survive dev-server module reloads, like the sync job registry
+const globalForFakeHubSpot = globalThis as typeof globalThis & { fakeHubSpot?: FakeHubSpot }
+
+export function getFakeHubSpot(): FakeHubSpot {
+  if (!globalForFakeHubSpot.fakeHubSpot) {
+    const options = initialOptions()
+    globalForFakeHubSpot.fakeHubSpot = new FakeHubSpot(options)
+    console.log("🧪 Fake HubSpot API ready:", globalForFakeHubSpot.fakeHubSpot.counts())
+  }
+  return globalForFakeHubSpot.fakeHubSpot
+}
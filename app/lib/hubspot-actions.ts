@@ -1,83 +1,118 @@
 "use server"
 
-import { Client } from "@hubspot/api-client"
-import type { SimplePublicObject } from "@hubspot/api-client/lib/codegen/crm/companies"
-import type { AccountData, ProcessedData } from "@/lib/types"
+import type {
+  AccountData,
+  ColumnMapping,
+  DataSnapshot,
+  ImportPreview,
+  ImportProfile,
+  MetricSnapshot,
+  PortalList,
+  ProcessedData,
+  QualificationRules,
+  SnapshotComparison,
+  StoredCompany,
+  StoredContact,
+  StoredOwner,
+  SyncMetadata,
+  SyncRun,
+  SyncSchedule,
+  SyncScheduleStatus,
+} from "@/lib/types"
+import { getCrmRepository } from "@/app/lib/crm-repository"
+import { attributeDealsToContacts, type ContactDealTotals } from "@/app/lib/deal-attribution"
+import { getSyncJobs } from "@/app/lib/sync-jobs"
+import { startSyncJob } from "@/app/lib/sync-runner"
+import {
+  activePortalId,
+  portalList,
+  PORTAL_COOKIE,
+  PORTAL_COOKIE_OPTIONS,
+} from "@/app/lib/portals"
+import { getSyncRunStore } from "@/app/lib/sync-history"
+import { getMetricSnapshotStore } from "@/app/lib/metric-snapshot-store"
+import { getSyncScheduler, startSyncSchedule } from "@/app/lib/sync-schedule"
+import { parseCron } from "@/lib/cron"
+import { readCsvTable, type CsvRow, type CsvRowError } from "@/lib/csv"
+import { ValidationReportBuilder } from "@/lib/validation-report"
+import { assignRowAccountKeys, resolveContactAccounts } from "@/lib/account-identity"
+import { runAnalytics } from "@/lib/analytics-engine"
+import {
+  classifyFunnelStage,
+  DEFAULT_QUALIFICATION_RULES,
+  normalizeQualificationRules,
+} from "@/lib/qualification-rules"
+import {
+  DEFAULT_SYNC_SCHEDULE,
+  FISCAL_YEAR_START_KEY,
+  getSettingsStore,
+  loadFiscalYearStartMonth,
+  loadQualificationRules,
+  QUALIFICATION_RULES_KEY,
+  SYNC_SCHEDULE_KEY,
+} from "@/app/lib/settings-store"
+import { isValidFiscalYearStartMonth } from "@/lib/date-presets"
+import { mapRowToAccountData, missingRequiredFields, parseImportDate, suggestColumnMapping } from "@/lib/column-mapping"
+import { readImportFile } from "@/app/lib/import-files"
+import { getImportStore } from "@/app/lib/import-store"
+import { cookies } from "next/headers"
 import fs from 'fs'
 import path from 'path'
 
-// --- Helper functions (previously in improved-number-handling.ts) ---
-const parseCurrency = (value: string | number | null | undefined): number => {
-  if (typeof value === "number") return !isNaN(value) && isFinite(value) ? value : 0
-  if (!value) return 0
-  const cleaned = String(value).replace(/[$,\s]/g, "")
-  const num = Number.parseFloat(cleaned)
-  return !isNaN(num) && isFinite(num) ? num : 0
+// Keeps accounts created inside the range; with a range set, accounts without a creation date are dropped
+function filterAccountsByDateCreated(accounts: AccountData[], startDate?: Date, endDate?: Date): AccountData[] {
+  if (!startDate && !endDate) return accounts
+  return accounts.filter((account) => {
+    const accountDate = parseImportDate(account["Date Created"])
+    if (!accountDate) return false
+    if (startDate && accountDate < startDate) return false
+    if (endDate && accountDate > endDate) return false
+    return true
+  })
 }
 
-const calculateAverage = (arr: number[]): number => {
-  if (arr.length === 0) return 0
-  const sum = arr.reduce((acc, val) => acc + val, 0)
-  return sum / arr.length
+// Shared by the bundled CSV and uploaded files; the report covers every source row, not just those in range
+function processMappedRows(
+  rows: CsvRow[],
+  parseErrors: CsvRowError[],
+  mapping: ColumnMapping,
+  report: ValidationReportBuilder,
+  rules: QualificationRules,
+  startDate?: Date,
+  endDate?: Date,
+): ProcessedData {
+  parseErrors.forEach((error) => report.add(`line ${error.line}`, "Row", error.message, "Row skipped"))
+  // Keys are resolved over the whole file so an account's identity does not depend on the date range
+  const accounts = filterAccountsByDateCreated(
+    assignRowAccountKeys(rows.map((row) => mapRowToAccountData(row, mapping, report))),
+    startDate,
+    endDate,
+  )
+  return {
+    ...runAnalytics(accounts, rules),
+    validationReport: report.build(rows.length + parseErrors.length),
+  }
 }
 
 // Add CSV processing function
-function processCSVData(startDate?: Date, endDate?: Date): ProcessedData {
+async function processCSVData(rules: QualificationRules, startDate?: Date, endDate?: Date): Promise<ProcessedData> {
   try {
     const csvPath = path.join(process.cwd(), 'public', 'comma delimited.csv')
-    const csvContent = fs.readFileSync(csvPath, 'utf-8')
-    const lines = csvContent.split('\n').filter(line => line.trim())
-    const headers = lines[0].split(',').map(h => h.replace(/"/g, '').trim())
-    
-    console.log('📊 Processing CSV data with', lines.length - 1, 'accounts')
-    
-    const accounts: AccountData[] = []
-    
-    for (let i = 1; i < lines.length; i++) {
-      const values = parseCSVLine(lines[i])
-      if (values.length < headers.length) continue
-      
-      const account: any = {}
-      headers.forEach((header, index) => {
-        account[header] = values[index]?.replace(/"/g, '').trim() || ''
-      })
-      
-      // Parse the date created
-      const dateCreated = account['Date Created']
-      let accountDate: Date | null = null
-      if (dateCreated) {
-        // Handle MM/DD/YYYY format
-        const [month, day, year] = dateCreated.split('/')
-        if (month && day && year) {
-          accountDate = new Date(parseInt(year), parseInt(month) - 1, parseInt(day))
-        }
-      }
-      
-      // Apply date filtering
-      if (startDate || endDate) {
-        if (!accountDate) continue
-        if (startDate && accountDate < startDate) continue
-        if (endDate && accountDate > endDate) continue
-      }
-      
-      // Convert to AccountData format
-      const accountData: AccountData = {
-        "Account ID": parseInt(account['Account ID']) || 0,
-        "Account Name": account['Account Name'] || 'Unknown Account',
-        "Address": account['Address'] || 'N/A',
-        "Total Sales": account['Total Sales'] || '$0',
-        "Date Created": accountDate ? accountDate.toLocaleDateString() : 'N/A',
-        "Date Last Quoted": account['Date Last Quoted'] || 'N/A',
-        "Primary Rep Name": account['Primary Rep Name'] || 'N/A',
-        "Lifecycle Stage": determineLifecycleStage(parseCurrency(account['Total Sales']))
-      }
-      
-      accounts.push(accountData)
+    const { headers, rows, errors } = await readCsvTable(fs.createReadStream(csvPath, { encoding: 'utf-8' }))
+
+    console.log('📊 Processing CSV data with', rows.length, 'accounts')
+    if (errors.length > 0) {
+      console.warn(`⚠️ Skipped ${errors.length} malformed CSV rows:`)
+      errors.forEach((error) => console.warn(`   line ${error.line}: ${error.message}`))
     }
+
+    // The bundled export already uses AccountData header names
+    const report = new ValidationReportBuilder("csv", path.basename(csvPath))
+    const processed = processMappedRows(rows, errors, suggestColumnMapping(headers), report, rules, startDate, endDate)
+
+    console.log('✅ CSV processing complete:', processed.totalContacts, 'rows after date filtering')
     
-    console.log('✅ CSV processing complete:', accounts.length, 'accounts after date filtering')
-    
-    return processAccountDataInternal(accounts)
+    return processed
     
   } catch (error) {
     console.error('❌ Error processing CSV data:', error)
@@ -85,49 +120,44 @@ function processCSVData(startDate?: Date, endDate?: Date): ProcessedData {
   }
 }
 
-// Helper function to parse CSV line properly handling quoted values
-function parseCSVLine(line: string): string[] {
-  const result: string[] = []
-  let current = ''
-  let inQuotes = false
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i]
-    
-    if (char === '"') {
-      inQuotes = !inQuotes
-    } else if (char === ',' && !inQuotes) {
-      result.push(current)
-      current = ''
-    } else {
-      current += char
-    }
+// Placeholder value per lifecycle stage, only used when no deals have been synced
+function estimateLeadValue(lifecycleStage: string): string {
+  switch (lifecycleStage.toLowerCase()) {
+    case 'customer':
+      return "25000" // Customers have highest value
+    case 'salesqualifiedlead':
+    case 'sql':
+      return "10000" // SQLs have high potential value
+    case 'marketingqualifiedlead':
+    case 'mql':
+      return "5000" // MQLs have medium potential value
+    case 'lead':
+      return "2000" // Basic leads have lower potential value
+    case 'subscriber':
+      return "500" // Subscribers have minimal value
+    default:
+      return "1000" // Default for unknown stages
   }
-  
-  result.push(current)
-  return result
 }
 
-// Helper function to determine lifecycle stage based on sales amount
-function determineLifecycleStage(salesAmount: number): string {
-  if (salesAmount > 50000) return 'customer'
-  if (salesAmount > 10000) return 'salesqualifiedlead'
-  if (salesAmount > 0) return 'marketingqualifiedlead'
-  return 'lead'
-}
+const ownerName = (owner: StoredOwner) => `${owner.firstName || ""} ${owner.lastName || ""}`.trim()
 
 function transformHubSpotDataToAccountData(
-  contacts: any[],
-  companiesMap: Map<string, SimplePublicObject>,
-  ownersMap: Map<string, any>,
+  contacts: StoredContact[],
+  companiesMap: Map<string, StoredCompany>,
+  ownersMap: Map<string, StoredOwner>,
+  dealTotals: Map<string, ContactDealTotals> | null,
+  rules: QualificationRules,
   startDate?: Date,
   endDate?: Date,
+  report?: ValidationReportBuilder,
 ): AccountData[] {
+  const identities = resolveContactAccounts(contacts, companiesMap)
   return contacts
-    .filter((contact: any) => {
+    .filter((contact) => {
       // Filter by date range if provided
       if (startDate || endDate) {
-        const companyId = contact.associations?.companies?.results?.[0]?.id
+        const companyId = contact.companyIds[0]
         const company = companyId ? companiesMap.get(companyId) : null
         
         // Try to get creation date from contact
@@ -148,55 +178,57 @@ function transformHubSpotDataToAccountData(
       }
       return true
     })
-    .map((contact: any) => {
-      const companyId = contact.associations?.companies?.results?.[0]?.id
-      const company = companyId ? companiesMap.get(companyId) : null
+    .map((contact) => {
+      const record = `contact ${contact.id}`
+      const flag = (field: string, problem: string, fallback: string) => report?.add(record, field, problem, fallback)
+
+      const identity = identities.get(contact.id)!
+      const companyId = contact.companyIds[0]
+      const company = identity.companyId ? companiesMap.get(identity.companyId) : null
+      if (companyId && !companiesMap.has(companyId)) {
+        flag("Company", `Associated company ${companyId} is not in the store`, company ? "Matched company" : "Contact fields")
+      }
       const ownerId = contact.properties.hubspot_owner_id
       const owner = ownerId ? ownersMap.get(ownerId) : null
 
       // Create contact name
       const contactName = `${contact.properties?.firstname || ''} ${contact.properties?.lastname || ''}`.trim()
       const accountName = company?.properties.name || contact.properties?.company || contactName || "Unknown Account"
+      if (!company?.properties.name && !contact.properties?.company) {
+        flag("Account Name", "No company name on the contact or its company", contactName ? "Contact name" : "Unknown Account")
+      }
       
       // Get the lifecycle stage from HubSpot
       const lifecycleStage = contact.properties?.lifecyclestage || "unknown"
+      if (!contact.properties?.lifecyclestage) flag("Lifecycle Stage", "Missing", "unknown")
       
-      // Assign estimated value based on lifecycle stage (more realistic for leads)
-      let leadValue = "0"
-      switch (lifecycleStage.toLowerCase()) {
-        case 'customer':
-          leadValue = "25000" // Customers have highest value
-          break
-        case 'salesqualifiedlead':
-        case 'sql':
-          leadValue = "10000" // SQLs have high potential value
-          break
-        case 'marketingqualifiedlead':
-        case 'mql':
-          leadValue = "5000" // MQLs have medium potential value
-          break
-        case 'lead':
-          leadValue = "2000" // Basic leads have lower potential value
-          break
-        case 'subscriber':
-          leadValue = "500" // Subscribers have minimal value
-          break
-        default:
-          leadValue = "1000" // Default for unknown stages
-      }
+      // Real deal amounts when the portal has deals; otherwise a lifecycle-stage placeholder labelled as estimated
+      const deals = dealTotals?.get(contact.id) ?? { wonAmount: 0, openAmount: 0, wonCount: 0, openCount: 0 }
+      const salesFields = dealTotals
+        ? {
+            "Total Sales": String(deals.wonAmount),
+            "Open Pipeline": String(deals.openAmount),
+            "Won Deal Count": deals.wonCount,
+            "Open Deal Count": deals.openCount,
+            "Sales Source": "deals" as const,
+          }
+        : { "Total Sales": estimateLeadValue(lifecycleStage), "Sales Source": "estimated" as const }
 
-      let dateCreated = "N/A"
-      if (contact.properties.createdate) {
-        dateCreated = new Date(contact.properties.createdate).toLocaleDateString("en-US")
-      } else if (company?.properties.createdate) {
-        dateCreated = new Date(company.properties.createdate).toLocaleDateString("en-US")
-      }
+      const rawCreated = contact.properties.createdate || company?.properties.createdate
+      const created = rawCreated ? new Date(rawCreated) : null
+      const dateCreated = created && !isNaN(created.getTime()) ? created.toLocaleDateString("en-US") : "N/A"
+      if (!rawCreated) flag("Date Created", "No createdate on the contact or its company", "N/A")
+      else if (dateCreated === "N/A") flag("Date Created", `Unparseable date: "${rawCreated}"`, "N/A")
+
+      const lastModified = contact.properties.lastmodifieddate ? new Date(contact.properties.lastmodifieddate) : null
+      const dateLastQuoted =
+        lastModified && !isNaN(lastModified.getTime()) ? lastModified.toLocaleDateString("en-US") : "N/A"
 
-      const dateLastQuoted = contact.properties.lastmodifieddate
-        ? new Date(contact.properties.lastmodifieddate).toLocaleDateString("en-US")
-        : "N/A"
+      const primaryRepName = owner ? ownerName(owner) || "N/A" : "N/A"
+      if (!ownerId) flag("Primary Rep Name", "No HubSpot owner assigned", "N/A")
+      else if (!owner) flag("Primary Rep Name", `Owner ${ownerId} not found in HubSpot owners`, "N/A")
+      else if (primaryRepName === "N/A") flag("Primary Rep Name", `Owner ${ownerId} has no name`, "N/A")
 
-      const primaryRepName = owner ? `${owner.firstName || ""} ${owner.lastName || ""}`.trim() || "N/A" : "N/A"
 
       let address = "N/A"
       if (company?.properties) {
@@ -220,14 +252,17 @@ function transformHubSpotDataToAccountData(
       const numPageViews = contact.properties?.hs_analytics_num_page_views || "0"
 
       return {
-        "Account ID": Number.parseInt(company?.id || contact.id, 10) || Math.floor(Math.random() * 1000000),
+        "Account ID": identity.accountId,
+        "Account Key": identity.key,
+        "Record ID": contact.id,
         "Account Name": accountName,
         Address: address,
-        "Total Sales": leadValue,
+        ...salesFields,
         "Date Created": dateCreated,
         "Date Last Quoted": dateLastQuoted,
         "Primary Rep Name": primaryRepName,
         "Lifecycle Stage": lifecycleStage,
+        "Funnel Stage": classifyFunnelStage(contact.properties, rules) ?? undefined,
         // Source and attribution data
         "Analytics Source": analyticsSource,
         "Latest Source": latestSource,
@@ -243,815 +278,269 @@ function transformHubSpotDataToAccountData(
     })
 }
 
-const KNOWN_BRANDS_HS = ["Hospeco", "Indoff", "Triad", "Impact", "Legacy", "Acme", "Supply", "Corp", "LLC", "Inc"]
-function extractBrandFromAccountNameHS(accountName: string): string {
-  const lowerCaseName = accountName.toLowerCase()
-  for (const brand of KNOWN_BRANDS_HS) {
-    if (lowerCaseName.includes(brand.toLowerCase())) {
-      if (
-        ["LLC", "Inc", "Corp", "Group", "Brands"].includes(brand) &&
-        lowerCaseName.split(brand.toLowerCase())[0].trim()
-      ) {
-        const potentialBrand = accountName
-          .substring(0, lowerCaseName.indexOf(brand.toLowerCase()))
-          .trim()
-          .replace(/,$/, "")
-          .trim()
-        if (potentialBrand) return potentialBrand
-      }
-      return brand
-    }
-  }
-  const words = accountName.split(/[\s,]+/)
-  if (words.length > 0 && words[0].length > 2 && !["The", "A", "An"].includes(words[0])) return words[0]
-  return "Other"
-}
-
-function processAccountDataInternal(data: AccountData[]): ProcessedData {
-  const processed: ProcessedData = {
-    totalAccounts: data.length,
-    totalRevenue: 0,
-    averageDealSize: 0,
-    salesByRep: {},
-    salesDistribution: { Negative: 0, "$0-$1K": 0, "$1K-$5K": 0, "$5K-$10K": 0, "$10K-$25K": 0, "$25K+": 0 },
-    monthlyTrends: [],
-    topStates: {},
-    recentlyQuoted: 0,
-    salesByBrand: {},
-    topPerformingAccounts: [],
-    leastPerformingAccounts: [],
-    allAccounts: data,
-    lifecycleStageDistribution: {},
-    // Initialize new analytics properties
-    trafficSourcePerformance: {},
-    geographicDistribution: {},
-    leadHealthScores: [],
-    campaignPerformance: {},
-    timeBasedInsights: {
-      peakActivityHours: [],
-      seasonalTrends: [],
-      responseTimeMetrics: { avgResponseTime: 0, fastResponders: [], slowResponders: [] }
-    },
-    landingPagePerformance: {},
-  }
-
-  let totalSalesValue = 0
-  const validSales: number[] = []
-
-  data.forEach((row) => {
-    const sales = parseCurrency(row["Total Sales"])
-    if (!isFinite(sales) || isNaN(sales) || Math.abs(sales) > 1e12) return
-
-    const rep = row["Primary Rep Name"] || "N/A"
-    const brand = extractBrandFromAccountNameHS(row["Account Name"])
-    const lifecycleStage = row["Lifecycle Stage"] || "unknown"
-
-    totalSalesValue += sales
-    if (sales > 0 && isFinite(sales) && Math.abs(sales) < 1e12) validSales.push(sales)
-
-    // Count lifecycle stages
-    if (!processed.lifecycleStageDistribution[lifecycleStage]) {
-      processed.lifecycleStageDistribution[lifecycleStage] = 0
-    }
-    processed.lifecycleStageDistribution[lifecycleStage]++
-
-    if (!processed.salesByRep[rep]) processed.salesByRep[rep] = { sales: 0, accounts: 0 }
-    processed.salesByRep[rep].sales += sales
-    processed.salesByRep[rep].accounts += 1
-
-    if (!processed.salesByBrand[brand]) processed.salesByBrand[brand] = { sales: 0, accounts: 0 }
-    processed.salesByBrand[brand].sales += sales
-    processed.salesByBrand[brand].accounts += 1
+// Recomputes analytics from a portal's mirrored contacts, applying the date range in the store query
+async function processStoredContacts(
+  portalId: string,
+  startDate?: Date,
+  endDate?: Date,
+): Promise<ProcessedData> {
+  const repository = getCrmRepository(portalId)
+  const rules = loadQualificationRules(portalId)
+  const storedCount = repository.countContacts()
 
-    if (sales < 0) processed.salesDistribution["Negative"]++
-    else if (sales <= 1000) processed.salesDistribution["$0-$1K"]++
-    else if (sales <= 5000) processed.salesDistribution["$1K-$5K"]++
-    else if (sales <= 10000) processed.salesDistribution["$5K-$10K"]++
-    else if (sales <= 25000) processed.salesDistribution["$10K-$25K"]++
-    else processed.salesDistribution["$25K+"]++
+  console.log(`📊 Contact store holds ${storedCount} qualified leads (SQLs/MQLs)`)
 
-    const address = row["Address"] || ""
-    const stateMatch = address.match(/\b([A-Z]{2})\b(?=,?\s*\d{5}(-\d{4})?$)/)
-    if (stateMatch) {
-      const state = stateMatch[1]
-      if (!processed.topStates[state]) processed.topStates[state] = { accounts: 0, sales: 0 }
-      processed.topStates[state].accounts += 1
-      processed.topStates[state].sales += sales
-    }
-
-    if (row["Date Last Quoted"] && row["Date Last Quoted"] !== "N/A") {
-      try {
-        const lastQuotedDate = new Date(row["Date Last Quoted"])
-        const ninetyDaysAgo = new Date()
-        ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
-        if (!isNaN(lastQuotedDate.getTime()) && lastQuotedDate > ninetyDaysAgo) {
-          processed.recentlyQuoted += 1
-        }
-      } catch (e) {}
-    }
-  })
+  // Only fall back to CSV if we have absolutely no qualified leads from HubSpot
+  if (storedCount === 0) {
+    console.log('⚠️ No qualified leads found in HubSpot, falling back to CSV data...')
+    return processCSVData(rules, startDate, endDate)
+  }
 
-  processed.totalRevenue = totalSalesValue
-  processed.averageDealSize = calculateAverage(validSales)
+  const filteredLeads = repository.getContacts({ createdFrom: startDate, createdTo: endDate })
 
-  const monthCounts: Record<string, { accounts: number; revenue: number }> = {}
-  data.forEach((row) => {
-    const dateStr = row["Date Created"]
-    if (dateStr && dateStr !== "N/A") {
-      try {
-        const date = new Date(dateStr)
-        if (isNaN(date.getTime())) return
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`
-        if (!monthCounts[monthKey]) monthCounts[monthKey] = { accounts: 0, revenue: 0 }
-        monthCounts[monthKey].accounts += 1
-        monthCounts[monthKey].revenue += parseCurrency(row["Total Sales"])
-      } catch (e) {}
-    }
+  // Show lifecycle stage distribution
+  const lifecycleStages: Record<string, number> = {}
+  filteredLeads.forEach(contact => {
+    const stage = contact.properties.lifecyclestage || 'unknown'
+    lifecycleStages[stage] = (lifecycleStages[stage] || 0) + 1
   })
-  processed.monthlyTrends = Object.entries(monthCounts)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .slice(-12)
-    .map(([month, trendData]) => ({
-      month: new Date(month + "-01").toLocaleDateString("en-US", { month: "short", year: "2-digit" }),
-      accounts: trendData.accounts,
-      revenue: trendData.revenue,
-    }))
+  console.log("📈 Lifecycle stage distribution:", lifecycleStages)
 
-  const sortedAccounts = [...data].sort((a, b) => parseCurrency(b["Total Sales"]) - parseCurrency(a["Total Sales"]))
-  processed.topPerformingAccounts = sortedAccounts.slice(0, 5)
-  processed.leastPerformingAccounts = sortedAccounts
-    .filter((acc) => parseCurrency(acc["Total Sales"]) < 0)
-    .slice(-5)
-    .reverse()
-  if (processed.leastPerformingAccounts.length < 5 && sortedAccounts.length > 0) {
-    const lowestPositive = sortedAccounts
-      .filter((acc) => parseCurrency(acc["Total Sales"]) >= 0)
-      .slice(-(5 - processed.leastPerformingAccounts.length))
-      .reverse()
-    processed.leastPerformingAccounts = [...processed.leastPerformingAccounts, ...lowestPositive]
+  if (startDate || endDate) {
+    console.log(`🔍 Date filtering: ${storedCount} → ${filteredLeads.length} qualified leads`)
   }
 
-  // Calculate traffic source performance
-  data.forEach(account => {
-    const source = normalizeTrafficSource(account["Analytics Source"] || account["Latest Source"] || "Unknown")
-    const revenue = parseCurrency(account["Total Sales"])
-    
-    if (!processed.trafficSourcePerformance[source]) {
-      processed.trafficSourcePerformance[source] = { leads: 0, revenue: 0, conversionRate: 0, avgDealSize: 0 }
-    }
-    
-    processed.trafficSourcePerformance[source].leads++
-    processed.trafficSourcePerformance[source].revenue += revenue
-  })
-
-  // Calculate conversion rates and avg deal sizes for each source
-  Object.keys(processed.trafficSourcePerformance).forEach(source => {
-    const sourceData = processed.trafficSourcePerformance[source]
-    sourceData.avgDealSize = sourceData.leads > 0 ? sourceData.revenue / sourceData.leads : 0
-    
-    const sourceAccounts = data.filter(account => 
-      normalizeTrafficSource(account["Analytics Source"] || account["Latest Source"] || "Unknown") === source
-    )
-    const sqlCount = sourceAccounts.filter(account => 
-      account["Lifecycle Stage"]?.toLowerCase() === 'salesqualifiedlead'
-    ).length
-    sourceData.conversionRate = sourceAccounts.length > 0 ? (sqlCount / sourceAccounts.length) * 100 : 0
-  })
-
-  // Calculate geographic distribution
-  data.forEach(account => {
-    const address = account["Address"] || "Unknown"
-    const stateMatch = address.match(/\b([A-Z]{2})\b(?=,?\s*\d{5}(-\d{4})?$)/)
-    const state = stateMatch ? stateMatch[1] : "Unknown"
-    const revenue = parseCurrency(account["Total Sales"])
-    
-    if (!processed.geographicDistribution[state]) {
-      processed.geographicDistribution[state] = { leads: 0, revenue: 0 }
-    }
-    
-    processed.geographicDistribution[state].leads++
-    processed.geographicDistribution[state].revenue += revenue
-  })
+  // All stored companies, so contacts can be matched to duplicates and same-domain companies
+  const companiesMap = repository.getCompanies()
+  const ownersMap = repository.getOwners()
+  const deals = repository.getDeals()
+  const dealTotals =
+    deals.length > 0 ? attributeDealsToContacts(deals, filteredLeads, repository.getPipelineStages()) : null
+  if (!dealTotals) {
+    console.log("⚠️ No deals synced yet, using lifecycle-stage estimates for sales figures")
+  }
+  const report = new ValidationReportBuilder("hubspot", "HubSpot")
+  const accountDataList = transformHubSpotDataToAccountData(
+    filteredLeads,
+    companiesMap,
+    ownersMap,
+    dealTotals,
+    rules,
+    startDate,
+    endDate,
+    report,
+  )
 
-  // Calculate lead health scores
-  processed.leadHealthScores = data.map(account => {
-    const healthScore = calculateLeadHealthScore(account)
-    const temperature = getLeadTemperature(healthScore)
-    const riskLevel = getLeadRiskLevel(account)
-    
-    return {
-      accountId: account["Account ID"],
-      accountName: account["Account Name"],
-      healthScore,
-      temperature,
-      riskLevel
-    }
-  }).sort((a, b) => b.healthScore - a.healthScore)
+  return {
+    ...runAnalytics(accountDataList, rules),
+    validationReport: report.build(filteredLeads.length),
+    snapshot: currentSnapshot(portalId),
+  }
+}
 
-  // Calculate campaign performance
-  data.forEach(account => {
-    const campaign = account["Last Touch Campaign"] || account["First Touch Campaign"] || ""
-    if (campaign && campaign.trim() && campaign !== "Unknown Campaign") {
-      const revenue = parseCurrency(account["Total Sales"])
-      
-      if (!processed.campaignPerformance[campaign]) {
-        processed.campaignPerformance[campaign] = { leads: 0, revenue: 0 }
-      }
-      
-      processed.campaignPerformance[campaign].leads++
-      processed.campaignPerformance[campaign].revenue += revenue
-    }
-  })
+// The stored data comes from the last completed run, unless it predates the sync history
+function currentSnapshot(portalId: string): DataSnapshot | undefined {
+  const meta = getCrmRepository(portalId).getSyncMetadata()
+  if (!meta.lastSyncAt) return undefined
+  const run = getSyncRunStore(portalId).latestCompleted()
+  const producedStore = run && run.startedAt <= meta.lastSyncAt && meta.lastSyncAt <= (run.finishedAt ?? meta.lastSyncAt)
+  return {
+    runId: producedStore ? run.id : null,
+    syncedAt: meta.lastSyncAt,
+    mode: meta.lastSyncMode,
+    trigger: producedStore ? run.trigger : null,
+  }
+}
 
-  // Calculate top landing pages (first URLs visited)
-  const landingPagePerformance: Record<string, { leads: number; revenue: number; avgDealSize: number; sqlCount: number; conversionRate: number }> = {}
-  
-  data.forEach(account => {
-    let firstUrl = account["First URL"] || ""
-    if (firstUrl && firstUrl.trim()) {
-      // Clean and normalize the URL for better grouping
-      try {
-        const url = new URL(firstUrl)
-        const pathname = url.pathname
-        
-        // Group similar pages together
-        let pageName = pathname
-        if (pathname === "/" || pathname === "") {
-          pageName = "Homepage"
-        } else if (pathname.includes("/home")) {
-          pageName = "Home Page"
-        } else if (pathname.includes("/product")) {
-          pageName = "Product Pages"
-        } else if (pathname.includes("/about")) {
-          pageName = "About Us"
-        } else if (pathname.includes("/contact")) {
-          pageName = "Contact Us"
-        } else if (pathname.includes("/blog")) {
-          pageName = "Blog"
-        } else if (pathname.includes("/pricing")) {
-          pageName = "Pricing"
-        } else if (pathname.includes("/demo")) {
-          pageName = "Demo/Trial"
-        } else if (pathname.includes("/case-study") || pathname.includes("/case-studies")) {
-          pageName = "Case Studies"
-        } else if (pathname.includes("/resource")) {
-          pageName = "Resources"
-        } else {
-          // Use the full path but limit length for display
-          pageName = pathname.length > 30 ? pathname.substring(0, 30) + "..." : pathname
-        }
-        
-        const revenue = parseCurrency(account["Total Sales"])
-        const isSQL = account["Lifecycle Stage"]?.toLowerCase() === 'salesqualifiedlead'
-        
-        if (!landingPagePerformance[pageName]) {
-          landingPagePerformance[pageName] = { leads: 0, revenue: 0, avgDealSize: 0, sqlCount: 0, conversionRate: 0 }
-        }
-        
-        landingPagePerformance[pageName].leads++
-        landingPagePerformance[pageName].revenue += revenue
-        if (isSQL) landingPagePerformance[pageName].sqlCount++
-        
-      } catch (e) {
-        // If URL parsing fails, use the raw URL but limit length
-        const shortUrl = firstUrl.length > 40 ? firstUrl.substring(0, 40) + "..." : firstUrl
-        const revenue = parseCurrency(account["Total Sales"])
-        const isSQL = account["Lifecycle Stage"]?.toLowerCase() === 'salesqualifiedlead'
-        
-        if (!landingPagePerformance[shortUrl]) {
-          landingPagePerformance[shortUrl] = { leads: 0, revenue: 0, avgDealSize: 0, sqlCount: 0, conversionRate: 0 }
-        }
-        
-        landingPagePerformance[shortUrl].leads++
-        landingPagePerformance[shortUrl].revenue += revenue
-        if (isSQL) landingPagePerformance[shortUrl].sqlCount++
-      }
-    }
-  })
+// Recomputes the dashboard from the last sync without calling HubSpot, so it also works offline.
+// Defaults to the browser's active portal; background syncs pass the portal they just synced.
+export async function processStoredHubSpotData(
+  startDate?: Date,
+  endDate?: Date,
+  portalId?: string,
+): Promise<ProcessedData | null> {
+  const portal = portalId ?? (await activePortalId())
+  if (!getCrmRepository(portal).getSyncMetadata().lastSyncAt) return null
+  return processStoredContacts(portal, startDate, endDate)
+}
 
-  // Calculate averages and conversion rates for landing pages
-  Object.keys(landingPagePerformance).forEach(page => {
-    const pageData = landingPagePerformance[page]
-    pageData.avgDealSize = pageData.leads > 0 ? pageData.revenue / pageData.leads : 0
-    pageData.conversionRate = pageData.leads > 0 ? (pageData.sqlCount / pageData.leads) * 100 : 0
-  })
+export async function getSyncStatus(): Promise<SyncMetadata> {
+  return getCrmRepository(await activePortalId()).getSyncMetadata()
+}
 
-  // Add landing page performance to processed data
-  processed.landingPagePerformance = landingPagePerformance
+// --- Portals ---
+export async function getPortals(): Promise<PortalList> {
+  return portalList()
+}
 
-  // Calculate peak activity hours (simplified)
-  const hourActivity: Record<number, number> = {}
-  data.forEach(account => {
-    const created = account["Date Created"]
-    if (created && created !== "N/A") {
-      try {
-        const date = new Date(created)
-        const hour = date.getHours()
-        hourActivity[hour] = (hourActivity[hour] || 0) + 1
-      } catch (e) {}
-    }
-  })
+// Remembered per browser in a cookie; the page reloads afterwards so every tab reads the new portal
+export async function switchPortal(portalId: string): Promise<PortalList> {
+  const list = await portalList()
+  if (!list.portals.some((portal) => portal.id === portalId)) throw new Error("That HubSpot portal is not connected")
+  const cookieStore = await cookies()
+  cookieStore.set(PORTAL_COOKIE, portalId, PORTAL_COOKIE_OPTIONS)
+  return { ...list, activePortalId: portalId }
+}
 
-  processed.timeBasedInsights.peakActivityHours = Object.entries(hourActivity)
-    .map(([hour, activity]) => ({ hour: Number(hour), activity }))
-    .sort((a, b) => b.activity - a.activity)
-    .slice(0, 5)
+// --- Background sync jobs ---
+// Starts a sync in the background and returns its job ID; progress streams from /api/sync/<id>/events.
+// If a sync is already running, its ID is returned instead. A full resync is narrowed to the dashboard's
+// date range and rep, when they are set.
+export async function startHubSpotSync(
+  options: { fullResync?: boolean; startDate?: Date; endDate?: Date; repName?: string } = {},
+): Promise<string> {
+  const portalId = await activePortalId()
+  if (!options.fullResync) return startSyncJob(portalId, "incremental", "manual").id
+
+  // The rep filter holds the name the dashboard shows, so it is matched back to the stored owners
+  const ownerIds = options.repName
+    ? Array.from(getCrmRepository(portalId).getOwners().values())
+        .filter((owner) => ownerName(owner) === options.repName)
+        .map((owner) => owner.id)
+    : []
+  return startSyncJob(portalId, "full", "manual", {
+    createdFrom: options.startDate,
+    createdTo: options.endDate,
+    ownerIds,
+  }).id
+}
 
-  // Calculate seasonal trends
-  const monthlyData: Record<string, { leads: number; revenue: number }> = {}
-  data.forEach(account => {
-    const created = account["Date Created"]
-    if (created && created !== "N/A") {
-      try {
-        const date = new Date(created)
-        const monthKey = date.toLocaleDateString("en-US", { month: "short", year: "numeric" })
-        const revenue = parseCurrency(account["Total Sales"])
-        
-        if (!monthlyData[monthKey]) {
-          monthlyData[monthKey] = { leads: 0, revenue: 0 }
-        }
-        
-        monthlyData[monthKey].leads++
-        monthlyData[monthKey].revenue += revenue
-      } catch (e) {}
-    }
-  })
+// Like the progress stream, only the active portal's jobs can be cancelled
+export async function cancelHubSpotSync(jobId: string): Promise<boolean> {
+  const jobs = getSyncJobs()
+  if (jobs.get(jobId)?.portalId !== (await activePortalId())) return false
+  return jobs.cancel(jobId)
+}
 
-  processed.timeBasedInsights.seasonalTrends = Object.entries(monthlyData)
-    .map(([month, data]) => ({ month, ...data }))
-    .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime())
+// --- Metric snapshots ---
+// The snapshot to show deltas against, for data synced at `reference`
+export async function getMetricBaseline(
+  comparison: SnapshotComparison,
+  reference: string,
+): Promise<MetricSnapshot | null> {
+  if (comparison === "none") return null
+  return getMetricSnapshotStore(await activePortalId()).findBaseline(comparison, reference)
+}
 
-  // Calculate response time metrics (simplified)
-  const repsWithLeads: Record<string, number> = {}
-  data.forEach(account => {
-    const rep = account["Primary Rep Name"] || "Unknown"
-    repsWithLeads[rep] = (repsWithLeads[rep] || 0) + 1
-  })
+// --- Sync history and schedule ---
+export async function getSyncHistory(limit = 50): Promise<SyncRun[]> {
+  return getSyncRunStore(await activePortalId()).list(limit)
+}
 
-  const sortedReps = Object.entries(repsWithLeads)
-    .sort(([,a], [,b]) => b - a)
+export async function getSyncSchedule(): Promise<SyncScheduleStatus> {
+  return getSyncScheduler(await activePortalId()).status()
+}
 
-  processed.timeBasedInsights.responseTimeMetrics = {
-    avgResponseTime: 24, // Placeholder
-    fastResponders: sortedReps.slice(0, 3).map(([rep]) => rep),
-    slowResponders: sortedReps.slice(-2).map(([rep]) => rep)
+// Validates both cron expressions, then re-arms the scheduler with them
+export async function saveSyncSchedule(schedule: SyncSchedule): Promise<SyncScheduleStatus> {
+  const normalized: SyncSchedule = {
+    enabled: schedule.enabled,
+    incrementalCron: schedule.incrementalCron.trim() || DEFAULT_SYNC_SCHEDULE.incrementalCron,
+    fullCron: schedule.fullCron.trim() || DEFAULT_SYNC_SCHEDULE.fullCron,
+  }
+  try {
+    parseCron(normalized.incrementalCron)
+  } catch (e: any) {
+    throw new Error(`Incremental schedule: ${e.message}`)
+  }
+  try {
+    parseCron(normalized.fullCron)
+  } catch (e: any) {
+    throw new Error(`Full resync schedule: ${e.message}`)
   }
 
-  return processed
+  const portalId = await activePortalId()
+  getSettingsStore(portalId).save(SYNC_SCHEDULE_KEY, normalized)
+  startSyncSchedule(portalId)
+  return getSyncScheduler(portalId).status()
 }
 
-export async function fetchAndProcessHubSpotData(startDate?: Date, endDate?: Date): Promise<ProcessedData | null> {
-  const apiKey = process.env.HUBSPOT_API_KEY?.trim()
-  
-  if (!apiKey) {
-    throw new Error("HubSpot API key (HUBSPOT_API_KEY) is not configured in environment variables.")
-  }
+// Export CSV processing function for direct use
+export async function fetchAndProcessCSVData(startDate?: Date, endDate?: Date): Promise<ProcessedData> {
+  return processCSVData(loadQualificationRules(await activePortalId()), startDate, endDate)
+}
 
-  const hubspotClient = new Client({ accessToken: apiKey })
+// --- Qualification rules ---
+export async function getQualificationRules(): Promise<QualificationRules> {
+  return loadQualificationRules(await activePortalId())
+}
 
-  try {
-    // Instead of deals, fetch contacts that are SQLs/MQLs
-    const contactProperties = [
-      "firstname", 
-      "lastname", 
-      "email", 
-      "company", 
-      "lifecyclestage", 
-      "lead_status", 
-      "hs_lead_status",
-      "createdate", 
-      "lastmodifieddate",
-      "hubspot_owner_id",
-      "city",
-      "state",
-      "country",
-      "jobtitle",
-      "phone",
-      // Analytics and source tracking properties
-      "hs_analytics_source",
-      "hs_latest_source",
-      "hs_analytics_source_data_1",
-      "hs_analytics_source_data_2", 
-      "hs_latest_source_data_1",
-      "hs_latest_source_data_2",
-      "hs_analytics_first_touch_converting_campaign",
-      "hs_analytics_last_touch_converting_campaign",
-      "hs_analytics_first_url",
-      "hs_analytics_last_url",
-      "hs_analytics_revenue",
-      "hs_analytics_num_visits",
-      "hs_analytics_num_page_views",
-      "hs_analytics_average_page_views",
-      "hs_analytics_first_visit_timestamp",
-      "hs_analytics_last_visit_timestamp",
-      "recent_conversion_event_name",
-      "first_conversion_event_name",
-      "hs_email_last_email_name",
-      "hs_email_last_send_date",
-      "hs_social_last_engagement"
-    ]
-    const companyProperties = ["name", "address", "city", "state", "zip", "createdate"]
+// The next sync notices the changed rules and runs as a full resync so the store matches them
+export async function saveQualificationRules(rules: QualificationRules): Promise<QualificationRules> {
+  const normalized = normalizeQualificationRules(rules)
+  getSettingsStore(await activePortalId()).save(QUALIFICATION_RULES_KEY, normalized)
+  console.log("📐 Saved qualification rules for stages:", normalized.qualifyingStages.join(", "))
+  return normalized
+}
 
-    // Smart approach for 239K customers: Use Search API with date filters
-    let allContacts: any[] = []
-    
-    console.log("🔍 Fetching contacts from HubSpot database (239K total customers)...")
-    
-    // If we have date filters for 2025, use Search API with date filters for efficiency
-    if (startDate && startDate.getFullYear() >= 2025) {
-      console.log("🎯 Using Search API to target 2025+ contacts directly (much faster than paginating 239K records)")
-      
-      try {
-        let after: string | undefined = undefined
-        let pageCount = 0
-        const maxPages = 500 // Increased to ensure we get all 2025 data
-        
-        do {
-          pageCount++
-          console.log(`Searching 2025+ contacts page ${pageCount}...`)
-          
-          const searchRequest = {
-            properties: contactProperties,
-            limit: 100,
-            after: after,
-            filterGroups: [{
-              filters: [{
-                propertyName: "createdate",
-                operator: "GTE",
-                value: startDate.getTime().toString()
-              }]
-            }]
-          }
-          
-          const contactsResponse = await hubspotClient.crm.contacts.searchApi.doSearch(searchRequest)
-          
-          allContacts.push(...contactsResponse.results)
-          after = contactsResponse.paging?.next?.after
-          
-          console.log(`Search page ${pageCount}: Found ${contactsResponse.results.length} contacts`)
-          
-        } while (after && pageCount < maxPages)
-        
-        console.log(`✅ Search API found ${allContacts.length} contacts created since ${startDate.toDateString()}`)
-        
-      } catch (searchError: any) {
-        console.log("⚠️ Search API failed, falling back to basic pagination:", searchError.message)
-        
-        // Fallback to basic pagination with reasonable limits
-        let after: string | undefined = undefined
-        let pageCount = 0
-        const maxPages = 200 // Increased but reasonable for fallback
-        
-        do {
-          pageCount++
-          if (pageCount % 20 === 0) {
-            console.log(`Fallback pagination page ${pageCount}... (${allContacts.length} contacts so far)`)
-          }
-          
-          const contactsResponse = await hubspotClient.crm.contacts.basicApi.getPage(
-            100,
-            after,
-            contactProperties,
-            undefined,
-            ["company"],
-            false
-          )
-          
-          allContacts.push(...contactsResponse.results)
-          after = contactsResponse.paging?.next?.after
-          
-          if (pageCount % 20 === 0 || pageCount <= 10) {
-            console.log(`Fallback page ${pageCount}: Found ${contactsResponse.results.length} contacts`)
-          }
-          
-        } while (after && pageCount < maxPages)
-      }
-      
-    } else {
-      // No date filter or pre-2025 dates, use basic pagination
-      console.log("📄 Using basic pagination (no 2025+ date filter)...")
-      
-      let after: string | undefined = undefined
-      let pageCount = 0
-             const maxPages = 500 // Increased to 50,000 contacts for better 2025 data coverage
-      
-      do {
-        pageCount++
-        if (pageCount % 20 === 0) {
-          console.log(`Fetching contacts page ${pageCount}... (${allContacts.length} contacts so far)`)
-        }
-        
-        const contactsResponse = await hubspotClient.crm.contacts.basicApi.getPage(
-          100,
-          after,
-          contactProperties,
-          undefined,
-          ["company"],
-          false
-        )
-        
-        allContacts.push(...contactsResponse.results)
-        after = contactsResponse.paging?.next?.after
-        
-        if (pageCount % 20 === 0 || pageCount <= 10) {
-          console.log(`Page ${pageCount}: Found ${contactsResponse.results.length} contacts`)
-        }
-        
-      } while (after && pageCount < maxPages)
-    }
-    
-    console.log(`✅ Total contacts found: ${allContacts.length}`)
-    
-    // Note: Detailed pagination info logged during fetch process above
-    
-    // Filter for SQLs and MQLs
-    const qualifiedLeads = allContacts.filter(contact => {
-      const lifecycleStage = contact.properties?.lifecyclestage?.toLowerCase()
-      const leadStatus = contact.properties?.lead_status?.toLowerCase()
-      const hsLeadStatus = contact.properties?.hs_lead_status?.toLowerCase()
-      
-      return (
-        lifecycleStage === 'salesqualifiedlead' ||
-        lifecycleStage === 'marketingqualifiedlead' ||
-        lifecycleStage === 'sql' ||
-        lifecycleStage === 'mql' ||
-        leadStatus === 'sales qualified lead' ||
-        leadStatus === 'marketing qualified lead' ||
-        leadStatus === 'sql' ||
-        leadStatus === 'mql' ||
-        hsLeadStatus === 'sales qualified lead' ||
-        hsLeadStatus === 'marketing qualified lead' ||
-        hsLeadStatus === 'sql' ||
-        hsLeadStatus === 'mql'
-      )
-    })
-    
-    console.log(`📊 Found ${qualifiedLeads.length} qualified leads (SQLs/MQLs) out of ${allContacts.length} total contacts`)
-    
-    // Only fall back to CSV if we have absolutely no qualified leads from HubSpot
-    if (qualifiedLeads.length === 0) {
-      console.log('⚠️ No qualified leads found in HubSpot, falling back to CSV data...')
-      return processCSVData(startDate, endDate)
-    }
-    
-    // Add debug info about the leads we found
-    if (qualifiedLeads.length > 0) {
-      console.log("Sample qualified leads:", qualifiedLeads.slice(0, 5).map(contact => ({
-        id: contact.id,
-        name: `${contact.properties?.firstname || ''} ${contact.properties?.lastname || ''}`.trim(),
-        email: contact.properties?.email,
-        company: contact.properties?.company,
-        lifecycleStage: contact.properties?.lifecyclestage,
-        leadStatus: contact.properties?.lead_status,
-        createdate: contact.properties?.createdate,
-        lastmodifieddate: contact.properties?.lastmodifieddate
-      })))
-      
-      // Debug: Show available date fields
-      console.log("Available date fields in first contact:", Object.keys(qualifiedLeads[0].properties || {}).filter(key => 
-        key.includes('date') || key.includes('time') || key.includes('created') || key.includes('modified')
-      ))
-    }
-    
-    // Show lifecycle stage distribution
-    const lifecycleStages: Record<string, number> = {}
-    const yearDistribution: Record<string, number> = {}
-    
-    allContacts.forEach(contact => {
-      const stage = contact.properties?.lifecyclestage || 'unknown'
-      lifecycleStages[stage] = (lifecycleStages[stage] || 0) + 1
-      
-      // Analyze date distribution
-      const createDate = contact.properties?.createdate
-      if (createDate) {
-        try {
-          const year = new Date(createDate).getFullYear().toString()
-          yearDistribution[year] = (yearDistribution[year] || 0) + 1
-        } catch (e) {
-          // ignore invalid dates
-        }
-      }
-    })
-    
-    console.log("📈 Lifecycle stage distribution:", lifecycleStages)
-    console.log("📅 Year distribution of contacts:", yearDistribution)
-    
-    // Show month distribution for SQLs specifically 
-    const sqlMonthDistribution: Record<string, number> = {}
-    allContacts.filter(contact => 
-      contact.properties?.lifecyclestage?.toLowerCase() === 'salesqualifiedlead'
-    ).forEach(contact => {
-      const createDate = contact.properties?.createdate
-      if (createDate) {
-        try {
-          const date = new Date(createDate)
-          const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
-          sqlMonthDistribution[monthKey] = (sqlMonthDistribution[monthKey] || 0) + 1
-        } catch (e) {
-          // ignore invalid dates
-        }
-      }
-    })
-    console.log("📊 Sales Qualified Leads by month:", sqlMonthDistribution)
-    
-    // Show date range info for debugging
-    if (startDate || endDate) {
-      console.log("🗓️ Date filtering applied:", {
-        startDate: startDate?.toISOString(),
-        endDate: endDate?.toISOString(),
-        totalContactsBeforeFilter: allContacts.length,
-        qualifiedLeadsBeforeFilter: qualifiedLeads.length
-      })
-      
-      // Note: Using HubSpot data for all date ranges - CSV fallback removed
-    }
-    
-    // Apply date filtering if dates are provided
-    let filteredLeads = qualifiedLeads
-    if (startDate || endDate) {
-      filteredLeads = qualifiedLeads.filter((contact) => {
-        const createDate = contact.properties?.createdate
-        if (!createDate) return false
-        
-        const contactDate = new Date(createDate)
-        if (isNaN(contactDate.getTime())) return false
-        
-        // Apply date range filtering
-        if (startDate && contactDate < startDate) return false
-        if (endDate && contactDate > endDate) return false
-        
-        return true
-      })
-      
-      console.log(`🔍 Date filtering: ${qualifiedLeads.length} → ${filteredLeads.length} qualified leads`)
-      
-      // Continue with HubSpot data regardless of count after filtering
-    }
-    
-    const contacts = filteredLeads
+export async function resetQualificationRules(): Promise<QualificationRules> {
+  getSettingsStore(await activePortalId()).save(QUALIFICATION_RULES_KEY, DEFAULT_QUALIFICATION_RULES)
+  return DEFAULT_QUALIFICATION_RULES
+}
 
-    const companyIds = new Set<string>()
-    const ownerIds = new Set<string>()
-    contacts.forEach((contact) => {
-      contact.associations?.companies?.results?.forEach((assoc: any) => companyIds.add(assoc.id))
-      if (contact.properties.hubspot_owner_id) ownerIds.add(contact.properties.hubspot_owner_id)
-    })
+// --- Fiscal calendar ---
+export async function getFiscalYearStartMonth(): Promise<number> {
+  return loadFiscalYearStartMonth(await activePortalId())
+}
 
-    const companiesMap = new Map<string, SimplePublicObject>()
-    for (const id of Array.from(companyIds)) {
-      try {
-        const company = await hubspotClient.crm.companies.basicApi.getById(id, companyProperties)
-        companiesMap.set(id, company)
-      } catch (e) {
-        console.warn(`Failed to fetch company ${id}:`, e)
-      }
-    }
+// Month the fiscal year starts in (1 = January); the date presets' quarters and years follow it
+export async function saveFiscalYearStartMonth(month: number): Promise<number> {
+  if (!isValidFiscalYearStartMonth(month)) throw new Error("The fiscal year must start in a month from 1 to 12")
+  getSettingsStore(await activePortalId()).save(FISCAL_YEAR_START_KEY, month)
+  return month
+}
 
-    const ownersMap = new Map<string, any>()
-    for (const id of Array.from(ownerIds)) {
-      try {
-        const owner = await hubspotClient.crm.owners.ownersApi.getById(Number(id))
-        ownersMap.set(id, owner)
-      } catch (e) {
-        console.warn(`Failed to fetch owner ${id}:`, e)
-      }
-    }
+// --- File imports ---
+const IMPORT_PREVIEW_ROWS = 10
 
-    const accountDataList = transformHubSpotDataToAccountData(contacts, companiesMap, ownersMap, startDate, endDate)
-    
+// Parses an uploaded CSV/XLSX and keeps it server-side; the client only gets headers and a preview to map
+export async function uploadImportFile(formData: FormData): Promise<ImportPreview> {
+  const file = formData.get("file")
+  if (!(file instanceof File) || file.size === 0) throw new Error("Choose a CSV or XLSX file to upload")
 
-    
-    const processedData = processAccountDataInternal(accountDataList)
+  const { headers, rows, errors } = await readImportFile(file)
+  if (headers.length === 0) throw new Error(`"${file.name}" has no header row`)
 
-    return processedData
-  } catch (e: any) {
-    console.error("❌ HubSpot API Error:", e)
-    console.error("Error details:", e.message)
-    return null
+  const stored = getImportStore().saveImport({ fileName: file.name, headers, rows, errors })
+  console.log(`📥 Imported ${rows.length} rows from ${file.name} (${errors.length} skipped)`)
+
+  return {
+    id: stored.id,
+    fileName: stored.fileName,
+    headers,
+    previewRows: rows.slice(0, IMPORT_PREVIEW_ROWS).map((row) => headers.map((header) => row.values[header] ?? "")),
+    rowCount: rows.length,
+    errors,
   }
 }
 
-// Export CSV processing function for direct use
-export async function fetchAndProcessCSVData(startDate?: Date, endDate?: Date): Promise<ProcessedData> {
-  return processCSVData(startDate, endDate)
-}
+export async function processImportedData(
+  importId: string,
+  mapping: ColumnMapping,
+  startDate?: Date,
+  endDate?: Date,
+): Promise<ProcessedData> {
+  const upload = getImportStore().getImport(importId)
+  if (!upload) throw new Error("That upload is no longer available, please upload the file again")
 
-// Helper functions for advanced analytics
-function normalizeTrafficSource(source: string): string {
-  if (!source || source === "Unknown") return "Unknown"
-  const normalized = source.toLowerCase()
-  if (normalized.includes("organic") || normalized.includes("seo")) return "Organic Search"
-  if (normalized.includes("paid") || normalized.includes("cpc") || normalized.includes("adwords")) return "Paid Search"
-  if (normalized.includes("social") || normalized.includes("facebook") || normalized.includes("linkedin")) return "Social Media"
-  if (normalized.includes("email")) return "Email Marketing"
-  if (normalized.includes("direct")) return "Direct Traffic"
-  if (normalized.includes("referral")) return "Referral"
-  if (normalized.includes("offline")) return "Offline"
-  return source
-}
+  const missing = missingRequiredFields(mapping)
+  if (missing.length > 0) throw new Error(`Map a column to ${missing.join(" and ")} before processing`)
 
-function calculateLeadHealthScore(account: AccountData): number {
-  let score = 50
-  const source = account["Analytics Source"] || "Unknown"
-  if (source.includes("Organic Search")) score += 15
-  else if (source.includes("Paid Search")) score += 10
-  else if (source.includes("Referral")) score += 20
-  
-  const visits = Number(account["Number of Visits"] || 0)
-  if (visits > 5) score += 15
-  else if (visits > 2) score += 10
-  
-  const stage = account["Lifecycle Stage"]?.toLowerCase() || ""
-  if (stage === "salesqualifiedlead") score += 25
-  else if (stage === "marketingqualifiedlead") score += 15
-  else if (stage === "customer") score += 30
-  
-  return Math.max(0, Math.min(100, score))
+  console.log(`📊 Processing ${upload.rows.length} rows from ${upload.fileName}`)
+  const report = new ValidationReportBuilder("import", upload.fileName)
+  const rules = loadQualificationRules(await activePortalId())
+  return processMappedRows(upload.rows, upload.errors, mapping, report, rules, startDate, endDate)
 }
 
-function getLeadTemperature(healthScore: number): string {
-  if (healthScore >= 80) return "🔥 Hot"
-  if (healthScore >= 60) return "🌡️ Warm"
-  if (healthScore >= 40) return "❄️ Cool"
-  return "🧊 Cold"
+export async function getImportProfiles(): Promise<ImportProfile[]> {
+  return getImportStore().getProfiles()
 }
 
-function getLeadRiskLevel(account: AccountData): string {
-  const created = account["Date Created"]
-  if (!created || created === "N/A") return "Unknown"
-  try {
-    const createDate = new Date(created)
-    const daysSinceCreated = (Date.now() - createDate.getTime()) / (1000 * 60 * 60 * 24)
-    if (daysSinceCreated > 60) return "🚨 High Risk"
-    if (daysSinceCreated > 30) return "⚠️ Medium Risk"
-    return "✅ Low Risk"
-  } catch (e) {
-    return "Unknown"
-  }
+export async function saveImportProfile(name: string, mapping: ColumnMapping): Promise<ImportProfile> {
+  if (!name.trim()) throw new Error("Give the import profile a name")
+  return getImportStore().saveProfile(name.trim(), mapping)
 }
 
-function calculateTimeBasedInsights(accountData: AccountData[]) {
-  // Calculate peak activity hours (simplified - based on creation times)
-  const hourActivity: Record<number, number> = {}
-  
-  accountData.forEach(account => {
-    const created = account["Date Created"]
-    if (created && created !== "N/A") {
-      try {
-        const date = new Date(created)
-        const hour = date.getHours()
-        hourActivity[hour] = (hourActivity[hour] || 0) + 1
-      } catch (e) {}
-    }
-  })
-  
-  const peakActivityHours = Object.entries(hourActivity)
-    .map(([hour, activity]) => ({ hour: Number(hour), activity }))
-    .sort((a, b) => b.activity - a.activity)
-    .slice(0, 5)
-  
-  // Calculate seasonal trends
-  const monthlyData: Record<string, { leads: number; revenue: number }> = {}
-  
-  accountData.forEach(account => {
-    const created = account["Date Created"]
-    if (created && created !== "N/A") {
-      try {
-        const date = new Date(created)
-        const monthKey = date.toLocaleDateString("en-US", { month: "short", year: "numeric" })
-        const revenue = parseCurrency(account["Total Sales"])
-        
-        if (!monthlyData[monthKey]) {
-          monthlyData[monthKey] = { leads: 0, revenue: 0 }
-        }
-        
-        monthlyData[monthKey].leads++
-        monthlyData[monthKey].revenue += revenue
-      } catch (e) {}
-    }
-  })
-  
-  const seasonalTrends = Object.entries(monthlyData)
-    .map(([month, data]) => ({ month, ...data }))
-    .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime())
-  
-  // Simplified response time metrics
-  const repsWithLeads: Record<string, number> = {}
-  accountData.forEach(account => {
-    const rep = account["Primary Rep Name"] || "Unknown"
-    repsWithLeads[rep] = (repsWithLeads[rep] || 0) + 1
-  })
-  
-  const sortedReps = Object.entries(repsWithLeads)
-    .sort(([,a], [,b]) => b - a)
-  
-  return {
-    peakActivityHours,
-    seasonalTrends,
-    responseTimeMetrics: {
-      avgResponseTime: 24, // Placeholder - would need actual response data
-      fastResponders: sortedReps.slice(0, 3).map(([rep]) => rep),
-      slowResponders: sortedReps.slice(-2).map(([rep]) => rep)
-    }
-  }
+export async function deleteImportProfile(id: string): Promise<void> {
+  getImportStore().deleteProfile(id)
 }
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest"
+import {
+  fetchAllOwners,
+  fetchCompaniesByIds,
+  mapWithConcurrency,
+  type EnrichmentClient,
+} from "@/app/lib/hubspot-enrichment"
+
+// A client whose batch read echoes the requested IDs and whose owners come in pages of `ownersPerPage`
+function mockClient(ownerCount = 0, ownersPerPage = 100) {
+  const read = vi.fn(async ({ inputs }: { inputs: Array<{ id: string }> }) => ({
+    results: inputs.map(({ id }) => ({ id, properties: { name: `Company ${id}` } })),
+  }))
+  const getPage = vi.fn(async (_email?: string, after?: string) => {
+    const start = after ? Number(after) : 0
+    const end = Math.min(start + ownersPerPage, ownerCount)
+    return {
+      results: Array.from({ length: end - start }, (_, i) => ({ id: String(start + i), email: `owner${start + i}@example.com` })),
+      paging: end < ownerCount ? { next: { after: String(end) } } : undefined,
+    }
+  })
+  const client = {
+    crm: {
+      companies: { batchApi: { read } },
+      owners: { ownersApi: { getPage } },
+      associations: { v4: { batchApi: { getPage: vi.fn() } } },
+      pipelines: { pipelinesApi: { getAll: vi.fn() } },
+    },
+  } as unknown as EnrichmentClient
+  return { client, read, getPage }
+}
+
+describe("fetchCompaniesByIds", () => {
+  it("reads 250 companies in 3 batch calls instead of one call each", async () => {
+    const { client, read } = mockClient()
+    const ids = Array.from({ length: 250 }, (_, i) => String(i + 1))
+
+    const companies = await fetchCompaniesByIds(client, ids, ["name"])
+
+    expect(read).toHaveBeenCalledTimes(3)
+    expect(read.mock.calls.map(([input]) => input.inputs.length)).toEqual([100, 100, 50])
+    expect(companies.size).toBe(250)
+    expect(companies.get("250")?.properties.name).toBe("Company 250")
+  })
+
+  it("skips duplicate IDs and makes no calls for none", async () => {
+    const { client, read } = mockClient()
+
+    expect((await fetchCompaniesByIds(client, ["1", "1", "2"], ["name"])).size).toBe(2)
+    expect(read).toHaveBeenCalledTimes(1)
+    await fetchCompaniesByIds(client, [], ["name"])
+    expect(read).toHaveBeenCalledTimes(1)
+  })
+
+  it("reports progress after each batch", async () => {
+    const { client } = mockClient()
+    const onProgress = vi.fn()
+
+    await fetchCompaniesByIds(client, Array.from({ length: 150 }, (_, i) => String(i)), ["name"], {
+      concurrency: 1,
+      onProgress,
+    })
+
+    expect(onProgress.mock.calls).toEqual([
+      [100, 150],
+      [150, 150],
+    ])
+  })
+})
+
+describe("fetchAllOwners", () => {
+  it("loads every owner in one paged pass", async () => {
+    const { client, getPage } = mockClient(250)
+
+    const owners = await fetchAllOwners(client)
+
+    expect(owners.size).toBe(250)
+    expect(getPage).toHaveBeenCalledTimes(3)
+    expect(getPage.mock.calls.map((call) => call[1])).toEqual([undefined, "100", "200"])
+  })
+})
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than `concurrency` workers at once and keeps result order", async () => {
+    let running = 0
+    let peak = 0
+    const results = await mapWithConcurrency(Array.from({ length: 20 }, (_, i) => i), 3, async (item) => {
+      running++
+      peak = Math.max(peak, running)
+      await new Promise((resolve) => setTimeout(resolve, (item % 4) + 1))
+      running--
+      return item * 2
+    })
+
+    expect(peak).toBe(3)
+    expect(results).toEqual(Array.from({ length: 20 }, (_, i) => i * 2))
+  })
+
+  it("starts no more workers than there are items", async () => {
+    const worker = vi.fn(async (item: number) => item)
+
+    expect(await mapWithConcurrency([1, 2], 10, worker)).toEqual([1, 2])
+    expect(worker).toHaveBeenCalledTimes(2)
+  })
+})
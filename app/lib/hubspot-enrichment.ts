@@ -0,0 +1,193 @@
+import type { Client } from "@hubspot/api-client"
+import type { SimplePublicObject } from "@hubspot/api-client/lib/codegen/crm/companies"
+import type { PublicOwner } from "@hubspot/api-client/lib/codegen/crm/owners"
+import type { StoredPipelineStage } from "@/lib/types"
+import { isFatalSyncError, passThroughRunner, type HubSpotRequestRunner } from "@/app/lib/hubspot-scheduler"
+
+// HubSpot batch read endpoints accept at most 100 inputs per call
+export const HUBSPOT_BATCH_READ_LIMIT = 100
+export const DEFAULT_ENRICHMENT_CONCURRENCY = 4
+const OWNERS_PAGE_SIZE = 100
+
+// Only the slice of the HubSpot client the enrichment layer touches, so tests can pass a plain mock
+export type EnrichmentClient = {
+  crm: {
+    companies: { batchApi: Pick<Client["crm"]["companies"]["batchApi"], "read"> }
+    owners: { ownersApi: Pick<Client["crm"]["owners"]["ownersApi"], "getPage"> }
+    associations: { v4: { batchApi: Pick<Client["crm"]["associations"]["v4"]["batchApi"], "getPage"> } }
+    pipelines: { pipelinesApi: Pick<Client["crm"]["pipelines"]["pipelinesApi"], "getAll"> }
+  }
+}
+
+export interface EnrichmentOptions {
+  batchSize?: number
+  concurrency?: number
+  scheduler?: HubSpotRequestRunner
+  onProgress?: (completed: number, total: number) => void // Called after each batch with the IDs handled so far
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size < 1) throw new Error(`Chunk size must be at least 1 (got ${size})`)
+  const chunks: T[][] = []
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size))
+  }
+  return chunks
+}
+
+// Runs `worker` over `items` with at most `concurrency` promises in flight, preserving result order
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const runWorker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await worker(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length))
+  await Promise.all(Array.from({ length: workerCount }, runWorker))
+  return results
+}
+
+// --- Companies ---
+export async function fetchCompaniesByIds(
+  client: EnrichmentClient,
+  ids: Iterable<string>,
+  properties: string[],
+  options: EnrichmentOptions = {},
+): Promise<Map<string, SimplePublicObject>> {
+  const {
+    batchSize = HUBSPOT_BATCH_READ_LIMIT,
+    concurrency = DEFAULT_ENRICHMENT_CONCURRENCY,
+    scheduler = passThroughRunner,
+    onProgress,
+  } = options
+  const uniqueIds = Array.from(new Set(ids))
+  const companiesMap = new Map<string, SimplePublicObject>()
+  if (uniqueIds.length === 0) return companiesMap
+
+  const batches = chunk(uniqueIds, Math.min(batchSize, HUBSPOT_BATCH_READ_LIMIT))
+  console.log(`🏢 Fetching ${uniqueIds.length} companies in ${batches.length} batch requests...`)
+  let completed = 0
+
+  await mapWithConcurrency(batches, concurrency, async (batch, index) => {
+    try {
+      const response = await scheduler.run(`company batch ${index + 1}`, () =>
+        client.crm.companies.batchApi.read({
+          inputs: batch.map((id) => ({ id })),
+          properties,
+          propertiesWithHistory: [],
+        }),
+      )
+      response.results.forEach((company) => companiesMap.set(company.id, company))
+
+      const missing = batch.length - response.results.length
+      if (missing > 0) {
+        console.warn(`Company batch ${index + 1}: ${missing} of ${batch.length} IDs were not returned`)
+      }
+    } catch (e) {
+      if (isFatalSyncError(e)) throw e
+      console.warn(`Failed to fetch company batch ${index + 1} (${batch.length} IDs):`, e)
+    }
+    completed += batch.length
+    onProgress?.(completed, uniqueIds.length)
+  })
+
+  return companiesMap
+}
+
+// --- Owners ---
+// The owners list is small and rarely changes, so one paged pass beats a lookup per owner ID
+export async function fetchAllOwners(
+  client: EnrichmentClient,
+  scheduler: HubSpotRequestRunner = passThroughRunner,
+): Promise<Map<string, PublicOwner>> {
+  const ownersMap = new Map<string, PublicOwner>()
+  let after: string | undefined = undefined
+
+  do {
+    const response = await scheduler.run("owners page", () =>
+      client.crm.owners.ownersApi.getPage(undefined, after, OWNERS_PAGE_SIZE, false),
+    )
+    response.results.forEach((owner) => ownersMap.set(owner.id, owner))
+    after = response.paging?.next?.after
+  } while (after)
+
+  console.log(`👤 Loaded ${ownersMap.size} owners`)
+  return ownersMap
+}
+
+// --- Associations ---
+// Search results carry no associations, so records found through search get them here
+export async function fetchAssociatedIds(
+  client: EnrichmentClient,
+  fromObjectType: string,
+  toObjectType: string,
+  ids: Iterable<string>,
+  options: EnrichmentOptions = {},
+): Promise<Map<string, string[]>> {
+  const {
+    batchSize = HUBSPOT_BATCH_READ_LIMIT,
+    concurrency = DEFAULT_ENRICHMENT_CONCURRENCY,
+    scheduler = passThroughRunner,
+    onProgress,
+  } = options
+  const associations = new Map<string, string[]>()
+  const uniqueIds = Array.from(new Set(ids))
+  const batches = chunk(uniqueIds, Math.min(batchSize, HUBSPOT_BATCH_READ_LIMIT))
+  let completed = 0
+
+  await mapWithConcurrency(batches, concurrency, async (batch, index) => {
+    try {
+      const response = await scheduler.run(`${fromObjectType}-${toObjectType} associations batch ${index + 1}`, () =>
+        client.crm.associations.v4.batchApi.getPage(fromObjectType, toObjectType, {
+          inputs: batch.map((id) => ({ id })),
+        }),
+      )
+      response.results.forEach((result) => {
+        associations.set(
+          String(result._from.id),
+          result.to.map((association) => String(association.toObjectId)),
+        )
+      })
+    } catch (e) {
+      if (isFatalSyncError(e)) throw e
+      console.warn(`Failed to fetch ${fromObjectType}-${toObjectType} association batch ${index + 1}:`, e)
+    }
+    completed += batch.length
+    onProgress?.(completed, uniqueIds.length)
+  })
+
+  return associations
+}
+
+// --- Pipelines ---
+export async function fetchDealPipelineStages(
+  client: EnrichmentClient,
+  scheduler: HubSpotRequestRunner = passThroughRunner,
+): Promise<StoredPipelineStage[]> {
+  const response = await scheduler.run("deal pipelines", () => client.crm.pipelines.pipelinesApi.getAll("deals"))
+
+  return response.results.flatMap((pipeline) =>
+    pipeline.stages.map((stage) => {
+      // HubSpot marks closed stages with isClosed and won stages with a win probability of 1
+      const isClosed = String(stage.metadata?.isClosed) === "true"
+      return {
+        id: stage.id,
+        pipelineId: pipeline.id,
+        pipelineLabel: pipeline.label,
+        label: stage.label,
+        displayOrder: stage.displayOrder,
+        isClosed,
+        isWon: isClosed && Number(stage.metadata?.probability) === 1,
+      }
+    }),
+  )
+}
@@ -0,0 +1,102 @@
+import { Client } from "@hubspot/api-client"
+import type { HubSpotPortal } from "@/lib/types"
+import { getPortalStore, type PortalTokens } from "@/app/lib/portal-store"
+
+export const OAUTH_STATE_COOKIE = "hubspot_oauth_state"
+export const OAUTH_CALLBACK_PATH = "/api/oauth/hubspot/callback"
+
+// Read access to everything the sync mirrors; override with HUBSPOT_OAUTH_SCOPES (space separated)
+const DEFAULT_SCOPES = [
+  "oauth",
+  "crm.objects.contacts.read",
+  "crm.objects.companies.read",
+  "crm.objects.deals.read",
+  "crm.objects.owners.read",
+]
+
+// Access tokens are refreshed this long before they expire, so a request never starts with a stale one
+const REFRESH_MARGIN_MS = 5 * 60 * 1000
+
+interface OAuthConfig {
+  clientId: string
+  clientSecret: string
+  scopes: string[]
+}
+
+export function oauthConfig(): OAuthConfig | null {
+  const clientId = process.env.HUBSPOT_CLIENT_ID?.trim()
+  const clientSecret = process.env.HUBSPOT_CLIENT_SECRET?.trim()
+  if (!clientId || !clientSecret) return null
+  const scopes = process.env.HUBSPOT_OAUTH_SCOPES?.split(/\s+/).filter(Boolean)
+  return { clientId, clientSecret, scopes: scopes?.length ? scopes : DEFAULT_SCOPES }
+}
+
+function requireOAuthConfig(): OAuthConfig {
+  const config = oauthConfig()
+  if (!config) throw new Error("HubSpot OAuth is not configured: set HUBSPOT_CLIENT_ID and HUBSPOT_CLIENT_SECRET.")
+  return config
+}
+
+// Must match a redirect URL registered on the HubSpot app; HUBSPOT_REDIRECT_URI overrides it behind a proxy
+export function oauthRedirectUri(requestUrl: string): string {
+  return process.env.HUBSPOT_REDIRECT_URI?.trim() || new URL(OAUTH_CALLBACK_PATH, requestUrl).toString()
+}
+
+export function authorizationUrl(redirectUri: string, state: string): string {
+  const { clientId, scopes } = requireOAuthConfig()
+  return new Client().oauth.getAuthorizationUrl(clientId, redirectUri, scopes.join(" "), undefined, state)
+}
+
+const toTokens = (response: { accessToken: string; refreshToken: string; expiresIn: number }): PortalTokens => ({
+  accessToken: response.accessToken,
+  refreshToken: response.refreshToken,
+  expiresAt: new Date(Date.now() + response.expiresIn * 1000).toISOString(),
+})
+
+// Exchanges the code from the install callback and registers (or re-registers) the portal it belongs to
+export async function installPortal(code: string, redirectUri: string): Promise<HubSpotPortal> {
+  const { clientId, clientSecret } = requireOAuthConfig()
+  const client = new Client()
+  const tokens = toTokens(
+    await client.oauth.tokensApi.create("authorization_code", code, redirectUri, clientId, clientSecret),
+  )
+  const info = await client.oauth.accessTokensApi.get(tokens.accessToken)
+
+  const store = getPortalStore()
+  const id = String(info.hubId)
+  const installedAt = store.list().find((portal) => portal.id === id)?.installedAt ?? new Date().toISOString()
+  const name = info.hubDomain || `Portal ${id}`
+  store.save({ id, name, domain: info.hubDomain ?? null, scopes: info.scopes, installedAt, ...tokens })
+  console.log(`🔑 Installed HubSpot portal ${id} (${name})`)
+  return { id, name, domain: info.hubDomain ?? null, authType: "oauth", installedAt }
+}
+
+// Concurrent requests for the same portal share one refresh, since HubSpot may rotate the refresh token
+const pendingRefreshes = new Map<string, Promise<string>>()
+
+export async function oauthAccessToken(portalId: string): Promise<string> {
+  const store = getPortalStore()
+  const portal = store.get(portalId)
+  if (!portal) throw new Error(`HubSpot portal ${portalId} is not installed.`)
+  if (new Date(portal.expiresAt).getTime() - Date.now() > REFRESH_MARGIN_MS) return portal.accessToken
+
+  let refresh = pendingRefreshes.get(portalId)
+  if (!refresh) {
+    refresh = (async () => {
+      const { clientId, clientSecret } = requireOAuthConfig()
+      const response = await new Client().oauth.tokensApi.create(
+        "refresh_token",
+        undefined,
+        undefined,
+        clientId,
+        clientSecret,
+        portal.refreshToken,
+      )
+      const tokens = toTokens({ ...response, refreshToken: response.refreshToken || portal.refreshToken })
+      store.updateTokens(portalId, tokens)
+      return tokens.accessToken
+    })().finally(() => pendingRefreshes.delete(portalId))
+    pendingRefreshes.set(portalId, refresh)
+  }
+  return refresh
+}
@@ -0,0 +1,285 @@
+import { Client } from "@hubspot/api-client"
+
+// Private app defaults: 100 requests per rolling 10 seconds, and the Search API allows 5 per second
+const DEFAULT_INTERVAL_MS = 10_000
+const DEFAULT_MAX_PER_INTERVAL = 100
+const DEFAULT_SEARCH_MAX_PER_SECOND = 4
+const DEFAULT_MAX_RETRIES = 5
+const DEFAULT_BASE_DELAY_MS = 500
+const DEFAULT_MAX_DELAY_MS = 30_000
+
+export type HubSpotEndpointKind = "standard" | "search"
+
+export interface SchedulerOptions {
+  intervalMs?: number
+  maxPerInterval?: number
+  searchMaxPerSecond?: number
+  maxRetries?: number
+  baseDelayMs?: number
+  maxDelayMs?: number
+  sleep?: (ms: number) => Promise<void>
+  random?: () => number
+  now?: () => number
+}
+
+export interface SchedulerStats {
+  calls: number
+  retries: number
+  dailyRemaining: number | null
+  dailyLimit: number | null
+}
+
+// Anything that can run a HubSpot call: the scheduler itself, or a pass-through in tests
+export type HubSpotRequestRunner = {
+  run<T>(label: string, request: () => Promise<T>, kind?: HubSpotEndpointKind): Promise<T>
+}
+
+export const passThroughRunner: HubSpotRequestRunner = {
+  run: (_label, request) => request(),
+}
+
+export class HubSpotDailyLimitError extends Error {
+  constructor(public readonly dailyLimit: number | null) {
+    super(
+      `HubSpot daily API limit${dailyLimit ? ` of ${dailyLimit} calls` : ""} has been reached. ` +
+        "Syncing will resume after the limit resets at midnight (portal time zone).",
+    )
+    this.name = "HubSpotDailyLimitError"
+  }
+}
+
+export class SyncCancelledError extends Error {
+  constructor() {
+    super("The sync was cancelled before it finished. The local store still holds the previous sync.")
+    this.name = "SyncCancelledError"
+  }
+}
+
+// Errors that must stop a sync rather than be logged and skipped like a failed batch
+export const isFatalSyncError = (e: unknown) => e instanceof HubSpotDailyLimitError || e instanceof SyncCancelledError
+
+// Refuses new requests once the signal fires, so a cancelled sync stops at the next HubSpot call
+export function cancellableRunner(runner: HubSpotRequestRunner, signal?: AbortSignal): HubSpotRequestRunner {
+  if (!signal) return runner
+  return {
+    run<T>(label: string, request: () => Promise<T>, kind?: HubSpotEndpointKind): Promise<T> {
+      if (signal.aborted) return Promise.reject(new SyncCancelledError())
+      return runner.run(label, request, kind)
+    },
+  }
+}
+
+export class HubSpotRequestError extends Error {
+  constructor(label: string, public readonly attempts: number, public readonly cause: unknown) {
+    super(`HubSpot request "${label}" failed after ${attempts} attempt(s): ${(cause as any)?.message || cause}`)
+    this.name = "HubSpotRequestError"
+  }
+}
+
+const readHeader = (headers: Record<string, string> | undefined, name: string): number | null => {
+  if (!headers) return null
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === name)
+  if (!key) return null
+  const value = Number(headers[key])
+  return isFinite(value) ? value : null
+}
+
+export class HubSpotRequestScheduler implements HubSpotRequestRunner {
+  private readonly intervalMs: number
+  private readonly maxPerInterval: number
+  private readonly searchMaxPerSecond: number
+  private readonly maxRetries: number
+  private readonly baseDelayMs: number
+  private readonly maxDelayMs: number
+  private readonly sleep: (ms: number) => Promise<void>
+  private readonly random: () => number
+  private readonly now: () => number
+
+  // Start times of recent requests, per rolling window
+  private standardWindow: number[] = []
+  private searchWindow: number[] = []
+  // Serialises slot acquisition so concurrent callers cannot overshoot the window
+  private queue: Promise<void> = Promise.resolve()
+
+  private intervalRemaining: number | null = null
+  private intervalResetAt = 0
+  private dailyRemaining: number | null = null
+  private dailyLimit: number | null = null
+  private calls = 0
+  private retries = 0
+
+  constructor(options: SchedulerOptions = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS
+    this.maxPerInterval = options.maxPerInterval ?? DEFAULT_MAX_PER_INTERVAL
+    this.searchMaxPerSecond = options.searchMaxPerSecond ?? DEFAULT_SEARCH_MAX_PER_SECOND
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)))
+    this.random = options.random ?? Math.random
+    this.now = options.now ?? Date.now
+  }
+
+  get stats(): SchedulerStats {
+    return {
+      calls: this.calls,
+      retries: this.retries,
+      dailyRemaining: this.dailyRemaining,
+      dailyLimit: this.dailyLimit,
+    }
+  }
+
+  // Client middleware that feeds every response's rate-limit headers back into the scheduler
+  get middleware() {
+    return {
+      pre: (context: unknown) => context,
+      post: (context: unknown) => {
+        this.recordHeaders((context as { headers?: Record<string, string> })?.headers)
+        return context
+      },
+    }
+  }
+
+  recordHeaders(headers: Record<string, string> | undefined) {
+    const dailyRemaining = readHeader(headers, "x-hubspot-ratelimit-daily-remaining")
+    const dailyLimit = readHeader(headers, "x-hubspot-ratelimit-daily")
+    const intervalRemaining = readHeader(headers, "x-hubspot-ratelimit-remaining")
+    const intervalMs = readHeader(headers, "x-hubspot-ratelimit-interval-milliseconds")
+
+    if (dailyRemaining !== null) this.dailyRemaining = dailyRemaining
+    if (dailyLimit !== null) this.dailyLimit = dailyLimit
+    if (intervalRemaining !== null) {
+      this.intervalRemaining = intervalRemaining
+      this.intervalResetAt = this.now() + (intervalMs ?? this.intervalMs)
+    }
+  }
+
+  async run<T>(label: string, request: () => Promise<T>, kind: HubSpotEndpointKind = "standard"): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(kind)
+      this.calls++
+
+      try {
+        return await request()
+      } catch (error: any) {
+        this.recordHeaders(error?.headers)
+
+        if (this.isDailyLimitError(error)) {
+          this.dailyRemaining = 0
+          throw new HubSpotDailyLimitError(this.dailyLimit)
+        }
+        if (!this.isRetryable(error) || attempt >= this.maxRetries) {
+          if (attempt === 0) throw error
+          throw new HubSpotRequestError(label, attempt + 1, error)
+        }
+
+        const delay = this.retryDelay(attempt, error)
+        this.retries++
+        console.warn(`⏳ HubSpot ${label} failed (${error?.code ?? error?.message}), retrying in ${delay}ms...`)
+        await this.sleep(delay)
+      }
+    }
+  }
+
+  private async acquire(kind: HubSpotEndpointKind) {
+    const turn = this.queue.then(() => this.waitForSlot(kind))
+    this.queue = turn.catch(() => undefined)
+    await turn
+  }
+
+  private async waitForSlot(kind: HubSpotEndpointKind) {
+    if (this.dailyRemaining !== null && this.dailyRemaining <= 0) {
+      throw new HubSpotDailyLimitError(this.dailyLimit)
+    }
+
+    while (true) {
+      const now = this.now()
+      this.standardWindow = this.standardWindow.filter((startedAt) => now - startedAt < this.intervalMs)
+      this.searchWindow = this.searchWindow.filter((startedAt) => now - startedAt < 1000)
+
+      let waitMs = 0
+      if (this.standardWindow.length >= this.maxPerInterval) {
+        waitMs = this.standardWindow[0] + this.intervalMs - now
+      }
+      if (this.intervalRemaining !== null && this.intervalRemaining <= 0 && this.intervalResetAt > now) {
+        waitMs = Math.max(waitMs, this.intervalResetAt - now)
+      }
+      if (kind === "search" && this.searchWindow.length >= this.searchMaxPerSecond) {
+        waitMs = Math.max(waitMs, this.searchWindow[0] + 1000 - now)
+      }
+
+      if (waitMs <= 0) break
+      await this.sleep(waitMs)
+    }
+
+    const startedAt = this.now()
+    this.standardWindow.push(startedAt)
+    if (kind === "search") this.searchWindow.push(startedAt)
+    if (this.intervalRemaining !== null) this.intervalRemaining--
+    if (this.dailyRemaining !== null) this.dailyRemaining--
+  }
+
+  private isDailyLimitError(error: any): boolean {
+    return error?.code === 429 && String(error?.body?.policyName || "").toUpperCase() === "DAILY"
+  }
+
+  private isRetryable(error: any): boolean {
+    const code = error?.code
+    if (typeof code !== "number") {
+      // Network-level failures (ECONNRESET, ETIMEDOUT, fetch errors) carry no HTTP status
+      return typeof code === "string" || error?.name === "FetchError" || error?.type === "system"
+    }
+    return code === 429 || code >= 500
+  }
+
+  // Exponential backoff with equal jitter, honouring Retry-After when HubSpot sends one
+  private retryDelay(attempt: number, error: any): number {
+    const retryAfterSeconds = readHeader(error?.headers, "retry-after")
+    if (retryAfterSeconds !== null) return Math.min(retryAfterSeconds * 1000, this.maxDelayMs)
+
+    const exponential = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt)
+    return Math.round(exponential / 2 + this.random() * (exponential / 2))
+  }
+}
+
+// One scheduler per portal and server process: HubSpot rate limits each portal separately, and concurrent
+// syncs of the same portal share its budget
+const sharedSchedulers = new Map<string, HubSpotRequestScheduler>()
+
+export function getHubSpotScheduler(portalId: string): HubSpotRequestScheduler {
+  let scheduler = sharedSchedulers.get(portalId)
+  if (!scheduler) {
+    scheduler = new HubSpotRequestScheduler()
+    sharedSchedulers.set(portalId, scheduler)
+  }
+  return scheduler
+}
+
+// HUBSPOT_BASE_URL points syncs at another server, such as the fake API under /api/fake-hubspot
+export function hubSpotBasePath(): string | undefined {
+  return process.env.HUBSPOT_BASE_URL?.trim().replace(/\/+$/, "") || undefined
+}
+
+export function createHubSpotClient(accessToken: string, scheduler: HubSpotRequestScheduler): Client {
+  return new Client({ accessToken, basePath: hubSpotBasePath(), middleware: [scheduler.middleware] })
+}
+
+// OAuth access tokens expire every 30 minutes, so a long sync swaps in the current one before each request.
+// The request closures read client.crm... when they run, so they pick up the re-initialised APIs.
+export function accessTokenRunner(
+  client: Client,
+  runner: HubSpotRequestRunner,
+  accessToken: () => Promise<string>,
+): HubSpotRequestRunner {
+  let current: string | null = null
+  return {
+    async run<T>(label: string, request: () => Promise<T>, kind?: HubSpotEndpointKind): Promise<T> {
+      const token = await accessToken()
+      if (token !== current) {
+        client.setAccessToken(token)
+        current = token
+      }
+      return runner.run(label, request, kind)
+    },
+  }
+}
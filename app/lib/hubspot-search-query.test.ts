@@ -0,0 +1,177 @@
+import { describe, expect, it, vi } from "vitest"
+import type { QualificationRules } from "@/lib/types"
+import { DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import {
+  DEAL_DATE_PROPERTIES,
+  SEARCH_LIMITS,
+  buildSearchQuery,
+  splitTimeWindow,
+} from "@/app/lib/hubspot-search-query"
+
+const JAN_1 = Date.UTC(2024, 0, 1)
+const MAR_31 = Date.UTC(2024, 2, 31, 23, 59, 59, 999)
+
+const rulesOn = (properties: string[]): QualificationRules => ({
+  stages: {
+    mql: properties.map((property) => ({ property, values: ["Yes"] })),
+    sql: [],
+    opportunity: [],
+    customer: [],
+  },
+  qualifyingStages: ["mql"],
+})
+
+describe("buildSearchQuery date filters", () => {
+  it("uses BETWEEN when both ends of the range are set", () => {
+    expect(buildSearchQuery({ createdFrom: JAN_1, createdTo: new Date(MAR_31) }).filterGroups).toEqual([
+      { filters: [{ propertyName: "createdate", operator: "BETWEEN", value: String(JAN_1), highValue: String(MAR_31) }] },
+    ])
+  })
+
+  it("uses GTE or LTE for an open-ended range", () => {
+    expect(buildSearchQuery({ createdFrom: JAN_1 }).filterGroups[0].filters).toEqual([
+      { propertyName: "createdate", operator: "GTE", value: String(JAN_1) },
+    ])
+    expect(buildSearchQuery({ createdTo: MAR_31 }).filterGroups[0].filters).toEqual([
+      { propertyName: "createdate", operator: "LTE", value: String(MAR_31) },
+    ])
+  })
+
+  it("filters on the modified date with the object's own property", () => {
+    expect(buildSearchQuery({ modifiedAfter: "2024-01-01T00:00:00.000Z" }).filterGroups[0].filters).toEqual([
+      { propertyName: "lastmodifieddate", operator: "GT", value: String(JAN_1) },
+    ])
+    expect(buildSearchQuery({ modifiedAfter: JAN_1 }, DEAL_DATE_PROPERTIES).filterGroups[0].filters[0].propertyName).toBe(
+      "hs_lastmodifieddate",
+    )
+  })
+
+  it("sends no filter groups without criteria", () => {
+    expect(buildSearchQuery({})).toEqual({ filterGroups: [], rulesApplied: true })
+  })
+})
+
+describe("buildSearchQuery owner filters", () => {
+  it("limits results to the given owners", () => {
+    expect(buildSearchQuery({ createdFrom: JAN_1, ownerIds: ["52550153", "61002277"] }).filterGroups).toEqual([
+      {
+        filters: [
+          { propertyName: "createdate", operator: "GTE", value: String(JAN_1) },
+          { propertyName: "hubspot_owner_id", operator: "IN", values: ["52550153", "61002277"] },
+        ],
+      },
+    ])
+  })
+
+  it("ignores an empty owner list", () => {
+    expect(buildSearchQuery({ ownerIds: [] }).filterGroups).toEqual([])
+  })
+
+  it("repeats the owner filter in every rule group", () => {
+    const { filterGroups } = buildSearchQuery({ rules: DEFAULT_QUALIFICATION_RULES, ownerIds: ["52550153"] })
+    expect(filterGroups).toHaveLength(3)
+    filterGroups.forEach((group) => {
+      expect(group.filters[1]).toEqual({ propertyName: "hubspot_owner_id", operator: "IN", values: ["52550153"] })
+    })
+  })
+})
+
+describe("buildSearchQuery rules", () => {
+  it("makes one group per property with the date filters repeated in each", () => {
+    const { filterGroups, rulesApplied } = buildSearchQuery({
+      rules: DEFAULT_QUALIFICATION_RULES,
+      createdFrom: JAN_1,
+      createdTo: MAR_31,
+    })
+
+    expect(rulesApplied).toBe(true)
+    expect(filterGroups.map((group) => group.filters[0].propertyName)).toEqual([
+      "lifecyclestage",
+      "lead_status",
+      "hs_lead_status",
+    ])
+    expect(filterGroups[0].filters[0].values).toEqual(["salesqualifiedlead", "sql", "marketingqualifiedlead", "mql"])
+    filterGroups.forEach((group) => {
+      expect(group.filters).toHaveLength(2)
+      expect(group.filters[1].operator).toBe("BETWEEN")
+    })
+  })
+
+  it("lowercases rule values and merges them across stages", () => {
+    const rules: QualificationRules = {
+      ...rulesOn(["hs_lead_status"]),
+      stages: {
+        ...rulesOn(["hs_lead_status"]).stages,
+        sql: [{ property: "hs_lead_status", values: [" Qualified ", "YES"] }],
+      },
+      qualifyingStages: ["mql", "sql"],
+    }
+    expect(buildSearchQuery({ rules }).filterGroups).toEqual([
+      { filters: [{ propertyName: "hs_lead_status", operator: "IN", values: ["qualified", "yes"] }] },
+    ])
+  })
+
+  it("accepts rules up to the group limit", () => {
+    const properties = Array.from({ length: SEARCH_LIMITS.filterGroups }, (_, i) => `property_${i}`)
+    const { filterGroups, rulesApplied } = buildSearchQuery({
+      rules: rulesOn(properties),
+      createdFrom: JAN_1,
+      modifiedAfter: JAN_1,
+    })
+
+    expect(rulesApplied).toBe(true)
+    expect(filterGroups).toHaveLength(SEARCH_LIMITS.filterGroups)
+    expect(filterGroups.reduce((total, group) => total + group.filters.length, 0)).toBeLessThanOrEqual(
+      SEARCH_LIMITS.totalFilters,
+    )
+  })
+
+  it("leaves the rules to be applied locally when they need too many groups", () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {})
+    const properties = Array.from({ length: SEARCH_LIMITS.filterGroups + 1 }, (_, i) => `property_${i}`)
+
+    expect(buildSearchQuery({ rules: rulesOn(properties), createdFrom: JAN_1 })).toEqual({
+      filterGroups: [{ filters: [{ propertyName: "createdate", operator: "GTE", value: String(JAN_1) }] }],
+      rulesApplied: false,
+    })
+    expect(warn).toHaveBeenCalledOnce()
+    warn.mockRestore()
+  })
+
+  it("reports rules with no qualifying conditions as not applied", () => {
+    expect(buildSearchQuery({ rules: rulesOn([]) })).toEqual({ filterGroups: [], rulesApplied: false })
+  })
+})
+
+describe("splitTimeWindow", () => {
+  it("splits a window into two halves that cover it without overlapping", () => {
+    const [first, second] = splitTimeWindow(JAN_1, MAR_31)!
+    expect(first[0]).toBe(JAN_1)
+    expect(second[1]).toBe(MAR_31)
+    expect(second[0]).toBe(first[1] + 1)
+    expect(first[1] - first[0]).toBeLessThanOrEqual(second[1] - second[0] + 1)
+  })
+
+  it("splits a two-millisecond window into single milliseconds", () => {
+    expect(splitTimeWindow(10, 11)).toEqual([
+      [10, 10],
+      [11, 11],
+    ])
+  })
+
+  it("cannot split a single millisecond", () => {
+    expect(splitTimeWindow(10, 10)).toBeNull()
+  })
+
+  it("terminates when splitting repeatedly", () => {
+    const windows: Array<[number, number]> = [[JAN_1, JAN_1 + 1000]]
+    const leaves: Array<[number, number]> = []
+    while (windows.length > 0) {
+      const window = windows.shift()!
+      const halves = splitTimeWindow(...window)
+      if (halves) windows.push(...halves)
+      else leaves.push(window)
+    }
+    expect(leaves).toHaveLength(1001)
+  })
+})
@@ -0,0 +1,108 @@
+import { FilterOperatorEnum, type Filter, type FilterGroup } from "@hubspot/api-client/lib/codegen/crm/contacts"
+import type { QualificationRules } from "@/lib/types"
+import { FUNNEL_STAGES } from "@/lib/qualification-rules"
+
+// Turns date ranges, qualification rules and owner filters into Search API filterGroups.
+// Filters inside a group are ANDed and groups are ORed, so the shared filters are repeated in every group.
+
+// HubSpot rejects searches beyond these limits
+export const SEARCH_LIMITS = { filterGroups: 5, filtersPerGroup: 6, totalFilters: 18 }
+
+export interface SearchCriteria {
+  createdFrom?: Date | number
+  createdTo?: Date | number
+  modifiedAfter?: Date | number | string
+  rules?: QualificationRules
+  ownerIds?: string[]
+}
+
+export interface SearchDateProperties {
+  created: string
+  modified: string
+}
+
+export const CONTACT_DATE_PROPERTIES: SearchDateProperties = { created: "createdate", modified: "lastmodifieddate" }
+export const DEAL_DATE_PROPERTIES: SearchDateProperties = { created: "createdate", modified: "hs_lastmodifieddate" }
+
+export interface SearchQuery {
+  filterGroups: FilterGroup[]
+  // False when the rules did not fit within SEARCH_LIMITS and have to be applied to the results instead
+  rulesApplied: boolean
+}
+
+const toMillis = (value: Date | number | string): string => String(new Date(value).getTime())
+
+function sharedFilters(criteria: SearchCriteria, dates: SearchDateProperties): Filter[] {
+  const filters: Filter[] = []
+  const { createdFrom, createdTo, modifiedAfter, ownerIds } = criteria
+
+  if (createdFrom !== undefined && createdTo !== undefined) {
+    filters.push({
+      propertyName: dates.created,
+      operator: FilterOperatorEnum.Between,
+      value: toMillis(createdFrom),
+      highValue: toMillis(createdTo),
+    })
+  } else if (createdFrom !== undefined) {
+    filters.push({ propertyName: dates.created, operator: FilterOperatorEnum.Gte, value: toMillis(createdFrom) })
+  } else if (createdTo !== undefined) {
+    filters.push({ propertyName: dates.created, operator: FilterOperatorEnum.Lte, value: toMillis(createdTo) })
+  }
+
+  if (modifiedAfter !== undefined) {
+    filters.push({ propertyName: dates.modified, operator: FilterOperatorEnum.Gt, value: toMillis(modifiedAfter) })
+  }
+  if (ownerIds && ownerIds.length > 0) {
+    filters.push({ propertyName: "hubspot_owner_id", operator: FilterOperatorEnum.In, values: ownerIds })
+  }
+  return filters
+}
+
+// One IN filter per property across the qualifying stages, since a contact qualifies when any condition matches
+function ruleFilters(rules: QualificationRules): Filter[] {
+  const valuesByProperty = new Map<string, Set<string>>()
+  FUNNEL_STAGES.filter((stage) => rules.qualifyingStages.includes(stage)).forEach((stage) => {
+    rules.stages[stage].forEach((condition) => {
+      const values = valuesByProperty.get(condition.property) ?? new Set<string>()
+      // HubSpot expects lowercase values for IN on string properties, and the rules ignore case anyway
+      condition.values.forEach((value) => values.add(value.trim().toLowerCase()))
+      valuesByProperty.set(condition.property, values)
+    })
+  })
+  return Array.from(valuesByProperty.entries()).map(([propertyName, values]) => ({
+    propertyName,
+    operator: FilterOperatorEnum.In,
+    values: Array.from(values),
+  }))
+}
+
+const withinLimits = (groups: FilterGroup[]) =>
+  groups.length <= SEARCH_LIMITS.filterGroups &&
+  groups.every((group) => group.filters.length <= SEARCH_LIMITS.filtersPerGroup) &&
+  groups.reduce((total, group) => total + group.filters.length, 0) <= SEARCH_LIMITS.totalFilters
+
+export function buildSearchQuery(
+  criteria: SearchCriteria,
+  dates: SearchDateProperties = CONTACT_DATE_PROPERTIES,
+): SearchQuery {
+  const shared = sharedFilters(criteria, dates)
+  const sharedGroups = shared.length > 0 ? [{ filters: shared }] : []
+  if (!criteria.rules) return { filterGroups: sharedGroups, rulesApplied: true }
+
+  const groups = ruleFilters(criteria.rules).map((filter) => ({ filters: [filter, ...shared] }))
+  if (groups.length === 0) return { filterGroups: sharedGroups, rulesApplied: false }
+  if (withinLimits(groups)) return { filterGroups: groups, rulesApplied: true }
+
+  console.warn("⚠️ Qualification rules exceed the Search API filter limits; filtering them after the search instead")
+  return { filterGroups: sharedGroups, rulesApplied: false }
+}
+
+// Halves a created-date window; used when a window holds more results than one search can page through
+export function splitTimeWindow(from: number, to: number): Array<[number, number]> | null {
+  if (to - from < 1) return null
+  const middle = Math.floor((from + to) / 2)
+  return [
+    [from, middle],
+    [middle + 1, to],
+  ]
+}
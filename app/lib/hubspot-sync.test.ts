@@ -0,0 +1,161 @@
+import { createServer, type Server } from "http"
+import type { AddressInfo } from "net"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { FakeHubSpotFixtures } from "@/lib/fake-hubspot-fixtures"
+import { DEFAULT_QUALIFICATION_RULES, isQualified } from "@/lib/qualification-rules"
+import { syntheticFixtures } from "@/lib/synthetic-crm"
+import { createInMemoryCrmRepository } from "@/app/lib/crm-repository"
+import { FakeHubSpot, type FakeHubSpotLimits } from "@/app/lib/fake-hubspot"
+import { createHubSpotClient, HubSpotRequestScheduler } from "@/app/lib/hubspot-scheduler"
+import { syncCrmStore } from "@/app/lib/hubspot-sync"
+
+// Runs the real client and sync against the fake HubSpot API over HTTP, the way HUBSPOT_BASE_URL wires it up
+
+const NOW = new Date("2025-06-30T12:00:00.000Z")
+const fake = new FakeHubSpot()
+let server: Server
+let baseUrl: string
+
+// Serves the fake at the server root, like app/api/fake-hubspot does under its prefix
+function startServer(): Promise<Server> {
+  const started = createServer(async (request, response) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of request) chunks.push(chunk as Buffer)
+    const text = Buffer.concat(chunks).toString("utf8")
+    const url = new URL(request.url ?? "/", "http://localhost")
+    const result = fake.handle(
+      request.method ?? "GET",
+      url.pathname,
+      url.searchParams,
+      text ? JSON.parse(text) : undefined,
+      request.headers.authorization ?? null,
+    )
+    response.writeHead(result.status, { ...result.headers, "content-type": "application/json" })
+    response.end(JSON.stringify(result.body))
+  })
+  return new Promise((resolve) => started.listen(0, "127.0.0.1", () => resolve(started)))
+}
+
+// A scheduler allowed more searches per second than the fake, so searches hit its 429s and have to retry
+function connect() {
+  vi.stubEnv("HUBSPOT_BASE_URL", baseUrl)
+  const scheduler = new HubSpotRequestScheduler({ searchMaxPerSecond: 20 })
+  return { scheduler, client: createHubSpotClient("fake-token", scheduler) }
+}
+
+function loadPortal(fixtures: FakeHubSpotFixtures, limits: Partial<FakeHubSpotLimits> = {}) {
+  fake.reset({ fixtures, limits: { searchPerSecond: 2, ...limits } })
+}
+
+const qualifiedIds = (fixtures: FakeHubSpotFixtures) =>
+  fixtures.contacts
+    .filter((contact) => isQualified(contact.properties, DEFAULT_QUALIFICATION_RULES))
+    .map((contact) => contact.id)
+    .sort()
+
+beforeAll(async () => {
+  server = await startServer()
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  vi.spyOn(console, "log").mockImplementation(() => {})
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+  await new Promise((resolve) => server.close(resolve))
+})
+
+describe("syncCrmStore against the fake HubSpot API", () => {
+  it("mirrors the portal with a full sync, then applies changes incrementally", { timeout: 60_000 }, async () => {
+    const fixtures = syntheticFixtures({ seed: 7, contacts: 1_000, now: NOW })
+    loadPortal(fixtures)
+    const repository = createInMemoryCrmRepository()
+    const { client, scheduler } = connect()
+
+    const full = await syncCrmStore(client, scheduler, repository, "full")
+
+    const expected = qualifiedIds(fixtures)
+    expect(expected.length).toBeGreaterThan(100)
+    expect(full).toMatchObject({ mode: "full", upserted: expected.length, removed: 0, deals: fixtures.deals.length })
+    expect(repository.getContacts().map((contact) => contact.id).sort()).toEqual(expected)
+    expect(repository.getDeals()).toHaveLength(fixtures.deals.length)
+    expect(repository.getOwners().size).toBe(fixtures.owners.length)
+    expect(repository.getPipelineStages().size).toBe(
+      fixtures.pipelines.reduce((total, pipeline) => total + pipeline.stages.length, 0),
+    )
+    const withCompany = repository.getContacts().find((contact) => contact.companyIds.length > 0)!
+    expect(repository.getCompanies(withCompany.companyIds).size).toBe(withCompany.companyIds.length)
+
+    // One contact stops qualifying and another starts; nothing else changes
+    const later = new Date(NOW.getTime() + 60_000).toISOString()
+    const dropped = fixtures.contacts.find((contact) => contact.id === expected[0])!
+    const promoted = fixtures.contacts.find((contact) => !expected.includes(contact.id))!
+    dropped.properties = { ...dropped.properties, lifecyclestage: "subscriber", hs_lead_status: null, lastmodifieddate: later }
+    promoted.properties = { ...promoted.properties, lifecyclestage: "salesqualifiedlead", lastmodifieddate: later }
+    loadPortal(fixtures)
+
+    const incremental = await syncCrmStore(client, scheduler, repository, "incremental")
+
+    expect(incremental).toMatchObject({ mode: "incremental", fetched: 2, upserted: 1, removed: 1, deals: 0, watermark: later })
+    expect(repository.hasContact(dropped.id)).toBe(false)
+    expect(repository.getContact(promoted.id)?.properties.lifecyclestage).toBe("salesqualifiedlead")
+    expect(repository.countContacts()).toBe(expected.length)
+    expect(repository.getDeals()).toHaveLength(fixtures.deals.length)
+  })
+
+  it("narrows a full resync to the selected range and owner", { timeout: 60_000 }, async () => {
+    const fixtures = syntheticFixtures({ seed: 7, contacts: 1_000, now: NOW })
+    loadPortal(fixtures)
+    const repository = createInMemoryCrmRepository()
+    const { client, scheduler } = connect()
+    await syncCrmStore(client, scheduler, repository, "full")
+    const before = repository.getSyncMetadata()
+
+    const stored = repository.getContacts()
+    const createdDates = stored.map((contact) => contact.properties.createdate!).sort()
+    const createdFrom = new Date(createdDates[Math.floor(createdDates.length / 2)])
+    const ownerId = stored[0].properties.hubspot_owner_id!
+    const inScope = repository
+      .getContacts({ createdFrom })
+      .filter((contact) => contact.properties.hubspot_owner_id === ownerId)
+    const outOfScope = stored.filter((contact) => !inScope.some((scoped) => scoped.id === contact.id))
+    expect(inScope.length).toBeGreaterThan(1)
+
+    // One contact in scope stops qualifying, and one outside it is deleted in HubSpot
+    const dropped = fixtures.contacts.find((contact) => contact.id === inScope[0].id)!
+    dropped.properties = { ...dropped.properties, lifecyclestage: "subscriber", hs_lead_status: null }
+    fixtures.contacts = fixtures.contacts.filter((contact) => contact.id !== outOfScope[0].id)
+    loadPortal(fixtures)
+
+    const summary = await syncCrmStore(client, scheduler, repository, "full", DEFAULT_QUALIFICATION_RULES, {
+      scope: { createdFrom, ownerIds: [ownerId] },
+    })
+
+    const refetched = inScope.length - 1
+    expect(summary).toMatchObject({ mode: "full", fetched: refetched, upserted: refetched, removed: 1, deals: 0 })
+    expect(repository.hasContact(dropped.id)).toBe(false)
+    // Outside the scope the store is left alone, even for a contact HubSpot no longer has
+    expect(repository.hasContact(outOfScope[0].id)).toBe(true)
+    expect(repository.countContacts()).toBe(stored.length - 1)
+    expect(repository.getDeals()).toHaveLength(fixtures.deals.length)
+    expect(repository.getSyncMetadata()).toMatchObject({
+      watermark: before.watermark,
+      lastFullSyncAt: before.lastFullSyncAt,
+      rulesFingerprint: before.rulesFingerprint,
+    })
+  })
+
+  it("retries searches the fake rejects with 429s", { timeout: 60_000 }, async () => {
+    const fixtures = syntheticFixtures({ seed: 11, contacts: 1_000, now: NOW })
+    loadPortal(fixtures, { searchPerSecond: 1 })
+    const repository = createInMemoryCrmRepository()
+    const { client, scheduler } = connect()
+
+    const summary = await syncCrmStore(client, scheduler, repository, "full")
+
+    expect(scheduler.stats.retries).toBeGreaterThan(0)
+    expect(summary.upserted).toBe(qualifiedIds(fixtures).length)
+    expect(repository.countContacts()).toBe(qualifiedIds(fixtures).length)
+  })
+})
@@ -0,0 +1,562 @@
+import type { Client } from "@hubspot/api-client"
+import type { PublicObjectSearchRequest } from "@hubspot/api-client/lib/codegen/crm/contacts"
+import type { PublicObjectSearchRequest as DealSearchRequest } from "@hubspot/api-client/lib/codegen/crm/deals"
+import type {
+  QualificationRules,
+  StoredContact,
+  StoredDeal,
+  StoredOwner,
+  StoredPipelineStage,
+  SyncMetadata,
+  SyncMode,
+  SyncProgressEvent,
+  SyncSummary,
+} from "@/lib/types"
+import {
+  fetchAllOwners,
+  fetchAssociatedIds,
+  fetchCompaniesByIds,
+  fetchDealPipelineStages,
+} from "@/app/lib/hubspot-enrichment"
+import {
+  cancellableRunner,
+  isFatalSyncError,
+  SyncCancelledError,
+  type HubSpotRequestRunner,
+} from "@/app/lib/hubspot-scheduler"
+import type { CrmRepository } from "@/app/lib/crm-repository"
+import {
+  buildSearchQuery,
+  CONTACT_DATE_PROPERTIES,
+  DEAL_DATE_PROPERTIES,
+  splitTimeWindow,
+  type SearchCriteria,
+  type SearchDateProperties,
+} from "@/app/lib/hubspot-search-query"
+import { DEFAULT_QUALIFICATION_RULES, isQualified, ruleProperties, rulesFingerprint } from "@/lib/qualification-rules"
+
+export const CONTACT_PROPERTIES = [
+  "firstname",
+  "lastname",
+  "email",
+  "company",
+  "lifecyclestage",
+  "lead_status",
+  "hs_lead_status",
+  "createdate",
+  "lastmodifieddate",
+  "hubspot_owner_id",
+  "city",
+  "state",
+  "country",
+  "jobtitle",
+  "phone",
+  // Analytics and source tracking properties
+  "hs_analytics_source",
+  "hs_latest_source",
+  "hs_analytics_source_data_1",
+  "hs_analytics_source_data_2",
+  "hs_latest_source_data_1",
+  "hs_latest_source_data_2",
+  "hs_analytics_first_touch_converting_campaign",
+  "hs_analytics_last_touch_converting_campaign",
+  "hs_analytics_first_url",
+  "hs_analytics_last_url",
+  "hs_analytics_revenue",
+  "hs_analytics_num_visits",
+  "hs_analytics_num_page_views",
+  "hs_analytics_average_page_views",
+  "hs_analytics_first_visit_timestamp",
+  "hs_analytics_last_visit_timestamp",
+  "recent_conversion_event_name",
+  "first_conversion_event_name",
+  "hs_email_last_email_name",
+  "hs_email_last_send_date",
+  "hs_social_last_engagement",
+]
+
+export const COMPANY_PROPERTIES = ["name", "domain", "address", "city", "state", "zip", "createdate"]
+
+export const DEAL_PROPERTIES = [
+  "dealname",
+  "amount",
+  "dealstage",
+  "pipeline",
+  "closedate",
+  "createdate",
+  "hs_lastmodifieddate",
+  "hubspot_owner_id",
+]
+
+const PAGE_SIZE = 100
+const MAX_FULL_SYNC_PAGES = 500
+// The Search API refuses to page past 10,000 results for a single query
+const SEARCH_RESULT_CAP = 10_000
+
+// Narrows a full resync to the contacts created in a range and owned by some reps; the rest of the store is kept.
+// Incremental syncs ignore it, since they only fetch what changed anyway
+export interface SyncScope {
+  createdFrom?: Date
+  createdTo?: Date
+  ownerIds?: string[]
+}
+
+export interface SyncRunOptions {
+  onProgress?: (event: SyncProgressEvent) => void
+  signal?: AbortSignal // Aborting stops the sync at its next HubSpot request, before anything is written
+  scope?: SyncScope
+}
+
+// What the fetch helpers share: the request runner and where progress goes
+type SyncContext = {
+  runner: HubSpotRequestRunner
+  report: (event: SyncProgressEvent) => void
+}
+
+type SyncedObject = "contacts" | "deals"
+
+type HubSpotRecord = {
+  id: string
+  properties: Record<string, string | null>
+  associations?: Record<string, { results: Array<{ id: string }> }>
+}
+
+type SearchPage = { total?: number; results: HubSpotRecord[]; paging?: { next?: { after: string } } }
+type SearchFn = (request: PublicObjectSearchRequest) => Promise<SearchPage>
+
+const isScoped = (scope: SyncScope | undefined): scope is SyncScope =>
+  !!scope && (!!scope.createdFrom || !!scope.createdTo || (scope.ownerIds?.length ?? 0) > 0)
+
+function describeScope(scope: SyncScope): string {
+  const day = (date: Date) => date.toISOString().slice(0, 10)
+  const parts = [
+    scope.createdFrom && `created from ${day(scope.createdFrom)}`,
+    scope.createdTo && `created until ${day(scope.createdTo)}`,
+    scope.ownerIds?.length && `owned by ${scope.ownerIds.length} rep${scope.ownerIds.length === 1 ? "" : "s"}`,
+  ]
+  return parts.filter(Boolean).join(", ")
+}
+
+// The stored contacts a scoped resync replaces: the same ones its search asks HubSpot for
+function contactsInScope(repository: CrmRepository, scope: SyncScope): string[] {
+  const owners = scope.ownerIds && scope.ownerIds.length > 0 ? new Set(scope.ownerIds) : null
+  return repository
+    .getContacts({ createdFrom: scope.createdFrom, createdTo: scope.createdTo })
+    .filter((contact) => !owners || owners.has(contact.properties.hubspot_owner_id ?? ""))
+    .map((contact) => contact.id)
+}
+
+export function isQualifiedLead(contact: StoredContact, rules: QualificationRules): boolean {
+  return isQualified(contact.properties, rules)
+}
+
+export function latestModifiedDate(
+  records: Array<{ properties: Record<string, string | null> }>,
+  current: string | null,
+  modifiedProperty = "lastmodifieddate",
+): string | null {
+  let watermark = current ? new Date(current).getTime() : 0
+  records.forEach((record) => {
+    const modified = new Date(record.properties[modifiedProperty] || "").getTime()
+    if (!isNaN(modified) && modified > watermark) watermark = modified
+  })
+  return watermark > 0 ? new Date(watermark).toISOString() : null
+}
+
+// Upserts contacts that still qualify and drops stored ones that no longer do
+function mergeContacts(
+  repository: CrmRepository,
+  changed: StoredContact[],
+  rules: QualificationRules,
+): { upserted: number; removed: number } {
+  const qualified = changed.filter((contact) => isQualifiedLead(contact, rules))
+  const disqualifiedIds = changed
+    .filter((contact) => !isQualifiedLead(contact, rules) && repository.hasContact(contact.id))
+    .map((contact) => contact.id)
+
+  repository.upsertContacts(qualified)
+  repository.deleteContacts(disqualifiedIds)
+  return { upserted: qualified.length, removed: disqualifiedIds.length }
+}
+
+const associatedIds = (record: HubSpotRecord, objectType: string): string[] =>
+  record.associations?.[objectType]?.results?.map((association) => association.id) ?? []
+
+function toStoredContact(contact: HubSpotRecord): StoredContact {
+  return { id: contact.id, properties: contact.properties, companyIds: associatedIds(contact, "companies") }
+}
+
+function toStoredDeal(deal: HubSpotRecord): StoredDeal {
+  return {
+    id: deal.id,
+    properties: deal.properties,
+    contactIds: associatedIds(deal, "contacts"),
+    companyIds: associatedIds(deal, "companies"),
+  }
+}
+
+// --- Full resync: page through every record ---
+async function fetchAllRecords(
+  { runner, report }: SyncContext,
+  objectType: SyncedObject,
+  getPage: (after: string | undefined) => Promise<SearchPage>,
+): Promise<HubSpotRecord[]> {
+  const records: HubSpotRecord[] = []
+  let after: string | undefined = undefined
+  let pageCount = 0
+
+  do {
+    pageCount++
+    const response: SearchPage = await runner.run(`${objectType} page ${pageCount}`, () => getPage(after))
+
+    records.push(...response.results)
+    after = response.paging?.next?.after
+    report({ type: "progress", phase: objectType, pages: pageCount, records: records.length })
+
+    if (pageCount % 20 === 0 || pageCount <= 10) {
+      console.log(`Page ${pageCount}: Found ${response.results.length} ${objectType} (${records.length} so far)`)
+    }
+  } while (after && pageCount < MAX_FULL_SYNC_PAGES)
+
+  if (after) {
+    const message = `Full resync stopped at ${MAX_FULL_SYNC_PAGES} pages; older ${objectType} were not mirrored`
+    console.warn(`⚠️ ${message}`)
+    report({ type: "warning", message })
+  }
+  return records
+}
+
+// --- Filtered full sync: search in created-date slices that each stay under the result cap ---
+async function searchInTimeSlices(
+  { runner, report }: SyncContext,
+  objectType: SyncedObject,
+  search: SearchFn,
+  properties: string[],
+  criteria: SearchCriteria,
+  dates: SearchDateProperties,
+): Promise<HubSpotRecord[]> {
+  const records: HubSpotRecord[] = []
+  const windows: Array<[number, number]> = [
+    [new Date(criteria.createdFrom ?? 0).getTime(), new Date(criteria.createdTo ?? Date.now()).getTime()],
+  ]
+  let pageCount = 0
+
+  while (windows.length > 0) {
+    const [from, to] = windows.shift()!
+    const { filterGroups } = buildSearchQuery({ ...criteria, createdFrom: from, createdTo: to }, dates)
+    let after: string | undefined = undefined
+    let resultsInWindow = 0
+
+    do {
+      pageCount++
+      const searchRequest: PublicObjectSearchRequest = {
+        properties,
+        limit: PAGE_SIZE,
+        after,
+        sorts: [dates.created],
+        filterGroups,
+      }
+      const response: SearchPage = await runner.run(
+        `${objectType} search page ${pageCount}`,
+        () => search(searchRequest),
+        "search",
+      )
+
+      // The first page reports the window's total; too many results means halving the window and starting over
+      const halves = !after && (response.total ?? 0) > SEARCH_RESULT_CAP ? splitTimeWindow(from, to) : null
+      if (halves) {
+        windows.unshift(...halves)
+        break
+      }
+
+      records.push(...response.results)
+      resultsInWindow += response.results.length
+      after = response.paging?.next?.after
+      report({ type: "progress", phase: objectType, pages: pageCount, records: records.length })
+    } while (after && resultsInWindow + PAGE_SIZE <= SEARCH_RESULT_CAP)
+
+    if (after && resultsInWindow + PAGE_SIZE > SEARCH_RESULT_CAP) {
+      const message = `More than ${SEARCH_RESULT_CAP} ${objectType} created at ${new Date(from).toISOString()}; the rest were skipped`
+      console.warn(`⚠️ ${message}`)
+      report({ type: "warning", message })
+    }
+  }
+
+  console.log(`Found ${records.length} ${objectType} in ${pageCount} search pages`)
+  return records
+}
+
+// --- Incremental sync: only records modified after the watermark ---
+async function searchModifiedSince(
+  { runner, report }: SyncContext,
+  objectType: SyncedObject,
+  search: SearchFn,
+  properties: string[],
+  dates: SearchDateProperties,
+  watermark: string,
+): Promise<HubSpotRecord[]> {
+  const modifiedProperty = dates.modified
+  const recordsById = new Map<string, HubSpotRecord>()
+  let since = new Date(watermark).getTime()
+  let pageCount = 0
+
+  // Results are sorted by modification date, so when a query reaches the search cap we restart from the last date seen
+  while (true) {
+    let after: string | undefined = undefined
+    let resultsInQuery = 0
+    let lastSeen = since
+
+    do {
+      pageCount++
+      const searchRequest: PublicObjectSearchRequest = {
+        properties,
+        limit: PAGE_SIZE,
+        after,
+        sorts: [modifiedProperty],
+        filterGroups: buildSearchQuery({ modifiedAfter: since }, dates).filterGroups,
+      }
+      const response: SearchPage = await runner.run(
+        `${objectType} modified search page ${pageCount}`,
+        () => search(searchRequest),
+        "search",
+      )
+
+      response.results.forEach((record) => {
+        recordsById.set(record.id, record)
+        const modified = new Date(record.properties[modifiedProperty] || "").getTime()
+        if (!isNaN(modified)) lastSeen = Math.max(lastSeen, modified)
+      })
+      resultsInQuery += response.results.length
+      after = response.paging?.next?.after
+      report({ type: "progress", phase: objectType, pages: pageCount, records: recordsById.size })
+    } while (after && resultsInQuery + PAGE_SIZE <= SEARCH_RESULT_CAP)
+
+    if (!after || lastSeen === since) break
+    since = lastSeen
+  }
+
+  return Array.from(recordsById.values())
+}
+
+// Search results carry no associations, so they are filled in with batched association reads
+function associationOptions(ctx: SyncContext) {
+  return {
+    scheduler: ctx.runner,
+    onProgress: (completed: number, total: number) =>
+      ctx.report({ type: "progress", phase: "associations", records: completed, total }),
+  }
+}
+
+async function fetchContacts(
+  client: Client,
+  ctx: SyncContext,
+  properties: string[],
+  watermark: string | null,
+  rules: QualificationRules,
+  scope?: SyncScope,
+): Promise<StoredContact[]> {
+  const search: SearchFn = (request) => client.crm.contacts.searchApi.doSearch(request)
+  let records: HubSpotRecord[]
+
+  if (watermark) {
+    // No rule filters here: contacts that stopped qualifying must come back so they can be removed
+    records = await searchModifiedSince(ctx, "contacts", search, properties, CONTACT_DATE_PROPERTIES, watermark)
+  } else if (isScoped(scope)) {
+    // Rules that do not fit next to the scope filters are left to mergeContacts
+    const criteria: SearchCriteria = { ...scope, rules }
+    if (!buildSearchQuery(criteria).rulesApplied) delete criteria.rules
+    records = await searchInTimeSlices(ctx, "contacts", search, properties, criteria, CONTACT_DATE_PROPERTIES)
+  } else if (buildSearchQuery({ rules }).rulesApplied) {
+    // A full resync only needs qualifying contacts, so HubSpot filters them instead of us paging every contact
+    records = await searchInTimeSlices(ctx, "contacts", search, properties, { rules }, CONTACT_DATE_PROPERTIES)
+  } else {
+    const all = await fetchAllRecords(ctx, "contacts", (after) =>
+      client.crm.contacts.basicApi.getPage(PAGE_SIZE, after, properties, undefined, ["company"], false),
+    )
+    return all.map(toStoredContact)
+  }
+
+  const contacts = records.map(toStoredContact)
+
+  if (contacts.length > 0) {
+    ctx.report({ type: "phase", phase: "associations", message: `Linking ${contacts.length} contacts to their companies` })
+    const companyIds = await fetchAssociatedIds(
+      client,
+      "contacts",
+      "companies",
+      contacts.map((contact) => contact.id),
+      associationOptions(ctx),
+    )
+    contacts.forEach((contact) => {
+      contact.companyIds = companyIds.get(contact.id) ?? []
+    })
+  }
+  return contacts
+}
+
+async function fetchDeals(client: Client, ctx: SyncContext, watermark: string | null): Promise<StoredDeal[]> {
+  if (!watermark) {
+    const records = await fetchAllRecords(ctx, "deals", (after) =>
+      client.crm.deals.basicApi.getPage(PAGE_SIZE, after, DEAL_PROPERTIES, undefined, ["contacts", "companies"], false),
+    )
+    return records.map(toStoredDeal)
+  }
+
+  const deals = (
+    await searchModifiedSince(
+      ctx,
+      "deals",
+      (request) => client.crm.deals.searchApi.doSearch(request as unknown as DealSearchRequest),
+      DEAL_PROPERTIES,
+      DEAL_DATE_PROPERTIES,
+      watermark,
+    )
+  ).map(toStoredDeal)
+
+  if (deals.length > 0) {
+    ctx.report({ type: "phase", phase: "associations", message: `Linking ${deals.length} deals to contacts and companies` })
+    const dealIds = deals.map((deal) => deal.id)
+    // Both lookups cover the same deals, so one of them reporting progress is enough
+    const [contactIds, companyIds] = await Promise.all([
+      fetchAssociatedIds(client, "deals", "contacts", dealIds, { scheduler: ctx.runner }),
+      fetchAssociatedIds(client, "deals", "companies", dealIds, associationOptions(ctx)),
+    ])
+    deals.forEach((deal) => {
+      deal.contactIds = contactIds.get(deal.id) ?? []
+      deal.companyIds = companyIds.get(deal.id) ?? []
+    })
+  }
+  return deals
+}
+
+// Brings the store up to date with HubSpot and refreshes the companies, deals and owners it references
+export async function syncCrmStore(
+  client: Client,
+  scheduler: HubSpotRequestRunner,
+  repository: CrmRepository,
+  mode: SyncMode,
+  rules: QualificationRules = DEFAULT_QUALIFICATION_RULES,
+  options: SyncRunOptions = {},
+): Promise<SyncSummary> {
+  const ctx: SyncContext = {
+    runner: cancellableRunner(scheduler, options.signal),
+    report: options.onProgress ?? (() => {}),
+  }
+  const warn = (message: string, e: unknown) => {
+    console.warn(`${message}:`, e)
+    ctx.report({ type: "warning", message })
+  }
+
+  const previousMeta = repository.getSyncMetadata()
+  const watermark = previousMeta.watermark
+  // Contacts were filtered with the rules in force at the last full sync, so changed rules need a full pass
+  const fingerprint = rulesFingerprint(rules)
+  const rulesChanged = (previousMeta.rulesFingerprint ?? rulesFingerprint(DEFAULT_QUALIFICATION_RULES)) !== fingerprint
+  if (rulesChanged && mode === "incremental" && watermark) {
+    console.log("📐 Qualification rules changed since the last full sync, switching to a full resync")
+    ctx.report({ type: "warning", message: "Qualification rules changed since the last full sync, so this runs as a full resync" })
+  }
+  const effectiveMode: SyncMode = mode === "incremental" && watermark && !rulesChanged ? "incremental" : "full"
+  // A scoped resync only replaces part of the mirror, so the watermarks and deals carry on as before. Without a
+  // previous full sync under the same rules there is nothing consistent to keep, so the whole mirror is replaced
+  const scope = mode === "full" && watermark && !rulesChanged && isScoped(options.scope) ? options.scope : undefined
+  const dealWatermark = effectiveMode === "incremental" || scope ? previousMeta.dealWatermark : null
+
+  const contactsMessage = scope
+    ? `Full resync of the qualifying contacts ${describeScope(scope)}`
+    : effectiveMode === "full"
+      ? "Full resync: fetching every qualifying contact and every deal from HubSpot"
+      : `Incremental sync: fetching contacts modified since ${watermark}`
+  console.log(`${effectiveMode === "full" ? "🔄" : "⚡"} ${contactsMessage}...`)
+  ctx.report({ type: "phase", phase: "contacts", message: contactsMessage })
+
+  const properties = Array.from(new Set([...CONTACT_PROPERTIES, ...ruleProperties(rules)]))
+  const changed = await fetchContacts(client, ctx, properties, effectiveMode === "full" ? null : watermark, rules, scope)
+
+  ctx.report({ type: "phase", phase: "deals", message: dealWatermark ? `Fetching deals modified since ${dealWatermark}` : "Fetching every deal" })
+  const deals = await fetchDeals(client, ctx, dealWatermark)
+
+  const companyIds = new Set<string>()
+  changed.filter((contact) => isQualifiedLead(contact, rules)).forEach((contact) => contact.companyIds.forEach((id) => companyIds.add(id)))
+  ctx.report({ type: "phase", phase: "companies", message: `Fetching ${companyIds.size} companies` })
+  const companies = await fetchCompaniesByIds(client, companyIds, COMPANY_PROPERTIES, {
+    scheduler: ctx.runner,
+    onProgress: (completed, total) => ctx.report({ type: "progress", phase: "companies", records: completed, total }),
+  })
+
+  let owners: StoredOwner[] | null = null
+  ctx.report({ type: "phase", phase: "owners", message: "Fetching owners" })
+  try {
+    const ownersMap = await fetchAllOwners(client, ctx.runner)
+    owners = Array.from(ownersMap.values()).map((owner) => ({
+      id: owner.id,
+      firstName: owner.firstName,
+      lastName: owner.lastName,
+      email: owner.email,
+    }))
+  } catch (e) {
+    if (isFatalSyncError(e)) throw e
+    warn("Failed to fetch owners, keeping the previously stored owners", e)
+  }
+
+  let pipelineStages: StoredPipelineStage[] | null = null
+  ctx.report({ type: "phase", phase: "pipelines", message: "Fetching deal pipelines" })
+  try {
+    pipelineStages = await fetchDealPipelineStages(client, ctx.runner)
+  } catch (e) {
+    if (isFatalSyncError(e)) throw e
+    warn("Failed to fetch deal pipelines, keeping the previously stored stages", e)
+  }
+
+  // Enrichment swallows failed batches, so check once more that nobody cancelled before writing
+  if (options.signal?.aborted) throw new SyncCancelledError()
+  ctx.report({ type: "phase", phase: "saving", message: "Saving to the local store" })
+
+  // Everything is fetched before writing, so a failed sync leaves the last good snapshot intact
+  const now = new Date().toISOString()
+  const meta: SyncMetadata = scope
+    ? { ...previousMeta, dealWatermark: latestModifiedDate(deals, dealWatermark, "hs_lastmodifieddate"), lastSyncAt: now }
+    : {
+        watermark: latestModifiedDate(changed, effectiveMode === "full" ? null : watermark),
+        dealWatermark: latestModifiedDate(deals, dealWatermark, "hs_lastmodifieddate"),
+        lastSyncAt: now,
+        lastFullSyncAt: effectiveMode === "full" ? now : previousMeta.lastFullSyncAt,
+        lastSyncMode: effectiveMode,
+        rulesFingerprint: effectiveMode === "full" ? fingerprint : previousMeta.rulesFingerprint,
+        lastWebhookAt: previousMeta.lastWebhookAt,
+      }
+  const { upserted, removed } = repository.transaction(() => {
+    // A full resync replaces the mirror so records deleted in HubSpot drop out; a scoped one only its part of it
+    const replaced = scope ? contactsInScope(repository, scope) : []
+    if (effectiveMode === "full" && !scope) {
+      repository.clearContacts()
+      repository.clearCompanies()
+    }
+    repository.deleteContacts(replaced)
+    if (!dealWatermark) repository.clearDeals()
+    const merged = mergeContacts(repository, changed, rules)
+    // Contacts in scope that did not come back qualified were deleted or stopped qualifying in HubSpot
+    const result = { ...merged, removed: merged.removed + replaced.filter((id) => !repository.hasContact(id)).length }
+    repository.upsertCompanies(
+      Array.from(companies.values()).map((company) => ({ id: company.id, properties: company.properties })),
+    )
+    repository.upsertDeals(deals)
+    if (owners) repository.replaceOwners(owners)
+    if (pipelineStages) repository.replacePipelineStages(pipelineStages)
+    repository.saveSyncMetadata(meta)
+    return result
+  })
+
+  console.log(
+    `✅ ${effectiveMode} sync fetched ${changed.length} contacts and ${deals.length} deals: ` +
+      `${upserted} qualified upserted, ${removed} removed`,
+  )
+  return {
+    mode: effectiveMode,
+    fetched: changed.length,
+    upserted,
+    removed,
+    deals: deals.length,
+    watermark: meta.watermark,
+  }
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest"
+import type { StoredContact } from "@/lib/types"
+import { DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import { createInMemoryCrmRepository } from "@/app/lib/crm-repository"
+import {
+  WEBHOOK_MAX_AGE_MS,
+  applyWebhookEvents,
+  parseWebhookEvents,
+  verifyWebhookSignature,
+  type ContactFetcher,
+  type SignedWebhookRequest,
+} from "@/app/lib/hubspot-webhooks"
+import creation from "@/app/lib/fixtures/hubspot-webhook-contact-creation.json"
+import propertyChange from "@/app/lib/fixtures/hubspot-webhook-contact-property-change.json"
+import deletion from "@/app/lib/fixtures/hubspot-webhook-contact-deletion.json"
+import outOfOrder from "@/app/lib/fixtures/hubspot-webhook-contact-out-of-order.json"
+
+// The fixtures are v3 deliveries signed with this client secret
+const SECRET = "hubspot-webhook-test-secret"
+
+const receivedAt = (request: SignedWebhookRequest) => Number(request.timestamp) + 1000
+
+const contact = (id: string, lifecyclestage: string, lastmodifieddate = "2025-10-01T00:00:00.000Z"): StoredContact => ({
+  id,
+  properties: { email: `${id}@example.com`, lifecyclestage, createdate: "2025-09-01T00:00:00.000Z", lastmodifieddate },
+  companyIds: [],
+})
+
+// A store holding two qualified contacts, and a HubSpot that returns `contacts` when asked
+function setup(contacts: StoredContact[] = []) {
+  const repository = createInMemoryCrmRepository()
+  repository.upsertContacts([contact("102", "marketingqualifiedlead"), contact("103", "marketingqualifiedlead")])
+  const fetchContacts = vi.fn<ContactFetcher>(async (ids) => ({
+    contacts: contacts.filter((stored) => ids.includes(stored.id)),
+    companies: [{ id: "9001", properties: { name: "Acme Corp" } }],
+  }))
+  const apply = (fixture: SignedWebhookRequest) =>
+    applyWebhookEvents(parseWebhookEvents(fixture.body), repository, DEFAULT_QUALIFICATION_RULES, fetchContacts)
+  return { repository, fetchContacts, apply }
+}
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a recorded delivery", () => {
+    for (const fixture of [creation, propertyChange, deletion]) {
+      expect(verifyWebhookSignature(SECRET, fixture, receivedAt(fixture))).toBe(true)
+    }
+  })
+
+  it("rejects a tampered body", () => {
+    const body = creation.body.replace('"objectId":101', '"objectId":999')
+    expect(body).not.toBe(creation.body)
+    expect(verifyWebhookSignature(SECRET, { ...creation, body }, receivedAt(creation))).toBe(false)
+  })
+
+  it("rejects the wrong secret, method or missing headers", () => {
+    expect(verifyWebhookSignature("another-secret", creation, receivedAt(creation))).toBe(false)
+    expect(verifyWebhookSignature(SECRET, { ...creation, method: "PUT" }, receivedAt(creation))).toBe(false)
+    expect(verifyWebhookSignature(SECRET, { ...creation, signature: null }, receivedAt(creation))).toBe(false)
+    expect(verifyWebhookSignature(SECRET, { ...creation, timestamp: null }, receivedAt(creation))).toBe(false)
+  })
+
+  it("rejects a timestamp older than five minutes", () => {
+    const signedAt = Number(creation.timestamp)
+    expect(verifyWebhookSignature(SECRET, creation, signedAt + WEBHOOK_MAX_AGE_MS)).toBe(true)
+    expect(verifyWebhookSignature(SECRET, creation, signedAt + WEBHOOK_MAX_AGE_MS + 1)).toBe(false)
+    expect(verifyWebhookSignature(SECRET, creation, signedAt - WEBHOOK_MAX_AGE_MS - 1)).toBe(false)
+  })
+
+  it("decodes the characters HubSpot decodes in a percent-encoded URI", () => {
+    // Signed with %3A, %28 and %29 decoded and %20 kept, so the lowercase forms must match too
+    expect(outOfOrder.uri).toContain("%3A")
+    expect(verifyWebhookSignature(SECRET, outOfOrder, receivedAt(outOfOrder))).toBe(true)
+    const lowercase = outOfOrder.uri.replace("%3A", "%3a")
+    expect(verifyWebhookSignature(SECRET, { ...outOfOrder, uri: lowercase }, receivedAt(outOfOrder))).toBe(true)
+    const decoded = outOfOrder.uri.replace("%20", " ")
+    expect(verifyWebhookSignature(SECRET, { ...outOfOrder, uri: decoded }, receivedAt(outOfOrder))).toBe(false)
+  })
+})
+
+describe("applyWebhookEvents", () => {
+  it("reads created contacts back from HubSpot and stores the qualified ones", async () => {
+    const { repository, fetchContacts, apply } = setup([
+      { ...contact("101", "marketingqualifiedlead"), companyIds: ["9001"] },
+    ])
+
+    const result = await apply(creation)
+
+    expect(fetchContacts).toHaveBeenCalledWith(["101"])
+    expect(result).toMatchObject({ received: 1, fetched: 1, upserted: 1, removed: 0 })
+    expect(repository.getContact("101")?.companyIds).toEqual(["9001"])
+    expect(repository.getCompanies(["9001"]).get("9001")?.properties.name).toBe("Acme Corp")
+    expect(repository.getSyncMetadata().lastWebhookAt).not.toBeNull()
+  })
+
+  it("does not store a created contact that does not qualify", async () => {
+    const { repository, apply } = setup([contact("101", "subscriber")])
+
+    expect(await apply(creation)).toMatchObject({ fetched: 1, upserted: 0, removed: 0 })
+    expect(repository.hasContact("101")).toBe(false)
+  })
+
+  it("patches property changes on stored contacts without calling HubSpot", async () => {
+    const { repository, fetchContacts, apply } = setup()
+
+    const result = await apply(propertyChange)
+
+    expect(fetchContacts).not.toHaveBeenCalled()
+    // Sequence enrollment is not a synced property
+    expect(result).toMatchObject({ received: 3, updated: 1, upserted: 1, ignored: 1 })
+    const stored = repository.getContact("102")!
+    expect(stored.properties.lifecyclestage).toBe("salesqualifiedlead")
+    expect(stored.properties.hubspot_owner_id).toBe("52550153")
+    const lastApplied = parseWebhookEvents(propertyChange.body)[1]
+    expect(stored.properties.lastmodifieddate).toBe(new Date(lastApplied.occurredAt).toISOString())
+  })
+
+  it("ignores a change older than the stored copy", async () => {
+    const { repository, apply } = setup()
+    repository.upsertContacts([contact("102", "marketingqualifiedlead", "2030-01-01T00:00:00.000Z")])
+
+    expect(await apply(propertyChange)).toMatchObject({ updated: 0, ignored: 3 })
+    expect(repository.getContact("102")?.properties.lifecyclestage).toBe("marketingqualifiedlead")
+  })
+
+  it("removes deleted contacts", async () => {
+    const { repository, apply } = setup()
+
+    expect(await apply(deletion)).toMatchObject({ received: 1, removed: 1 })
+    expect(repository.hasContact("103")).toBe(false)
+    expect(repository.hasContact("102")).toBe(true)
+  })
+
+  it("applies a batch in the order the events happened, not the order they arrived", async () => {
+    const { repository, fetchContacts, apply } = setup()
+
+    const result = await apply(outOfOrder)
+
+    // The later "salesqualifiedlead" wins over the earlier "lead", which would have dropped the contact
+    expect(repository.getContact("102")?.properties.lifecyclestage).toBe("salesqualifiedlead")
+    // The deletion happened after the change, so the contact stays deleted
+    expect(repository.hasContact("103")).toBe(false)
+    expect(result).toMatchObject({ received: 4, updated: 1, upserted: 1, removed: 1 })
+    expect(fetchContacts).not.toHaveBeenCalled()
+  })
+
+  it("removes contacts that stop qualifying or no longer exist in HubSpot", async () => {
+    const { repository, apply } = setup([])
+    const events = [
+      ...JSON.parse(propertyChange.body).slice(0, 1).map((event: object) => ({ ...event, propertyValue: "customer" })),
+      ...JSON.parse(creation.body).map((event: object) => ({ ...event, objectId: 103 })),
+    ]
+
+    expect(await apply({ ...creation, body: JSON.stringify(events) })).toMatchObject({ fetched: 0, removed: 2 })
+    expect(repository.countContacts()).toBe(0)
+  })
+})
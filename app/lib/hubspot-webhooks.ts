@@ -0,0 +1,244 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import type { Client } from "@hubspot/api-client"
+import type { QualificationRules, StoredCompany, StoredContact } from "@/lib/types"
+import type { CrmRepository } from "@/app/lib/crm-repository"
+import {
+  chunk,
+  fetchAssociatedIds,
+  fetchCompaniesByIds,
+  HUBSPOT_BATCH_READ_LIMIT,
+  type EnrichmentClient,
+} from "@/app/lib/hubspot-enrichment"
+import type { HubSpotRequestRunner } from "@/app/lib/hubspot-scheduler"
+import { COMPANY_PROPERTIES, CONTACT_PROPERTIES, isQualifiedLead } from "@/app/lib/hubspot-sync"
+import { ruleProperties } from "@/lib/qualification-rules"
+
+// Requests signed longer ago than this are rejected as possible replays, as HubSpot recommends
+export const WEBHOOK_MAX_AGE_MS = 5 * 60 * 1000
+
+export const CONTACT_WEBHOOK_SUBSCRIPTIONS = ["contact.creation", "contact.propertyChange", "contact.deletion"] as const
+export type ContactWebhookSubscription = (typeof CONTACT_WEBHOOK_SUBSCRIPTIONS)[number]
+
+// The property changes the HubSpot app should subscribe to; changes to any other synced property apply too
+export const WEBHOOK_PROPERTIES = ["lifecyclestage", "hubspot_owner_id"]
+
+// One entry of the JSON array HubSpot posts to the target URL
+export interface HubSpotWebhookEvent {
+  eventId: number
+  subscriptionId: number
+  portalId: number
+  appId: number
+  occurredAt: number // Epoch milliseconds
+  subscriptionType: string
+  attemptNumber: number
+  objectId: number
+  propertyName?: string
+  propertyValue?: string
+  changeSource?: string
+}
+
+export interface WebhookResult {
+  received: number
+  updated: number // Stored contacts patched in place
+  fetched: number // Contacts read back from HubSpot
+  upserted: number
+  removed: number
+  ignored: number // Other subscriptions, properties, or changes older than the stored copy
+}
+
+// --- Signature verification (v3) ---
+export interface SignedWebhookRequest {
+  method: string
+  uri: string // The full URL HubSpot called, including the query string
+  body: string // Raw request body, exactly as received
+  signature: string | null // X-HubSpot-Signature-v3
+  timestamp: string | null // X-HubSpot-Request-Timestamp, epoch milliseconds
+}
+
+// HubSpot signs the URI with these characters decoded
+const SIGNED_URI_DECODINGS: Record<string, string> = {
+  "%3A": ":",
+  "%2F": "/",
+  "%3F": "?",
+  "%40": "@",
+  "%21": "!",
+  "%24": "$",
+  "%27": "'",
+  "%28": "(",
+  "%29": ")",
+  "%2A": "*",
+  "%2C": ",",
+  "%3B": ";",
+}
+
+const decodeSignedUri = (uri: string) =>
+  uri.replace(/%(3A|2F|3F|40|21|24|27|28|29|2A|2C|3B)/gi, (match) => SIGNED_URI_DECODINGS[match.toUpperCase()])
+
+export function computeWebhookSignature(secret: string, request: Omit<SignedWebhookRequest, "signature">): string {
+  const source = `${request.method.toUpperCase()}${decodeSignedUri(request.uri)}${request.body}${request.timestamp ?? ""}`
+  return createHmac("sha256", secret).update(source, "utf8").digest("base64")
+}
+
+// Checks the HMAC-SHA256 signature HubSpot computes with the app's client secret
+export function verifyWebhookSignature(secret: string, request: SignedWebhookRequest, now = Date.now()): boolean {
+  if (!request.signature || !request.timestamp) return false
+  const timestamp = Number(request.timestamp)
+  if (!Number.isFinite(timestamp) || Math.abs(now - timestamp) > WEBHOOK_MAX_AGE_MS) return false
+
+  const expected = Buffer.from(computeWebhookSignature(secret, request))
+  const received = Buffer.from(request.signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export function parseWebhookEvents(body: string): HubSpotWebhookEvent[] {
+  const parsed = JSON.parse(body)
+  if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of webhook events")
+  return parsed.filter((event) => event && typeof event.subscriptionType === "string" && event.objectId != null)
+}
+
+// --- Applying events ---
+// Reads contacts back from HubSpot; IDs missing from `contacts` no longer exist there
+export type ContactFetcher = (ids: string[]) => Promise<{ contacts: StoredContact[]; companies: StoredCompany[] }>
+
+const isContactSubscription = (type: string): type is ContactWebhookSubscription =>
+  (CONTACT_WEBHOOK_SUBSCRIPTIONS as readonly string[]).includes(type)
+
+// Newer than the stored copy, so an event retried after a sync does not roll the contact back
+const isNewerThan = (contact: StoredContact, occurredAt: number) => {
+  const modified = new Date(contact.properties.lastmodifieddate || "").getTime()
+  return isNaN(modified) || occurredAt >= modified
+}
+
+// Applies a batch of contact events to the store. Creations, and changes to contacts the store does not
+// hold yet, need the full record, so those are read back through `fetchContacts`; property changes on
+// stored contacts are patched in place and re-checked against the qualification rules.
+export async function applyWebhookEvents(
+  events: HubSpotWebhookEvent[],
+  repository: CrmRepository,
+  rules: QualificationRules,
+  fetchContacts: ContactFetcher,
+): Promise<WebhookResult> {
+  const result: WebhookResult = { received: events.length, updated: 0, fetched: 0, upserted: 0, removed: 0, ignored: 0 }
+  const ordered = [...events].sort((a, b) => a.occurredAt - b.occurredAt)
+  const patched = new Map<string, StoredContact>()
+  const deleted = new Set<string>()
+  const toFetch = new Set<string>()
+  const qualifyingProperties = new Set(ruleProperties(rules))
+  const syncedProperties = new Set([...CONTACT_PROPERTIES, ...qualifyingProperties])
+
+  ordered.forEach((event) => {
+    const id = String(event.objectId)
+    if (!isContactSubscription(event.subscriptionType)) {
+      result.ignored++
+      return
+    }
+
+    if (event.subscriptionType === "contact.deletion") {
+      deleted.add(id)
+      toFetch.delete(id)
+      patched.delete(id)
+      return
+    }
+    // A later creation (a restored contact) undoes an earlier deletion in the same batch
+    deleted.delete(id)
+
+    if (event.subscriptionType === "contact.creation") {
+      toFetch.add(id)
+      return
+    }
+
+    if (!event.propertyName || !syncedProperties.has(event.propertyName)) {
+      result.ignored++
+      return
+    }
+    if (toFetch.has(id)) return // The fetched record already carries the change
+
+    const stored = patched.get(id) ?? repository.getContact(id)
+    if (!stored) {
+      // Not stored, so it did not qualify; only a change to a rule property can alter that
+      if (qualifyingProperties.has(event.propertyName)) toFetch.add(id)
+      else result.ignored++
+      return
+    }
+    if (!isNewerThan(stored, event.occurredAt)) {
+      result.ignored++
+      return
+    }
+    patched.set(id, {
+      ...stored,
+      properties: {
+        ...stored.properties,
+        [event.propertyName]: event.propertyValue ?? null,
+        lastmodifieddate: new Date(event.occurredAt).toISOString(),
+      },
+    })
+  })
+
+  const fetchedIds = Array.from(toFetch)
+  const { contacts: fetched, companies } =
+    fetchedIds.length > 0 ? await fetchContacts(fetchedIds) : { contacts: [], companies: [] }
+  result.fetched = fetched.length
+  const missing = fetchedIds.filter((id) => !fetched.some((contact) => contact.id === id))
+
+  repository.transaction(() => {
+    const changed = [...patched.values(), ...fetched]
+    const qualified = changed.filter((contact) => isQualifiedLead(contact, rules))
+    const removedIds = [
+      ...deleted,
+      ...missing,
+      ...changed.filter((contact) => !isQualifiedLead(contact, rules)).map((contact) => contact.id),
+    ].filter((id) => repository.hasContact(id))
+
+    repository.upsertContacts(qualified)
+    repository.upsertCompanies(companies)
+    repository.deleteContacts(removedIds)
+    repository.saveSyncMetadata({ ...repository.getSyncMetadata(), lastWebhookAt: new Date().toISOString() })
+
+    result.updated = patched.size
+    result.upserted = qualified.length
+    result.removed = removedIds.length
+  })
+
+  return result
+}
+
+// --- Reading contacts back from HubSpot ---
+type WebhookClient = EnrichmentClient & {
+  crm: { contacts: { batchApi: Pick<Client["crm"]["contacts"]["batchApi"], "read"> } }
+}
+
+export function hubSpotContactFetcher(
+  client: WebhookClient,
+  runner: HubSpotRequestRunner,
+  properties: string[],
+): ContactFetcher {
+  return async (ids) => {
+    const contacts: StoredContact[] = []
+    for (const [index, batch] of chunk(ids, HUBSPOT_BATCH_READ_LIMIT).entries()) {
+      const response = await runner.run(`webhook contacts batch ${index + 1}`, () =>
+        client.crm.contacts.batchApi.read({ inputs: batch.map((id) => ({ id })), properties, propertiesWithHistory: [] }),
+      )
+      response.results.forEach((record) =>
+        contacts.push({ id: record.id, properties: record.properties, companyIds: [] }),
+      )
+    }
+    if (contacts.length === 0) return { contacts, companies: [] }
+
+    const companyIds = await fetchAssociatedIds(client, "contacts", "companies", contacts.map((contact) => contact.id), {
+      scheduler: runner,
+    })
+    contacts.forEach((contact) => {
+      contact.companyIds = companyIds.get(contact.id) ?? []
+    })
+    const companies = await fetchCompaniesByIds(
+      client,
+      new Set(contacts.flatMap((contact) => contact.companyIds)),
+      COMPANY_PROPERTIES,
+      { scheduler: runner },
+    )
+    return {
+      contacts,
+      companies: Array.from(companies.values()).map((company) => ({ id: company.id, properties: company.properties })),
+    }
+  }
+}
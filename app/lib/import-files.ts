@@ -0,0 +1,54 @@
+import readXlsxFile from "read-excel-file/node"
+import { readCsvTable, type CsvRow, type CsvTable } from "@/lib/csv"
+
+export const SUPPORTED_IMPORT_EXTENSIONS = [".csv", ".xlsx"]
+
+async function* decodeChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const decoder = new TextDecoder("utf-8")
+  const reader = stream.getReader()
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    yield decoder.decode(value, { stream: true })
+  }
+  yield decoder.decode()
+}
+
+const formatCell = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return ""
+  if (cell instanceof Date) {
+    // Spreadsheet dates carry no time zone, so read them back as calendar dates
+    return `${cell.getUTCMonth() + 1}/${cell.getUTCDate()}/${cell.getUTCFullYear()}`
+  }
+  return String(cell)
+}
+
+// Reads the first worksheet, treating its first non-empty row as the header
+async function readXlsxTable(file: File): Promise<CsvTable> {
+  const sheets = await readXlsxFile(Buffer.from(await file.arrayBuffer()))
+  const data = sheets[0]?.data ?? []
+  const headerIndex = data.findIndex((row) => row.some((cell) => formatCell(cell).trim() !== ""))
+  if (headerIndex === -1) return { headers: [], rows: [], errors: [] }
+
+  const headers = data[headerIndex].map((cell) => formatCell(cell).trim())
+  const rows: CsvRow[] = []
+  data.slice(headerIndex + 1).forEach((row, index) => {
+    const cells = row.map(formatCell)
+    if (cells.every((cell) => cell.trim() === "")) return
+
+    const values: Record<string, string> = {}
+    headers.forEach((header, column) => {
+      values[header] = cells[column] ?? ""
+    })
+    rows.push({ line: headerIndex + index + 2, values })
+  })
+
+  return { headers, rows, errors: [] }
+}
+
+export async function readImportFile(file: File): Promise<CsvTable> {
+  const name = file.name.toLowerCase()
+  if (name.endsWith(".xlsx")) return readXlsxTable(file)
+  if (name.endsWith(".csv")) return readCsvTable(decodeChunks(file.stream()))
+  throw new Error(`Unsupported file type for "${file.name}". Upload a ${SUPPORTED_IMPORT_EXTENSIONS.join(" or ")} file.`)
+}
@@ -0,0 +1,97 @@
+import { randomUUID } from "crypto"
+import type { ColumnMapping, ImportProfile, ImportRowError } from "@/lib/types"
+import type { CsvRow } from "@/lib/csv"
+import { getCrmDatabase, type CrmDatabase } from "@/app/lib/db"
+
+// Only the most recent uploads are kept; older ones can simply be uploaded again
+const MAX_STORED_IMPORTS = 10
+
+export interface StoredImport {
+  id: string
+  fileName: string
+  headers: string[]
+  rows: CsvRow[]
+  errors: ImportRowError[]
+  createdAt: string
+}
+
+// Uploaded files and saved column mappings, kept server-side so recomputing never needs a re-upload
+export interface ImportStore {
+  saveImport(upload: Omit<StoredImport, "id" | "createdAt">): StoredImport
+  getImport(id: string): StoredImport | null
+  getProfiles(): ImportProfile[]
+  saveProfile(name: string, mapping: ColumnMapping): ImportProfile
+  deleteProfile(id: string): void
+}
+
+type ImportRow = { id: string; file_name: string; headers: string; rows: string; errors: string; created_at: string }
+type ProfileRow = { id: string; name: string; mapping: string; updated_at: string }
+
+export class SqliteImportStore implements ImportStore {
+  constructor(private readonly db: CrmDatabase) {}
+
+  saveImport(upload: Omit<StoredImport, "id" | "createdAt">): StoredImport {
+    const stored: StoredImport = { ...upload, id: randomUUID(), createdAt: new Date().toISOString() }
+    this.db.transaction(() => {
+      this.db
+        .prepare("INSERT INTO imports (id, file_name, headers, rows, errors, created_at) VALUES (?, ?, ?, ?, ?, ?)")
+        .run(
+          stored.id,
+          stored.fileName,
+          JSON.stringify(stored.headers),
+          JSON.stringify(stored.rows),
+          JSON.stringify(stored.errors),
+          stored.createdAt,
+        )
+      this.db
+        .prepare("DELETE FROM imports WHERE id NOT IN (SELECT id FROM imports ORDER BY created_at DESC LIMIT ?)")
+        .run(MAX_STORED_IMPORTS)
+    })()
+    return stored
+  }
+
+  getImport(id: string): StoredImport | null {
+    const row = this.db.prepare("SELECT * FROM imports WHERE id = ?").get(id) as ImportRow | undefined
+    if (!row) return null
+    return {
+      id: row.id,
+      fileName: row.file_name,
+      headers: JSON.parse(row.headers),
+      rows: JSON.parse(row.rows),
+      errors: JSON.parse(row.errors),
+      createdAt: row.created_at,
+    }
+  }
+
+  getProfiles(): ImportProfile[] {
+    const rows = this.db.prepare("SELECT * FROM import_profiles ORDER BY name").all() as ProfileRow[]
+    return rows.map((row) => ({ id: row.id, name: row.name, mapping: JSON.parse(row.mapping), updatedAt: row.updated_at }))
+  }
+
+  // Saving under an existing name overwrites that profile
+  saveProfile(name: string, mapping: ColumnMapping): ImportProfile {
+    const existing = this.db.prepare("SELECT id FROM import_profiles WHERE name = ?").get(name) as
+      | { id: string }
+      | undefined
+    const profile: ImportProfile = { id: existing?.id ?? randomUUID(), name, mapping, updatedAt: new Date().toISOString() }
+    this.db
+      .prepare(`
+        INSERT INTO import_profiles (id, name, mapping, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO UPDATE SET mapping = excluded.mapping, updated_at = excluded.updated_at
+      `)
+      .run(profile.id, profile.name, JSON.stringify(profile.mapping), profile.updatedAt)
+    return profile
+  }
+
+  deleteProfile(id: string) {
+    this.db.prepare("DELETE FROM import_profiles WHERE id = ?").run(id)
+  }
+}
+
+// Uploaded files are not tied to a HubSpot portal, so they stay in the main database
+let sharedStore: ImportStore | null = null
+
+export function getImportStore(): ImportStore {
+  if (!sharedStore) sharedStore = new SqliteImportStore(getCrmDatabase())
+  return sharedStore
+}
@@ -0,0 +1,58 @@
+import type { MetricSnapshot, SnapshotComparison, SnapshotMetrics } from "@/lib/types"
+import { baselineCutoff } from "@/lib/metric-snapshots"
+import { getCrmDatabase, type CrmDatabase } from "@/app/lib/db"
+
+// About three months of hourly syncs, enough for every comparison the dashboard offers
+const MAX_STORED_SNAPSHOTS = 2_000
+
+// Dashboard figures saved after each successful sync, for period-over-period deltas
+export interface MetricSnapshotStore {
+  save(runId: number | null, metrics: SnapshotMetrics): MetricSnapshot
+  findBaseline(comparison: Exclude<SnapshotComparison, "none">, reference: string): MetricSnapshot | null
+}
+
+type SnapshotRow = { id: number; run_id: number | null; taken_at: string; metrics: string }
+
+const toSnapshot = (row: SnapshotRow): MetricSnapshot => ({
+  id: row.id,
+  runId: row.run_id,
+  takenAt: row.taken_at,
+  metrics: JSON.parse(row.metrics),
+})
+
+export class SqliteMetricSnapshotStore implements MetricSnapshotStore {
+  constructor(private readonly db: CrmDatabase) {}
+
+  save(runId: number | null, metrics: SnapshotMetrics): MetricSnapshot {
+    const takenAt = new Date().toISOString()
+    const id = this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare("INSERT INTO metric_snapshots (run_id, taken_at, metrics) VALUES (?, ?, ?)")
+        .run(runId, takenAt, JSON.stringify(metrics))
+      this.db
+        .prepare("DELETE FROM metric_snapshots WHERE id NOT IN (SELECT id FROM metric_snapshots ORDER BY id DESC LIMIT ?)")
+        .run(MAX_STORED_SNAPSHOTS)
+      return Number(lastInsertRowid)
+    })()
+    return { id, runId, takenAt, metrics }
+  }
+
+  // `reference` is when the compared data was synced; its own snapshot is taken just after, so it never matches
+  findBaseline(comparison: Exclude<SnapshotComparison, "none">, reference: string): MetricSnapshot | null {
+    const row = this.db
+      .prepare("SELECT * FROM metric_snapshots WHERE taken_at < ? ORDER BY taken_at DESC LIMIT 1")
+      .get(baselineCutoff(comparison, reference)) as SnapshotRow | undefined
+    return row ? toSnapshot(row) : null
+  }
+}
+
+const sharedStores = new Map<string, MetricSnapshotStore>()
+
+export function getMetricSnapshotStore(portalId: string): MetricSnapshotStore {
+  let store = sharedStores.get(portalId)
+  if (!store) {
+    store = new SqliteMetricSnapshotStore(getCrmDatabase(portalId))
+    sharedStores.set(portalId, store)
+  }
+  return store
+}
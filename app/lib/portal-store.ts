@@ -0,0 +1,123 @@
+import type { HubSpotPortal } from "@/lib/types"
+import { getCrmDatabase, type CrmDatabase } from "@/app/lib/db"
+import { decryptToken, encryptToken } from "@/app/lib/token-crypto"
+
+export interface PortalTokens {
+  accessToken: string
+  refreshToken: string
+  expiresAt: string
+}
+
+// A portal installed through OAuth, with its tokens decrypted
+export interface StoredPortal extends PortalTokens {
+  id: string
+  name: string
+  domain: string | null
+  scopes: string[]
+  installedAt: string
+}
+
+// Portals installed through OAuth; tokens are encrypted at rest with TOKEN_ENCRYPTION_KEY
+export interface PortalStore {
+  list(): HubSpotPortal[]
+  get(id: string): StoredPortal | null
+  save(portal: StoredPortal): void
+  updateTokens(id: string, tokens: PortalTokens): void
+  remove(id: string): void
+}
+
+type PortalRow = {
+  id: string
+  name: string
+  domain: string | null
+  access_token: string
+  refresh_token: string
+  expires_at: string
+  scopes: string
+  installed_at: string
+}
+
+export class SqlitePortalStore implements PortalStore {
+  constructor(private readonly db: CrmDatabase) {}
+
+  // Listing never touches the tokens, so it works even without the encryption key
+  list(): HubSpotPortal[] {
+    const rows = this.db
+      .prepare("SELECT id, name, domain, installed_at FROM portals ORDER BY name COLLATE NOCASE")
+      .all() as PortalRow[]
+    return rows.map((row) => ({
+      id: row.id,
+      name: row.name,
+      domain: row.domain,
+      authType: "oauth",
+      installedAt: row.installed_at,
+    }))
+  }
+
+  get(id: string): StoredPortal | null {
+    const row = this.db.prepare("SELECT * FROM portals WHERE id = ?").get(id) as PortalRow | undefined
+    if (!row) return null
+    return {
+      id: row.id,
+      name: row.name,
+      domain: row.domain,
+      accessToken: decryptToken(row.access_token),
+      refreshToken: decryptToken(row.refresh_token),
+      expiresAt: row.expires_at,
+      scopes: JSON.parse(row.scopes),
+      installedAt: row.installed_at,
+    }
+  }
+
+  // Reinstalling a portal replaces its tokens but keeps the original install date
+  save(portal: StoredPortal) {
+    this.db
+      .prepare(`
+        INSERT INTO portals (id, name, domain, access_token, refresh_token, expires_at, scopes, installed_at, updated_at)
+        VALUES (@id, @name, @domain, @accessToken, @refreshToken, @expiresAt, @scopes, @installedAt, @updatedAt)
+        ON CONFLICT (id) DO UPDATE SET
+          name = excluded.name,
+          domain = excluded.domain,
+          access_token = excluded.access_token,
+          refresh_token = excluded.refresh_token,
+          expires_at = excluded.expires_at,
+          scopes = excluded.scopes,
+          updated_at = excluded.updated_at
+      `)
+      .run({
+        id: portal.id,
+        name: portal.name,
+        domain: portal.domain,
+        accessToken: encryptToken(portal.accessToken),
+        refreshToken: encryptToken(portal.refreshToken),
+        expiresAt: portal.expiresAt,
+        scopes: JSON.stringify(portal.scopes),
+        installedAt: portal.installedAt,
+        updatedAt: new Date().toISOString(),
+      })
+  }
+
+  updateTokens(id: string, tokens: PortalTokens) {
+    this.db
+      .prepare("UPDATE portals SET access_token = ?, refresh_token = ?, expires_at = ?, updated_at = ? WHERE id = ?")
+      .run(
+        encryptToken(tokens.accessToken),
+        encryptToken(tokens.refreshToken),
+        tokens.expiresAt,
+        new Date().toISOString(),
+        id,
+      )
+  }
+
+  remove(id: string) {
+    this.db.prepare("DELETE FROM portals WHERE id = ?").run(id)
+  }
+}
+
+let sharedStore: PortalStore | null = null
+
+// The registry lives in the main database, next to the private-app portal's data
+export function getPortalStore(): PortalStore {
+  if (!sharedStore) sharedStore = new SqlitePortalStore(getCrmDatabase())
+  return sharedStore
+}
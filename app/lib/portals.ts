@@ -0,0 +1,79 @@
+import { cookies } from "next/headers"
+import type { Client } from "@hubspot/api-client"
+import type { HubSpotPortal, PortalList } from "@/lib/types"
+import { DEFAULT_PORTAL_ID } from "@/app/lib/db"
+import {
+  accessTokenRunner,
+  createHubSpotClient,
+  getHubSpotScheduler,
+  type HubSpotRequestRunner,
+  type HubSpotRequestScheduler,
+} from "@/app/lib/hubspot-scheduler"
+import { oauthAccessToken, oauthConfig } from "@/app/lib/hubspot-oauth"
+import { getPortalStore } from "@/app/lib/portal-store"
+
+// Which portal this browser is looking at; syncs, settings and history all follow it
+export const PORTAL_COOKIE = "hubspot_portal"
+export const PORTAL_COOKIE_OPTIONS = { httpOnly: true, sameSite: "lax", maxAge: 60 * 60 * 24 * 365 } as const
+
+export function hubSpotApiKey(): string | null {
+  return process.env.HUBSPOT_API_KEY?.trim() || null
+}
+
+export function listPortals(): HubSpotPortal[] {
+  const privateApp: HubSpotPortal[] = hubSpotApiKey()
+    ? [{ id: DEFAULT_PORTAL_ID, name: "Private app (HUBSPOT_API_KEY)", domain: null, authType: "private-app", installedAt: null }]
+    : []
+  return [...privateApp, ...getPortalStore().list()]
+}
+
+// Whether the portal can be synced: the private-app key is set, or the OAuth portal is installed
+export function canSyncPortal(portalId: string): boolean {
+  if (portalId === DEFAULT_PORTAL_ID) return !!hubSpotApiKey()
+  return getPortalStore().list().some((portal) => portal.id === portalId)
+}
+
+export function requirePortalAccess(portalId: string) {
+  if (canSyncPortal(portalId)) return
+  throw new Error(
+    portalId === DEFAULT_PORTAL_ID
+      ? "HubSpot API key (HUBSPOT_API_KEY) is not configured in environment variables."
+      : `HubSpot portal ${portalId} is not installed. Connect it again from the portal switcher.`,
+  )
+}
+
+export interface HubSpotConnection {
+  client: Client
+  scheduler: HubSpotRequestScheduler // The portal's rate-limit budget and API usage stats
+  runner: HubSpotRequestRunner // Every request goes through this, so OAuth tokens are refreshed as needed
+}
+
+export function connectToPortal(portalId: string): HubSpotConnection {
+  requirePortalAccess(portalId)
+  const scheduler = getHubSpotScheduler(portalId)
+  if (portalId === DEFAULT_PORTAL_ID) {
+    return { client: createHubSpotClient(hubSpotApiKey()!, scheduler), scheduler, runner: scheduler }
+  }
+  // The token is filled in before the first request
+  const client = createHubSpotClient("", scheduler)
+  return { client, scheduler, runner: accessTokenRunner(client, scheduler, () => oauthAccessToken(portalId)) }
+}
+
+// The portal a webhook event belongs to: its OAuth install, or else the private app
+export function portalForHub(hubId: number | string): string | null {
+  const id = String(hubId)
+  if (getPortalStore().list().some((portal) => portal.id === id)) return id
+  return hubSpotApiKey() ? DEFAULT_PORTAL_ID : null
+}
+
+// Falls back to the first connected portal when the cookie is missing or names a removed one. With nothing
+// connected it is the private-app portal, whose data (or lack of a key) the dashboard already explains.
+export async function activePortalId(): Promise<string> {
+  const requested = (await cookies()).get(PORTAL_COOKIE)?.value
+  const portals = listPortals()
+  return portals.find((portal) => portal.id === requested)?.id ?? portals[0]?.id ?? DEFAULT_PORTAL_ID
+}
+
+export async function portalList(): Promise<PortalList> {
+  return { portals: listPortals(), activePortalId: await activePortalId(), canInstall: !!oauthConfig() }
+}
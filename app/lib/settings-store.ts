@@ -0,0 +1,64 @@
+import type { QualificationRules, SyncSchedule } from "@/lib/types"
+import { getCrmDatabase, type CrmDatabase } from "@/app/lib/db"
+import { DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import { DEFAULT_FISCAL_YEAR_START_MONTH } from "@/lib/date-presets"
+
+// Small JSON settings edited from the dashboard (qualification rules and the like)
+export interface SettingsStore {
+  get<T>(key: string, fallback: T): T
+  save<T>(key: string, value: T): void
+}
+
+export class SqliteSettingsStore implements SettingsStore {
+  constructor(private readonly db: CrmDatabase) {}
+
+  get<T>(key: string, fallback: T): T {
+    const row = this.db.prepare("SELECT value FROM settings WHERE key = ?").get(key) as { value: string } | undefined
+    return row ? (JSON.parse(row.value) as T) : fallback
+  }
+
+  save<T>(key: string, value: T) {
+    this.db
+      .prepare(`
+        INSERT INTO settings (key, value, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+      `)
+      .run(key, JSON.stringify(value), new Date().toISOString())
+  }
+}
+
+const sharedStores = new Map<string, SettingsStore>()
+
+// Settings belong to a portal, so each client's rules and schedule are edited separately
+export function getSettingsStore(portalId: string): SettingsStore {
+  let store = sharedStores.get(portalId)
+  if (!store) {
+    store = new SqliteSettingsStore(getCrmDatabase(portalId))
+    sharedStores.set(portalId, store)
+  }
+  return store
+}
+
+// --- Typed settings ---
+export const QUALIFICATION_RULES_KEY = "qualificationRules"
+export const SYNC_SCHEDULE_KEY = "syncSchedule"
+export const FISCAL_YEAR_START_KEY = "fiscalYearStartMonth"
+
+// Hourly incremental syncs, with a nightly full resync to repair drift
+export const DEFAULT_SYNC_SCHEDULE: SyncSchedule = {
+  enabled: true,
+  incrementalCron: "0 * * * *",
+  fullCron: "0 2 * * *",
+}
+
+export function loadQualificationRules(portalId: string): QualificationRules {
+  return getSettingsStore(portalId).get(QUALIFICATION_RULES_KEY, DEFAULT_QUALIFICATION_RULES)
+}
+
+export function loadSyncSchedule(portalId: string): SyncSchedule {
+  return getSettingsStore(portalId).get(SYNC_SCHEDULE_KEY, DEFAULT_SYNC_SCHEDULE)
+}
+
+export function loadFiscalYearStartMonth(portalId: string): number {
+  return getSettingsStore(portalId).get(FISCAL_YEAR_START_KEY, DEFAULT_FISCAL_YEAR_START_MONTH)
+}
@@ -0,0 +1,127 @@
+import type { SyncJobStatus, SyncMode, SyncRun, SyncSummary, SyncTrigger } from "@/lib/types"
+import { getCrmDatabase, type CrmDatabase } from "@/app/lib/db"
+
+// A few months of hourly syncs is plenty to spot a pattern; older runs are dropped
+const MAX_STORED_RUNS = 2_000
+
+export interface SyncRunResult {
+  status: Exclude<SyncJobStatus, "running">
+  summary?: SyncSummary
+  apiCalls: number
+  error?: string
+}
+
+// One row per sync run, manual or scheduled
+export interface SyncRunStore {
+  start(trigger: SyncTrigger, requestedMode: SyncMode): SyncRun
+  finish(id: number, result: SyncRunResult): void
+  list(limit?: number): SyncRun[]
+  latestCompleted(): SyncRun | null
+  markInterrupted(): number
+}
+
+type SyncRunRow = {
+  id: number
+  trigger: SyncTrigger
+  requested_mode: SyncMode
+  mode: SyncMode | null
+  status: SyncJobStatus
+  started_at: string
+  finished_at: string | null
+  fetched: number | null
+  upserted: number | null
+  removed: number | null
+  deals: number | null
+  api_calls: number | null
+  error: string | null
+}
+
+const toSyncRun = (row: SyncRunRow): SyncRun => ({
+  id: row.id,
+  trigger: row.trigger,
+  requestedMode: row.requested_mode,
+  mode: row.mode,
+  status: row.status,
+  startedAt: row.started_at,
+  finishedAt: row.finished_at,
+  fetched: row.fetched,
+  upserted: row.upserted,
+  removed: row.removed,
+  deals: row.deals,
+  apiCalls: row.api_calls,
+  error: row.error,
+})
+
+export class SqliteSyncRunStore implements SyncRunStore {
+  constructor(private readonly db: CrmDatabase) {}
+
+  start(trigger: SyncTrigger, requestedMode: SyncMode): SyncRun {
+    const startedAt = new Date().toISOString()
+    const id = this.db.transaction(() => {
+      const { lastInsertRowid } = this.db
+        .prepare("INSERT INTO sync_runs (trigger, requested_mode, status, started_at) VALUES (?, ?, 'running', ?)")
+        .run(trigger, requestedMode, startedAt)
+      this.db
+        .prepare("DELETE FROM sync_runs WHERE id NOT IN (SELECT id FROM sync_runs ORDER BY id DESC LIMIT ?)")
+        .run(MAX_STORED_RUNS)
+      return Number(lastInsertRowid)
+    })()
+    return this.get(id)!
+  }
+
+  finish(id: number, { status, summary, apiCalls, error }: SyncRunResult) {
+    this.db
+      .prepare(`
+        UPDATE sync_runs
+        SET status = ?, mode = ?, finished_at = ?, fetched = ?, upserted = ?, removed = ?, deals = ?, api_calls = ?, error = ?
+        WHERE id = ?
+      `)
+      .run(
+        status,
+        summary?.mode ?? null,
+        new Date().toISOString(),
+        summary?.fetched ?? null,
+        summary?.upserted ?? null,
+        summary?.removed ?? null,
+        summary?.deals ?? null,
+        apiCalls,
+        error ?? null,
+        id,
+      )
+  }
+
+  list(limit = 50): SyncRun[] {
+    const rows = this.db.prepare("SELECT * FROM sync_runs ORDER BY id DESC LIMIT ?").all(limit) as SyncRunRow[]
+    return rows.map(toSyncRun)
+  }
+
+  latestCompleted(): SyncRun | null {
+    const row = this.db
+      .prepare("SELECT * FROM sync_runs WHERE status = 'completed' ORDER BY id DESC LIMIT 1")
+      .get() as SyncRunRow | undefined
+    return row ? toSyncRun(row) : null
+  }
+
+  // Runs still marked running when the server starts were cut off by a restart
+  markInterrupted(): number {
+    return this.db
+      .prepare("UPDATE sync_runs SET status = 'failed', finished_at = ?, error = ? WHERE status = 'running'")
+      .run(new Date().toISOString(), "The server stopped before this sync finished").changes
+  }
+
+  private get(id: number): SyncRun | null {
+    const row = this.db.prepare("SELECT * FROM sync_runs WHERE id = ?").get(id) as SyncRunRow | undefined
+    return row ? toSyncRun(row) : null
+  }
+}
+
+const sharedStores = new Map<string, SyncRunStore>()
+
+export function getSyncRunStore(portalId: string): SyncRunStore {
+  let store = sharedStores.get(portalId)
+  if (!store) {
+    store = new SqliteSyncRunStore(getCrmDatabase(portalId))
+    sharedStores.set(portalId, store)
+  }
+  return store
+}
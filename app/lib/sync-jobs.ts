@@ -0,0 +1,126 @@
+import { randomUUID } from "crypto"
+import type { SyncJobStatus, SyncMode, SyncProgressEvent, SyncSummary } from "@/lib/types"
+
+// Finished jobs are kept briefly so a reconnecting browser can still read how they ended
+const FINISHED_JOBS_KEPT = 5
+
+export interface SyncJob {
+  id: string
+  portalId: string
+  mode: SyncMode
+  status: SyncJobStatus
+  startedAt: string
+  finishedAt: string | null
+  events: SyncProgressEvent[] // Consecutive progress events for the same phase are collapsed into the latest
+}
+
+export type SyncJobTask = (onProgress: (event: SyncProgressEvent) => void, signal: AbortSignal) => Promise<SyncSummary>
+type SyncJobListener = (event: SyncProgressEvent) => void
+
+type JobEntry = { job: SyncJob; controller: AbortController; listeners: Set<SyncJobListener> }
+
+export const isFinishedEvent = (event: SyncProgressEvent) => event.type === "status" && event.status !== "running"
+
+// Runs syncs in the background so their progress can be streamed. Each portal syncs one job at a time since
+// its jobs write the same store; different portals write different stores, so they may run side by side.
+export class SyncJobRegistry {
+  private readonly entries = new Map<string, JobEntry>()
+
+  // Returns the portal's running job instead of starting a second one
+  start(portalId: string, mode: SyncMode, task: SyncJobTask): SyncJob {
+    const running = this.running(portalId)
+    if (running) return running
+
+    const entry: JobEntry = {
+      job: {
+        id: randomUUID(),
+        portalId,
+        mode,
+        status: "running",
+        startedAt: new Date().toISOString(),
+        finishedAt: null,
+        events: [],
+      },
+      controller: new AbortController(),
+      listeners: new Set(),
+    }
+    this.entries.set(entry.job.id, entry)
+    this.emit(entry, { type: "status", status: "running", message: `Starting ${mode} sync` })
+
+    task((event) => this.emit(entry, event), entry.controller.signal)
+      .then((summary) =>
+        this.finish(entry, {
+          type: "status",
+          status: "completed",
+          message: `Synced ${summary.fetched} contacts and ${summary.deals} deals`,
+          summary,
+        }),
+      )
+      .catch((e) =>
+        this.finish(
+          entry,
+          // Compared by name: scheduled jobs throw the error class from the instrumentation bundle
+          e?.name === "SyncCancelledError"
+            ? { type: "status", status: "cancelled", message: e.message }
+            : { type: "status", status: "failed", message: e?.message || "The sync failed" },
+        ),
+      )
+    return entry.job
+  }
+
+  running(portalId: string): SyncJob | null {
+    return (
+      Array.from(this.entries.values()).find((entry) => entry.job.portalId === portalId && entry.job.status === "running")
+        ?.job ?? null
+    )
+  }
+
+  get(id: string): SyncJob | null {
+    return this.entries.get(id)?.job ?? null
+  }
+
+  // Only live events reach the listener; callers replay job.events themselves first
+  subscribe(id: string, listener: SyncJobListener): () => void {
+    const listeners = this.entries.get(id)?.listeners
+    listeners?.add(listener)
+    return () => listeners?.delete(listener)
+  }
+
+  cancel(id: string): boolean {
+    const entry = this.entries.get(id)
+    if (!entry || entry.job.status !== "running") return false
+    entry.controller.abort()
+    this.emit(entry, { type: "warning", message: "Cancelling after the current request..." })
+    return true
+  }
+
+  private emit(entry: JobEntry, event: SyncProgressEvent) {
+    const events = entry.job.events
+    const last = events[events.length - 1]
+    if (event.type === "progress" && last?.type === "progress" && last.phase === event.phase) {
+      events[events.length - 1] = event
+    } else {
+      events.push(event)
+    }
+    entry.listeners.forEach((listener) => listener(event))
+  }
+
+  private finish(entry: JobEntry, event: SyncProgressEvent & { type: "status" }) {
+    entry.job.status = event.status
+    entry.job.finishedAt = new Date().toISOString()
+    this.emit(entry, event)
+    entry.listeners.clear()
+
+    const finished = Array.from(this.entries.values()).filter((other) => other.job.status !== "running")
+    finished.slice(0, Math.max(0, finished.length - FINISHED_JOBS_KEPT)).forEach((old) => this.entries.delete(old.job.id))
+  }
+}
+
+// Kept on globalThis because the sync schedule boots from instrumentation.ts, which Next bundles separately
+// from the app; a module-level singleton would give scheduled and manual syncs different registries
+const globalForSyncJobs = globalThis as typeof globalThis & { syncJobRegistry?: SyncJobRegistry }
+
+export function getSyncJobs(): SyncJobRegistry {
+  if (!globalForSyncJobs.syncJobRegistry) globalForSyncJobs.syncJobRegistry = new SyncJobRegistry()
+  return globalForSyncJobs.syncJobRegistry
+}
@@ -0,0 +1,72 @@
+import type { SyncMode, SyncSummary, SyncTrigger } from "@/lib/types"
+import { getCrmRepository } from "@/app/lib/crm-repository"
+import { syncCrmStore, type SyncRunOptions, type SyncScope } from "@/app/lib/hubspot-sync"
+import { SyncCancelledError } from "@/app/lib/hubspot-scheduler"
+import { getSyncJobs, type SyncJob } from "@/app/lib/sync-jobs"
+import { getSyncRunStore } from "@/app/lib/sync-history"
+import { loadQualificationRules } from "@/app/lib/settings-store"
+import { getMetricSnapshotStore } from "@/app/lib/metric-snapshot-store"
+import { connectToPortal, requirePortalAccess } from "@/app/lib/portals"
+import { summarizeMetrics } from "@/lib/metric-snapshots"
+
+// Runs one sync of a portal and records it in that portal's sync history, whoever triggered it
+export async function runRecordedSync(
+  portalId: string,
+  mode: SyncMode,
+  trigger: SyncTrigger,
+  options: SyncRunOptions = {},
+): Promise<SyncSummary> {
+  const { client, scheduler, runner } = connectToPortal(portalId)
+  const history = getSyncRunStore(portalId)
+  const run = history.start(trigger, mode)
+  const callsBefore = scheduler.stats.calls
+  const apiCalls = () => scheduler.stats.calls - callsBefore
+
+  try {
+    // Later syncs only pull contacts modified since the stored watermark; a full resync repairs drift
+    const summary = await syncCrmStore(
+      client,
+      runner,
+      getCrmRepository(portalId),
+      mode,
+      loadQualificationRules(portalId),
+      options,
+    )
+    history.finish(run.id, { status: "completed", summary, apiCalls: apiCalls() })
+    await recordMetricSnapshot(portalId, run.id)
+    return summary
+  } catch (e: any) {
+    history.finish(run.id, {
+      status: e instanceof SyncCancelledError ? "cancelled" : "failed",
+      apiCalls: apiCalls(),
+      error: e?.message || String(e),
+    })
+    throw e
+  } finally {
+    console.log(
+      `📡 HubSpot API usage (portal ${portalId}, run #${run.id}): ${apiCalls()} calls, ${scheduler.stats.retries} retries in total`,
+    )
+  }
+}
+
+// Saves the unfiltered dashboard figures so later syncs can be compared against this one
+async function recordMetricSnapshot(portalId: string, runId: number) {
+  try {
+    if (getCrmRepository(portalId).countContacts() === 0) return
+    // Imported lazily: the actions module imports this one
+    const { processStoredHubSpotData } = await import("@/app/lib/hubspot-actions")
+    const data = await processStoredHubSpotData(undefined, undefined, portalId)
+    if (data) getMetricSnapshotStore(portalId).save(runId, summarizeMetrics(data))
+  } catch (e) {
+    // The sync itself succeeded, so a missing snapshot only costs one comparison point
+    console.warn("Failed to record a metric snapshot:", e)
+  }
+}
+
+// Runs the sync as a background job whose progress can be streamed; returns the portal's running job if there is one
+export function startSyncJob(portalId: string, mode: SyncMode, trigger: SyncTrigger, scope?: SyncScope): SyncJob {
+  requirePortalAccess(portalId)
+  return getSyncJobs().start(portalId, mode, (onProgress, signal) =>
+    runRecordedSync(portalId, mode, trigger, { onProgress, signal, scope }),
+  )
+}
@@ -0,0 +1,133 @@
+import type { SyncMode, SyncSchedule, SyncScheduleStatus } from "@/lib/types"
+import { nextCronTime } from "@/lib/cron"
+import { loadSyncSchedule } from "@/app/lib/settings-store"
+import { getSyncJobs } from "@/app/lib/sync-jobs"
+import { getSyncRunStore } from "@/app/lib/sync-history"
+import { startSyncJob } from "@/app/lib/sync-runner"
+import { canSyncPortal, listPortals } from "@/app/lib/portals"
+
+// setTimeout overflows past ~24.8 days, so longer waits are split into several timers
+const MAX_TIMER_MS = 2_147_483_647
+
+type NextRun = { mode: SyncMode; at: Date }
+
+// Runs one portal's scheduled syncs in the Next.js server process. Only one timer is armed at a time: for
+// the earliest upcoming run, with the full resync winning when both are due at the same minute.
+export class SyncScheduler {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private schedule: SyncSchedule | null = null
+
+  constructor(private readonly portalId: string) {}
+
+  start(schedule: SyncSchedule) {
+    this.stop()
+    this.schedule = schedule
+    if (!this.isActive()) {
+      console.log(
+        schedule.enabled
+          ? `⏰ Sync schedule for portal ${this.portalId} idle: no HubSpot credentials`
+          : `⏰ Sync schedule for portal ${this.portalId} disabled`,
+      )
+      return
+    }
+    this.armNext()
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  status(schedule: SyncSchedule = this.schedule ?? loadSyncSchedule(this.portalId)): SyncScheduleStatus {
+    const now = new Date()
+    const active = schedule.enabled && !!canSyncPortal(this.portalId)
+    return {
+      ...schedule,
+      active,
+      nextIncrementalAt: active ? (nextCronTime(schedule.incrementalCron, now)?.toISOString() ?? null) : null,
+      nextFullAt: active ? (nextCronTime(schedule.fullCron, now)?.toISOString() ?? null) : null,
+    }
+  }
+
+  private isActive() {
+    return !!this.schedule?.enabled && !!canSyncPortal(this.portalId)
+  }
+
+  private nextRun(after: Date): NextRun | null {
+    if (!this.schedule) return null
+    const full = nextCronTime(this.schedule.fullCron, after)
+    const incremental = nextCronTime(this.schedule.incrementalCron, after)
+    if (full && (!incremental || full <= incremental)) return { mode: "full", at: full }
+    return incremental ? { mode: "incremental", at: incremental } : null
+  }
+
+  private armNext() {
+    const next = this.nextRun(new Date())
+    if (!next) {
+      console.warn(`⏰ Sync schedule for portal ${this.portalId} has no upcoming runs`)
+      return
+    }
+    console.log(`⏰ Next scheduled ${next.mode} sync of portal ${this.portalId} at ${next.at.toISOString()}`)
+    this.armFor(next)
+  }
+
+  private armFor(next: NextRun) {
+    const delay = next.at.getTime() - Date.now()
+    this.timer = setTimeout(
+      () => {
+        if (Date.now() < next.at.getTime()) {
+          this.armFor(next)
+          return
+        }
+        this.run(next.mode)
+        this.armNext()
+      },
+      Math.max(0, Math.min(delay, MAX_TIMER_MS)),
+    )
+  }
+
+  private run(mode: SyncMode) {
+    const running = getSyncJobs().running(this.portalId)
+    if (running) {
+      console.log(`⏰ Skipping scheduled ${mode} sync of portal ${this.portalId}: a ${running.mode} sync is still running`)
+      return
+    }
+    try {
+      startSyncJob(this.portalId, mode, "scheduled")
+    } catch (e) {
+      console.error(`⏰ Scheduled ${mode} sync of portal ${this.portalId} failed to start:`, e)
+    }
+  }
+}
+
+// On globalThis for the same reason as the sync job registry: instrumentation.ts and the app are separate bundles
+const globalForSyncSchedule = globalThis as typeof globalThis & { syncSchedulers?: Map<string, SyncScheduler> }
+
+export function getSyncScheduler(portalId: string): SyncScheduler {
+  if (!globalForSyncSchedule.syncSchedulers) globalForSyncSchedule.syncSchedulers = new Map()
+  let scheduler = globalForSyncSchedule.syncSchedulers.get(portalId)
+  if (!scheduler) {
+    scheduler = new SyncScheduler(portalId)
+    globalForSyncSchedule.syncSchedulers.set(portalId, scheduler)
+  }
+  return scheduler
+}
+
+// Called for each portal when the server boots, when a portal is installed, and whenever its schedule is edited
+export function startSyncSchedule(portalId: string) {
+  getSyncScheduler(portalId).start(loadSyncSchedule(portalId))
+}
+
+export function startAllSyncSchedules() {
+  listPortals().forEach((portal) => startSyncSchedule(portal.id))
+}
+
+// Runs left "running" by a previous server process can never finish
+export function recoverInterruptedRuns() {
+  listPortals().forEach((portal) => {
+    const interrupted = getSyncRunStore(portal.id).markInterrupted()
+    if (interrupted > 0) {
+      console.warn(`⚠️ Marked ${interrupted} sync run(s) of portal ${portal.id} interrupted by the last shutdown as failed`)
+    }
+  })
+}
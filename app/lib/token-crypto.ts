@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+
+const ALGORITHM = "aes-256-gcm"
+const IV_BYTES = 12
+const FORMAT_VERSION = "v1"
+
+// Any string works as the secret; it is hashed into the 256-bit key AES needs
+function encryptionKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY?.trim()
+  if (!secret) {
+    throw new Error("TOKEN_ENCRYPTION_KEY is not configured, so HubSpot OAuth tokens cannot be stored or read.")
+  }
+  return createHash("sha256").update(secret).digest()
+}
+
+// "v1:<iv>:<auth tag>:<ciphertext>", the last three base64
+export function encryptToken(token: string): string {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(ALGORITHM, encryptionKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(token, "utf8"), cipher.final()])
+  return [FORMAT_VERSION, ...[iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString("base64"))].join(":")
+}
+
+export function decryptToken(encrypted: string): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(":")
+  if (version !== FORMAT_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Stored token is not in a recognised encrypted format")
+  }
+  const decipher = createDecipheriv(ALGORITHM, encryptionKey(), Buffer.from(iv, "base64"))
+  decipher.setAuthTag(Buffer.from(tag, "base64"))
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8")
+  } catch {
+    throw new Error("Stored token could not be decrypted; was TOKEN_ENCRYPTION_KEY changed?")
+  }
+}
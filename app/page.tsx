@@ -1,37 +1,255 @@
 "use client"
 
-import { useState, useTransition, useEffect } from "react"
+import { useState, useTransition, useEffect, useMemo, useRef } from "react"
 import AccountDashboard from "@/components/dashboard"
+import DataImport from "@/components/data-import"
+import ValidationReportButton from "@/components/validation-report"
+import QualificationRulesEditor from "@/components/qualification-rules-editor"
+import SyncProgressPanel from "@/components/sync-progress"
+import SyncHistory from "@/components/sync-history"
+import PortalSwitcher from "@/components/portal-switcher"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Badge } from "@/components/ui/badge"
-import type { ProcessedData } from "@/lib/types"
-import { fetchAndProcessHubSpotData } from "@/app/lib/hubspot-actions"
-import { RefreshCw, AlertTriangle, CalendarIcon } from "lucide-react"
-import { format } from "date-fns"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type {
+  ColumnMapping,
+  DataSnapshot,
+  ImportPreview,
+  MetricSnapshot,
+  ProcessedData,
+  SnapshotComparison,
+  SyncJobStatus,
+  SyncMetadata,
+} from "@/lib/types"
+import {
+  cancelHubSpotSync,
+  getFiscalYearStartMonth,
+  getMetricBaseline,
+  getSyncStatus,
+  processImportedData,
+  processStoredHubSpotData,
+  saveFiscalYearStartMonth,
+  startHubSpotSync,
+} from "@/app/lib/hubspot-actions"
+import { applyDashboardFilters, type DashboardFilters } from "@/lib/dashboard-filters"
+import {
+  parseDashboardView,
+  serializeDashboardView,
+  type DashboardTab,
+  type DashboardViewState,
+} from "@/lib/dashboard-url"
+import {
+  comparisonRange,
+  describeRange,
+  PERIOD_COMPARISON_LABELS,
+  type PeriodComparison,
+} from "@/lib/period-comparison"
+import {
+  DATE_PRESET_LABELS,
+  DATE_PRESETS,
+  DEFAULT_FISCAL_YEAR_START_MONTH,
+  describeFiscalQuarter,
+  matchDatePreset,
+  resolveDatePreset,
+  type DatePresetId,
+} from "@/lib/date-presets"
+import { RefreshCw, AlertTriangle, CalendarIcon, DatabaseBackup, Link2, Check } from "lucide-react"
+import { endOfDay, format, isSameDay } from "date-fns"
 import { cn } from "@/lib/utils"
 
+// How often the page checks whether webhook events changed the store
+const WEBHOOK_POLL_MS = 10_000
+// How long the copy link button says "Copied"
+const LINK_COPIED_MS = 2_000
+
+const MONTH_NAMES = Array.from({ length: 12 }, (_, i) => format(new Date(2000, i, 1), "MMMM"))
+
+// The pickers hold whole days, so the range runs to the end of the last one
+const rangeEnd = (endDate?: Date) => endDate && endOfDay(endDate)
+
+// The dashboard data for a date range, from an uploaded file or the HubSpot store (null when nothing is stored)
+const loadRange = (
+  source: { id: string; mapping: ColumnMapping } | null,
+  startDate?: Date,
+  endDate?: Date,
+): Promise<ProcessedData | null> =>
+  source
+    ? processImportedData(source.id, source.mapping, startDate, rangeEnd(endDate))
+    : processStoredHubSpotData(startDate, rangeEnd(endDate))
+
+// e.g. "Snapshot from run #12, synced Oct 19, 2026 2:00 AM (scheduled full)"
+const describeSnapshot = (snapshot: DataSnapshot) =>
+  `Snapshot${snapshot.runId !== null ? ` from run #${snapshot.runId}` : ""}, synced ` +
+  `${format(new Date(snapshot.syncedAt), "MMM dd, yyyy h:mm a")} ` +
+  `(${[snapshot.trigger, snapshot.mode].filter(Boolean).join(" ")})`
+
+// Drops placeholder reps, brands and accounts the dashboard should not list
+function cleanProcessedData(data: ProcessedData): ProcessedData {
+  return {
+    ...data,
+    // Filter out unknown/N/A reps
+    salesByRep: Object.fromEntries(
+      Object.entries(data.salesByRep).filter(([rep]) => 
+        rep && rep !== "N/A" && rep !== "Unknown Rep" && rep.trim() !== ""
+      )
+    ),
+    // Filter out generic brands
+    salesByBrand: Object.fromEntries(
+      Object.entries(data.salesByBrand).filter(([brand]) => 
+        brand && brand !== "Other" && brand !== "Unknown" && brand.trim() !== ""
+      )
+    ),
+    // Only include accounts with valid data
+    topPerformingAccounts: data.topPerformingAccounts.filter(acc => 
+      acc["Account Name"] && 
+      acc["Account Name"] !== "Unknown Account" &&
+      acc["Primary Rep Name"] && 
+      acc["Primary Rep Name"] !== "N/A"
+    ),
+    allAccounts: data.allAccounts.filter(acc => 
+      acc["Account Name"] && 
+      acc["Account Name"] !== "Unknown Account"
+    ),
+    allContacts: data.allContacts.filter(acc => 
+      acc["Account Name"] && 
+      acc["Account Name"] !== "Unknown Account"
+    )
+  }
+}
+
 export default function Home() {
   const [processedData, setProcessedData] = useState<ProcessedData | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isPending, startTransition] = useTransition()
+  const [syncStatus, setSyncStatus] = useState<SyncMetadata | null>(null)
+  // Background sync whose progress is streamed into SyncProgressPanel
+  const [syncJobId, setSyncJobId] = useState<string | null>(null)
+  const [activeTab, setActiveTab] = useState<DashboardTab>("dashboard")
+  // Set while the dashboard shows an uploaded file instead of the HubSpot store
+  const [importSource, setImportSource] = useState<{ id: string; fileName: string; mapping: ColumnMapping } | null>(null)
+  // Prior snapshot the dashboard shows deltas against
+  const [comparison, setComparison] = useState<SnapshotComparison>("previous")
+  const [baseline, setBaseline] = useState<MetricSnapshot | null>(null)
+  // Compares the date range with the period before it or a year earlier, computed like the main data
+  const [periodComparison, setPeriodComparison] = useState<PeriodComparison>("none")
+  const [comparisonData, setComparisonData] = useState<ProcessedData | null>(null)
+  // Set by clicking a chart, card row or rep; the dashboard shows the analytics of the matching contacts only
+  const [filters, setFilters] = useState<DashboardFilters>([])
   
-  // Date filtering state - default to 2025 range where your data exists
+  // Created-date range; empty shows every stored contact
   const [startDate, setStartDate] = useState<Date>()
   const [endDate, setEndDate] = useState<Date>()
   const [dateRange, setDateRange] = useState<string>("")
   const [isStartCalendarOpen, setIsStartCalendarOpen] = useState(false)
   const [isEndCalendarOpen, setIsEndCalendarOpen] = useState(false)
+  // Quarters and years of the date presets follow the fiscal calendar
+  const [fiscalYearStartMonth, setFiscalYearStartMonth] = useState(DEFAULT_FISCAL_YEAR_START_MONTH)
+  const [pickedPreset, setPickedPreset] = useState<DatePresetId | null>(null)
+  // Tab, dates, comparison and filters live in the query string once the initial URL has been read
+  const [isUrlRestored, setIsUrlRestored] = useState(false)
+  const [isLinkCopied, setIsLinkCopied] = useState(false)
+
+  const applyView = (view: DashboardViewState) => {
+    setActiveTab(view.tab)
+    // Same-day dates are kept as they are, so stepping through filters does not refetch the range
+    setStartDate((current) => (current && view.startDate && isSameDay(current, view.startDate) ? current : view.startDate))
+    setEndDate((current) => (current && view.endDate && isSameDay(current, view.endDate) ? current : view.endDate))
+    setComparison(view.comparison)
+    setPeriodComparison(view.periodComparison)
+    setFilters(view.filters)
+  }
 
-  // Auto-fetch data when date range changes
+  // Show the last synced snapshot straight away instead of waiting for a sync, in the view the URL asks for
+  useEffect(() => {
+    const view = parseDashboardView(window.location.search)
+    applyView(view)
+    setIsUrlRestored(true)
+    startTransition(async () => {
+      try {
+        const [status, data, fiscalStart] = await Promise.all([
+          getSyncStatus(),
+          processStoredHubSpotData(view.startDate, rangeEnd(view.endDate)),
+          getFiscalYearStartMonth(),
+        ])
+        setSyncStatus(status)
+        setFiscalYearStartMonth(fiscalStart)
+        if (data) cleanAndSetProcessedData(data)
+      } catch (e: any) {
+        console.error("Failed to load stored HubSpot data:", e)
+      }
+    })
+  }, [])
+
+  // Every view change is a history entry, so back and forward step through them
+  const viewQuery = serializeDashboardView({ tab: activeTab, startDate, endDate, comparison, periodComparison, filters })
+  useEffect(() => {
+    if (isUrlRestored && viewQuery !== window.location.search) {
+      window.history.pushState(null, "", `${window.location.pathname}${viewQuery}`)
+    }
+  }, [isUrlRestored, viewQuery])
+
+  useEffect(() => {
+    const handlePopState = () => applyView(parseDashboardView(window.location.search))
+    window.addEventListener("popstate", handlePopState)
+    return () => window.removeEventListener("popstate", handlePopState)
+  }, [])
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setIsLinkCopied(true)
+      setTimeout(() => setIsLinkCopied(false), LINK_COPIED_MS)
+    } catch (e) {
+      console.error("Failed to copy the dashboard link:", e)
+    }
+  }
+
+  // Webhook events update the store between syncs; reload the dashboard when they do
+  const seenWebhookAt = useRef<string | null | undefined>(undefined)
+  useEffect(() => {
+    const timer = setInterval(() => {
+      getSyncStatus()
+        .then(setSyncStatus)
+        .catch((e) => console.error("Failed to check the sync status:", e))
+    }, WEBHOOK_POLL_MS)
+    return () => clearInterval(timer)
+  }, [])
+
+  useEffect(() => {
+    if (!syncStatus) return
+    const previous = seenWebhookAt.current
+    seenWebhookAt.current = syncStatus.lastWebhookAt
+    if (previous !== undefined && previous !== syncStatus.lastWebhookAt && processedData && !importSource && !syncJobId) {
+      handleRecomputeFromStore()
+    }
+  }, [syncStatus?.lastWebhookAt])
+
+  // Recompute from the locally stored contacts when the date range changes
   useEffect(() => {
     if (processedData) {
-      handleSyncHubSpot()
+      handleRecomputeFromStore()
     }
   }, [startDate, endDate])
 
+  // Snapshots hold unfiltered figures, so deltas only apply to the full synced data
+  const syncedAt = importSource || startDate || endDate || filters.length > 0 ? null : processedData?.snapshot?.syncedAt
+  useEffect(() => {
+    if (!syncedAt || comparison === "none") {
+      setBaseline(null)
+      return
+    }
+    let cancelled = false
+    getMetricBaseline(comparison, syncedAt)
+      .then((snapshot) => !cancelled && setBaseline(snapshot))
+      .catch((e) => console.error("Failed to load the comparison snapshot:", e))
+    return () => {
+      cancelled = true
+    }
+  }, [syncedAt, comparison])
+
   // Update date range display
   useEffect(() => {
     if (startDate && endDate) {
@@ -45,70 +263,150 @@ export default function Home() {
     }
   }, [startDate, endDate])
 
-  const handleSyncHubSpot = () => {
+  const viewData = useMemo(
+    () =>
+      processedData && filters.length > 0
+        ? cleanProcessedData(applyDashboardFilters(processedData, filters))
+        : processedData,
+    [processedData, filters],
+  )
+
+  // Both ends of the range are needed to know how long the period is
+  const comparedRange =
+    periodComparison !== "none" && startDate && endDate
+      ? comparisonRange({ startDate, endDate }, periodComparison)
+      : null
+
+  // Refetched after the main data, so it always matches the range and source being shown
+  useEffect(() => {
+    if (!processedData || !comparedRange) {
+      setComparisonData(null)
+      return
+    }
+    let cancelled = false
+    loadRange(importSource, comparedRange.startDate, comparedRange.endDate)
+      .then((data) => !cancelled && setComparisonData(data && cleanProcessedData(data)))
+      .catch((e) => console.error("Failed to load the comparison period:", e))
+    return () => {
+      cancelled = true
+    }
+  }, [processedData, periodComparison])
+
+  // Month filters pick calendar months of the current range, which the comparison period never contains
+  const comparisonView = useMemo(() => {
+    const comparisonFilters = filters.filter((filter) => filter.dimension !== "month")
+    return comparisonData && comparisonFilters.length > 0
+      ? cleanProcessedData(applyDashboardFilters(comparisonData, comparisonFilters))
+      : comparisonData
+  }, [comparisonData, filters])
+
+  const cleanAndSetProcessedData = (data: ProcessedData) => {
+    const cleanedData = cleanProcessedData(data)
+    setProcessedData(cleanedData)
+    console.log("✅ Data cleaned and processed:", {
+      totalContacts: cleanedData.totalContacts,
+      totalAccounts: cleanedData.totalAccounts,
+      validReps: Object.keys(cleanedData.salesByRep).length,
+      validBrands: Object.keys(cleanedData.salesByBrand).length
+    })
+  }
+
+  const handleSyncHubSpot = (fullResync = false) => {
     setError(null)
+    setImportSource(null)
     startTransition(async () => {
       try {
-        console.log("🔍 Fetching HubSpot data with date filter:", { startDate, endDate })
-        const data = await fetchAndProcessHubSpotData(startDate, endDate)
+        console.log("🔍 Starting HubSpot sync:", { fullResync })
+        // A full resync only re-fetches the contacts in the selected range and rep
+        const repName = filters.find((filter) => filter.dimension === "rep")?.value
+        setSyncJobId(await startHubSpotSync({ fullResync, startDate, endDate: rangeEnd(endDate), repName }))
+      } catch (e: any) {
+        console.error("Client-side error during HubSpot sync:", e)
+        setError(e.message || "An unexpected error occurred during HubSpot sync.")
+      }
+    })
+  }
+
+  const handleSyncFinished = async (status: SyncJobStatus, message: string) => {
+    setSyncJobId(null)
+    setSyncStatus(await getSyncStatus())
+    if (status === "completed") {
+      handleRecomputeFromStore(null)
+    } else if (status === "failed") {
+      setError(message)
+    }
+  }
+
+  const handleCancelSync = () => {
+    if (syncJobId) cancelHubSpotSync(syncJobId)
+  }
+
+  const handleRecomputeFromStore = (source = importSource) => {
+    setError(null)
+    startTransition(async () => {
+      try {
+        const data = await loadRange(source, startDate, endDate)
         if (data) {
-          // Clean up the data for 100% accuracy
-          const cleanedData = {
-            ...data,
-            // Filter out unknown/N/A reps
-            salesByRep: Object.fromEntries(
-              Object.entries(data.salesByRep).filter(([rep]) => 
-                rep && rep !== "N/A" && rep !== "Unknown Rep" && rep.trim() !== ""
-              )
-            ),
-            // Filter out generic brands
-            salesByBrand: Object.fromEntries(
-              Object.entries(data.salesByBrand).filter(([brand]) => 
-                brand && brand !== "Other" && brand !== "Unknown" && brand.trim() !== ""
-              )
-            ),
-            // Only include accounts with valid data
-            topPerformingAccounts: data.topPerformingAccounts.filter(acc => 
-              acc["Account Name"] && 
-              acc["Account Name"] !== "Unknown Account" &&
-              acc["Primary Rep Name"] && 
-              acc["Primary Rep Name"] !== "N/A"
-            ),
-            allAccounts: data.allAccounts.filter(acc => 
-              acc["Account Name"] && 
-              acc["Account Name"] !== "Unknown Account"
-            )
-          }
-          
-          setProcessedData(cleanedData)
-          console.log("✅ Data cleaned and processed:", {
-            totalAccounts: cleanedData.totalAccounts,
-            validReps: Object.keys(cleanedData.salesByRep).length,
-            validBrands: Object.keys(cleanedData.salesByBrand).length
-          })
+          cleanAndSetProcessedData(data)
         } else {
-          setError("Failed to fetch or process HubSpot data. Check API key and permissions, or server logs.")
+          // Nothing stored yet, so fall back to a sync
+          setSyncJobId(await startHubSpotSync())
         }
       } catch (e: any) {
-        console.error("Client-side error during HubSpot sync:", e)
-        setError(e.message || "An unexpected error occurred during HubSpot sync.")
+        console.error("Client-side error while recomputing stored data:", e)
+        setError(e.message || "An unexpected error occurred while filtering stored data.")
       }
     })
   }
 
+  const handleApplyImport = (preview: ImportPreview, mapping: ColumnMapping) => {
+    const source = { id: preview.id, fileName: preview.fileName, mapping }
+    setImportSource(source)
+    setActiveTab("dashboard")
+    handleRecomputeFromStore(source)
+  }
+
+  const handleBackToHubSpot = () => {
+    setImportSource(null)
+    handleRecomputeFromStore(null)
+  }
+
   const clearDateRange = () => {
     setStartDate(undefined)
     setEndDate(undefined)
   }
 
+  const activePreset = matchDatePreset(startDate, endDate, new Date(), fiscalYearStartMonth, pickedPreset)
+
+  const applyDatePreset = (preset: DatePresetId) => {
+    setPickedPreset(preset)
+    const range = resolveDatePreset(preset, new Date(), fiscalYearStartMonth)
+    setStartDate(range.startDate)
+    setEndDate(range.endDate)
+  }
+
+  const handleFiscalYearStartChange = async (month: number) => {
+    try {
+      setFiscalYearStartMonth(await saveFiscalYearStartMonth(month))
+    } catch (e: any) {
+      console.error("Failed to save the fiscal year start:", e)
+      setError(e.message || "Could not save the fiscal year start.")
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
-      <Tabs defaultValue="dashboard" className="w-full">
+      <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as DashboardTab)} className="w-full">
         <div className="border-b bg-white sticky top-0 z-10">
           <div className="container mx-auto flex flex-wrap justify-between items-center py-3 gap-4">
-            <TabsList className="grid w-full max-w-xs grid-cols-1">
+            <TabsList className="grid w-full max-w-2xl grid-cols-4">
               <TabsTrigger value="dashboard">Sales Funnel Dashboard</TabsTrigger>
+              <TabsTrigger value="import">Import Data</TabsTrigger>
+              <TabsTrigger value="rules">Lead Rules</TabsTrigger>
+              <TabsTrigger value="history">Sync History</TabsTrigger>
             </TabsList>
+
+            <PortalSwitcher />
             
             {/* Date Range Filter */}
             <div className="flex items-center gap-3 flex-wrap">
@@ -183,65 +481,112 @@ export default function Home() {
                      Clear
                    </Button>
                  )}
+
+                {/* Period Comparison */}
+                <Select value={periodComparison} onValueChange={(value) => setPeriodComparison(value as PeriodComparison)}>
+                  <SelectTrigger className="h-8 w-[190px] bg-white text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PERIOD_COMPARISON_LABELS) as PeriodComparison[]).map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {PERIOD_COMPARISON_LABELS[option]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
                </div>
                
-               {/* Quick Date Presets */}
-               <div className="flex items-center gap-2 text-xs">
-                 <span className="text-gray-500">Quick:</span>
-                 <Button
-                   variant="outline"
-                   size="sm"
-                   onClick={() => {
-                     setStartDate(new Date('2025-01-01'))
-                     setEndDate(new Date('2025-12-31'))
-                   }}
-                   className="h-7 px-2 text-xs"
-                 >
-                   All 2025
-                 </Button>
-                 <Button
-                   variant="outline"
-                   size="sm"
-                   onClick={() => {
-                     setStartDate(new Date('2025-01-01'))
-                     setEndDate(new Date('2025-06-30'))
-                   }}
-                   className="h-7 px-2 text-xs"
-                 >
-                   H1 2025
-                 </Button>
-                 <Button
-                   variant="outline"
-                   size="sm"
-                   onClick={() => {
-                     setStartDate(new Date('2025-04-01'))
-                     setEndDate(new Date('2025-04-30'))
-                   }}
-                   className="h-7 px-2 text-xs"
-                 >
-                   Apr 2025
-                 </Button>
+              {/* Quick Date Presets */}
+              <div className="flex items-center gap-2 text-xs">
+                <Select value={activePreset ?? ""} onValueChange={(value) => applyDatePreset(value as DatePresetId)}>
+                  <SelectTrigger className="h-8 w-[150px] bg-white text-xs">
+                    <SelectValue placeholder="Quick range" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DATE_PRESETS.map((preset) => (
+                      <SelectItem key={preset} value={preset}>
+                        {DATE_PRESET_LABELS[preset]}
+                        {preset === "thisQuarter" || preset === "lastQuarter"
+                          ? ` (${describeFiscalQuarter(resolveDatePreset(preset, new Date(), fiscalYearStartMonth).startDate, fiscalYearStartMonth)})`
+                          : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={String(fiscalYearStartMonth)}
+                  onValueChange={(value) => handleFiscalYearStartChange(Number(value))}
+                >
+                  <SelectTrigger className="h-8 w-[150px] bg-white text-xs" title="Fiscal quarters and years start in this month">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MONTH_NAMES.map((name, i) => (
+                      <SelectItem key={name} value={String(i + 1)}>
+                        FY starts {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              
-              <Button onClick={handleSyncHubSpot} disabled={isPending} className="flex-shrink-0">
-                <RefreshCw className={`mr-2 h-4 w-4 ${isPending ? "animate-spin" : ""}`} />
-                {isPending ? "Fetching Contacts..." : "Sync HubSpot"}
+
+              <Button onClick={() => handleSyncHubSpot()} disabled={isPending || !!syncJobId} className="flex-shrink-0">
+                <RefreshCw className={`mr-2 h-4 w-4 ${isPending || syncJobId ? "animate-spin" : ""}`} />
+                {syncJobId ? "Syncing..." : isPending ? "Loading..." : "Sync HubSpot"}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => handleSyncHubSpot(true)}
+                disabled={isPending || !!syncJobId}
+                className="flex-shrink-0"
+                title={
+                  startDate || endDate || filters.some((filter) => filter.dimension === "rep")
+                    ? "Re-fetch the contacts in the selected range and rep from HubSpot to repair drift in the local store"
+                    : "Re-fetch every contact from HubSpot to repair drift in the local store"
+                }
+              >
+                <DatabaseBackup className="mr-2 h-4 w-4" />
+                Full resync
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={handleCopyLink}
+                className="flex-shrink-0"
+                title="Copy a link to this view, with its dates and filters"
+              >
+                {isLinkCopied ? <Check className="mr-2 h-4 w-4" /> : <Link2 className="mr-2 h-4 w-4" />}
+                {isLinkCopied ? "Copied" : "Copy link"}
               </Button>
             </div>
           </div>
 
           {/* Active Date Filter Display */}
-          {dateRange && (
-            <div className="container mx-auto px-4 pb-3">
-              <Badge variant="secondary" className="bg-blue-100 text-blue-800">
-                📅 Filtered: {dateRange}
-                {processedData && ` • ${processedData.totalAccounts} qualified leads found`}
-              </Badge>
+          {(dateRange || periodComparison !== "none") && (
+            <div className="container mx-auto px-4 pb-3 flex flex-wrap items-center gap-2">
+              {dateRange && (
+                <Badge variant="secondary" className="bg-blue-100 text-blue-800">
+                  📅 Filtered: {activePreset && `${DATE_PRESET_LABELS[activePreset]}, `}{dateRange}
+                  {processedData && ` • ${processedData.totalContacts} qualified leads found`}
+                </Badge>
+              )}
+              {periodComparison !== "none" && (
+                <Badge variant="secondary" className="bg-purple-100 text-purple-800">
+                  {comparedRange
+                    ? `↔ Compared to ${describeRange(comparedRange)}` +
+                      (comparisonData ? ` • ${comparisonData.totalContacts} qualified leads` : "")
+                    : "↔ Pick a start and end date to compare periods"}
+                </Badge>
+              )}
             </div>
           )}
         </div>
 
         <TabsContent value="dashboard" className="mt-0">
+          {syncJobId && (
+            <SyncProgressPanel jobId={syncJobId} onCancel={handleCancelSync} onFinished={handleSyncFinished} />
+          )}
+
           {error && (
             <div className="container mx-auto my-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded flex items-center">
               <AlertTriangle className="h-5 w-5 mr-2" />
@@ -259,31 +604,66 @@ export default function Home() {
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-4 text-sm">
                   <span className="font-medium">✅ Data loaded successfully:</span>
-                  <span>{processedData.totalAccounts} qualified leads</span>
+                  <span>{processedData.totalContacts} qualified leads</span>
+                  <span>{processedData.totalAccounts} accounts</span>
                   <span>{Object.keys(processedData.salesByRep).length} active reps</span>
                   <span>{Object.keys(processedData.salesByBrand).length} brands</span>
+                  {processedData.validationReport && <ValidationReportButton report={processedData.validationReport} />}
                 </div>
                 <div className="text-xs text-green-600">
-                  From {processedData.allAccounts.length} total contacts
+                  From {processedData.allContacts.length} total contacts
+                  {importSource ? (
+                    <>
+                      {" "}• Imported from {importSource.fileName}{" "}
+                      <Button variant="link" size="sm" onClick={handleBackToHubSpot} className="h-auto p-0 text-xs">
+                        Back to HubSpot data
+                      </Button>
+                    </>
+                  ) : processedData.snapshot && (
+                    <> • {describeSnapshot(processedData.snapshot)}</>
+                  )}
                 </div>
               </div>
             </div>
           )}
 
-          {/* Date Range Hint */}
-          {(startDate || endDate) && processedData && processedData.totalAccounts < 100 && (
-            <div className="container mx-auto my-4 p-3 bg-blue-50 border border-blue-200 text-blue-800 rounded">
-              <div className="flex items-center gap-2">
-                <span className="font-medium">💡 Tip:</span>
-                <span className="text-sm">
-                  Your contacts were created in 2025 (Jan-Apr). Try selecting dates like 
-                  <strong> Jan 1, 2025 - Dec 31, 2025</strong> to see all {1999} leads.
-                </span>
-              </div>
-            </div>
-          )}
           
-          <AccountDashboard processedData={processedData} isLoading={isPending && !error} />
+          <AccountDashboard
+            processedData={viewData}
+            isLoading={isPending && !error}
+            comparison={comparison}
+            onComparisonChange={setComparison}
+            baseline={baseline}
+            comparisonUnavailable={
+              importSource
+                ? "Comparisons are only available for synced HubSpot data."
+                : startDate || endDate
+                  ? "Clear the date range to compare against earlier syncs."
+                  : filters.length > 0
+                    ? "Clear the dashboard filters to compare against earlier syncs."
+                    : null
+            }
+            periodComparison={
+              comparedRange && comparisonView
+                ? { description: describeRange(comparedRange), data: comparisonView }
+                : null
+            }
+            filters={filters}
+            onFiltersChange={setFilters}
+          />
+        </TabsContent>
+
+        <TabsContent value="import" className="mt-0">
+          <DataImport onApply={handleApplyImport} isApplying={isPending} />
+        </TabsContent>
+
+        <TabsContent value="rules" className="mt-0">
+          {/* Funnel counts use the rules straight away; the store catches up on the next sync */}
+          <QualificationRulesEditor onSaved={() => processedData && handleRecomputeFromStore()} />
+        </TabsContent>
+
+        <TabsContent value="history" className="mt-0">
+          <SyncHistory refreshKey={syncStatus?.lastSyncAt} />
         </TabsContent>
       </Tabs>
     </div>
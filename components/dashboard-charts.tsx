@@ -0,0 +1,217 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, Cell, Funnel, FunnelChart, LabelList, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { FunnelStage, ProcessedData } from "@/lib/types"
+import { SALES_BUCKETS } from "@/lib/analytics-engine"
+import { FUNNEL_STAGE_LABELS } from "@/lib/qualification-rules"
+import { formatMetricValue } from "@/lib/metric-registry"
+import { activeFilterValue, type DashboardFilter, type DashboardFilters } from "@/lib/dashboard-filters"
+
+interface DashboardChartsProps {
+  data: ProcessedData
+  filters: DashboardFilters
+  onFilter: (filter: DashboardFilter) => void
+}
+
+// Sources beyond this are too thin to read as bars
+const MAX_SOURCE_BARS = 8
+// Unselected bars fade while a filter is active on that chart
+const DIMMED_OPACITY = 0.35
+
+const FUNNEL_ORDER: FunnelStage[] = ["mql", "sql", "opportunity", "customer"]
+
+const trendConfig = {
+  accounts: { label: "Leads", color: "hsl(var(--chart-1))" },
+  revenue: { label: "Revenue", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig
+
+const dealSizeConfig = {
+  count: { label: "Contacts", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig
+
+const stageConfig = {
+  mql: { label: "MQL", color: "hsl(var(--chart-1))" },
+  sql: { label: "SQL", color: "hsl(var(--chart-2))" },
+  opportunity: { label: "Opportunity", color: "hsl(var(--chart-3))" },
+  customer: { label: "Customer", color: "hsl(var(--chart-4))" },
+  unstaged: { label: "No stage", color: "hsl(var(--chart-5))" },
+} satisfies ChartConfig
+
+// Tooltip row with the series color, its label and the value in the series' own format
+const tooltipRow =
+  (config: ChartConfig, formats: Record<string, (value: number) => string> = {}) =>
+  (value: unknown, name: unknown) => {
+    const key = String(name)
+    return (
+      <div className="flex w-full items-center gap-2">
+        <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: `var(--color-${key})` }} />
+        <span className="flex-1 text-muted-foreground">{config[key]?.label ?? key}</span>
+        <span className="font-mono font-medium tabular-nums text-foreground">
+          {(formats[key] ?? ((n: number) => n.toLocaleString()))(Number(value))}
+        </span>
+      </div>
+    )
+  }
+
+const currency = (value: number) => formatMetricValue(value, "currency")
+
+function ChartCard({ title, description, children }: { title: string; description: string; children: React.ReactNode }) {
+  return (
+    <Card className="bg-white">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900">{title}</CardTitle>
+        <p className="text-sm text-gray-600">{description}</p>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  )
+}
+
+// Monthly trend, deal-size histogram, leads by source and the funnel. Clicking a month, bucket, source or
+// stage filters the dashboard to it; clicking it again clears the filter.
+export default function DashboardCharts({ data, filters, onFilter }: DashboardChartsProps) {
+  const active = (dimension: DashboardFilter["dimension"]) => activeFilterValue(filters, dimension)
+
+  const trend = data.monthlyTrends
+  const selectedMonth = trend.find((month) => month.key === active("month"))
+
+  const dealSizes = SALES_BUCKETS.map((bucket) => ({ bucket, count: data.salesDistribution[bucket] ?? 0 }))
+
+  const sources = (data.metrics["traffic-sources"]?.items ?? []).slice(0, MAX_SOURCE_BARS).map((item) => ({
+    source: item.key,
+    mql: item.values.mql ?? 0,
+    sql: item.values.sql ?? 0,
+    opportunity: item.values.opportunity ?? 0,
+    customer: item.values.customer ?? 0,
+    unstaged: item.values.unstaged ?? 0,
+  }))
+
+  const funnel = FUNNEL_ORDER.map((stage) => ({
+    stage,
+    name: FUNNEL_STAGE_LABELS[stage],
+    value: data.funnelStageCounts[stage],
+    fill: `var(--color-${stage})`,
+  }))
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <ChartCard title="📈 Monthly Trend" description="Leads created and revenue per month, last 12 months">
+        {trend.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-8">No creation dates to chart</div>
+        ) : (
+          <ChartContainer config={trendConfig} className="aspect-auto h-[260px] w-full">
+            <LineChart
+              data={trend}
+              margin={{ left: 4, right: 4 }}
+              onClick={(state) => {
+                const month = state?.activeTooltipIndex !== undefined ? trend[state.activeTooltipIndex] : undefined
+                if (month) onFilter({ dimension: "month", value: month.key })
+              }}
+              className="cursor-pointer"
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis yAxisId="accounts" tickLine={false} axisLine={false} width={40} />
+              <YAxis yAxisId="revenue" orientation="right" tickLine={false} axisLine={false} width={56} tickFormatter={currency} />
+              <ChartTooltip content={<ChartTooltipContent formatter={tooltipRow(trendConfig, { revenue: currency })} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {selectedMonth && (
+                <ReferenceLine yAxisId="accounts" x={selectedMonth.month} stroke="hsl(var(--foreground))" strokeDasharray="4 4" />
+              )}
+              <Line yAxisId="accounts" dataKey="accounts" type="monotone" stroke="var(--color-accounts)" strokeWidth={2} dot={false} />
+              <Line yAxisId="revenue" dataKey="revenue" type="monotone" stroke="var(--color-revenue)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard title="📊 Deal Size Distribution" description="Contacts by sales value">
+        <ChartContainer config={dealSizeConfig} className="aspect-auto h-[260px] w-full">
+          <BarChart
+            data={dealSizes}
+            onClick={(state) => {
+              const bucket = state?.activeTooltipIndex !== undefined ? dealSizes[state.activeTooltipIndex] : undefined
+              if (bucket) onFilter({ dimension: "dealSize", value: bucket.bucket })
+            }}
+            className="cursor-pointer"
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="bucket" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis tickLine={false} axisLine={false} width={40} />
+            <ChartTooltip content={<ChartTooltipContent formatter={tooltipRow(dealSizeConfig)} />} />
+            <Bar dataKey="count" fill="var(--color-count)" radius={4}>
+              {dealSizes.map((entry) => (
+                <Cell
+                  key={entry.bucket}
+                  fillOpacity={active("dealSize") && active("dealSize") !== entry.bucket ? DIMMED_OPACITY : 1}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+      </ChartCard>
+
+      <ChartCard title="🚦 Leads by Source and Stage" description="Funnel stage mix of the top traffic sources">
+        {sources.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-8">No traffic source data available</div>
+        ) : (
+          <ChartContainer config={stageConfig} className="aspect-auto h-[280px] w-full">
+            <BarChart
+              data={sources}
+              onClick={(state) => {
+                const source = state?.activeTooltipIndex !== undefined ? sources[state.activeTooltipIndex] : undefined
+                if (source) onFilter({ dimension: "source", value: source.source })
+              }}
+              className="cursor-pointer"
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="source" tickLine={false} axisLine={false} tickMargin={8} interval={0} fontSize={10} />
+              <YAxis tickLine={false} axisLine={false} width={40} />
+              <ChartTooltip content={<ChartTooltipContent formatter={tooltipRow(stageConfig)} />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              {(Object.keys(stageConfig) as Array<keyof typeof stageConfig>).map((stage) => (
+                <Bar key={stage} dataKey={stage} stackId="stage" fill={`var(--color-${stage})`}>
+                  {sources.map((entry) => (
+                    <Cell
+                      key={entry.source}
+                      fillOpacity={active("source") && active("source") !== entry.source ? DIMMED_OPACITY : 1}
+                    />
+                  ))}
+                </Bar>
+              ))}
+            </BarChart>
+          </ChartContainer>
+        )}
+      </ChartCard>
+
+      <ChartCard title="🔻 Lead Funnel" description="Contacts in each funnel stage under the lead rules">
+        <ChartContainer config={stageConfig} className="aspect-auto h-[280px] w-full">
+          <FunnelChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="stage" hideLabel />} />
+            <Funnel
+              dataKey="value"
+              data={funnel}
+              isAnimationActive={false}
+              className="cursor-pointer"
+              // Recharts types this as a DOM mouse handler too, though it is called with the clicked trapezoid
+              onClick={(trapezoid: any) => {
+                const stage = (trapezoid?.payload as (typeof funnel)[number] | undefined)?.stage
+                if (stage) onFilter({ dimension: "funnelStage", value: stage })
+              }}
+            >
+              {funnel.map((entry) => (
+                <Cell
+                  key={entry.stage}
+                  fillOpacity={active("funnelStage") && active("funnelStage") !== entry.stage ? DIMMED_OPACITY : 1}
+                />
+              ))}
+              <LabelList dataKey="name" position="center" fill="#fff" stroke="none" fontSize={12} />
+            </Funnel>
+          </FunnelChart>
+        </ChartContainer>
+      </ChartCard>
+    </div>
+  )
+}
@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import {
   Target,
   TrendingUp,
@@ -21,9 +22,25 @@ import {
   Eye,
   EyeOff,
   Lock,
-  Shield
+  Shield,
+  X,
+  Filter
 } from "lucide-react"
-import type { ProcessedData, AccountData } from "@/lib/types"
+import type { ProcessedData, AccountData, MetricSnapshot, SnapshotComparison } from "@/lib/types"
+import { revenueComparable, SNAPSHOT_COMPARISON_LABELS, summarizeMetrics } from "@/lib/metric-snapshots"
+import { METRIC_REGISTRY } from "@/lib/metric-registry"
+import MetricCard from "@/components/metric-card"
+import DashboardCharts from "@/components/dashboard-charts"
+import DeltaIndicator from "@/components/delta-indicator"
+import { formatLifecycleStage } from "@/lib/qualification-rules"
+import {
+  activeFilterValue,
+  describeFilter,
+  removeFilter,
+  toggleFilter,
+  type DashboardFilter,
+  type DashboardFilters,
+} from "@/lib/dashboard-filters"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
 import { Input } from "@/components/ui/input"
@@ -31,6 +48,14 @@ import { Input } from "@/components/ui/input"
 interface AccountDashboardProps {
   processedData: ProcessedData | null
   isLoading: boolean
+  comparison: SnapshotComparison
+  onComparisonChange: (comparison: SnapshotComparison) => void
+  baseline: MetricSnapshot | null // Prior snapshot to show deltas against
+  comparisonUnavailable?: string | null // Why deltas cannot be shown for the current view
+  // The same dashboard for the comparison window; while set, deltas are against it instead of the snapshot
+  periodComparison?: { description: string; data: ProcessedData } | null
+  filters: DashboardFilters // Set by clicking a chart, card row or rep; processedData is already narrowed to them
+  onFiltersChange: (filters: DashboardFilters) => void
 }
 
 // Helper functions
@@ -63,31 +88,6 @@ const parseCurrency = (value: string | number): number => {
   return !isNaN(num) && isFinite(num) ? num : 0
 }
 
-// Helper function to format lifecycle stage labels
-const formatLifecycleStage = (stage: string): string => {
-  const stageMap: Record<string, string> = {
-    'marketingqualifiedlead': 'Marketing Qualified Lead',
-    'salesqualifiedlead': 'Sales Qualified Lead',
-    'customer': 'Customer',
-    'lead': 'Lead',
-    'subscriber': 'Subscriber',
-    'opportunity': 'Opportunity',
-    'evangelist': 'Evangelist',
-    'other': 'Other'
-  }
-  
-  // Return mapped value or format the original string
-  if (stageMap[stage.toLowerCase()]) {
-    return stageMap[stage.toLowerCase()]
-  }
-  
-  // Fallback: split on capital letters and capitalize words
-  return stage
-    .replace(/([A-Z])/g, ' $1')
-    .replace(/^./, str => str.toUpperCase())
-    .trim()
-}
-
 // Component for the rep leads modal
 interface RepLeadsModalProps {
   repName: string
@@ -133,7 +133,7 @@ function RepLeadsModal({ repName, accounts, isOpen, onClose }: RepLeadsModalProp
               const lifecycleStage = account["Lifecycle Stage"] || "unknown"
               
               return (
-                <div key={`${account["Account ID"]}-${index}`} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border">
+                <div key={account["Record ID"] ?? `${account["Account ID"]}-${index}`} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg border">
                   <div className="flex-1">
                     <div className="flex items-center gap-3">
                       <div className="flex-1">
@@ -333,7 +333,17 @@ function PasswordProtection({ onAuthenticated }: PasswordProtectionProps) {
   )
 }
 
-export default function AccountDashboard({ processedData, isLoading }: AccountDashboardProps) {
+export default function AccountDashboard({
+  processedData,
+  isLoading,
+  comparison,
+  onComparisonChange,
+  baseline,
+  comparisonUnavailable,
+  periodComparison,
+  filters,
+  onFiltersChange,
+}: AccountDashboardProps) {
   const [internalStartDate, setInternalStartDate] = useState<Date>()
   const [internalEndDate, setInternalEndDate] = useState<Date>()
   const [isStartCalendarOpen, setIsStartCalendarOpen] = useState(false)
@@ -349,8 +359,8 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
 
   // Helper function to get leads for a specific rep
   const getLeadsForRep = (repName: string): AccountData[] => {
-    if (!processedData?.allAccounts) return []
-    return processedData.allAccounts.filter(account => 
+    if (!processedData?.allContacts) return []
+    return processedData.allContacts.filter(account => 
       (account["Primary Rep Name"] || "N/A") === repName
     )
   }
@@ -392,27 +402,19 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
   }
 
   // Calculate funnel metrics from the actual contact data
-  const totalLeads = processedData.totalAccounts
+  const totalLeads = processedData.totalContacts
   const totalReps = Object.keys(processedData.salesByRep).length
   const totalRevenue = processedData.totalRevenue
   const avgDealSize = processedData.averageDealSize
+  const isEstimated = processedData.revenueSource === "estimated"
 
-  // Get actual MQLs and SQLs from HubSpot lifecycle stages
   const lifecycleDistribution = processedData.lifecycleStageDistribution || {}
-  
-  // Count actual lifecycle stages from HubSpot data
-  const mqls = (lifecycleDistribution['marketingqualifiedlead'] || 0)
-  const sqls = (lifecycleDistribution['salesqualifiedlead'] || 0)
-  const customers = (lifecycleDistribution['customer'] || 0) + (lifecycleDistribution['opportunity'] || 0)
-  
-  // Also count any other variations of the stage names
-  const mqlVariations = ['marketingqualifiedlead', 'mql'].reduce((sum, stage) => 
-    sum + (lifecycleDistribution[stage] || 0), 0)
-  const sqlVariations = ['salesqualifiedlead', 'sql'].reduce((sum, stage) => 
-    sum + (lifecycleDistribution[stage] || 0), 0)
-  
-  const finalMqls = Math.max(mqls, mqlVariations)
-  const finalSqls = Math.max(sqls, sqlVariations)
+
+  // Stage counts come from the configurable qualification rules
+  const funnelCounts = processedData.funnelStageCounts
+  const finalMqls = funnelCounts.mql
+  const finalSqls = funnelCounts.sql
+  const customers = funnelCounts.customer + funnelCounts.opportunity
   const expandedAccounts = Math.round(customers * 0.30) // 30% of customers expand
 
   // Calculate revenue for each stage
@@ -426,6 +428,20 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
   const sqlToCustomerRate = customers > 0 && finalSqls > 0 ? ((customers / finalSqls) * 100).toFixed(1) : "0.0"
   const customerToExpansionRate = expandedAccounts > 0 && customers > 0 ? ((expandedAccounts / customers) * 100).toFixed(1) : "30.0"
 
+  // Figures from the comparison period or snapshot; revenue deltas are skipped when the revenue source changed
+  const previous = periodComparison
+    ? summarizeMetrics(periodComparison.data)
+    : comparisonUnavailable
+      ? undefined
+      : baseline?.metrics
+  const compareRevenue = periodComparison
+    ? periodComparison.data.revenueSource === processedData.revenueSource
+    : !comparisonUnavailable && revenueComparable(processedData, baseline)
+  const previousFunnel = previous?.funnelStageCounts
+  const previousCustomers = previousFunnel && previousFunnel.customer + previousFunnel.opportunity
+
+  const toggle = (clicked: DashboardFilter) => onFiltersChange(toggleFilter(filters, clicked))
+
   const clearDateRange = () => {
     setInternalStartDate(undefined)
     setInternalEndDate(undefined)
@@ -439,8 +455,61 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
           <h1 className="text-3xl font-bold text-gray-900">Sales Funnel Dashboard</h1>
           <p className="text-gray-600 mt-1">Track your lead progression from MQLs to customer expansion</p>
         </div>
+        <div className="flex flex-col items-end gap-1">
+          {periodComparison ? (
+            <p className="text-sm text-gray-600">Compared to {periodComparison.description}</p>
+          ) : (
+            <>
+              <Select value={comparison} onValueChange={(value) => onComparisonChange(value as SnapshotComparison)}>
+                <SelectTrigger className="w-[200px] bg-white">
+                  <SelectValue placeholder="Compare to" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SNAPSHOT_COMPARISON_LABELS) as SnapshotComparison[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {option === "none" ? SNAPSHOT_COMPARISON_LABELS[option] : `vs ${SNAPSHOT_COMPARISON_LABELS[option].toLowerCase()}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {comparison !== "none" && (
+                <p className="text-xs text-gray-500">
+                  {comparisonUnavailable
+                    ? comparisonUnavailable
+                    : baseline
+                      ? `Compared to the snapshot from ${format(new Date(baseline.takenAt), "MMM dd, yyyy h:mm a")}`
+                      : "No earlier snapshot to compare to yet"}
+                </p>
+              )}
+            </>
+          )}
+        </div>
       </div>
 
+      {/* Active filters */}
+      {filters.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Filtered to</span>
+          {filters.map((active) => (
+            <Badge key={active.dimension} variant="outline" className="gap-1 bg-blue-50 text-blue-700 border-blue-200">
+              {describeFilter(active)}
+              <button
+                type="button"
+                onClick={() => onFiltersChange(removeFilter(filters, active.dimension))}
+                aria-label={`Remove ${describeFilter(active)} filter`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          {filters.length > 1 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onFiltersChange([])}>
+              Clear all
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Key Metrics Overview */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card className="bg-white">
@@ -450,6 +519,7 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{formatNumber(totalLeads)}</div>
+            <DeltaIndicator current={totalLeads} previous={previous?.totalLeads} />
             <p className="text-xs text-gray-500">MQLs + SQLs</p>
           </CardContent>
         </Card>
@@ -461,6 +531,7 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{totalReps}</div>
+            <DeltaIndicator current={totalReps} previous={previous?.activeReps} />
             <p className="text-xs text-gray-500">Managing leads</p>
           </CardContent>
         </Card>
@@ -471,8 +542,23 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
             <DollarSign className="h-4 w-4 text-orange-500" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{formatCurrency(totalRevenue)}</div>
-            <p className="text-xs text-gray-500">Total pipeline</p>
+            <div className="text-2xl font-bold">
+              {formatCurrency(isEstimated ? totalRevenue : processedData.pipelineValue)}
+            </div>
+            {compareRevenue && (
+              <DeltaIndicator
+                current={isEstimated ? totalRevenue : processedData.pipelineValue}
+                previous={previous?.pipelineValue}
+                format={formatCurrency}
+              />
+            )}
+            {isEstimated ? (
+              <p className="text-xs text-amber-600">Estimated from lifecycle stage (no deals synced)</p>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Open deals · {formatCurrency(processedData.closedWonRevenue)} closed-won
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -483,11 +569,27 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{formatCurrency(avgDealSize)}</div>
-            <p className="text-xs text-gray-500">Per opportunity</p>
+            {compareRevenue && (
+              <DeltaIndicator current={avgDealSize} previous={previous?.averageDealSize} format={formatCurrency} />
+            )}
+            <p className={`text-xs ${isEstimated ? "text-amber-600" : "text-gray-500"}`}>
+              {isEstimated ? "Estimated per lead" : "Per closed-won deal"}
+            </p>
           </CardContent>
         </Card>
       </div>
 
+      {/* Charts */}
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-semibold text-gray-900">Trends</h2>
+          <span className="text-xs text-gray-500">
+            Click a month, deal size, source, stage, state, campaign, page or rep to filter the dashboard
+          </span>
+        </div>
+        <DashboardCharts data={processedData} filters={filters} onFilter={toggle} />
+      </div>
+
       {/* Advanced Analytics Dashboard */}
       <div className="space-y-6">
         <div className="flex items-center justify-between">
@@ -497,315 +599,23 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
           </Badge>
         </div>
 
-        {/* Top Row: Traffic Sources, Lead Health, Geographic */}
+        {/* Registered metrics, in registry order */}
         <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
-          {/* Traffic Source Performance */}
-          <Card className="bg-white">
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold text-gray-900">🚦 Traffic Source Performance</CardTitle>
-              <p className="text-sm text-gray-600">Lead generation by source with conversion rates</p>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {Object.entries(processedData.trafficSourcePerformance || {})
-                  .sort(([,a], [,b]) => b.leads - a.leads)
-                  .slice(0, 6)
-                  .map(([source, data]) => (
-                    <div key={source} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium text-gray-900">{source}</span>
-                          <Badge variant="outline" className="text-xs">
-                            {data.conversionRate.toFixed(1)}% SQL
-                          </Badge>
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {data.leads} leads • {formatCurrency(data.avgDealSize)} avg
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-sm font-semibold text-blue-600">
-                          {formatCurrency(data.revenue)}
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                {Object.keys(processedData.trafficSourcePerformance || {}).length === 0 && (
-                  <div className="text-sm text-gray-500 text-center py-4">
-                    No traffic source data available
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Top Lead Health Scores */}
-          <Card className="bg-white">
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold text-gray-900">🌡️ Lead Health & Temperature</CardTitle>
-              <p className="text-sm text-gray-600">Highest scoring leads with risk assessment</p>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {(processedData.leadHealthScores || []).slice(0, 6).map((lead) => (
-                  <div key={lead.accountId} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <div className="flex-1">
-                      <div className="text-sm font-medium text-gray-900 truncate">
-                        {lead.accountName}
-                      </div>
-                      <div className="flex items-center gap-2 mt-1">
-                        <span className="text-xs">{lead.temperature}</span>
-                        <span className="text-xs text-gray-500">{lead.riskLevel}</span>
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-sm font-semibold">
-                        {lead.healthScore}/100
-                      </div>
-                      <div className={`w-12 h-2 rounded-full ${
-                        lead.healthScore >= 80 ? 'bg-green-200' :
-                        lead.healthScore >= 60 ? 'bg-yellow-200' :
-                        lead.healthScore >= 40 ? 'bg-orange-200' : 'bg-red-200'
-                      }`}>
-                        <div 
-                          className={`h-full rounded-full ${
-                            lead.healthScore >= 80 ? 'bg-green-500' :
-                            lead.healthScore >= 60 ? 'bg-yellow-500' :
-                            lead.healthScore >= 40 ? 'bg-orange-500' : 'bg-red-500'
-                          }`}
-                          style={{ width: `${lead.healthScore}%` }}
-                        />
-                      </div>
-                    </div>
-                  </div>
-                ))}
-                {(processedData.leadHealthScores || []).length === 0 && (
-                  <div className="text-sm text-gray-500 text-center py-4">
-                    No health score data available
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Geographic Distribution */}
-          <Card className="bg-white">
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold text-gray-900">🗺️ Geographic Performance</CardTitle>
-              <p className="text-sm text-gray-600">Leads and revenue by state/region</p>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {Object.entries(processedData.geographicDistribution || {})
-                  .sort(([,a], [,b]) => b.revenue - a.revenue)
-                  .slice(0, 6)
-                  .map(([state, data]) => (
-                    <div key={state} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                      <div className="flex-1">
-                        <div className="text-sm font-medium text-gray-900">
-                          {state === "Unknown" ? "🌍 Unknown" : `🇺🇸 ${state}`}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {data.leads} leads
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-sm font-semibold text-green-600">
-                          {formatCurrency(data.revenue)}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {formatCurrency(data.leads > 0 ? data.revenue / data.leads : 0)} avg
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                {Object.keys(processedData.geographicDistribution || {}).length === 0 && (
-                  <div className="text-sm text-gray-500 text-center py-4">
-                    No geographic data available
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
+          {METRIC_REGISTRY.map((definition) => {
+            const dimension = definition.filterDimension
+            return (
+              <MetricCard
+                key={definition.id}
+                definition={definition}
+                result={processedData.metrics?.[definition.id]}
+                previous={periodComparison?.data.metrics[definition.id]}
+                compareCurrency={compareRevenue}
+                selectedKey={dimension && activeFilterValue(filters, dimension)}
+                onSelect={dimension && ((value) => toggle({ dimension, value }))}
+              />
+            )
+          })}
         </div>
-
-        {/* Bottom Row: Campaign Performance & Time Insights */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Campaign Performance */}
-          <Card className="bg-white">
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold text-gray-900">🎯 Top Performing Campaigns</CardTitle>
-              <p className="text-sm text-gray-600">Marketing campaigns driving the most revenue</p>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {Object.entries(processedData.campaignPerformance || {})
-                  .sort(([,a], [,b]) => b.revenue - a.revenue)
-                  .slice(0, 5)
-                  .map(([campaign, data]) => (
-                    <div key={campaign} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                      <div className="flex-1">
-                        <div className="text-sm font-medium text-gray-900 truncate">
-                          🎯 {campaign}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {data.leads} leads generated
-                        </div>
-                      </div>
-                      <div className="text-right">
-                        <div className="text-sm font-semibold text-purple-600">
-                          {formatCurrency(data.revenue)}
-                        </div>
-                        <div className="text-xs text-gray-500">
-                          {formatCurrency(data.leads > 0 ? data.revenue / data.leads : 0)} per lead
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                {Object.keys(processedData.campaignPerformance || {}).length === 0 && (
-                  <div className="text-sm text-gray-500 text-center py-4">
-                    No campaign data available
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Peak Activity & Insights */}
-          <Card className="bg-white">
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold text-gray-900">⏰ Peak Activity Hours</CardTitle>
-              <p className="text-sm text-gray-600">When your leads are most active</p>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                {(processedData.timeBasedInsights?.peakActivityHours || []).map((hourData) => (
-                  <div key={hourData.hour} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
-                    <div className="flex-1">
-                      <div className="text-sm font-medium text-gray-900">
-                        🕐 {hourData.hour}:00 - {hourData.hour + 1}:00
-                      </div>
-                    </div>
-                    <div className="text-right">
-                      <div className="text-sm font-semibold text-indigo-600">
-                        {hourData.activity} leads
-                      </div>
-                    </div>
-                  </div>
-                ))}
-                {(processedData.timeBasedInsights?.peakActivityHours || []).length === 0 && (
-                  <div className="text-sm text-gray-500 text-center py-4">
-                    No activity data available
-                  </div>
-                )}
-              </div>
-              
-              {/* Response Time Insights */}
-              {processedData.timeBasedInsights?.responseTimeMetrics && (
-                <div className="mt-4 pt-4 border-t border-gray-200">
-                  <div className="text-sm font-medium text-gray-900 mb-2">🏆 Top Performers</div>
-                  <div className="flex flex-wrap gap-1">
-                    {processedData.timeBasedInsights.responseTimeMetrics.fastResponders.map((rep) => (
-                      <Badge key={rep} variant="outline" className="text-xs bg-green-50 text-green-700 border-green-200">
-                        ⚡ {rep}
-                      </Badge>
-                    ))}
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
-
-        {/* Landing Pages Performance - Full Width */}
-        <Card className="bg-white">
-          <CardHeader>
-            <CardTitle className="text-lg font-semibold text-gray-900">🌐 Top Landing Pages Performance</CardTitle>
-            <p className="text-sm text-gray-600">Which pages visitors land on first and their conversion rates to SQLs</p>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {Object.entries(processedData.landingPagePerformance || {})
-                .sort(([,a], [,b]) => b.leads - a.leads)
-                .slice(0, 9)
-                .map(([page, data]) => (
-                  <div key={page} className="p-4 bg-gray-50 rounded-lg">
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex-1">
-                        <div className="text-sm font-medium text-gray-900 truncate">
-                          {page === "Homepage" ? "🏠" : page.includes("Product") ? "📦" : page.includes("About") ? "ℹ️" : 
-                           page.includes("Contact") ? "📞" : page.includes("Blog") ? "📝" : page.includes("Pricing") ? "💰" :
-                           page.includes("Demo") ? "🎬" : page.includes("Case") ? "📊" : page.includes("Resource") ? "📚" : "🌐"} {page}
-                        </div>
-                      </div>
-                      <Badge variant="outline" className={`text-xs ml-2 ${
-                        data.conversionRate >= 20 ? 'bg-green-50 text-green-700 border-green-200' :
-                        data.conversionRate >= 10 ? 'bg-blue-50 text-blue-700 border-blue-200' :
-                        data.conversionRate >= 5 ? 'bg-orange-50 text-orange-700 border-orange-200' :
-                        'bg-gray-50 text-gray-700 border-gray-200'
-                      }`}>
-                        {data.conversionRate.toFixed(1)}% SQL
-                      </Badge>
-                    </div>
-                    
-                    <div className="space-y-2">
-                      <div className="flex justify-between items-center">
-                        <span className="text-xs text-gray-500">Leads</span>
-                        <span className="text-sm font-semibold text-blue-600">{data.leads}</span>
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-xs text-gray-500">Revenue</span>
-                        <span className="text-sm font-semibold text-green-600">{formatCurrency(data.revenue)}</span>
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-xs text-gray-500">Avg Deal</span>
-                        <span className="text-sm font-medium text-gray-800">{formatCurrency(data.avgDealSize)}</span>
-                      </div>
-                      
-                      <div className="flex justify-between items-center">
-                        <span className="text-xs text-gray-500">SQLs</span>
-                        <span className="text-sm font-medium text-purple-600">{data.sqlCount}</span>
-                      </div>
-                    </div>
-                    
-                    {/* Conversion Rate Visual */}
-                    <div className="mt-3">
-                      <div className="flex justify-between items-center text-xs text-gray-500 mb-1">
-                        <span>Conversion Rate</span>
-                        <span>{data.conversionRate.toFixed(1)}%</span>
-                      </div>
-                      <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
-                        <div 
-                          className={`h-full rounded-full ${
-                            data.conversionRate >= 20 ? 'bg-green-500' :
-                            data.conversionRate >= 10 ? 'bg-blue-500' :
-                            data.conversionRate >= 5 ? 'bg-orange-500' : 'bg-gray-400'
-                          }`}
-                          style={{ width: `${Math.min(data.conversionRate, 100)}%` }}
-                        />
-                      </div>
-                    </div>
-                  </div>
-                ))}
-            </div>
-            
-            {Object.keys(processedData.landingPagePerformance || {}).length === 0 && (
-              <div className="text-sm text-gray-500 text-center py-8">
-                No landing page data available. First URL data may not be populated for these contacts.
-              </div>
-            )}
-            
-            {Object.keys(processedData.landingPagePerformance || {}).length > 9 && (
-              <div className="mt-4 text-center">
-                <Badge variant="outline" className="text-xs text-gray-600">
-                  Showing top 9 of {Object.keys(processedData.landingPagePerformance || {}).length} landing pages
-                </Badge>
-              </div>
-            )}
-          </CardContent>
-        </Card>
       </div>
 
       {/* Sales Funnel Visualization */}
@@ -831,6 +641,7 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
                <div className="bg-white rounded-lg p-4">
                  <div className="text-3xl font-bold text-blue-800">{formatNumber(finalMqls)}</div>
                  <div className="text-sm text-blue-600">Marketing Qualified Leads</div>
+                 <DeltaIndicator current={finalMqls} previous={previousFunnel?.mql} className="justify-center" />
                  <div className="text-xs text-gray-500 mt-1">{formatCurrency(mqlValue)} potential</div>
                </div>
                <Badge className="bg-blue-100 text-blue-800 border-blue-200">
@@ -860,6 +671,7 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
                <div className="bg-white rounded-lg p-4">
                  <div className="text-3xl font-bold text-green-800">{formatNumber(finalSqls)}</div>
                  <div className="text-sm text-green-600">Sales Qualified Leads</div>
+                 <DeltaIndicator current={finalSqls} previous={previousFunnel?.sql} className="justify-center" />
                  <div className="text-xs text-gray-500 mt-1">{formatCurrency(sqlValue)} potential</div>
                </div>
                <Badge className="bg-green-100 text-green-800 border-green-200">
@@ -889,6 +701,7 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
               <div className="bg-white rounded-lg p-4">
                 <div className="text-3xl font-bold text-orange-800">{formatNumber(customers)}</div>
                 <div className="text-sm text-orange-600">New Customers</div>
+                <DeltaIndicator current={customers} previous={previousCustomers} className="justify-center" />
                 <div className="text-xs text-gray-500 mt-1">{formatCurrency(customerValue)} revenue</div>
               </div>
                              <Badge className="bg-orange-100 text-orange-800 border-orange-200">
@@ -918,6 +731,11 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
               <div className="bg-white rounded-lg p-4">
                 <div className="text-3xl font-bold text-purple-800">{formatNumber(expandedAccounts)}</div>
                 <div className="text-sm text-purple-600">Expanded Accounts</div>
+                <DeltaIndicator
+                  current={expandedAccounts}
+                  previous={previousCustomers === undefined ? undefined : Math.round(previousCustomers * 0.30)}
+                  className="justify-center"
+                />
                 <div className="text-xs text-gray-500 mt-1">{formatCurrency(expansionValue)} expansion</div>
               </div>
               <Badge className="bg-purple-100 text-purple-800 border-purple-200">30% expand</Badge>
@@ -952,13 +770,22 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
              {Object.entries(lifecycleDistribution)
                .sort(([, a], [, b]) => b - a)
                .map(([stage, count]) => (
-                 <div key={stage} className="bg-gray-50 rounded-lg p-3 text-center">
+                 <button
+                   key={stage}
+                   type="button"
+                   onClick={() => toggle({ dimension: "lifecycleStage", value: stage })}
+                   aria-pressed={activeFilterValue(filters, "lifecycleStage") === stage}
+                   className={cn(
+                     "bg-gray-50 rounded-lg p-3 text-center transition-colors hover:bg-gray-100",
+                     activeFilterValue(filters, "lifecycleStage") === stage && "bg-blue-50 ring-2 ring-blue-500",
+                   )}
+                 >
                    <div className="text-2xl font-bold text-gray-800">{count}</div>
                    <div className="text-sm text-gray-600">{formatLifecycleStage(stage)}</div>
                    <div className="text-xs text-gray-500">
                      {totalLeads > 0 ? Math.round((count / totalLeads) * 100) : 0}%
                    </div>
-                 </div>
+                 </button>
                ))}
            </div>
          </div>
@@ -981,21 +808,46 @@ export default function AccountDashboard({ processedData, isLoading }: AccountDa
                       {index + 1}
                     </div>
                     <div className="flex-1">
-                      <div className="font-medium text-gray-900">{rep}</div>
+                      <div className="font-medium text-gray-900">
+                        {rep}
+                        {previous && !previous.salesByRep[rep] && (
+                          <Badge variant="outline" className="ml-2 text-xs text-blue-700 bg-blue-50 border-blue-200">
+                            New
+                          </Badge>
+                        )}
+                      </div>
                       <div className="text-sm text-gray-500">{data.accounts} qualified leads</div>
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        className="mt-2 text-xs h-7 px-2"
-                        onClick={() => handleViewRepLeads(rep)}
-                      >
-                        <Eye className="h-3 w-3 mr-1" />
-                        Leads from this user
-                      </Button>
+                      <div className="flex gap-2 mt-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-xs h-7 px-2"
+                          onClick={() => handleViewRepLeads(rep)}
+                        >
+                          <Eye className="h-3 w-3 mr-1" />
+                          Leads from this user
+                        </Button>
+                        <Button
+                          variant={activeFilterValue(filters, "rep") === rep ? "default" : "outline"}
+                          size="sm"
+                          className="text-xs h-7 px-2"
+                          onClick={() => toggle({ dimension: "rep", value: rep })}
+                        >
+                          <Filter className="h-3 w-3 mr-1" />
+                          {activeFilterValue(filters, "rep") === rep ? "Clear rep filter" : "Filter to this rep"}
+                        </Button>
+                      </div>
                     </div>
                   </div>
                   <div className="text-right">
                     <div className="font-semibold text-gray-900">{formatCurrency(data.sales)}</div>
+                    {compareRevenue && previous?.salesByRep[rep] && (
+                      <DeltaIndicator
+                        current={data.sales}
+                        previous={previous.salesByRep[rep].sales}
+                        format={formatCurrency}
+                      />
+                    )}
                     <div className="text-sm text-gray-500">pipeline value</div>
                   </div>
                 </div>
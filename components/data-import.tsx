@@ -0,0 +1,261 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, FileSpreadsheet, Save, Trash2, Upload } from "lucide-react"
+import type { ColumnMapping, ImportField, ImportPreview, ImportProfile } from "@/lib/types"
+import { IMPORT_FIELDS, missingRequiredFields, suggestColumnMapping } from "@/lib/column-mapping"
+import {
+  deleteImportProfile,
+  getImportProfiles,
+  saveImportProfile,
+  uploadImportFile,
+} from "@/app/lib/hubspot-actions"
+
+// Radix Select cannot use an empty string as an item value
+const NOT_MAPPED = "__not_mapped__"
+
+interface DataImportProps {
+  onApply: (preview: ImportPreview, mapping: ColumnMapping) => void
+  isApplying: boolean
+}
+
+export default function DataImport({ onApply, isApplying }: DataImportProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping>({})
+  const [profiles, setProfiles] = useState<ImportProfile[]>([])
+  const [selectedProfileId, setSelectedProfileId] = useState<string>("")
+  const [profileName, setProfileName] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    getImportProfiles()
+      .then(setProfiles)
+      .catch((e) => console.error("Failed to load import profiles:", e))
+  }, [])
+
+  const selectedProfile = profiles.find((profile) => profile.id === selectedProfileId)
+  const missing = missingRequiredFields(mapping)
+
+  const handleUpload = () => {
+    if (!file) return
+    setError(null)
+    startTransition(async () => {
+      try {
+        const formData = new FormData()
+        formData.append("file", file)
+        const uploaded = await uploadImportFile(formData)
+        setPreview(uploaded)
+        setMapping(suggestColumnMapping(uploaded.headers, selectedProfile?.mapping))
+      } catch (e: any) {
+        console.error("Upload failed:", e)
+        setError(e.message || "Failed to read the uploaded file.")
+      }
+    })
+  }
+
+  const handleSelectProfile = (profileId: string) => {
+    setSelectedProfileId(profileId)
+    const profile = profiles.find((candidate) => candidate.id === profileId)
+    if (!profile) return
+    setProfileName(profile.name)
+    if (preview) setMapping(suggestColumnMapping(preview.headers, profile.mapping))
+  }
+
+  const handleSaveProfile = () => {
+    setError(null)
+    startTransition(async () => {
+      try {
+        const saved = await saveImportProfile(profileName, mapping)
+        setProfiles(await getImportProfiles())
+        setSelectedProfileId(saved.id)
+      } catch (e: any) {
+        setError(e.message || "Failed to save the import profile.")
+      }
+    })
+  }
+
+  const handleDeleteProfile = () => {
+    if (!selectedProfile) return
+    startTransition(async () => {
+      await deleteImportProfile(selectedProfile.id)
+      setProfiles(await getImportProfiles())
+      setSelectedProfileId("")
+    })
+  }
+
+  const updateMapping = (field: ImportField, column: string) => {
+    setMapping((current) => {
+      const next = { ...current }
+      if (column === NOT_MAPPED) delete next[field]
+      else next[field] = column
+      return next
+    })
+  }
+
+  return (
+    <div className="container mx-auto my-6 space-y-6">
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-blue-600" />
+            Import CSV or Excel
+          </CardTitle>
+          <CardDescription>
+            Upload an ERP export, map its columns onto dashboard fields, and load it into the dashboard.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                className="w-72"
+                onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Import profile</Label>
+              <Select value={selectedProfileId} onValueChange={handleSelectProfile}>
+                <SelectTrigger className="w-56">
+                  <SelectValue placeholder={profiles.length ? "Choose a saved profile" : "No saved profiles"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={handleUpload} disabled={!file || isPending}>
+              <Upload className="mr-2 h-4 w-4" />
+              {isPending ? "Reading file..." : "Upload & preview"}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-100 border border-red-400 text-red-700 rounded flex items-center text-sm">
+              <AlertTriangle className="h-4 w-4 mr-2" />
+              {error}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {preview && (
+        <>
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle className="text-lg">Column mapping</CardTitle>
+              <CardDescription>
+                {preview.fileName}: {preview.rowCount} rows
+                {preview.errors.length > 0 && ` (${preview.errors.length} malformed rows skipped)`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+                {IMPORT_FIELDS.map(({ field, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs text-gray-600">
+                      {field}
+                      {required && <span className="text-red-500"> *</span>}
+                    </Label>
+                    <Select value={mapping[field] ?? NOT_MAPPED} onValueChange={(column) => updateMapping(field, column)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {preview.headers.map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-end gap-3 pt-2 border-t">
+                <div className="space-y-1">
+                  <Label htmlFor="profile-name">Save mapping as profile</Label>
+                  <Input
+                    id="profile-name"
+                    value={profileName}
+                    onChange={(event) => setProfileName(event.target.value)}
+                    placeholder="e.g. NetSuite export"
+                    className="w-56"
+                  />
+                </div>
+                <Button variant="outline" onClick={handleSaveProfile} disabled={isPending || !profileName.trim()}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save profile
+                </Button>
+                {selectedProfile && (
+                  <Button variant="ghost" onClick={handleDeleteProfile} disabled={isPending}>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete "{selectedProfile.name}"
+                  </Button>
+                )}
+                <div className="flex-1" />
+                {missing.length > 0 && (
+                  <Badge variant="outline" className="text-amber-700 bg-amber-50 border-amber-200">
+                    Map {missing.join(" and ")} to continue
+                  </Badge>
+                )}
+                <Button onClick={() => onApply(preview, mapping)} disabled={missing.length > 0 || isApplying}>
+                  {isApplying ? "Processing..." : "Load into dashboard"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white">
+            <CardHeader>
+              <CardTitle className="text-lg">Preview</CardTitle>
+              <CardDescription>First {preview.previewRows.length} rows as uploaded</CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    {preview.headers.map((header) => (
+                      <TableHead key={header} className="whitespace-nowrap">
+                        {header}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.previewRows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      {row.map((cell, cellIndex) => (
+                        <TableCell key={cellIndex} className="whitespace-pre-line text-xs">
+                          {cell}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { ArrowDownRight, ArrowUpRight, Minus } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { metricDelta } from "@/lib/metric-snapshots"
+import { formatMetricValue } from "@/lib/metric-registry"
+
+interface DeltaIndicatorProps {
+  current: number
+  previous: number | undefined
+  format?: (value: number) => string
+  className?: string
+}
+
+const formatNumber = (value: number) => formatMetricValue(value, "number")
+
+// Change against the comparison snapshot or period, e.g. "↗ +120 (12.5%)". Every figure it is used for is
+// better when higher, so increases are always green and decreases red.
+export default function DeltaIndicator({ current, previous, format = formatNumber, className }: DeltaIndicatorProps) {
+  const delta = metricDelta(current, previous)
+  if (!delta) return null
+
+  if (delta.change === 0) {
+    return (
+      <span className={cn("inline-flex items-center gap-0.5 text-xs text-gray-500", className)}>
+        <Minus className="h-3 w-3" />
+        No change
+      </span>
+    )
+  }
+
+  const isUp = delta.change > 0
+  const Arrow = isUp ? ArrowUpRight : ArrowDownRight
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium",
+        isUp ? "text-green-600" : "text-red-600",
+        className
+      )}
+    >
+      <Arrow className="h-3 w-3" />
+      {isUp ? "+" : "-"}
+      {format(Math.abs(delta.change))}
+      {delta.percent !== null && <span className="font-normal">({Math.abs(delta.percent).toFixed(1)}%)</span>}
+    </span>
+  )
+}
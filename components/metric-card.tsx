@@ -0,0 +1,236 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import DeltaIndicator from "@/components/delta-indicator"
+import { cn } from "@/lib/utils"
+import type { MetricItem, MetricResult } from "@/lib/types"
+import { formatMetricValue, type MetricDefinition, type MetricField } from "@/lib/metric-registry"
+
+// Scores are banded like lead temperature (80 hot, 60 warm, 40 cool); other percentages are plain bars
+const progressColor = (field: MetricField, value: number) =>
+  field.format !== "score"
+    ? "bg-blue-500"
+    : value >= 80
+      ? "bg-green-500"
+      : value >= 60
+        ? "bg-yellow-500"
+        : value >= 40
+          ? "bg-orange-500"
+          : "bg-red-500"
+
+function FieldBadge({ item, field }: { item: MetricItem; field: MetricField }) {
+  return (
+    <Badge variant="outline" className="text-xs">
+      {formatMetricValue(item.values[field.key] ?? 0, field.format)} {field.label}
+    </Badge>
+  )
+}
+
+function ProgressBar({ item, field, className }: { item: MetricItem; field: MetricField; className?: string }) {
+  const value = item.values[field.key] ?? 0
+  return (
+    <div className={cn("h-2 bg-gray-200 rounded-full overflow-hidden", className)}>
+      <div
+        className={cn("h-full rounded-full", progressColor(field, value))}
+        style={{ width: `${Math.max(0, Math.min(value, 100))}%` }}
+      />
+    </div>
+  )
+}
+
+interface ItemProps {
+  item: MetricItem
+  definition: MetricDefinition
+  previous?: MetricItem // Same item in the comparison period, to show the change of the main figure
+  selected: boolean
+  onSelect?: () => void
+}
+
+function ValueDelta({ item, field, previous }: { item: MetricItem; field: MetricField; previous?: MetricItem }) {
+  if (!previous) return null
+  return (
+    <DeltaIndicator
+      current={item.values[field.key] ?? 0}
+      previous={previous.values[field.key]}
+      format={(value) => formatMetricValue(value, field.format)}
+    />
+  )
+}
+
+// A button when the metric filters the dashboard, a plain box otherwise
+function ItemBox({
+  selected,
+  onSelect,
+  className,
+  children,
+}: Pick<ItemProps, "selected" | "onSelect"> & { className: string; children: React.ReactNode }) {
+  if (!onSelect) return <div className={className}>{children}</div>
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      aria-pressed={selected}
+      className={cn(
+        className,
+        "w-full text-left transition-colors hover:bg-gray-100",
+        selected && "bg-blue-50 ring-2 ring-blue-500 hover:bg-blue-50",
+      )}
+    >
+      {children}
+    </button>
+  )
+}
+
+function ListItem({ item, definition, previous, selected, onSelect }: ItemProps) {
+  const { value, details, badge, progress } = definition.schema
+  return (
+    <ItemBox selected={selected} onSelect={onSelect} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-900 truncate">{item.label}</span>
+          {badge && <FieldBadge item={item} field={badge} />}
+        </div>
+        {item.tags && item.tags.length > 0 && (
+          <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+            {item.tags.map((tag) => (
+              <span key={tag}>{tag}</span>
+            ))}
+          </div>
+        )}
+        {details.length > 0 && (
+          <div className="text-xs text-gray-500">
+            {details
+              .map((field) => `${formatMetricValue(item.values[field.key] ?? 0, field.format)} ${field.label}`)
+              .join(" • ")}
+          </div>
+        )}
+      </div>
+      <div className="text-right">
+        <div className="text-sm font-semibold text-blue-600">
+          {formatMetricValue(item.values[value.key] ?? 0, value.format)}
+          {value.unit && ` ${value.unit}`}
+        </div>
+        <ValueDelta item={item} field={value} previous={previous} />
+        {progress && <ProgressBar item={item} field={progress} className="w-12 ml-auto" />}
+      </div>
+    </ItemBox>
+  )
+}
+
+function Tile({ item, definition, previous, selected, onSelect }: ItemProps) {
+  const { value, details, badge, progress } = definition.schema
+  return (
+    <ItemBox selected={selected} onSelect={onSelect} className="block p-4 bg-gray-50 rounded-lg">
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex-1 text-sm font-medium text-gray-900 truncate">{item.label}</div>
+        {badge && <FieldBadge item={item} field={badge} />}
+      </div>
+      <div className="space-y-2">
+        {previous && (
+          <div className="flex justify-end">
+            <ValueDelta item={item} field={value} previous={previous} />
+          </div>
+        )}
+        {[value, ...details].map((field) => (
+          <div key={field.key} className="flex justify-between items-center">
+            <span className="text-xs text-gray-500">{field.label}</span>
+            <span className="text-sm font-semibold text-gray-800">
+              {formatMetricValue(item.values[field.key] ?? 0, field.format)}
+            </span>
+          </div>
+        ))}
+      </div>
+      {progress && (
+        <div className="mt-3">
+          <div className="flex justify-between items-center text-xs text-gray-500 mb-1">
+            <span>{progress.label}</span>
+            <span>{formatMetricValue(item.values[progress.key] ?? 0, progress.format)}</span>
+          </div>
+          <ProgressBar item={item} field={progress} />
+        </div>
+      )}
+    </ItemBox>
+  )
+}
+
+interface MetricCardProps {
+  definition: MetricDefinition
+  result?: MetricResult
+  previous?: MetricResult // The metric for the comparison period
+  compareCurrency?: boolean // False when the two periods' revenue is not comparable (estimated vs deals)
+  selectedKey?: string | null // Item the dashboard is filtered to
+  onSelect?: (key: string) => void // Only offered for metrics with a filter dimension
+}
+
+// Draws any registered metric from its schema and default visualization
+export default function MetricCard({
+  definition,
+  result,
+  previous,
+  compareCurrency = true,
+  selectedKey,
+  onSelect,
+}: MetricCardProps) {
+  const { type, limit, fullWidth, itemName } = definition.visualization
+  const items = result?.items ?? []
+  const shown = items.slice(0, limit)
+  const showDeltas = compareCurrency || definition.schema.value.format !== "currency"
+  const previousItems = new Map<string, MetricItem>(
+    previous && showDeltas ? previous.items.map((item) => [item.key, item]) : [],
+  )
+  const itemProps = (item: MetricItem) => ({
+    item,
+    definition,
+    previous: previousItems.get(item.key),
+    selected: item.key === selectedKey,
+    onSelect: onSelect && (() => onSelect(item.key)),
+  })
+
+  return (
+    <Card className={cn("bg-white", fullWidth && "lg:col-span-2 xl:col-span-3")}>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-gray-900">{definition.title}</CardTitle>
+        <p className="text-sm text-gray-600">{definition.description}</p>
+      </CardHeader>
+      <CardContent>
+        {items.length === 0 ? (
+          <div className="text-sm text-gray-500 text-center py-4">{definition.emptyMessage}</div>
+        ) : type === "tiles" ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {shown.map((item) => (
+              <Tile key={item.key} {...itemProps(item)} />
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {shown.map((item) => (
+              <ListItem key={item.key} {...itemProps(item)} />
+            ))}
+          </div>
+        )}
+
+        {itemName && items.length > limit && (
+          <div className="mt-4 text-center">
+            <Badge variant="outline" className="text-xs text-gray-600">
+              Showing top {limit} of {items.length} {itemName}
+            </Badge>
+          </div>
+        )}
+
+        {result?.highlights && result.highlights.labels.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            <div className="text-sm font-medium text-gray-900 mb-2">{result.highlights.title}</div>
+            <div className="flex flex-wrap gap-1">
+              {result.highlights.labels.map((label) => (
+                <Badge key={label} variant="outline" className="text-xs bg-green-50 text-green-700 border-green-200">
+                  {label}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,63 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Building2, Plus } from "lucide-react"
+import type { PortalList } from "@/lib/types"
+import { getPortals, switchPortal } from "@/app/lib/hubspot-actions"
+
+// Picks which HubSpot portal the dashboard, rules, history and syncs work on
+export default function PortalSwitcher() {
+  const [list, setList] = useState<PortalList | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    getPortals()
+      .then(setList)
+      .catch((e) => console.error("Failed to load HubSpot portals:", e))
+  }, [])
+
+  const handleSwitch = (portalId: string) => {
+    startTransition(async () => {
+      try {
+        await switchPortal(portalId)
+        // Every tab holds state loaded for the old portal, so start over
+        window.location.reload()
+      } catch (e) {
+        console.error("Failed to switch HubSpot portal:", e)
+      }
+    })
+  }
+
+  if (!list || (list.portals.length === 0 && !list.canInstall)) return null
+
+  return (
+    <div className="flex items-center gap-2">
+      <Building2 className="h-4 w-4 text-gray-500" />
+      {list.portals.length > 0 && (
+        <Select value={list.activePortalId} onValueChange={handleSwitch} disabled={isPending}>
+          <SelectTrigger className="h-9 w-[220px]">
+            <SelectValue placeholder="Choose a portal" />
+          </SelectTrigger>
+          <SelectContent>
+            {list.portals.map((portal) => (
+              <SelectItem key={portal.id} value={portal.id}>
+                {portal.name}
+                {portal.authType === "oauth" && <span className="text-xs text-gray-500"> · {portal.id}</span>}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {list.canInstall && (
+        <Button variant="outline" size="sm" asChild>
+          <a href="/api/oauth/hubspot/install">
+            <Plus className="mr-1 h-4 w-4" />
+            Connect portal
+          </a>
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,194 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { AlertTriangle, CheckCircle, Plus, RotateCcw, Save, Trash2 } from "lucide-react"
+import type { FunnelStage, QualificationRules } from "@/lib/types"
+import { FUNNEL_STAGE_LABELS } from "@/lib/qualification-rules"
+import { getQualificationRules, resetQualificationRules, saveQualificationRules } from "@/app/lib/hubspot-actions"
+
+// Funnel order for editing, lowest stage first
+const EDITOR_STAGES: FunnelStage[] = ["mql", "sql", "opportunity", "customer"]
+
+// Values are edited as comma-separated text and only split on save
+type ConditionDraft = { property: string; valuesText: string }
+type RulesDraft = { stages: Record<FunnelStage, ConditionDraft[]>; qualifyingStages: FunnelStage[] }
+
+const toDraft = (rules: QualificationRules): RulesDraft => ({
+  stages: Object.fromEntries(
+    EDITOR_STAGES.map((stage) => [
+      stage,
+      rules.stages[stage].map((condition) => ({ property: condition.property, valuesText: condition.values.join(", ") })),
+    ]),
+  ) as Record<FunnelStage, ConditionDraft[]>,
+  qualifyingStages: rules.qualifyingStages,
+})
+
+const fromDraft = (draft: RulesDraft): QualificationRules => ({
+  stages: Object.fromEntries(
+    EDITOR_STAGES.map((stage) => [
+      stage,
+      draft.stages[stage].map((condition) => ({
+        property: condition.property,
+        values: condition.valuesText.split(","),
+      })),
+    ]),
+  ) as QualificationRules["stages"],
+  qualifyingStages: draft.qualifyingStages,
+})
+
+interface QualificationRulesEditorProps {
+  onSaved?: () => void
+}
+
+export default function QualificationRulesEditor({ onSaved }: QualificationRulesEditorProps) {
+  const [draft, setDraft] = useState<RulesDraft | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  useEffect(() => {
+    getQualificationRules()
+      .then((rules) => setDraft(toDraft(rules)))
+      .catch((e) => setMessage({ type: "error", text: e.message || "Failed to load qualification rules." }))
+  }, [])
+
+  if (!draft) {
+    return <div className="container mx-auto my-6 text-sm text-gray-500">Loading qualification rules...</div>
+  }
+
+  const updateStage = (stage: FunnelStage, conditions: ConditionDraft[]) =>
+    setDraft({ ...draft, stages: { ...draft.stages, [stage]: conditions } })
+
+  const toggleQualifying = (stage: FunnelStage, checked: boolean) =>
+    setDraft({
+      ...draft,
+      qualifyingStages: checked
+        ? [...draft.qualifyingStages, stage]
+        : draft.qualifyingStages.filter((qualifying) => qualifying !== stage),
+    })
+
+  const persist = (save: () => Promise<QualificationRules>) => {
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        setDraft(toDraft(await save()))
+        setMessage({ type: "success", text: "Rules saved. The next sync runs as a full resync to apply them." })
+        onSaved?.()
+      } catch (e: any) {
+        setMessage({ type: "error", text: e.message || "Failed to save qualification rules." })
+      }
+    })
+  }
+
+  return (
+    <div className="container mx-auto my-6 space-y-6">
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle>Lead qualification rules</CardTitle>
+          <CardDescription>
+            A contact is in a stage when any of its conditions match (values are case-insensitive). When several stages
+            match, the furthest one wins. Checked stages decide which contacts are synced into the dashboard.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-wrap items-center gap-3">
+          <Button onClick={() => persist(() => saveQualificationRules(fromDraft(draft)))} disabled={isPending}>
+            <Save className="mr-2 h-4 w-4" />
+            {isPending ? "Saving..." : "Save rules"}
+          </Button>
+          <Button variant="outline" onClick={() => persist(resetQualificationRules)} disabled={isPending}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to defaults
+          </Button>
+          {message && (
+            <span
+              className={`flex items-center text-sm ${message.type === "success" ? "text-green-700" : "text-red-700"}`}
+            >
+              {message.type === "success" ? (
+                <CheckCircle className="h-4 w-4 mr-1" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 mr-1" />
+              )}
+              {message.text}
+            </span>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {EDITOR_STAGES.map((stage) => (
+          <Card key={stage} className="bg-white">
+            <CardHeader className="pb-3">
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">{FUNNEL_STAGE_LABELS[stage]}</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id={`qualifying-${stage}`}
+                    checked={draft.qualifyingStages.includes(stage)}
+                    onCheckedChange={(checked) => toggleQualifying(stage, checked === true)}
+                  />
+                  <Label htmlFor={`qualifying-${stage}`} className="text-sm text-gray-600">
+                    Sync into dashboard
+                  </Label>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {draft.stages[stage].map((condition, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={condition.property}
+                    placeholder="Property, e.g. lifecyclestage"
+                    className="w-48"
+                    onChange={(event) =>
+                      updateStage(
+                        stage,
+                        draft.stages[stage].map((existing, i) =>
+                          i === index ? { ...existing, property: event.target.value } : existing,
+                        ),
+                      )
+                    }
+                  />
+                  <span className="text-xs text-gray-500">is one of</span>
+                  <Input
+                    value={condition.valuesText}
+                    placeholder="Comma-separated values"
+                    className="flex-1"
+                    onChange={(event) =>
+                      updateStage(
+                        stage,
+                        draft.stages[stage].map((existing, i) =>
+                          i === index ? { ...existing, valuesText: event.target.value } : existing,
+                        ),
+                      )
+                    }
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateStage(stage, draft.stages[stage].filter((_, i) => i !== index))}
+                    aria-label="Remove condition"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {draft.stages[stage].length === 0 && <p className="text-sm text-gray-500">No conditions yet.</p>}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateStage(stage, [...draft.stages[stage], { property: "lifecyclestage", valuesText: "" }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add condition
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -64,7 +64,7 @@ export default function RepAccountDetailsModal({ isOpen, onClose, repName, accou
             <TableBody>
               {accounts.length > 0 ? (
                 accounts.map((account) => (
-                  <TableRow key={account["Account ID"]}>
+                  <TableRow key={account["Record ID"] ?? account["Account ID"]}>
                     <TableCell className="font-medium truncate max-w-[200px]">{account["Account Name"]}</TableCell>
                     <TableCell className="text-right font-semibold">
                       {formatCurrency(parseCurrency(account["Total Sales"]))}
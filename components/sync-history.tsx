@@ -0,0 +1,206 @@
+"use client"
+
+import { useEffect, useState, useTransition } from "react"
+import { format, formatDistanceStrict } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, CheckCircle, RefreshCw, Save } from "lucide-react"
+import type { SyncJobStatus, SyncRun, SyncSchedule, SyncScheduleStatus } from "@/lib/types"
+import { getSyncHistory, getSyncSchedule, saveSyncSchedule } from "@/app/lib/hubspot-actions"
+
+const STATUS_STYLES: Record<SyncJobStatus, string> = {
+  running: "bg-blue-50 text-blue-700 border-blue-200",
+  completed: "bg-green-50 text-green-700 border-green-200",
+  failed: "bg-red-50 text-red-700 border-red-200",
+  cancelled: "bg-gray-50 text-gray-700 border-gray-200",
+}
+
+const formatTime = (iso: string | null) => (iso ? format(new Date(iso), "MMM dd, yyyy h:mm a") : "—")
+const formatCount = (value: number | null) => (value === null ? "—" : value.toLocaleString())
+
+interface SyncHistoryProps {
+  refreshKey?: string | null // Changes after each sync so the list reloads
+}
+
+export default function SyncHistory({ refreshKey }: SyncHistoryProps) {
+  const [runs, setRuns] = useState<SyncRun[]>([])
+  const [schedule, setSchedule] = useState<SyncScheduleStatus | null>(null)
+  const [draft, setDraft] = useState<SyncSchedule | null>(null)
+  const [message, setMessage] = useState<{ type: "success" | "error"; text: string } | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const loadHistory = () => {
+    startTransition(async () => {
+      try {
+        const [history, status] = await Promise.all([getSyncHistory(), getSyncSchedule()])
+        setRuns(history)
+        setSchedule(status)
+        setDraft((current) => current ?? status)
+      } catch (e: any) {
+        setMessage({ type: "error", text: e.message || "Failed to load the sync history." })
+      }
+    })
+  }
+
+  useEffect(loadHistory, [refreshKey])
+
+  const handleSaveSchedule = () => {
+    if (!draft) return
+    setMessage(null)
+    startTransition(async () => {
+      try {
+        const status = await saveSyncSchedule(draft)
+        setSchedule(status)
+        setDraft(status)
+        setMessage({ type: "success", text: "Schedule saved." })
+      } catch (e: any) {
+        setMessage({ type: "error", text: e.message || "Failed to save the schedule." })
+      }
+    })
+  }
+
+  return (
+    <div className="container mx-auto my-6 space-y-6">
+      <Card className="bg-white">
+        <CardHeader>
+          <CardTitle>Sync schedule</CardTitle>
+          <CardDescription>
+            Cron expressions (minute hour day-of-month month day-of-week) in the server&apos;s time zone. A scheduled sync
+            is skipped if another sync is still running.
+          </CardDescription>
+        </CardHeader>
+        {draft && (
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="schedule-enabled"
+                checked={draft.enabled}
+                onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+              />
+              <Label htmlFor="schedule-enabled">Run syncs on a schedule</Label>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="incremental-cron">Incremental sync</Label>
+                <Input
+                  id="incremental-cron"
+                  value={draft.incrementalCron}
+                  placeholder="0 * * * *"
+                  onChange={(event) => setDraft({ ...draft, incrementalCron: event.target.value })}
+                />
+                <p className="text-xs text-gray-500">Next run: {formatTime(schedule?.nextIncrementalAt ?? null)}</p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="full-cron">Full resync</Label>
+                <Input
+                  id="full-cron"
+                  value={draft.fullCron}
+                  placeholder="0 2 * * *"
+                  onChange={(event) => setDraft({ ...draft, fullCron: event.target.value })}
+                />
+                <p className="text-xs text-gray-500">Next run: {formatTime(schedule?.nextFullAt ?? null)}</p>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-3">
+              <Button onClick={handleSaveSchedule} disabled={isPending}>
+                <Save className="mr-2 h-4 w-4" />
+                Save schedule
+              </Button>
+              {schedule && schedule.enabled && !schedule.active && (
+                <span className="flex items-center text-sm text-amber-700">
+                  <AlertTriangle className="h-4 w-4 mr-1" />
+                  Scheduled syncs need HubSpot access: HUBSPOT_API_KEY, or a connected portal.
+                </span>
+              )}
+              {message && (
+                <span
+                  className={`flex items-center text-sm ${message.type === "success" ? "text-green-700" : "text-red-700"}`}
+                >
+                  {message.type === "success" ? (
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                  ) : (
+                    <AlertTriangle className="h-4 w-4 mr-1" />
+                  )}
+                  {message.text}
+                </span>
+              )}
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="bg-white">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Sync history</CardTitle>
+              <CardDescription>The most recent {runs.length} runs, newest first.</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={loadHistory} disabled={isPending}>
+              <RefreshCw className={`mr-2 h-4 w-4 ${isPending ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-gray-500">No syncs have run yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Trigger</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Duration</TableHead>
+                  <TableHead className="text-right">Contacts fetched</TableHead>
+                  <TableHead className="text-right">Upserted / removed</TableHead>
+                  <TableHead className="text-right">Deals</TableHead>
+                  <TableHead className="text-right">API calls</TableHead>
+                  <TableHead>Error</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">#{run.id}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatTime(run.startedAt)}</TableCell>
+                    <TableCell className="capitalize">{run.trigger}</TableCell>
+                    <TableCell>
+                      {run.mode ?? run.requestedMode}
+                      {run.mode && run.mode !== run.requestedMode && (
+                        <span className="text-xs text-gray-500"> (requested {run.requestedMode})</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={`text-xs capitalize ${STATUS_STYLES[run.status]}`}>
+                        {run.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {run.finishedAt ? formatDistanceStrict(new Date(run.finishedAt), new Date(run.startedAt)) : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCount(run.fetched)}</TableCell>
+                    <TableCell className="text-right">
+                      {run.upserted === null ? "—" : `${formatCount(run.upserted)} / ${formatCount(run.removed)}`}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCount(run.deals)}</TableCell>
+                    <TableCell className="text-right">{formatCount(run.apiCalls)}</TableCell>
+                    <TableCell className="max-w-xs text-xs text-red-700">{run.error}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,126 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { AlertTriangle, CheckCircle, Loader2, XCircle } from "lucide-react"
+import type { SyncJobStatus, SyncPhase, SyncProgressEvent } from "@/lib/types"
+
+const PHASE_LABELS: Record<SyncPhase, string> = {
+  contacts: "Contacts",
+  deals: "Deals",
+  associations: "Associations",
+  companies: "Companies",
+  owners: "Owners",
+  pipelines: "Deal pipelines",
+  saving: "Saving",
+}
+
+type PhaseState = { phase: SyncPhase; message: string; progress?: SyncProgressEvent & { type: "progress" } }
+
+interface SyncProgressPanelProps {
+  jobId: string
+  onCancel: () => void
+  onFinished: (status: SyncJobStatus, message: string) => void
+}
+
+export default function SyncProgressPanel({ jobId, onCancel, onFinished }: SyncProgressPanelProps) {
+  const [events, setEvents] = useState<SyncProgressEvent[]>([])
+  const [isCancelling, setIsCancelling] = useState(false)
+  // The stream only depends on the job, but should report to the latest callback
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  useEffect(() => {
+    const source = new EventSource(`/api/sync/${jobId}/events`)
+    let finished = false
+
+    // The server replays the whole job on every (re)connect
+    source.onopen = () => setEvents([])
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as SyncProgressEvent
+      setEvents((previous) => [...previous, event])
+      if (event.type === "status" && event.status !== "running") {
+        finished = true
+        source.close()
+        onFinishedRef.current(event.status, event.message)
+      }
+    }
+    source.onerror = () => {
+      // A closed source will not reconnect, e.g. because the server restarted and forgot the job
+      if (!finished && source.readyState === EventSource.CLOSED) {
+        onFinishedRef.current("failed", "Lost track of the sync. Reload the page to see what was stored.")
+      }
+    }
+    return () => source.close()
+  }, [jobId])
+
+  const phases: PhaseState[] = []
+  const warnings: string[] = []
+  events.forEach((event) => {
+    if (event.type === "phase") phases.push({ phase: event.phase, message: event.message })
+    if (event.type === "warning") warnings.push(event.message)
+    if (event.type === "progress") {
+      const current = phases[phases.length - 1]
+      if (current?.phase === event.phase) current.progress = event
+    }
+  })
+  const status = [...events].reverse().find((event) => event.type === "status")
+
+  const handleCancel = () => {
+    setIsCancelling(true)
+    onCancel()
+  }
+
+  return (
+    <Card className="container mx-auto my-4 bg-white">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Loader2 className="h-5 w-5 animate-spin text-blue-600" />
+            {status?.message ?? "Starting sync"}...
+          </CardTitle>
+          <Button variant="outline" size="sm" onClick={handleCancel} disabled={isCancelling}>
+            <XCircle className="mr-2 h-4 w-4" />
+            {isCancelling ? "Cancelling..." : "Cancel sync"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {phases.map(({ phase, message, progress }, index) => {
+          const isCurrent = index === phases.length - 1
+          return (
+            <div key={index} className="text-sm">
+              <div className="flex items-center gap-2">
+                {isCurrent ? (
+                  <Loader2 className="h-4 w-4 animate-spin text-gray-500" />
+                ) : (
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                )}
+                <span className="font-medium w-32">{PHASE_LABELS[phase]}</span>
+                <span className="text-gray-600">{message}</span>
+                {progress && (
+                  <span className="ml-auto text-gray-500 whitespace-nowrap">
+                    {progress.pages !== undefined && `Page ${progress.pages} • `}
+                    {progress.records.toLocaleString()}
+                    {progress.total !== undefined && ` / ${progress.total.toLocaleString()}`} records
+                  </span>
+                )}
+              </div>
+              {isCurrent && progress?.total ? (
+                <Progress value={(progress.records / progress.total) * 100} className="h-1.5 mt-2 ml-6" />
+              ) : null}
+            </div>
+          )
+        })}
+        {warnings.map((warning, index) => (
+          <div key={`warning-${index}`} className="flex items-center gap-2 text-sm text-amber-700">
+            <AlertTriangle className="h-4 w-4" />
+            {warning}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
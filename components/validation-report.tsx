@@ -0,0 +1,118 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Download, ShieldAlert, ShieldCheck } from "lucide-react"
+import type { ValidationReport } from "@/lib/types"
+import { summarizeValidationIssues, validationReportToCsv } from "@/lib/validation-report"
+
+// Rendering every issue of a large sync would lock up the dialog; the download always has all of them
+const MAX_LISTED_ISSUES = 200
+
+function downloadReport(report: ValidationReport) {
+  const blob = new Blob([validationReportToCsv(report)], { type: "text/csv;charset=utf-8" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `validation-report-${report.source}-${report.generatedAt.slice(0, 10)}.csv`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export default function ValidationReportButton({ report }: { report: ValidationReport }) {
+  const [isOpen, setIsOpen] = useState(false)
+  const summary = summarizeValidationIssues(report.issues)
+  const hasIssues = report.issues.length > 0
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className={`h-7 px-2 text-xs ${hasIssues ? "text-amber-700 border-amber-300" : "text-green-700"}`}
+      >
+        {hasIssues ? <ShieldAlert className="mr-1 h-3 w-3" /> : <ShieldCheck className="mr-1 h-3 w-3" />}
+        {hasIssues ? `${report.issues.length} data issues` : "No data issues"}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Validation report: {report.label}</DialogTitle>
+            <DialogDescription>
+              {report.recordsWithIssues} of {report.recordCount} records needed a fallback value. Fix these at the
+              source to make the dashboard numbers trustworthy.
+            </DialogDescription>
+          </DialogHeader>
+
+          {hasIssues && (
+            <div className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Problem</TableHead>
+                    <TableHead className="text-right">Records</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.map(({ field, problem, count }) => (
+                    <TableRow key={`${field}-${problem}`}>
+                      <TableCell className="font-medium">{field}</TableCell>
+                      <TableCell>{problem}</TableCell>
+                      <TableCell className="text-right">{count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Problem</TableHead>
+                    <TableHead>Fallback applied</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.issues.slice(0, MAX_LISTED_ISSUES).map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="whitespace-nowrap text-xs">{issue.record}</TableCell>
+                      <TableCell className="text-xs">{issue.field}</TableCell>
+                      <TableCell className="text-xs">{issue.problem}</TableCell>
+                      <TableCell className="text-xs text-gray-500">{issue.fallback}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {report.issues.length > MAX_LISTED_ISSUES && (
+                <p className="text-xs text-gray-500">
+                  Showing the first {MAX_LISTED_ISSUES} of {report.issues.length} issues. Download the report for the
+                  full list.
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button onClick={() => downloadReport(report)} disabled={!hasIssues}>
+              <Download className="mr-2 h-4 w-4" />
+              Download CSV
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
@@ -0,0 +1,9 @@
+// Next.js calls this once per server start
+export async function register() {
+  // The schedule needs timers and SQLite, so it only runs in the Node.js server, not the edge runtime
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  const { recoverInterruptedRuns, startAllSyncSchedules } = await import("@/app/lib/sync-schedule")
+  recoverInterruptedRuns()
+  startAllSyncSchedules()
+}
@@ -0,0 +1,239 @@
+import type { AccountData, StoredCompany, StoredContact } from "@/lib/types"
+
+// Resolves which account every contact or imported row belongs to. Keys only depend on record IDs,
+// names and domains, so the same data always resolves to the same accounts across syncs.
+
+export interface AccountIdentity {
+  key: string
+  accountId: number
+  companyId: string | null // Canonical company after duplicates are merged
+}
+
+const LEGAL_SUFFIXES = new Set(["inc", "incorporated", "llc", "ltd", "limited", "corp", "corporation", "co", "company", "plc", "lp", "llp"])
+
+export function normalizeCompanyName(name: string | null | undefined): string {
+  const words = (name || "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop()
+  if (words[0] === "the" && words.length > 1) words.shift()
+  return words.join(" ")
+}
+
+export function normalizeDomain(domain: string | null | undefined): string {
+  return (domain || "")
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/^www\./, "")
+    .split(/[/?#:]/)[0]
+}
+
+// FNV-1a, kept to 31 bits so it stays a positive integer like the HubSpot IDs it stands in for
+export function stableAccountId(key: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0) & 0x7fffffff
+}
+
+const compareIds = (a: string, b: string) => Number(a) - Number(b) || a.localeCompare(b)
+
+class DisjointSet {
+  private readonly parent = new Map<string, string>()
+
+  find(item: string): string {
+    const parent = this.parent.get(item)
+    if (parent === undefined || parent === item) {
+      this.parent.set(item, item)
+      return item
+    }
+    const root = this.find(parent)
+    this.parent.set(item, root)
+    return root
+  }
+
+  // The lower ID always becomes the root, so the canonical member does not depend on input order
+  union(a: string, b: string) {
+    const rootA = this.find(a)
+    const rootB = this.find(b)
+    if (rootA === rootB) return
+    if (compareIds(rootA, rootB) <= 0) this.parent.set(rootB, rootA)
+    else this.parent.set(rootA, rootB)
+  }
+}
+
+// Maps every company ID to the canonical (lowest) ID among companies sharing a domain or normalized name
+export function groupDuplicateCompanies(companies: StoredCompany[]): Map<string, string> {
+  const groups = new DisjointSet()
+  const firstByDomain = new Map<string, string>()
+  const firstByName = new Map<string, string>()
+
+  companies.forEach((company) => {
+    groups.find(company.id)
+    const domain = normalizeDomain(company.properties.domain)
+    const name = normalizeCompanyName(company.properties.name)
+    if (domain) {
+      const existing = firstByDomain.get(domain)
+      if (existing) groups.union(existing, company.id)
+      else firstByDomain.set(domain, company.id)
+    }
+    if (name) {
+      const existing = firstByName.get(name)
+      if (existing) groups.union(existing, company.id)
+      else firstByName.set(name, company.id)
+    }
+  })
+
+  return new Map(companies.map((company) => [company.id, groups.find(company.id)]))
+}
+
+const companyIdentity = (companyId: string): AccountIdentity => {
+  const key = `company:${companyId}`
+  return { key, accountId: Number.parseInt(companyId, 10) || stableAccountId(key), companyId }
+}
+
+// Groups contacts under their (de-duplicated) company, falling back to a company whose domain or
+// name matches the contact, then to the contact's free-text company name, then to the contact alone
+export function resolveContactAccounts(
+  contacts: StoredContact[],
+  companies: Map<string, StoredCompany>,
+): Map<string, AccountIdentity> {
+  const canonical = groupDuplicateCompanies(Array.from(companies.values()))
+  const companyByDomain = new Map<string, string>()
+  const companyByName = new Map<string, string>()
+  companies.forEach((company) => {
+    const canonicalId = canonical.get(company.id)!
+    const domain = normalizeDomain(company.properties.domain)
+    const name = normalizeCompanyName(company.properties.name)
+    if (domain && !companyByDomain.has(domain)) companyByDomain.set(domain, canonicalId)
+    if (name && !companyByName.has(name)) companyByName.set(name, canonicalId)
+  })
+
+  const identities = new Map<string, AccountIdentity>()
+  contacts.forEach((contact) => {
+    const associated = contact.companyIds.find((id) => canonical.has(id))
+    const emailDomain = normalizeDomain(contact.properties.email?.split("@")[1])
+    const companyName = normalizeCompanyName(contact.properties.company)
+    const companyId =
+      (associated && canonical.get(associated)) ||
+      (emailDomain && companyByDomain.get(emailDomain)) ||
+      (companyName && companyByName.get(companyName))
+
+    if (companyId) {
+      identities.set(contact.id, companyIdentity(companyId))
+    } else {
+      const key = companyName ? `name:${companyName}` : `contact:${contact.id}`
+      identities.set(contact.id, { key, accountId: stableAccountId(key), companyId: null })
+    }
+  })
+  return identities
+}
+
+// For imported rows: rows sharing an Account ID or a normalized account name are the same account
+export function assignRowAccountKeys(rows: AccountData[]): AccountData[] {
+  const groups = new DisjointSet()
+  const rowNodes = rows.map((row, index) => {
+    const node = `row:${index}`
+    groups.find(node)
+    if (row["Account ID"]) groups.union(`id:${row["Account ID"]}`, node)
+    const name = normalizeCompanyName(row["Account Name"] === "Unknown Account" ? "" : row["Account Name"])
+    if (name) groups.union(`name:${name}`, node)
+    return node
+  })
+
+  // Prefer the lowest Account ID in the group as the key, then the name, so keys survive row reordering
+  const groupKeys = new Map<string, string>()
+  rows.forEach((row, index) => {
+    const root = groups.find(rowNodes[index])
+    const name = normalizeCompanyName(row["Account Name"] === "Unknown Account" ? "" : row["Account Name"])
+    const candidate = row["Account ID"] ? `id:${row["Account ID"]}` : name ? `name:${name}` : `record:${row["Record ID"] ?? index}`
+    const current = groupKeys.get(root)
+    if (!current || compareAccountKeys(candidate, current) < 0) groupKeys.set(root, candidate)
+  })
+
+  return rows.map((row, index) => {
+    const key = groupKeys.get(groups.find(rowNodes[index]))!
+    const accountId = key.startsWith("id:") ? Number(key.slice(3)) : stableAccountId(key)
+    return { ...row, "Account ID": accountId, "Account Key": key }
+  })
+}
+
+const keyKind = (key: string) => (key.startsWith("id:") ? 0 : key.startsWith("name:") ? 1 : 2)
+
+const compareAccountKeys = (a: string, b: string): number =>
+  keyKind(a) - keyKind(b) || (keyKind(a) === 0 ? Number(a.slice(3)) - Number(b.slice(3)) : 0) || a.localeCompare(b)
+
+// --- Account-level view ---
+const STAGE_RANK: Record<string, number> = {
+  customer: 5,
+  salesqualifiedlead: 4,
+  sql: 4,
+  opportunity: 4,
+  marketingqualifiedlead: 3,
+  mql: 3,
+  lead: 2,
+  subscriber: 1,
+}
+
+const parseAmount = (value: string | undefined): number => {
+  const amount = Number.parseFloat((value || "").replace(/[$,\s]/g, ""))
+  return isFinite(amount) ? amount : 0
+}
+
+const parseDate = (value: string | undefined): number => {
+  const time = value && value !== "N/A" ? new Date(value).getTime() : NaN
+  return isNaN(time) ? NaN : time
+}
+
+// Collapses contact-level rows into one row per account: amounts and deal counts are summed, the
+// earliest creation and latest quote dates are kept, and the most advanced lifecycle stage wins
+export function rollUpAccounts(rows: AccountData[]): AccountData[] {
+  const accounts = new Map<string, { account: AccountData; reps: Map<string, number> }>()
+
+  rows.forEach((row) => {
+    const key = row["Account Key"] ?? `id:${row["Account ID"]}`
+    const existing = accounts.get(key)
+    if (!existing) {
+      accounts.set(key, {
+        account: { ...row, "Account Key": key, "Contact Count": 1 },
+        reps: new Map([[row["Primary Rep Name"], 1]]),
+      })
+      return
+    }
+
+    const { account, reps } = existing
+    account["Contact Count"] = (account["Contact Count"] ?? 1) + 1
+    account["Total Sales"] = String(parseAmount(account["Total Sales"]) + parseAmount(row["Total Sales"]))
+    if (account["Open Pipeline"] !== undefined || row["Open Pipeline"] !== undefined) {
+      account["Open Pipeline"] = String(parseAmount(account["Open Pipeline"]) + parseAmount(row["Open Pipeline"]))
+    }
+    if (row["Won Deal Count"] !== undefined) account["Won Deal Count"] = (account["Won Deal Count"] ?? 0) + row["Won Deal Count"]
+    if (row["Open Deal Count"] !== undefined) account["Open Deal Count"] = (account["Open Deal Count"] ?? 0) + row["Open Deal Count"]
+    if (row["Sales Source"] === "estimated") account["Sales Source"] = "estimated"
+
+    const created = parseDate(row["Date Created"])
+    if (!isNaN(created) && !(parseDate(account["Date Created"]) <= created)) account["Date Created"] = row["Date Created"]
+    const quoted = parseDate(row["Date Last Quoted"])
+    if (!isNaN(quoted) && !(parseDate(account["Date Last Quoted"]) >= quoted)) account["Date Last Quoted"] = row["Date Last Quoted"]
+
+    const stage = (row["Lifecycle Stage"] || "").toLowerCase()
+    if ((STAGE_RANK[stage] ?? 0) > (STAGE_RANK[(account["Lifecycle Stage"] || "").toLowerCase()] ?? 0)) {
+      account["Lifecycle Stage"] = row["Lifecycle Stage"]
+    }
+    if (account["Address"] === "N/A" && row["Address"] !== "N/A") account["Address"] = row["Address"]
+    reps.set(row["Primary Rep Name"], (reps.get(row["Primary Rep Name"]) ?? 0) + 1)
+  })
+
+  return Array.from(accounts.values()).map(({ account, reps }) => {
+    // The rep who owns most of the account's contacts, ignoring unassigned ones when possible
+    const [primaryRep] = Array.from(reps.entries())
+      .sort((a, b) => Number(a[0] === "N/A") - Number(b[0] === "N/A") || b[1] - a[1] || a[0].localeCompare(b[0]))[0]
+    return { ...account, "Primary Rep Name": primaryRep }
+  })
+}
@@ -0,0 +1,97 @@
+import type { AccountData } from "@/lib/types"
+import { assignRowAccountKeys } from "@/lib/account-identity"
+import { runAnalytics } from "@/lib/analytics-engine"
+import { processAccountDataReference } from "@/lib/analytics-reference"
+import { generateSyntheticCrm, syntheticAccountRows } from "@/lib/synthetic-crm"
+
+export interface AnalyticsBenchmarkOptions {
+  contacts?: number
+  seed?: number
+  runs?: number
+}
+
+export interface AnalyticsBenchmarkTiming {
+  medianMs: number
+  runsMs: number[]
+}
+
+export interface AnalyticsBenchmarkResult {
+  contacts: number
+  seed: number
+  runs: number
+  generateMs: number
+  reference: AnalyticsBenchmarkTiming
+  engine: AnalyticsBenchmarkTiming
+  speedup: number // Reference median over engine median
+  // Path of the first field where the two outputs disagree, null when they match
+  mismatch: string | null
+}
+
+export const ANALYTICS_BENCHMARK_LIMITS = { maxRuns: 20 }
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function time<Output>(runs: number, run: () => Output): { timing: AnalyticsBenchmarkTiming; output: Output } {
+  const runsMs: number[] = []
+  let output!: Output
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now()
+    output = run()
+    runsMs.push(Math.round((performance.now() - start) * 10) / 10)
+  }
+  return { timing: { medianMs: median(runsMs), runsMs }, output }
+}
+
+// Walks both values in step; NaN equals NaN, so the "NaN" hour of unparseable dates compares equal
+function firstDifference(a: unknown, b: unknown, path: string): string | null {
+  if (Object.is(a, b)) return null
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return path
+  if (Array.isArray(a) !== Array.isArray(b)) return path
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  if (keysA.length !== keysB.length) return `${path} (${keysA.length} vs ${keysB.length} entries)`
+  for (const key of keysA) {
+    if (!(key in b)) return `${path}.${key}`
+    const difference = firstDifference((a as any)[key], (b as any)[key], `${path}.${key}`)
+    if (difference) return difference
+  }
+  return null
+}
+
+// Times the reducer engine against the multi-pass function it replaced, on the same seeded synthetic rows
+// the CSV import would produce, and checks that both give the same dashboard data
+export function benchmarkAnalytics(options: AnalyticsBenchmarkOptions = {}): AnalyticsBenchmarkResult {
+  const { contacts = 10_000, seed = 1, runs = 5 } = options
+  if (!Number.isInteger(runs) || runs < 1 || runs > ANALYTICS_BENCHMARK_LIMITS.maxRuns) {
+    throw new Error(`runs must be a whole number from 1 to ${ANALYTICS_BENCHMARK_LIMITS.maxRuns}`)
+  }
+
+  const generateStart = performance.now()
+  const rows: AccountData[] = assignRowAccountKeys([...syntheticAccountRows(generateSyntheticCrm({ seed, contacts }))])
+  const generateMs = Math.round(performance.now() - generateStart)
+
+  const reference = time(runs, () => processAccountDataReference(rows))
+  const engine = time(runs, () => runAnalytics(rows))
+  // The advanced analytics are registered metrics now, shaped differently, so only the fields both produce are
+  // compared; monthly trends since gained a key and local-time labels, so only their figures are
+  const shared = Object.keys(engine.output).filter((key) => key in reference.output)
+  const pick = (output: { monthlyTrends: Array<{ accounts: number; revenue: number }> }) => ({
+    ...Object.fromEntries(shared.map((key) => [key, output[key as keyof typeof output]])),
+    monthlyTrends: output.monthlyTrends.map(({ accounts, revenue }) => ({ accounts, revenue })),
+  })
+
+  return {
+    contacts,
+    seed,
+    runs,
+    generateMs,
+    reference: reference.timing,
+    engine: engine.timing,
+    speedup: Math.round((reference.timing.medianMs / Math.max(engine.timing.medianMs, 0.1)) * 100) / 100,
+    mismatch: firstDifference(pick(reference.output), pick(engine.output), "processed"),
+  }
+}
@@ -0,0 +1,376 @@
+import type { AccountData, FunnelStage, ProcessedData, QualificationRules } from "@/lib/types"
+import { rollUpAccounts } from "@/lib/account-identity"
+import { classifyFunnelStage, DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import { metricsReducer } from "@/lib/metric-registry"
+
+// Dashboard analytics in one pass: every row is parsed once (currency, dates, source, state, landing page),
+// then handed to each reducer in turn. A metric is a reducer, so adding one never adds another walk over the rows;
+// the metrics the dashboard draws generically are registered in lib/metric-registry.ts.
+
+// A row with everything the reducers read already parsed
+export interface ParsedRow {
+  row: AccountData
+  sales: number
+  salesInRange: boolean // Absurd amounts (over $1T) are left out of the sales breakdowns
+  openPipeline: number
+  estimated: boolean // "Total Sales" is a lifecycle-stage placeholder
+  wonDeals: number
+  rep: string
+  brand: string
+  lifecycleStage: string // As given, "unknown" when missing
+  lifecycleKey: string // Lowercased for comparisons, "" when missing
+  funnelStage: FunnelStage | null
+  state: string | null // Two-letter state from the end of the address
+  created: Date | null // Unparseable dates are kept as Invalid Date; only missing ones are null
+  lastQuoted: Date | null
+  trafficSource: string
+  campaign: string | null
+  landingPage: string | null
+}
+
+export interface AnalyticsContext {
+  rules: QualificationRules
+  now: Date
+  accounts: AccountData[] // Rows rolled up by resolved account
+  rowCount: number
+}
+
+// `add` mutates its state rather than returning a new one: it runs once per row per metric
+export interface AnalyticsReducer<State = unknown> {
+  name: string
+  init(context: AnalyticsContext): State
+  add(state: State, row: ParsedRow): void
+  finish(state: State, context: AnalyticsContext): Partial<ProcessedData>
+}
+
+// Erases the state type so reducers with different states fit in one list
+export const defineReducer = <State>(reducer: AnalyticsReducer<State>): AnalyticsReducer => reducer as AnalyticsReducer
+
+// --- Parsing helpers ---
+export const parseCurrency = (value: string | number | null | undefined): number => {
+  if (typeof value === "number") return !isNaN(value) && isFinite(value) ? value : 0
+  if (!value) return 0
+  const cleaned = String(value).replace(/[$,\s]/g, "")
+  const num = Number.parseFloat(cleaned)
+  return !isNaN(num) && isFinite(num) ? num : 0
+}
+
+export const calculateAverage = (arr: number[]): number => {
+  if (arr.length === 0) return 0
+  const sum = arr.reduce((acc, val) => acc + val, 0)
+  return sum / arr.length
+}
+
+const KNOWN_BRANDS = ["Hospeco", "Indoff", "Triad", "Impact", "Legacy", "Acme", "Supply", "Corp", "LLC", "Inc"]
+
+export function extractBrandFromAccountName(accountName: string): string {
+  const lowerCaseName = accountName.toLowerCase()
+  for (const brand of KNOWN_BRANDS) {
+    if (lowerCaseName.includes(brand.toLowerCase())) {
+      if (
+        ["LLC", "Inc", "Corp", "Group", "Brands"].includes(brand) &&
+        lowerCaseName.split(brand.toLowerCase())[0].trim()
+      ) {
+        const potentialBrand = accountName
+          .substring(0, lowerCaseName.indexOf(brand.toLowerCase()))
+          .trim()
+          .replace(/,$/, "")
+          .trim()
+        if (potentialBrand) return potentialBrand
+      }
+      return brand
+    }
+  }
+  const words = accountName.split(/[\s,]+/)
+  if (words.length > 0 && words[0].length > 2 && !["The", "A", "An"].includes(words[0])) return words[0]
+  return "Other"
+}
+
+export function normalizeTrafficSource(source: string): string {
+  if (!source || source === "Unknown") return "Unknown"
+  const normalized = source.toLowerCase()
+  if (normalized.includes("organic") || normalized.includes("seo")) return "Organic Search"
+  if (normalized.includes("paid") || normalized.includes("cpc") || normalized.includes("adwords")) return "Paid Search"
+  if (normalized.includes("social") || normalized.includes("facebook") || normalized.includes("linkedin")) return "Social Media"
+  if (normalized.includes("email")) return "Email Marketing"
+  if (normalized.includes("direct")) return "Direct Traffic"
+  if (normalized.includes("referral")) return "Referral"
+  if (normalized.includes("offline")) return "Offline"
+  return source
+}
+
+// Groups first-visit URLs into the page families the dashboard lists
+export function landingPageName(firstUrl: string): string {
+  let pathname: string
+  try {
+    pathname = new URL(firstUrl).pathname
+  } catch {
+    return firstUrl.length > 40 ? firstUrl.substring(0, 40) + "..." : firstUrl
+  }
+  if (pathname === "/" || pathname === "") return "Homepage"
+  if (pathname.includes("/home")) return "Home Page"
+  if (pathname.includes("/product")) return "Product Pages"
+  if (pathname.includes("/about")) return "About Us"
+  if (pathname.includes("/contact")) return "Contact Us"
+  if (pathname.includes("/blog")) return "Blog"
+  if (pathname.includes("/pricing")) return "Pricing"
+  if (pathname.includes("/demo")) return "Demo/Trial"
+  if (pathname.includes("/case-study") || pathname.includes("/case-studies")) return "Case Studies"
+  if (pathname.includes("/resource")) return "Resources"
+  return pathname.length > 30 ? pathname.substring(0, 30) + "..." : pathname
+}
+
+const STATE_PATTERN = /\b([A-Z]{2})\b(?=,?\s*\d{5}(-\d{4})?$)/
+const MAX_SALES = 1e12
+
+const parseDateField = (value: string | undefined): Date | null => (value && value !== "N/A" ? new Date(value) : null)
+
+export function parseAnalyticsRow(row: AccountData, rules: QualificationRules): ParsedRow {
+  const sales = parseCurrency(row["Total Sales"])
+  const campaign = row["Last Touch Campaign"] || row["First Touch Campaign"] || ""
+  const firstUrl = row["First URL"] || ""
+  // Rows from files carry no HubSpot properties, so their lifecycle stage is matched against the rules instead
+  const funnelStage = row["Funnel Stage"] ?? classifyFunnelStage({ lifecyclestage: row["Lifecycle Stage"] }, rules)
+  return {
+    row,
+    sales,
+    salesInRange: Math.abs(sales) <= MAX_SALES,
+    openPipeline: parseCurrency(row["Open Pipeline"] || "0"),
+    estimated: row["Sales Source"] === "estimated",
+    wonDeals: row["Won Deal Count"] ?? (sales > 0 ? 1 : 0),
+    rep: row["Primary Rep Name"] || "N/A",
+    brand: extractBrandFromAccountName(row["Account Name"]),
+    lifecycleStage: row["Lifecycle Stage"] || "unknown",
+    lifecycleKey: row["Lifecycle Stage"]?.toLowerCase() || "",
+    funnelStage,
+    state: (row["Address"] || "").match(STATE_PATTERN)?.[1] ?? null,
+    created: parseDateField(row["Date Created"]),
+    lastQuoted: parseDateField(row["Date Last Quoted"]),
+    trafficSource: normalizeTrafficSource(row["Analytics Source"] || row["Latest Source"] || "Unknown"),
+    campaign: campaign.trim() && campaign !== "Unknown Campaign" ? campaign : null,
+    landingPage: firstUrl.trim() ? landingPageName(firstUrl) : null,
+  }
+}
+
+export const isValidDate = (date: Date | null): date is Date => !!date && !isNaN(date.getTime())
+
+// Calendar month in local time, e.g. "2025-01"
+export const monthKey = (date: Date): string => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`
+
+// Histogram buckets of the deal-size distribution, lowest first
+export const SALES_BUCKETS = ["Negative", "$0-$1K", "$1K-$5K", "$5K-$10K", "$10K-$25K", "$25K+"] as const
+
+export function salesBucket(sales: number): (typeof SALES_BUCKETS)[number] {
+  if (sales < 0) return "Negative"
+  if (sales <= 1000) return "$0-$1K"
+  if (sales <= 5000) return "$1K-$5K"
+  if (sales <= 10000) return "$5K-$10K"
+  if (sales <= 25000) return "$10K-$25K"
+  return "$25K+"
+}
+
+// --- Reducers ---
+
+const funnelStageCounts = defineReducer({
+  name: "funnelStageCounts",
+  init: (): Record<FunnelStage, number> => ({ mql: 0, sql: 0, opportunity: 0, customer: 0 }),
+  add(counts, row) {
+    if (row.funnelStage) counts[row.funnelStage]++
+  },
+  finish: (counts) => ({ funnelStageCounts: counts }),
+})
+
+// Revenue totals, deal size and whether the figures are real or lifecycle estimates
+const revenue = defineReducer({
+  name: "revenue",
+  init: () => ({ total: 0, closedWon: 0, pipeline: 0, estimated: 0, wonDeals: 0, validSales: [] as number[] }),
+  add(totals, row) {
+    if (!row.salesInRange) return
+    if (row.estimated) {
+      totals.estimated++
+    } else {
+      totals.closedWon += row.sales
+      totals.pipeline += row.openPipeline
+      totals.wonDeals += row.wonDeals
+    }
+    totals.total += row.sales
+    if (row.sales > 0 && row.sales < MAX_SALES) totals.validSales.push(row.sales)
+  },
+  finish(totals) {
+    const revenueSource = totals.estimated > 0 ? "estimated" : "actual"
+    return {
+      totalRevenue: totals.total,
+      closedWonRevenue: totals.closedWon,
+      pipelineValue: totals.pipeline,
+      estimatedValueAccounts: totals.estimated,
+      revenueSource,
+      // Average per closed-won deal when amounts are real, otherwise per account with a value
+      averageDealSize:
+        revenueSource === "actual" && totals.wonDeals > 0
+          ? totals.closedWon / totals.wonDeals
+          : calculateAverage(totals.validSales),
+    }
+  },
+})
+
+const lifecycleStageDistribution = defineReducer({
+  name: "lifecycleStageDistribution",
+  init: (): Record<string, number> => ({}),
+  add(distribution, row) {
+    if (!row.salesInRange) return
+    distribution[row.lifecycleStage] = (distribution[row.lifecycleStage] ?? 0) + 1
+  },
+  finish: (distribution) => ({ lifecycleStageDistribution: distribution }),
+})
+
+const salesBreakdowns = defineReducer({
+  name: "salesBreakdowns",
+  init: () => ({
+    byRep: {} as ProcessedData["salesByRep"],
+    byBrand: {} as ProcessedData["salesByBrand"],
+    byState: {} as ProcessedData["topStates"],
+    distribution: Object.fromEntries(SALES_BUCKETS.map((bucket) => [bucket, 0])) as Record<string, number>,
+  }),
+  add({ byRep, byBrand, byState, distribution }, row) {
+    if (!row.salesInRange) return
+    const { sales } = row
+    const rep = (byRep[row.rep] ??= { sales: 0, accounts: 0 })
+    rep.sales += sales
+    rep.accounts += 1
+    const brand = (byBrand[row.brand] ??= { sales: 0, accounts: 0 })
+    brand.sales += sales
+    brand.accounts += 1
+
+    distribution[salesBucket(sales)]++
+
+    if (row.state) {
+      const state = (byState[row.state] ??= { accounts: 0, sales: 0 })
+      state.accounts += 1
+      state.sales += sales
+    }
+  },
+  finish: ({ byRep, byBrand, byState, distribution }) => ({
+    salesByRep: byRep,
+    salesByBrand: byBrand,
+    topStates: byState,
+    salesDistribution: distribution,
+  }),
+})
+
+const recentlyQuoted = defineReducer({
+  name: "recentlyQuoted",
+  init: ({ now }) => {
+    const ninetyDaysAgo = new Date(now)
+    ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
+    return { since: ninetyDaysAgo.getTime(), count: 0 }
+  },
+  add(state, row) {
+    if (row.salesInRange && isValidDate(row.lastQuoted) && row.lastQuoted.getTime() > state.since) state.count++
+  },
+  finish: (state) => ({ recentlyQuoted: state.count }),
+})
+
+const monthlyTrends = defineReducer({
+  name: "monthlyTrends",
+  init: (): Record<string, { accounts: number; revenue: number }> => ({}),
+  add(months, row) {
+    if (!isValidDate(row.created)) return
+    const month = (months[monthKey(row.created)] ??= { accounts: 0, revenue: 0 })
+    month.accounts += 1
+    month.revenue += row.sales
+  },
+  finish: (months) => ({
+    monthlyTrends: Object.entries(months)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .slice(-12)
+      .map(([key, trendData]) => ({
+        key,
+        // Built in local time: "2025-01-01" alone parses as UTC and reads as December west of Greenwich
+        month: new Date(Number(key.slice(0, 4)), Number(key.slice(5)) - 1, 1).toLocaleDateString("en-US", {
+          month: "short",
+          year: "2-digit",
+        }),
+        accounts: trendData.accounts,
+        revenue: trendData.revenue,
+      })),
+  }),
+})
+
+// Account-level: ranks the rolled-up accounts rather than the rows
+const accountRanking = defineReducer({
+  name: "accountRanking",
+  init: () => null,
+  add() {},
+  finish(_, { accounts }) {
+    const ranked = accounts
+      .map((account) => ({ account, sales: parseCurrency(account["Total Sales"]) }))
+      .sort((a, b) => b.sales - a.sales)
+    const negative = ranked.filter((entry) => entry.sales < 0).slice(-5).reverse()
+    const lowestPositive =
+      negative.length < 5 && ranked.length > 0
+        ? ranked
+            .filter((entry) => entry.sales >= 0)
+            .slice(-(5 - negative.length))
+            .reverse()
+        : []
+    return {
+      topPerformingAccounts: ranked.slice(0, 5).map((entry) => entry.account),
+      leastPerformingAccounts: [...negative, ...lowestPositive].map((entry) => entry.account),
+    }
+  },
+})
+
+export const ANALYTICS_REDUCERS: AnalyticsReducer[] = [
+  funnelStageCounts,
+  revenue,
+  lifecycleStageDistribution,
+  salesBreakdowns,
+  recentlyQuoted,
+  monthlyTrends,
+  accountRanking,
+  metricsReducer(),
+]
+
+// `data` is contact-level; account-level figures come from rolling rows up by their resolved account
+export function runAnalytics(
+  data: AccountData[],
+  rules: QualificationRules = DEFAULT_QUALIFICATION_RULES,
+  reducers: AnalyticsReducer[] = ANALYTICS_REDUCERS,
+  now: Date = new Date(),
+): ProcessedData {
+  const accounts = rollUpAccounts(data)
+  const context: AnalyticsContext = { rules, now, accounts, rowCount: data.length }
+  const states = reducers.map((reducer) => reducer.init(context))
+
+  for (const row of data) {
+    const parsed = parseAnalyticsRow(row, rules)
+    for (let i = 0; i < reducers.length; i++) reducers[i].add(states[i], parsed)
+  }
+
+  const processed: ProcessedData = {
+    totalAccounts: accounts.length,
+    totalContacts: data.length,
+    qualificationRules: rules,
+    totalRevenue: 0,
+    averageDealSize: 0,
+    pipelineValue: 0,
+    closedWonRevenue: 0,
+    revenueSource: "actual",
+    estimatedValueAccounts: 0,
+    salesByRep: {},
+    salesDistribution: {},
+    monthlyTrends: [],
+    topStates: {},
+    recentlyQuoted: 0,
+    salesByBrand: {},
+    topPerformingAccounts: [],
+    leastPerformingAccounts: [],
+    allAccounts: accounts,
+    allContacts: data,
+    lifecycleStageDistribution: {},
+    funnelStageCounts: { mql: 0, sql: 0, opportunity: 0, customer: 0 },
+    metrics: {},
+  }
+  reducers.forEach((reducer, i) => Object.assign(processed, reducer.finish(states[i], context)))
+  return processed
+}
@@ -0,0 +1,409 @@
+import type { AccountData, ProcessedData, QualificationRules } from "@/lib/types"
+import { rollUpAccounts } from "@/lib/account-identity"
+import { classifyFunnelStage, DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import {
+  calculateAverage,
+  extractBrandFromAccountName as extractBrandFromAccountNameHS,
+  normalizeTrafficSource,
+  parseCurrency,
+} from "@/lib/analytics-engine"
+import { calculateLeadHealthScore, getLeadTemperature } from "@/lib/metrics/lead-health"
+
+// The multi-pass analytics function the reducer engine replaced, the baseline for lib/analytics-benchmark.ts
+// and the expected output the engine is checked against. Not used by the app. Its passes are the original
+// ones, but its imports and return type are kept in step with the engine as helpers move and fields change.
+
+// What it returned before the advanced analytics became registered metrics (lib/metric-registry.ts)
+export type ReferenceProcessedData = Omit<ProcessedData, "metrics" | "qualificationRules" | "monthlyTrends"> & {
+  monthlyTrends: Array<{ month: string; accounts: number; revenue: number }>
+  trafficSourcePerformance: Record<string, { leads: number; revenue: number; conversionRate: number; avgDealSize: number }>
+  geographicDistribution: Record<string, { leads: number; revenue: number }>
+  leadHealthScores: Array<{ accountId: number; recordId?: string; accountName: string; healthScore: number; temperature: string; riskLevel: string }>
+  campaignPerformance: Record<string, { leads: number; revenue: number; cost?: number; roi?: number }>
+  landingPagePerformance: Record<string, { leads: number; revenue: number; avgDealSize: number; sqlCount: number; conversionRate: number }>
+  timeBasedInsights: {
+    peakActivityHours: Array<{ hour: number; activity: number }>
+    seasonalTrends: Array<{ month: string; leads: number; revenue: number }>
+    responseTimeMetrics: { avgResponseTime: number; fastResponders: string[]; slowResponders: string[] }
+  }
+}
+
+function getLeadRiskLevel(account: AccountData): string {
+  const created = account["Date Created"]
+  if (!created || created === "N/A") return "Unknown"
+  try {
+    const createDate = new Date(created)
+    const daysSinceCreated = (Date.now() - createDate.getTime()) / (1000 * 60 * 60 * 24)
+    if (daysSinceCreated > 60) return "🚨 High Risk"
+    if (daysSinceCreated > 30) return "⚠️ Medium Risk"
+    return "✅ Low Risk"
+  } catch (e) {
+    return "Unknown"
+  }
+}
+
+// `data` is contact-level; account-level figures come from rolling rows up by their resolved account
+export function processAccountDataReference(
+  data: AccountData[],
+  rules: QualificationRules = DEFAULT_QUALIFICATION_RULES,
+): ReferenceProcessedData {
+  const accounts = rollUpAccounts(data)
+  const processed: ReferenceProcessedData = {
+    totalAccounts: accounts.length,
+    totalContacts: data.length,
+    totalRevenue: 0,
+    averageDealSize: 0,
+    pipelineValue: 0,
+    closedWonRevenue: 0,
+    revenueSource: "actual",
+    estimatedValueAccounts: 0,
+    salesByRep: {},
+    salesDistribution: { Negative: 0, "$0-$1K": 0, "$1K-$5K": 0, "$5K-$10K": 0, "$10K-$25K": 0, "$25K+": 0 },
+    monthlyTrends: [],
+    topStates: {},
+    recentlyQuoted: 0,
+    salesByBrand: {},
+    topPerformingAccounts: [],
+    leastPerformingAccounts: [],
+    allAccounts: accounts,
+    allContacts: data,
+    lifecycleStageDistribution: {},
+    funnelStageCounts: { mql: 0, sql: 0, opportunity: 0, customer: 0 },
+    // Initialize new analytics properties
+    trafficSourcePerformance: {},
+    geographicDistribution: {},
+    leadHealthScores: [],
+    campaignPerformance: {},
+    timeBasedInsights: {
+      peakActivityHours: [],
+      seasonalTrends: [],
+      responseTimeMetrics: { avgResponseTime: 0, fastResponders: [], slowResponders: [] }
+    },
+    landingPagePerformance: {},
+  }
+
+  // Rows from files carry no HubSpot properties, so their lifecycle stage is matched against the rules instead
+  data.forEach((row) => {
+    const stage = row["Funnel Stage"] ?? classifyFunnelStage({ lifecyclestage: row["Lifecycle Stage"] }, rules)
+    if (stage) processed.funnelStageCounts[stage]++
+  })
+
+  let totalSalesValue = 0
+  let wonDealCount = 0
+  const validSales: number[] = []
+
+  data.forEach((row) => {
+    const sales = parseCurrency(row["Total Sales"])
+    if (!isFinite(sales) || isNaN(sales) || Math.abs(sales) > 1e12) return
+
+    if (row["Sales Source"] === "estimated") {
+      processed.estimatedValueAccounts++
+    } else {
+      processed.closedWonRevenue += sales
+      processed.pipelineValue += parseCurrency(row["Open Pipeline"] || "0")
+      wonDealCount += row["Won Deal Count"] ?? (sales > 0 ? 1 : 0)
+    }
+
+    const rep = row["Primary Rep Name"] || "N/A"
+    const brand = extractBrandFromAccountNameHS(row["Account Name"])
+    const lifecycleStage = row["Lifecycle Stage"] || "unknown"
+
+    totalSalesValue += sales
+    if (sales > 0 && isFinite(sales) && Math.abs(sales) < 1e12) validSales.push(sales)
+
+    // Count lifecycle stages
+    if (!processed.lifecycleStageDistribution[lifecycleStage]) {
+      processed.lifecycleStageDistribution[lifecycleStage] = 0
+    }
+    processed.lifecycleStageDistribution[lifecycleStage]++
+
+    if (!processed.salesByRep[rep]) processed.salesByRep[rep] = { sales: 0, accounts: 0 }
+    processed.salesByRep[rep].sales += sales
+    processed.salesByRep[rep].accounts += 1
+
+    if (!processed.salesByBrand[brand]) processed.salesByBrand[brand] = { sales: 0, accounts: 0 }
+    processed.salesByBrand[brand].sales += sales
+    processed.salesByBrand[brand].accounts += 1
+
+    if (sales < 0) processed.salesDistribution["Negative"]++
+    else if (sales <= 1000) processed.salesDistribution["$0-$1K"]++
+    else if (sales <= 5000) processed.salesDistribution["$1K-$5K"]++
+    else if (sales <= 10000) processed.salesDistribution["$5K-$10K"]++
+    else if (sales <= 25000) processed.salesDistribution["$10K-$25K"]++
+    else processed.salesDistribution["$25K+"]++
+
+    const address = row["Address"] || ""
+    const stateMatch = address.match(/\b([A-Z]{2})\b(?=,?\s*\d{5}(-\d{4})?$)/)
+    if (stateMatch) {
+      const state = stateMatch[1]
+      if (!processed.topStates[state]) processed.topStates[state] = { accounts: 0, sales: 0 }
+      processed.topStates[state].accounts += 1
+      processed.topStates[state].sales += sales
+    }
+
+    if (row["Date Last Quoted"] && row["Date Last Quoted"] !== "N/A") {
+      try {
+        const lastQuotedDate = new Date(row["Date Last Quoted"])
+        const ninetyDaysAgo = new Date()
+        ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
+        if (!isNaN(lastQuotedDate.getTime()) && lastQuotedDate > ninetyDaysAgo) {
+          processed.recentlyQuoted += 1
+        }
+      } catch (e) {}
+    }
+  })
+
+  processed.totalRevenue = totalSalesValue
+  processed.revenueSource = processed.estimatedValueAccounts > 0 ? "estimated" : "actual"
+  // Average per closed-won deal when amounts are real, otherwise per account with a value
+  processed.averageDealSize =
+    processed.revenueSource === "actual" && wonDealCount > 0
+      ? processed.closedWonRevenue / wonDealCount
+      : calculateAverage(validSales)
+
+  const monthCounts: Record<string, { accounts: number; revenue: number }> = {}
+  data.forEach((row) => {
+    const dateStr = row["Date Created"]
+    if (dateStr && dateStr !== "N/A") {
+      try {
+        const date = new Date(dateStr)
+        if (isNaN(date.getTime())) return
+        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`
+        if (!monthCounts[monthKey]) monthCounts[monthKey] = { accounts: 0, revenue: 0 }
+        monthCounts[monthKey].accounts += 1
+        monthCounts[monthKey].revenue += parseCurrency(row["Total Sales"])
+      } catch (e) {}
+    }
+  })
+  processed.monthlyTrends = Object.entries(monthCounts)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-12)
+    .map(([month, trendData]) => ({
+      month: new Date(month + "-01").toLocaleDateString("en-US", { month: "short", year: "2-digit" }),
+      accounts: trendData.accounts,
+      revenue: trendData.revenue,
+    }))
+
+  const sortedAccounts = [...accounts].sort((a, b) => parseCurrency(b["Total Sales"]) - parseCurrency(a["Total Sales"]))
+  processed.topPerformingAccounts = sortedAccounts.slice(0, 5)
+  processed.leastPerformingAccounts = sortedAccounts
+    .filter((acc) => parseCurrency(acc["Total Sales"]) < 0)
+    .slice(-5)
+    .reverse()
+  if (processed.leastPerformingAccounts.length < 5 && sortedAccounts.length > 0) {
+    const lowestPositive = sortedAccounts
+      .filter((acc) => parseCurrency(acc["Total Sales"]) >= 0)
+      .slice(-(5 - processed.leastPerformingAccounts.length))
+      .reverse()
+    processed.leastPerformingAccounts = [...processed.leastPerformingAccounts, ...lowestPositive]
+  }
+
+  // Calculate traffic source performance
+  data.forEach(account => {
+    const source = normalizeTrafficSource(account["Analytics Source"] || account["Latest Source"] || "Unknown")
+    const revenue = parseCurrency(account["Total Sales"])
+    
+    if (!processed.trafficSourcePerformance[source]) {
+      processed.trafficSourcePerformance[source] = { leads: 0, revenue: 0, conversionRate: 0, avgDealSize: 0 }
+    }
+    
+    processed.trafficSourcePerformance[source].leads++
+    processed.trafficSourcePerformance[source].revenue += revenue
+  })
+
+  // Calculate conversion rates and avg deal sizes for each source
+  Object.keys(processed.trafficSourcePerformance).forEach(source => {
+    const sourceData = processed.trafficSourcePerformance[source]
+    sourceData.avgDealSize = sourceData.leads > 0 ? sourceData.revenue / sourceData.leads : 0
+    
+    const sourceAccounts = data.filter(account => 
+      normalizeTrafficSource(account["Analytics Source"] || account["Latest Source"] || "Unknown") === source
+    )
+    const sqlCount = sourceAccounts.filter(account => 
+      account["Lifecycle Stage"]?.toLowerCase() === 'salesqualifiedlead'
+    ).length
+    sourceData.conversionRate = sourceAccounts.length > 0 ? (sqlCount / sourceAccounts.length) * 100 : 0
+  })
+
+  // Calculate geographic distribution
+  data.forEach(account => {
+    const address = account["Address"] || "Unknown"
+    const stateMatch = address.match(/\b([A-Z]{2})\b(?=,?\s*\d{5}(-\d{4})?$)/)
+    const state = stateMatch ? stateMatch[1] : "Unknown"
+    const revenue = parseCurrency(account["Total Sales"])
+    
+    if (!processed.geographicDistribution[state]) {
+      processed.geographicDistribution[state] = { leads: 0, revenue: 0 }
+    }
+    
+    processed.geographicDistribution[state].leads++
+    processed.geographicDistribution[state].revenue += revenue
+  })
+
+  // Calculate lead health scores
+  processed.leadHealthScores = data.map(account => {
+    const healthScore = calculateLeadHealthScore(account)
+    const temperature = getLeadTemperature(healthScore)
+    const riskLevel = getLeadRiskLevel(account)
+    
+    return {
+      accountId: account["Account ID"],
+      recordId: account["Record ID"],
+      accountName: account["Account Name"],
+      healthScore,
+      temperature,
+      riskLevel
+    }
+  }).sort((a, b) => b.healthScore - a.healthScore)
+
+  // Calculate campaign performance
+  data.forEach(account => {
+    const campaign = account["Last Touch Campaign"] || account["First Touch Campaign"] || ""
+    if (campaign && campaign.trim() && campaign !== "Unknown Campaign") {
+      const revenue = parseCurrency(account["Total Sales"])
+      
+      if (!processed.campaignPerformance[campaign]) {
+        processed.campaignPerformance[campaign] = { leads: 0, revenue: 0 }
+      }
+      
+      processed.campaignPerformance[campaign].leads++
+      processed.campaignPerformance[campaign].revenue += revenue
+    }
+  })
+
+  // Calculate top landing pages (first URLs visited)
+  const landingPagePerformance: Record<string, { leads: number; revenue: number; avgDealSize: number; sqlCount: number; conversionRate: number }> = {}
+  
+  data.forEach(account => {
+    let firstUrl = account["First URL"] || ""
+    if (firstUrl && firstUrl.trim()) {
+      // Clean and normalize the URL for better grouping
+      try {
+        const url = new URL(firstUrl)
+        const pathname = url.pathname
+        
+        // Group similar pages together
+        let pageName = pathname
+        if (pathname === "/" || pathname === "") {
+          pageName = "Homepage"
+        } else if (pathname.includes("/home")) {
+          pageName = "Home Page"
+        } else if (pathname.includes("/product")) {
+          pageName = "Product Pages"
+        } else if (pathname.includes("/about")) {
+          pageName = "About Us"
+        } else if (pathname.includes("/contact")) {
+          pageName = "Contact Us"
+        } else if (pathname.includes("/blog")) {
+          pageName = "Blog"
+        } else if (pathname.includes("/pricing")) {
+          pageName = "Pricing"
+        } else if (pathname.includes("/demo")) {
+          pageName = "Demo/Trial"
+        } else if (pathname.includes("/case-study") || pathname.includes("/case-studies")) {
+          pageName = "Case Studies"
+        } else if (pathname.includes("/resource")) {
+          pageName = "Resources"
+        } else {
+          // Use the full path but limit length for display
+          pageName = pathname.length > 30 ? pathname.substring(0, 30) + "..." : pathname
+        }
+        
+        const revenue = parseCurrency(account["Total Sales"])
+        const isSQL = account["Lifecycle Stage"]?.toLowerCase() === 'salesqualifiedlead'
+        
+        if (!landingPagePerformance[pageName]) {
+          landingPagePerformance[pageName] = { leads: 0, revenue: 0, avgDealSize: 0, sqlCount: 0, conversionRate: 0 }
+        }
+        
+        landingPagePerformance[pageName].leads++
+        landingPagePerformance[pageName].revenue += revenue
+        if (isSQL) landingPagePerformance[pageName].sqlCount++
+        
+      } catch (e) {
+        // If URL parsing fails, use the raw URL but limit length
+        const shortUrl = firstUrl.length > 40 ? firstUrl.substring(0, 40) + "..." : firstUrl
+        const revenue = parseCurrency(account["Total Sales"])
+        const isSQL = account["Lifecycle Stage"]?.toLowerCase() === 'salesqualifiedlead'
+        
+        if (!landingPagePerformance[shortUrl]) {
+          landingPagePerformance[shortUrl] = { leads: 0, revenue: 0, avgDealSize: 0, sqlCount: 0, conversionRate: 0 }
+        }
+        
+        landingPagePerformance[shortUrl].leads++
+        landingPagePerformance[shortUrl].revenue += revenue
+        if (isSQL) landingPagePerformance[shortUrl].sqlCount++
+      }
+    }
+  })
+
+  // Calculate averages and conversion rates for landing pages
+  Object.keys(landingPagePerformance).forEach(page => {
+    const pageData = landingPagePerformance[page]
+    pageData.avgDealSize = pageData.leads > 0 ? pageData.revenue / pageData.leads : 0
+    pageData.conversionRate = pageData.leads > 0 ? (pageData.sqlCount / pageData.leads) * 100 : 0
+  })
+
+  // Add landing page performance to processed data
+  processed.landingPagePerformance = landingPagePerformance
+
+  // Calculate peak activity hours (simplified)
+  const hourActivity: Record<number, number> = {}
+  data.forEach(account => {
+    const created = account["Date Created"]
+    if (created && created !== "N/A") {
+      try {
+        const date = new Date(created)
+        const hour = date.getHours()
+        hourActivity[hour] = (hourActivity[hour] || 0) + 1
+      } catch (e) {}
+    }
+  })
+
+  processed.timeBasedInsights.peakActivityHours = Object.entries(hourActivity)
+    .map(([hour, activity]) => ({ hour: Number(hour), activity }))
+    .sort((a, b) => b.activity - a.activity)
+    .slice(0, 5)
+
+  // Calculate seasonal trends
+  const monthlyData: Record<string, { leads: number; revenue: number }> = {}
+  data.forEach(account => {
+    const created = account["Date Created"]
+    if (created && created !== "N/A") {
+      try {
+        const date = new Date(created)
+        const monthKey = date.toLocaleDateString("en-US", { month: "short", year: "numeric" })
+        const revenue = parseCurrency(account["Total Sales"])
+        
+        if (!monthlyData[monthKey]) {
+          monthlyData[monthKey] = { leads: 0, revenue: 0 }
+        }
+        
+        monthlyData[monthKey].leads++
+        monthlyData[monthKey].revenue += revenue
+      } catch (e) {}
+    }
+  })
+
+  processed.timeBasedInsights.seasonalTrends = Object.entries(monthlyData)
+    .map(([month, data]) => ({ month, ...data }))
+    .sort((a, b) => new Date(a.month).getTime() - new Date(b.month).getTime())
+
+  // Calculate response time metrics (simplified)
+  const repsWithLeads: Record<string, number> = {}
+  data.forEach(account => {
+    const rep = account["Primary Rep Name"] || "Unknown"
+    repsWithLeads[rep] = (repsWithLeads[rep] || 0) + 1
+  })
+
+  const sortedReps = Object.entries(repsWithLeads)
+    .sort(([,a], [,b]) => b - a)
+
+  processed.timeBasedInsights.responseTimeMetrics = {
+    avgResponseTime: 24, // Placeholder
+    fastResponders: sortedReps.slice(0, 3).map(([rep]) => rep),
+    slowResponders: sortedReps.slice(-2).map(([rep]) => rep)
+  }
+
+  return processed
+}
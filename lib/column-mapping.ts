@@ -0,0 +1,127 @@
+import type { AccountData, ColumnMapping, ImportField } from "@/lib/types"
+import type { CsvRow } from "@/lib/csv"
+import type { ValidationReportBuilder } from "@/lib/validation-report"
+
+export const IMPORT_FIELDS: Array<{ field: ImportField; required: boolean; aliases: string[] }> = [
+  { field: "Account ID", required: false, aliases: ["account id", "account number", "customer id", "customer number", "id"] },
+  { field: "Account Name", required: true, aliases: ["account name", "customer name", "company", "company name", "name"] },
+  { field: "Address", required: false, aliases: ["address", "billing address", "street address", "location"] },
+  { field: "Total Sales", required: true, aliases: ["total sales", "sales", "revenue", "amount", "total revenue", "ytd sales"] },
+  { field: "Date Created", required: false, aliases: ["date created", "created", "created date", "create date", "opened"] },
+  { field: "Date Last Quoted", required: false, aliases: ["date last quoted", "last quoted", "last quote date", "last order date"] },
+  { field: "Primary Rep Name", required: false, aliases: ["primary rep name", "sales rep", "rep", "owner", "account owner", "salesperson"] },
+  { field: "Lifecycle Stage", required: false, aliases: ["lifecycle stage", "stage", "status"] },
+  { field: "Analytics Source", required: false, aliases: ["analytics source", "source", "lead source"] },
+  { field: "First Touch Campaign", required: false, aliases: ["first touch campaign", "campaign"] },
+  { field: "First URL", required: false, aliases: ["first url", "landing page", "url"] },
+]
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]+/g, " ").replace(/\s+/g, " ").trim()
+
+// Guesses a mapping from header names; a saved profile's mapping wins for any column the file still has
+export function suggestColumnMapping(headers: string[], profileMapping: ColumnMapping = {}): ColumnMapping {
+  const mapping: ColumnMapping = {}
+  const normalized = new Map(headers.map((header) => [normalizeHeader(header), header]))
+
+  IMPORT_FIELDS.forEach(({ field, aliases }) => {
+    const saved = profileMapping[field]
+    if (saved && headers.includes(saved)) {
+      mapping[field] = saved
+      return
+    }
+    const alias = aliases.find((candidate) => normalized.has(candidate))
+    if (alias) mapping[field] = normalized.get(alias)
+  })
+
+  return mapping
+}
+
+export function missingRequiredFields(mapping: ColumnMapping): ImportField[] {
+  return IMPORT_FIELDS.filter(({ field, required }) => required && !mapping[field]).map(({ field }) => field)
+}
+
+// Accepts MM/DD/YYYY (ERP exports), ISO dates and Excel serial day numbers
+export function parseImportDate(value: string | undefined): Date | null {
+  const trimmed = value?.trim()
+  if (!trimmed) return null
+
+  const usDate = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})$/)
+  if (usDate) {
+    const [, month, day, year] = usDate
+    const fullYear = year.length === 2 ? 2000 + Number(year) : Number(year)
+    return new Date(fullYear, Number(month) - 1, Number(day))
+  }
+  if (/^\d{5}(\.\d+)?$/.test(trimmed)) {
+    // Excel counts days from 1899-12-30
+    const date = new Date(Date.UTC(1899, 11, 30) + Number(trimmed) * 86_400_000)
+    return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  }
+
+  const date = new Date(trimmed)
+  return isNaN(date.getTime()) ? null : date
+}
+
+export function determineLifecycleStage(salesAmount: number): string {
+  if (salesAmount > 50000) return "customer"
+  if (salesAmount > 10000) return "salesqualifiedlead"
+  if (salesAmount > 0) return "marketingqualifiedlead"
+  return "lead"
+}
+
+const parseAmount = (value: string): number | null => {
+  const amount = Number.parseFloat(value.replace(/[$,\s]/g, ""))
+  return isFinite(amount) ? amount : null
+}
+
+// Maps one source row onto AccountData; every fallback applied is recorded on `report` when one is passed
+export function mapRowToAccountData(row: CsvRow, mapping: ColumnMapping, report?: ValidationReportBuilder): AccountData {
+  const record = `line ${row.line}`
+  const read = (field: ImportField) => {
+    const column = mapping[field]
+    return column ? (row.values[column] ?? "").trim() : ""
+  }
+  const flag = (field: ImportField, problem: string, fallback: string) => report?.add(record, field, problem, fallback)
+
+  const rawId = read("Account ID")
+  const accountId = Number.parseInt(rawId, 10)
+  if (!rawId) flag("Account ID", "Missing", "0")
+  else if (isNaN(accountId)) flag("Account ID", `Not a number: "${rawId}"`, "0")
+
+  const accountName = read("Account Name")
+  if (!accountName) flag("Account Name", "Missing", "Unknown Account")
+
+  const totalSales = read("Total Sales")
+  const salesAmount = parseAmount(totalSales)
+  if (!totalSales) flag("Total Sales", "Missing", "$0")
+  else if (salesAmount === null) flag("Total Sales", `Not an amount: "${totalSales}"`, "$0")
+
+  const rawCreated = read("Date Created")
+  const dateCreated = parseImportDate(rawCreated)
+  if (!rawCreated) flag("Date Created", "Missing", "N/A (excluded from date filters)")
+  else if (!dateCreated) flag("Date Created", `Unparseable date: "${rawCreated}"`, "N/A (excluded from date filters)")
+
+  // A blank last-quoted date just means the account was never quoted
+  const rawQuoted = read("Date Last Quoted")
+  const dateLastQuoted = parseImportDate(rawQuoted)
+  if (rawQuoted && !dateLastQuoted) flag("Date Last Quoted", `Unparseable date: "${rawQuoted}"`, "N/A")
+
+  const rep = read("Primary Rep Name")
+  if (!rep) flag("Primary Rep Name", "Missing", "N/A")
+
+  const account: AccountData = {
+    "Account ID": isNaN(accountId) ? 0 : accountId,
+    "Record ID": record,
+    "Account Name": accountName || "Unknown Account",
+    Address: read("Address") || "N/A",
+    "Total Sales": salesAmount === null ? "$0" : totalSales,
+    "Date Created": dateCreated ? dateCreated.toLocaleDateString("en-US") : "N/A",
+    "Date Last Quoted": dateLastQuoted ? dateLastQuoted.toLocaleDateString("en-US") : "N/A",
+    "Primary Rep Name": rep || "N/A",
+    "Lifecycle Stage": read("Lifecycle Stage") || determineLifecycleStage(salesAmount ?? 0),
+  }
+
+  if (read("Analytics Source")) account["Analytics Source"] = read("Analytics Source")
+  if (read("First Touch Campaign")) account["First Touch Campaign"] = read("First Touch Campaign")
+  if (read("First URL")) account["First URL"] = read("First URL")
+  return account
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+import { nextCronTime, parseCron } from "@/lib/cron"
+
+// Cron runs in local time, so times are written and compared as local "YYYY-MM-DD HH:mm"
+const local = (value: string) => {
+  const [date, time = "00:00"] = value.split(" ")
+  const [year, month, day] = date.split("-").map(Number)
+  const [hours, minutes] = time.split(":").map(Number)
+  return new Date(year, month - 1, day, hours, minutes)
+}
+const pad = (value: number) => String(value).padStart(2, "0")
+const format = (date: Date | null) =>
+  date &&
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`
+
+// The next `count` runs after `from`
+function runs(expression: string, from: string, count: number): Array<string | null> {
+  const cron = parseCron(expression)
+  const times: Array<string | null> = []
+  let after: Date | null = local(from)
+  while (times.length < count && after) {
+    after = nextCronTime(cron, after)
+    times.push(format(after))
+  }
+  return times
+}
+
+const days = (times: Array<string | null>) => times.map((time) => time?.slice(0, 10))
+
+describe("parseCron", () => {
+  it("expands ranges, lists and steps", () => {
+    expect(parseCron("0-4 9-11 1,15 */3 1-5").minutes).toEqual([0, 1, 2, 3, 4])
+    expect(parseCron("0 9-11 * * *").hours).toEqual([9, 10, 11])
+    expect([...parseCron("0 0 1,15,31 * *").daysOfMonth]).toEqual([1, 15, 31])
+    expect([...parseCron("0 0 * */3 *").months]).toEqual([1, 4, 7, 10])
+    expect(parseCron("0-30/10,45 * * * *").minutes).toEqual([0, 10, 20, 30, 45])
+    // A step from a single value runs to the end of the field
+    expect(parseCron("5/20 * * * *").minutes).toEqual([5, 25, 45])
+  })
+
+  it("reads 7 as Sunday", () => {
+    expect([...parseCron("0 0 * * 5-7").daysOfWeek].sort()).toEqual([0, 5, 6])
+  })
+
+  it("expands aliases in any case", () => {
+    expect(parseCron("@Hourly")).toEqual(parseCron("0 * * * *"))
+    expect(parseCron(" @nightly ")).toEqual(parseCron("0 2 * * *"))
+  })
+
+  it("treats only a bare * as an unrestricted day field", () => {
+    expect(parseCron("0 0 * * *")).toMatchObject({ dayOfMonthRestricted: false, dayOfWeekRestricted: false })
+    expect(parseCron("0 0 */2 * 0-6")).toMatchObject({ dayOfMonthRestricted: true, dayOfWeekRestricted: true })
+  })
+
+  it("rejects malformed expressions", () => {
+    expect(() => parseCron("0 * * *")).toThrow("should have 5 fields")
+    expect(() => parseCron("60 * * * *")).toThrow('Minute "60" is outside 0-59')
+    expect(() => parseCron("0 0 0 * *")).toThrow('Day of month "0" is outside 1-31')
+    expect(() => parseCron("5-1 * * * *")).toThrow('Invalid minute "5-1"')
+    expect(() => parseCron("*/0 * * * *")).toThrow('Invalid minute "*/0"')
+    expect(() => parseCron("0 9 * * mon")).toThrow('Invalid day of week "mon"')
+  })
+})
+
+describe("nextCronTime", () => {
+  it("runs strictly after the given time, from the next whole minute", () => {
+    expect(format(nextCronTime("* * * * *", new Date(2025, 2, 3, 10, 7, 45)))).toBe("2025-03-03 10:08")
+    expect(format(nextCronTime("*/15 * * * *", local("2025-03-03 10:15")))).toBe("2025-03-03 10:30")
+  })
+
+  it("walks ranges and steps", () => {
+    expect(runs("0 9-11 * * *", "2025-03-03 10:30", 3)).toEqual([
+      "2025-03-03 11:00",
+      "2025-03-04 09:00",
+      "2025-03-04 10:00",
+    ])
+    expect(runs("0-30/10 8 * * *", "2025-03-03 08:05", 4)).toEqual([
+      "2025-03-03 08:10",
+      "2025-03-03 08:20",
+      "2025-03-03 08:30",
+      "2025-03-04 08:00",
+    ])
+  })
+
+  it("walks lists", () => {
+    expect(runs("0 0 1,15 * *", "2025-03-01 00:00", 3)).toEqual([
+      "2025-03-15 00:00",
+      "2025-04-01 00:00",
+      "2025-04-15 00:00",
+    ])
+  })
+
+  it("uses the one day field that is restricted", () => {
+    // 2025-06-01 is a Sunday
+    expect(days(runs("0 0 * * 1", "2025-06-01 00:00", 2))).toEqual(["2025-06-02", "2025-06-09"])
+    expect(days(runs("0 0 13 * *", "2025-06-01 00:00", 2))).toEqual(["2025-06-13", "2025-07-13"])
+  })
+
+  it("runs on a day matching either field when both are restricted", () => {
+    // The 13th or any Friday
+    expect(days(runs("0 0 13 * 5", "2025-06-01 00:00", 8))).toEqual([
+      "2025-06-06",
+      "2025-06-13",
+      "2025-06-20",
+      "2025-06-27",
+      "2025-07-04",
+      "2025-07-11",
+      "2025-07-13",
+      "2025-07-18",
+    ])
+    // A stepped day of month is restricted too: odd days or any Monday
+    expect(days(runs("0 0 */2 * 1", "2025-06-01 00:00", 6))).toEqual([
+      "2025-06-02",
+      "2025-06-03",
+      "2025-06-05",
+      "2025-06-07",
+      "2025-06-09",
+      "2025-06-11",
+    ])
+  })
+
+  it("rolls over to the next month with that day", () => {
+    expect(runs("30 23 31 * *", "2025-01-31 23:30", 2)).toEqual(["2025-03-31 23:30", "2025-05-31 23:30"])
+    expect(runs("0 0 1 * *", "2025-01-31 23:59", 1)).toEqual(["2025-02-01 00:00"])
+  })
+
+  it("rolls over to the next year", () => {
+    expect(runs("59 23 * * *", "2025-12-31 23:58", 2)).toEqual(["2025-12-31 23:59", "2026-01-01 23:59"])
+    expect(runs("0 0 1 1 *", "2025-12-31 23:59", 2)).toEqual(["2026-01-01 00:00", "2027-01-01 00:00"])
+    expect(runs("0 0 29 2 *", "2025-03-01 00:00", 1)).toEqual(["2028-02-29 00:00"])
+  })
+
+  it("gives up on days that never happen", () => {
+    expect(nextCronTime("0 0 30 2 *", local("2025-01-01"))).toBeNull()
+  })
+})
@@ -0,0 +1,101 @@
+// Minimal five-field cron (minute hour day-of-month month day-of-week) evaluated in local time.
+// Supports *, numbers, ranges (1-5), lists (1,15) and steps (*/15, 0-30/10), plus a few @ aliases.
+// Only a bare * leaves a day field unrestricted. Vixie cron also counts fields starting with *, like */2, so
+// there "0 0 */2 * 1" runs on odd-numbered Mondays; here it runs on every odd day and every Monday.
+
+export interface CronExpression {
+  minutes: number[]
+  hours: number[]
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // When both day fields are restricted, a day matching either one counts
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const ALIASES: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@nightly": "0 2 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+}
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+]
+
+// Searching further ahead than this means the expression can never match (e.g. February 30th)
+const MAX_LOOKAHEAD_DAYS = 366 * 5
+
+function parseField(part: string, { name, min, max }: (typeof FIELDS)[number]): number[] {
+  const values = new Set<number>()
+  part.split(",").forEach((item) => {
+    const match = item.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/)
+    if (!match) throw new Error(`Invalid ${name} "${item}"`)
+    const [, range, start, end, step] = match
+    const from = range === "*" ? min : Number(start)
+    const to = range === "*" ? max : end !== undefined ? Number(end) : step ? max : from
+    const increment = step ? Number(step) : 1
+    if (from < min || to > max) throw new Error(`${name[0].toUpperCase()}${name.slice(1)} "${item}" is outside ${min}-${max}`)
+    if (from > to || increment < 1) throw new Error(`Invalid ${name} "${item}"`)
+    for (let value = from; value <= to; value += increment) values.add(value)
+  })
+  return Array.from(values).sort((a, b) => a - b)
+}
+
+export function parseCron(expression: string): CronExpression {
+  const trimmed = expression.trim().toLowerCase()
+  const parts = (ALIASES[trimmed] ?? trimmed).split(/\s+/)
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`"${expression}" should have 5 fields: minute hour day-of-month month day-of-week`)
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]))
+  return {
+    minutes,
+    hours,
+    daysOfMonth: new Set(daysOfMonth),
+    months: new Set(months),
+    // 7 is another way to write Sunday
+    daysOfWeek: new Set(daysOfWeek.map((day) => day % 7)),
+    dayOfMonthRestricted: parts[2] !== "*",
+    dayOfWeekRestricted: parts[4] !== "*",
+  }
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  if (!cron.months.has(date.getMonth() + 1)) return false
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate())
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay())
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dayOfMonth || dayOfWeek
+  return dayOfMonth && dayOfWeek
+}
+
+// The first matching minute strictly after `after`, or null if there is none within five years
+export function nextCronTime(expression: string | CronExpression, after: Date): Date | null {
+  const cron = typeof expression === "string" ? parseCron(expression) : expression
+  const start = new Date(after)
+  start.setSeconds(0, 0)
+  start.setMinutes(start.getMinutes() + 1)
+
+  const day = new Date(start)
+  day.setHours(0, 0, 0, 0)
+  for (let offset = 0; offset < MAX_LOOKAHEAD_DAYS; offset++) {
+    if (matchesDay(cron, day)) {
+      for (const hour of cron.hours) {
+        for (const minute of cron.minutes) {
+          const candidate = new Date(day)
+          candidate.setHours(hour, minute, 0, 0)
+          if (candidate >= start) return candidate
+        }
+      }
+    }
+    day.setDate(day.getDate() + 1)
+  }
+  return null
+}
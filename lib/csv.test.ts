@@ -0,0 +1,144 @@
+import { readFileSync } from "fs"
+import path from "path"
+import { describe, expect, it } from "vitest"
+import { CsvParser, parseCsvString, readCsvTable, toCsv } from "@/lib/csv"
+
+// Rows from public/comma delimited.csv, the sample export the Import Data tab is tested against
+const HEADER = "\uFEFFAccount ID,Account Name,Address,Total Sales,Date Created,Date Last Quoted,Primary Rep Name\n"
+const MULTI_LINE_ROW =
+  '0000428152,FC Liquidations,"61 5Th St\nSte 200  Buckhannon, WV 26201-2913","$70,092.00",05/13/2025,,John Anderson\n'
+const ESCAPED_QUOTES_ROW =
+  '0000428210,"Automation Technology LLC ""ATI Actuators""","21225 FM 529  CYPRESS, TX 77433",,05/15/2025,05/27/2025,Brandon Maddox\n'
+const TRAILING_QUOTE_ROW =
+  '0000428182,"EAN Holdings C/O Toyota of Katy""","21555 Katy Fwy  Katy, TX 77450",$69.00,05/14/2025,,Brandon Maddox\n'
+
+const crlf = (text: string) => text.replace(/\n/g, "\r\n")
+
+// Feeds the parser one chunk at a time, the way the upload stream does
+function parseChunks(chunks: string[]) {
+  const parser = new CsvParser()
+  return [...chunks.flatMap((chunk) => parser.push(chunk)), ...parser.end()]
+}
+
+describe("parseCsvString", () => {
+  it("strips the byte order mark from the first header", () => {
+    const [header] = parseCsvString(HEADER)
+    expect(header.values[0]).toBe("Account ID")
+    expect(header.values).toHaveLength(7)
+  })
+
+  it("keeps commas and newlines inside quoted fields", () => {
+    const [record] = parseCsvString(MULTI_LINE_ROW)
+    expect(record.values).toEqual([
+      "0000428152",
+      "FC Liquidations",
+      "61 5Th St\nSte 200  Buckhannon, WV 26201-2913",
+      "$70,092.00",
+      "05/13/2025",
+      "",
+      "John Anderson",
+    ])
+    expect(record.error).toBeUndefined()
+  })
+
+  it("unescapes doubled quotes", () => {
+    expect(parseCsvString(ESCAPED_QUOTES_ROW)[0].values[1]).toBe('Automation Technology LLC "ATI Actuators"')
+    expect(parseCsvString(TRAILING_QUOTE_ROW)[0].values[1]).toBe('EAN Holdings C/O Toyota of Katy"')
+  })
+
+  it("numbers records by the line they start on", () => {
+    const records = parseCsvString(HEADER + MULTI_LINE_ROW + ESCAPED_QUOTES_ROW)
+    expect(records.map((record) => record.line)).toEqual([1, 2, 4])
+  })
+
+  it("reads CRLF line endings, including inside quoted fields", () => {
+    const records = parseCsvString(crlf(HEADER + MULTI_LINE_ROW + ESCAPED_QUOTES_ROW))
+    expect(records).toHaveLength(3)
+    expect(records[1].values[2]).toBe("61 5Th St\nSte 200  Buckhannon, WV 26201-2913")
+    expect(records[2].line).toBe(4)
+  })
+
+  it("drops blank lines", () => {
+    expect(parseCsvString(`${HEADER}\n\n${ESCAPED_QUOTES_ROW}\n`)).toHaveLength(2)
+  })
+
+  it("flags an unterminated quote at the end of input", () => {
+    const [record] = parseCsvString('0000428375,"Million Air Maintenance,$430.00')
+    expect(record.error).toBe("Unterminated quoted field")
+  })
+
+  it("flags stray quotes", () => {
+    expect(parseCsvString('1,Million Air "Maintenance,x')[0].error).toBe("Unexpected quote in an unquoted field")
+    expect(parseCsvString('1,"Million Air"x,y')[0].error).toBe("Unexpected character after a closing quote")
+  })
+})
+
+describe("CsvParser chunking", () => {
+  const text = crlf(HEADER + MULTI_LINE_ROW + ESCAPED_QUOTES_ROW)
+
+  it("gives the same records however the input is split", () => {
+    const whole = parseCsvString(text)
+    for (let size = 1; size <= 7; size++) {
+      const chunks = text.match(new RegExp(`[\\s\\S]{1,${size}}`, "g")) ?? []
+      expect(parseChunks(chunks)).toEqual(whole)
+    }
+  })
+
+  it("treats a CRLF split across chunks as one line break", () => {
+    const splitAt = text.indexOf("\r\n") + 1
+    const records = parseChunks([text.slice(0, splitAt), text.slice(splitAt)])
+    expect(records).toHaveLength(3)
+    expect(records[1].line).toBe(2)
+  })
+
+  it("only strips a byte order mark at the very start", () => {
+    expect(parseChunks(["a,b\n", "\uFEFFc,d\n"])[1].values[0]).toBe("\uFEFFc")
+  })
+})
+
+describe("readCsvTable", () => {
+  it("keys rows by the trimmed headers", async () => {
+    const table = await readCsvTable([HEADER, MULTI_LINE_ROW])
+    expect(table.headers[0]).toBe("Account ID")
+    expect(table.rows[0].values["Total Sales"]).toBe("$70,092.00")
+    expect(table.errors).toEqual([])
+  })
+
+  it("skips and reports rows with the wrong number of fields", async () => {
+    const table = await readCsvTable([
+      HEADER,
+      '0000428150,Apple City Wholesalers,"780 E Main St  Jackson, OH 45640-2131",$28,044.72,05/13/2025,,John Anderson\n',
+      "0000428191,Matthew Unger\n",
+      ESCAPED_QUOTES_ROW,
+    ])
+    expect(table.errors).toEqual([
+      { line: 2, message: "Expected 7 fields but found 8" },
+      { line: 3, message: "Expected 7 fields but found 2" },
+    ])
+    expect(table.rows.map((row) => row.line)).toEqual([4])
+  })
+
+  it("skips and reports malformed rows", async () => {
+    const table = await readCsvTable([HEADER, ESCAPED_QUOTES_ROW, '0000428375,"Million Air Maintenance,$430.00'])
+    expect(table.rows).toHaveLength(1)
+    expect(table.errors).toEqual([{ line: 3, message: "Unterminated quoted field" }])
+  })
+
+  it("reads the whole sample export", async () => {
+    const text = readFileSync(path.join(__dirname, "../public/comma delimited.csv"), "utf8")
+    const table = await readCsvTable(text.match(/[\s\S]{1,4096}/g) ?? [])
+    expect(table.errors).toEqual([])
+    expect(table.rows).toHaveLength(410)
+    expect(table.rows.filter((row) => row.values.Address.includes("\n"))).toHaveLength(55)
+  })
+})
+
+describe("toCsv", () => {
+  it("round-trips through the parser", () => {
+    const rows = [
+      ["Account Name", "Address"],
+      ['Automation Technology LLC "ATI Actuators"', "61 5Th St\nSte 200  Buckhannon, WV 26201-2913"],
+    ]
+    expect(parseCsvString(toCsv(rows)).map((record) => record.values)).toEqual(rows)
+  })
+})
@@ -0,0 +1,191 @@
+// Streaming RFC 4180 CSV parser: quoted fields may contain commas, newlines and escaped ("") quotes.
+// Malformed rows are still emitted, with the first problem found recorded on `error`.
+
+export interface CsvRecord {
+  values: string[]
+  line: number // Line the record starts on (1-based), so errors point at the source file
+  error?: string
+}
+
+export interface CsvRowError {
+  line: number
+  message: string
+}
+
+export interface CsvRow {
+  line: number
+  values: Record<string, string>
+}
+
+export interface CsvTable {
+  headers: string[]
+  rows: CsvRow[]
+  errors: CsvRowError[]
+}
+
+type ParserState = "fieldStart" | "unquoted" | "quoted" | "quoteInQuoted"
+
+const BOM = "\uFEFF"
+
+export class CsvParser {
+  private state: ParserState = "fieldStart"
+  private field = ""
+  private values: string[] = []
+  private recordLine = 1
+  private line = 1
+  private recordStarted = false
+  private error: string | undefined
+  private skipLineFeed = false
+  private atStart = true
+
+  // Parses one chunk and returns the records it completed; a record split across chunks is returned by a later call
+  push(chunk: string): CsvRecord[] {
+    const records: CsvRecord[] = []
+    let text = chunk
+    if (this.atStart && text.length > 0) {
+      if (text.startsWith(BOM)) text = text.slice(1)
+      this.atStart = false
+    }
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i]
+
+      if (this.skipLineFeed) {
+        this.skipLineFeed = false
+        if (char === "\n") continue
+      }
+      if (!this.recordStarted) {
+        this.recordStarted = true
+        this.recordLine = this.line
+      }
+      const isNewline = char === "\n" || char === "\r"
+      if (char === "\r") this.skipLineFeed = true
+
+      switch (this.state) {
+        case "fieldStart":
+          if (char === '"') this.state = "quoted"
+          else if (char === ",") this.endField()
+          else if (isNewline) this.endRecord(records)
+          else {
+            this.field += char
+            this.state = "unquoted"
+          }
+          break
+
+        case "unquoted":
+          if (char === ",") this.endField()
+          else if (isNewline) this.endRecord(records)
+          else {
+            if (char === '"') this.fail("Unexpected quote in an unquoted field")
+            this.field += char
+          }
+          break
+
+        case "quoted":
+          if (char === '"') this.state = "quoteInQuoted"
+          else this.field += isNewline ? "\n" : char
+          break
+
+        case "quoteInQuoted":
+          if (char === '"') {
+            this.field += '"'
+            this.state = "quoted"
+          } else if (char === ",") this.endField()
+          else if (isNewline) this.endRecord(records)
+          else {
+            this.fail("Unexpected character after a closing quote")
+            this.field += char
+            this.state = "unquoted"
+          }
+          break
+      }
+
+      if (isNewline) this.line++
+    }
+
+    return records
+  }
+
+  // Flushes the final record once the input is exhausted
+  end(): CsvRecord[] {
+    const records: CsvRecord[] = []
+    if (this.state === "quoted") this.fail("Unterminated quoted field")
+    if (this.recordStarted) this.endRecord(records)
+    return records
+  }
+
+  private fail(message: string) {
+    if (!this.error) this.error = message
+  }
+
+  private endField() {
+    this.values.push(this.field)
+    this.field = ""
+    this.state = "fieldStart"
+  }
+
+  private endRecord(records: CsvRecord[]) {
+    this.endField()
+    // Blank lines carry no data, so they are dropped rather than reported
+    const isBlank = this.values.length === 1 && this.values[0] === "" && !this.error
+    if (!isBlank) records.push({ values: this.values, line: this.recordLine, error: this.error })
+    this.values = []
+    this.error = undefined
+    this.recordStarted = false
+  }
+}
+
+export async function* parseCsv(source: AsyncIterable<string> | Iterable<string>): AsyncGenerator<CsvRecord> {
+  const parser = new CsvParser()
+  for await (const chunk of source) {
+    yield* parser.push(chunk)
+  }
+  yield* parser.end()
+}
+
+export function parseCsvString(text: string): CsvRecord[] {
+  const parser = new CsvParser()
+  return [...parser.push(text), ...parser.end()]
+}
+
+// Reads a CSV with a header row into keyed rows; malformed rows are skipped and reported in `errors`
+export async function readCsvTable(source: AsyncIterable<string> | Iterable<string>): Promise<CsvTable> {
+  const table: CsvTable = { headers: [], rows: [], errors: [] }
+  let headerRead = false
+
+  for await (const record of parseCsv(source)) {
+    if (!headerRead) {
+      headerRead = true
+      table.headers = record.values.map((header) => header.trim())
+      if (record.error) table.errors.push({ line: record.line, message: `Header: ${record.error}` })
+      continue
+    }
+
+    if (record.error) {
+      table.errors.push({ line: record.line, message: record.error })
+      continue
+    }
+    if (record.values.length !== table.headers.length) {
+      table.errors.push({
+        line: record.line,
+        message: `Expected ${table.headers.length} fields but found ${record.values.length}`,
+      })
+      continue
+    }
+
+    const values: Record<string, string> = {}
+    table.headers.forEach((header, index) => {
+      values[header] = record.values[index]
+    })
+    table.rows.push({ line: record.line, values })
+  }
+
+  return table
+}
+
+// --- Writing ---
+const escapeCsvField = (value: string): string => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n") + "\r\n"
+}
@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest"
+import type { AccountData, ProcessedData } from "@/lib/types"
+import { parseAnalyticsRow, runAnalytics } from "@/lib/analytics-engine"
+import { DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import {
+  applyDashboardFilters,
+  describeFilter,
+  matchesFilters,
+  removeFilter,
+  toggleFilter,
+  type DashboardFilters,
+} from "@/lib/dashboard-filters"
+
+const contact = (id: number, fields: Partial<AccountData>): AccountData => ({
+  "Account ID": id,
+  "Record ID": String(id),
+  "Account Name": `Account ${id}`,
+  Address: "780 E Main St  Jackson, OH 45640-2131",
+  "Total Sales": "$0.00",
+  "Date Created": "2025-01-15T10:00:00",
+  "Date Last Quoted": "N/A",
+  "Primary Rep Name": "John Anderson",
+  ...fields,
+})
+
+const CONTACTS = [
+  contact(1, { "Analytics Source": "ORGANIC_SEARCH", "Total Sales": "$1,000.00", "Lifecycle Stage": "salesqualifiedlead" }),
+  contact(2, { "Analytics Source": "ORGANIC_SEARCH", "Total Sales": "$7,500.00", "Primary Rep Name": "Sal Barrocas" }),
+  contact(3, {
+    "Analytics Source": "PAID_SEARCH",
+    "Total Sales": "$2,000.00",
+    "Date Created": "2025-02-03T10:00:00",
+    Address: "89 S 10Th St  Minneapolis, MN 55403-2412",
+  }),
+  contact(4, { "Analytics Source": "ORGANIC_SEARCH", "Date Created": "2025-02-20T10:00:00", "Primary Rep Name": "" }),
+]
+
+const parsed = (row: AccountData) => parseAnalyticsRow(row, DEFAULT_QUALIFICATION_RULES)
+
+describe("toggleFilter", () => {
+  const source = { dimension: "source", value: "Organic Search" } as const
+
+  it("adds a filter on a new dimension", () => {
+    expect(toggleFilter([], source)).toEqual([source])
+    expect(toggleFilter([source], { dimension: "rep", value: "N/A" })).toEqual([source, { dimension: "rep", value: "N/A" }])
+  })
+
+  it("clears the filter when its value is clicked again", () => {
+    expect(toggleFilter([source, { dimension: "rep", value: "N/A" }], source)).toEqual([{ dimension: "rep", value: "N/A" }])
+  })
+
+  it("replaces the value of a filtered dimension", () => {
+    expect(toggleFilter([source], { dimension: "source", value: "Paid Search" })).toEqual([
+      { dimension: "source", value: "Paid Search" },
+    ])
+  })
+})
+
+describe("removeFilter", () => {
+  it("drops only the given dimension", () => {
+    const filters: DashboardFilters = [
+      { dimension: "month", value: "2025-01" },
+      { dimension: "state", value: "OH" },
+    ]
+    expect(removeFilter(filters, "month")).toEqual([{ dimension: "state", value: "OH" }])
+    expect(removeFilter(filters, "rep")).toEqual(filters)
+  })
+})
+
+describe("matchesFilters", () => {
+  it("requires every filter to match", () => {
+    const row = parsed(CONTACTS[0])
+    expect(matchesFilters(row, [])).toBe(true)
+    expect(matchesFilters(row, [{ dimension: "source", value: "Organic Search" }])).toBe(true)
+    expect(
+      matchesFilters(row, [
+        { dimension: "source", value: "Organic Search" },
+        { dimension: "rep", value: "Sal Barrocas" },
+      ]),
+    ).toBe(false)
+  })
+
+  it("compares each dimension the way its chart or card keys it", () => {
+    const row = parsed(CONTACTS[0])
+    expect(matchesFilters(row, [{ dimension: "month", value: "2025-01" }])).toBe(true)
+    expect(matchesFilters(row, [{ dimension: "dealSize", value: "$0-$1K" }])).toBe(true)
+    expect(matchesFilters(row, [{ dimension: "funnelStage", value: "sql" }])).toBe(true)
+    expect(matchesFilters(row, [{ dimension: "state", value: "OH" }])).toBe(true)
+    expect(matchesFilters(parsed(CONTACTS[3]), [{ dimension: "rep", value: "N/A" }])).toBe(true)
+    expect(matchesFilters(parsed(contact(5, { Address: "" })), [{ dimension: "state", value: "Unknown" }])).toBe(true)
+  })
+
+  it("never matches rows without a value for the dimension", () => {
+    const row = parsed(contact(5, { "Date Created": "not a date" }))
+    expect(matchesFilters(row, [{ dimension: "month", value: "2025-01" }])).toBe(false)
+    expect(matchesFilters(row, [{ dimension: "campaign", value: "Spring" }])).toBe(false)
+  })
+})
+
+describe("describeFilter", () => {
+  it("labels the dimension and spells out the value", () => {
+    expect(describeFilter({ dimension: "month", value: "2025-01" })).toBe("Created: Jan 2025")
+    expect(describeFilter({ dimension: "funnelStage", value: "sql" })).toBe("Stage: Sales Qualified Lead")
+  })
+})
+
+describe("applyDashboardFilters", () => {
+  const data: ProcessedData = {
+    ...runAnalytics(CONTACTS),
+    validationReport: {
+      source: "hubspot",
+      label: "HubSpot",
+      generatedAt: "2025-03-01T00:00:00.000Z",
+      recordCount: 4,
+      recordsWithIssues: 0,
+      issues: [],
+    },
+    snapshot: { runId: 7, syncedAt: "2025-03-01T00:00:00.000Z", mode: "full", trigger: "manual" },
+  }
+
+  it("returns the data unchanged without filters", () => {
+    expect(applyDashboardFilters(data, [])).toBe(data)
+  })
+
+  it("recomputes the totals from the matching contacts", () => {
+    const filtered = applyDashboardFilters(data, [{ dimension: "source", value: "Organic Search" }])
+
+    expect(filtered.totalContacts).toBe(3)
+    expect(filtered.totalRevenue).toBe(8500)
+    expect(filtered.allContacts.map((row) => row["Record ID"])).toEqual(["1", "2", "4"])
+    expect(filtered.metrics["traffic-sources"].items.map((item) => item.key)).toEqual(["Organic Search"])
+    expect(Object.keys(filtered.salesByRep).sort()).toEqual(["John Anderson", "N/A", "Sal Barrocas"])
+  })
+
+  it("combines filters and keeps the ingest-time fields", () => {
+    const filtered = applyDashboardFilters(data, [
+      { dimension: "source", value: "Organic Search" },
+      { dimension: "month", value: "2025-02" },
+    ])
+
+    expect(filtered.allContacts.map((row) => row["Record ID"])).toEqual(["4"])
+    expect(filtered.totalRevenue).toBe(0)
+    expect(filtered.validationReport).toBe(data.validationReport)
+    expect(filtered.snapshot).toBe(data.snapshot)
+    expect(filtered.qualificationRules).toBe(data.qualificationRules)
+  })
+
+  it("empties the dashboard when nothing matches", () => {
+    const filtered = applyDashboardFilters(data, [{ dimension: "state", value: "TX" }])
+
+    expect(filtered.totalContacts).toBe(0)
+    expect(filtered.totalRevenue).toBe(0)
+    expect(filtered.snapshot).toBe(data.snapshot)
+  })
+})
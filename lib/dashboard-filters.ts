@@ -0,0 +1,114 @@
+import type { AccountData, FunnelStage, ProcessedData, QualificationRules } from "@/lib/types"
+import { isValidDate, monthKey, parseAnalyticsRow, runAnalytics, salesBucket, type ParsedRow } from "@/lib/analytics-engine"
+import { formatLifecycleStage, FUNNEL_STAGE_LABELS } from "@/lib/qualification-rules"
+
+// What clicking a chart bar, a card row or a rep narrows the dashboard to. Filtering happens on the contact rows
+// the server sent, and the analytics are recomputed from the rows left, so every card agrees with every other.
+
+export type DashboardFilterDimension =
+  | "month"
+  | "dealSize"
+  | "source"
+  | "funnelStage"
+  | "lifecycleStage"
+  | "state"
+  | "campaign"
+  | "landingPage"
+  | "rep"
+
+export interface DashboardFilter {
+  dimension: DashboardFilterDimension
+  value: string // Month key ("2025-01"), deal-size bucket, or the row value as the matching card keys it
+}
+
+// At most one filter per dimension; a contact has to match all of them
+export type DashboardFilters = DashboardFilter[]
+
+export const FILTER_DIMENSION_LABELS: Record<DashboardFilterDimension, string> = {
+  month: "Created",
+  dealSize: "Deal size",
+  source: "Source",
+  funnelStage: "Stage",
+  lifecycleStage: "Lifecycle",
+  state: "State",
+  campaign: "Campaign",
+  landingPage: "Landing page",
+  rep: "Rep",
+}
+
+// The value a parsed row has for a dimension, spelled the way the chart or card keys it; rows with none
+// never match a filter on that dimension
+export function dimensionValue(row: ParsedRow, dimension: DashboardFilterDimension): string | null {
+  switch (dimension) {
+    case "month":
+      return isValidDate(row.created) ? monthKey(row.created) : null
+    case "dealSize":
+      return row.salesInRange ? salesBucket(row.sales) : null
+    case "source":
+      return row.trafficSource
+    case "funnelStage":
+      return row.funnelStage
+    case "lifecycleStage":
+      return row.lifecycleStage
+    case "state":
+      return row.state ?? "Unknown"
+    case "campaign":
+      return row.campaign
+    case "landingPage":
+      return row.landingPage
+    case "rep":
+      return row.rep
+  }
+}
+
+export function describeFilterValue(filter: DashboardFilter): string {
+  switch (filter.dimension) {
+    case "month": {
+      const [year, month] = filter.value.split("-").map(Number)
+      return new Date(year, month - 1, 1).toLocaleDateString("en-US", { month: "short", year: "numeric" })
+    }
+    case "funnelStage":
+      return FUNNEL_STAGE_LABELS[filter.value as FunnelStage] ?? filter.value
+    case "lifecycleStage":
+      return formatLifecycleStage(filter.value)
+    default:
+      return filter.value
+  }
+}
+
+// e.g. "Created: Jan 2025" or "Stage: Sales Qualified Lead"
+export const describeFilter = (filter: DashboardFilter): string =>
+  `${FILTER_DIMENSION_LABELS[filter.dimension]}: ${describeFilterValue(filter)}`
+
+export const activeFilterValue = (filters: DashboardFilters, dimension: DashboardFilterDimension): string | null =>
+  filters.find((filter) => filter.dimension === dimension)?.value ?? null
+
+// Clicking an active value clears it; clicking another value of a filtered dimension replaces it
+export function toggleFilter(filters: DashboardFilters, clicked: DashboardFilter): DashboardFilters {
+  const others = filters.filter((filter) => filter.dimension !== clicked.dimension)
+  return activeFilterValue(filters, clicked.dimension) === clicked.value ? others : [...others, clicked]
+}
+
+export const removeFilter = (filters: DashboardFilters, dimension: DashboardFilterDimension): DashboardFilters =>
+  filters.filter((filter) => filter.dimension !== dimension)
+
+export function matchesFilters(row: ParsedRow, filters: DashboardFilters): boolean {
+  return filters.every((filter) => dimensionValue(row, filter.dimension) === filter.value)
+}
+
+export function filterContacts(
+  contacts: AccountData[],
+  filters: DashboardFilters,
+  rules: QualificationRules,
+): AccountData[] {
+  if (filters.length === 0) return contacts
+  return contacts.filter((contact) => matchesFilters(parseAnalyticsRow(contact, rules), filters))
+}
+
+// The dashboard data for the contacts matching every filter; ingest-time fields (validation report, snapshot)
+// are kept, and the accounts are rolled up again from the matching contacts
+export function applyDashboardFilters(data: ProcessedData, filters: DashboardFilters): ProcessedData {
+  if (filters.length === 0) return data
+  const { qualificationRules } = data
+  return { ...data, ...runAnalytics(filterContacts(data.allContacts, filters, qualificationRules), qualificationRules) }
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_DASHBOARD_VIEW,
+  parseDashboardView,
+  serializeDashboardView,
+  type DashboardViewState,
+} from "@/lib/dashboard-url"
+
+const SHARED_VIEW: DashboardViewState = {
+  tab: "history",
+  startDate: new Date(2025, 0, 1),
+  endDate: new Date(2025, 2, 31),
+  comparison: "month",
+  periodComparison: "previousYear",
+  filters: [
+    { dimension: "source", value: "Organic Search" },
+    { dimension: "rep", value: "Jane Doe" },
+    { dimension: "landingPage", value: "Blog & News" },
+  ],
+}
+
+describe("serializeDashboardView", () => {
+  it("leaves the default view with a bare URL", () => {
+    expect(serializeDashboardView(DEFAULT_DASHBOARD_VIEW)).toBe("")
+  })
+
+  it("writes dates as local calendar days", () => {
+    const view = { ...DEFAULT_DASHBOARD_VIEW, startDate: new Date(2025, 0, 1, 23, 30), endDate: new Date(2025, 2, 31) }
+    expect(serializeDashboardView(view)).toBe("?from=2025-01-01&to=2025-03-31")
+  })
+})
+
+describe("parseDashboardView", () => {
+  it("round-trips a shared view", () => {
+    const search = serializeDashboardView(SHARED_VIEW)
+    expect(search).toBe(
+      "?tab=history&from=2025-01-01&to=2025-03-31&compare=month&vs=previousYear&source=Organic+Search&rep=Jane+Doe&landingPage=Blog+%26+News",
+    )
+    expect(parseDashboardView(search)).toEqual(SHARED_VIEW)
+    expect(parseDashboardView("")).toEqual(DEFAULT_DASHBOARD_VIEW)
+  })
+
+  it("drops unknown keys, including ones every object inherits", () => {
+    const view = parseDashboardView(
+      "?constructor=x&__proto__=y&toString=z&utm_source=mail&compare=toString&vs=hasOwnProperty&tab=valueOf",
+    )
+    expect(view).toEqual(DEFAULT_DASHBOARD_VIEW)
+  })
+
+  it("falls back to the defaults for malformed values", () => {
+    const view = parseDashboardView("?tab=settings&from=2025-02-30&to=03/31/2025&compare=year&vs=&source=&rep=Jane")
+    expect(view).toEqual({ ...DEFAULT_DASHBOARD_VIEW, filters: [{ dimension: "rep", value: "Jane" }] })
+  })
+
+  it("keeps the first value of a repeated filter", () => {
+    expect(parseDashboardView("?state=OH&state=MN").filters).toEqual([{ dimension: "state", value: "OH" }])
+  })
+})
@@ -0,0 +1,83 @@
+import type { SnapshotComparison } from "@/lib/types"
+import { SNAPSHOT_COMPARISON_LABELS } from "@/lib/metric-snapshots"
+import { FILTER_DIMENSION_LABELS, type DashboardFilterDimension, type DashboardFilters } from "@/lib/dashboard-filters"
+import { PERIOD_COMPARISON_LABELS, type PeriodComparison } from "@/lib/period-comparison"
+
+// The page state a link should reproduce, kept in the query string, e.g.
+// ?from=2025-01-01&to=2025-03-31&source=Organic+Search&rep=Jane+Doe
+
+export const DASHBOARD_TABS = ["dashboard", "import", "rules", "history"] as const
+export type DashboardTab = (typeof DASHBOARD_TABS)[number]
+
+export interface DashboardViewState {
+  tab: DashboardTab
+  startDate?: Date
+  endDate?: Date
+  comparison: SnapshotComparison
+  periodComparison: PeriodComparison
+  filters: DashboardFilters
+}
+
+export const DEFAULT_DASHBOARD_VIEW: DashboardViewState = {
+  tab: "dashboard",
+  comparison: "previous",
+  periodComparison: "none",
+  filters: [],
+}
+
+// Own keys only, so "constructor" or "toString" in a hand-edited link is not mistaken for a known value
+const isLabelled = <T extends string>(labels: Record<T, string>, key: string | null): key is T =>
+  key !== null && Object.hasOwn(labels, key)
+
+const isDimension = (key: string): key is DashboardFilterDimension => isLabelled(FILTER_DIMENSION_LABELS, key)
+
+// Calendar days in local time, the way the date pickers show them
+const formatDay = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+function parseDay(value: string | null): Date | undefined {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (!match) return undefined
+  const [year, month, day] = match.slice(1).map(Number)
+  const date = new Date(year, month - 1, day)
+  // Rejects days that roll over, like 2025-02-30
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined
+}
+
+// Defaults are left out, so the plain dashboard has a bare URL
+export function serializeDashboardView(view: DashboardViewState): string {
+  const params = new URLSearchParams()
+  if (view.tab !== DEFAULT_DASHBOARD_VIEW.tab) params.set("tab", view.tab)
+  if (view.startDate) params.set("from", formatDay(view.startDate))
+  if (view.endDate) params.set("to", formatDay(view.endDate))
+  if (view.comparison !== DEFAULT_DASHBOARD_VIEW.comparison) params.set("compare", view.comparison)
+  if (view.periodComparison !== DEFAULT_DASHBOARD_VIEW.periodComparison) params.set("vs", view.periodComparison)
+  for (const filter of view.filters) params.set(filter.dimension, filter.value)
+  const query = params.toString()
+  return query ? `?${query}` : ""
+}
+
+// Unknown keys and malformed values fall back to the defaults rather than failing, since links get hand-edited
+export function parseDashboardView(search: string): DashboardViewState {
+  const params = new URLSearchParams(search)
+  const tab = params.get("tab")
+  const comparison = params.get("compare")
+  const periodComparison = params.get("vs")
+  const filters: DashboardFilters = []
+  params.forEach((value, key) => {
+    if (isDimension(key) && value && !filters.some((filter) => filter.dimension === key)) {
+      filters.push({ dimension: key, value })
+    }
+  })
+
+  return {
+    tab: DASHBOARD_TABS.find((known) => known === tab) ?? DEFAULT_DASHBOARD_VIEW.tab,
+    startDate: parseDay(params.get("from")),
+    endDate: parseDay(params.get("to")),
+    comparison: isLabelled(SNAPSHOT_COMPARISON_LABELS, comparison) ? comparison : DEFAULT_DASHBOARD_VIEW.comparison,
+    periodComparison: isLabelled(PERIOD_COMPARISON_LABELS, periodComparison)
+      ? periodComparison
+      : DEFAULT_DASHBOARD_VIEW.periodComparison,
+    filters,
+  }
+}
@@ -0,0 +1,123 @@
+import { addDays } from "date-fns"
+import { describe, expect, it } from "vitest"
+import {
+  describeFiscalQuarter,
+  fiscalYearStart,
+  isValidFiscalYearStartMonth,
+  matchDatePreset,
+  resolveDatePreset,
+  type DatePresetId,
+} from "@/lib/date-presets"
+
+// Ranges are local calendar days, so they are compared as YYYY-MM-DD in local time
+const day = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+const local = (value: string, hours = 0) => {
+  const [year, month, date] = value.split("-").map(Number)
+  return new Date(year, month - 1, date, hours)
+}
+const resolve = (preset: DatePresetId, now: Date, fiscalYearStartMonth: number) => {
+  const { startDate, endDate } = resolveDatePreset(preset, now, fiscalYearStartMonth)
+  return [day(startDate), day(endDate)]
+}
+
+// Mid-afternoon, so a range that leaked the time of day would show up
+const JAN_5 = local("2026-01-05", 15)
+const DEC_31 = local("2025-12-31", 15)
+
+describe("resolveDatePreset", () => {
+  it.each([1, 7, 10])("keeps rolling ranges and months on the calendar (FY starting in month %i)", (fiscalStart) => {
+    expect(resolve("last7Days", JAN_5, fiscalStart)).toEqual(["2025-12-30", "2026-01-05"])
+    expect(resolve("last30Days", JAN_5, fiscalStart)).toEqual(["2025-12-07", "2026-01-05"])
+    expect(resolve("last90Days", JAN_5, fiscalStart)).toEqual(["2025-10-08", "2026-01-05"])
+    expect(resolve("thisMonth", JAN_5, fiscalStart)).toEqual(["2026-01-01", "2026-01-31"])
+    expect(resolve("lastMonth", JAN_5, fiscalStart)).toEqual(["2025-12-01", "2025-12-31"])
+    expect(resolve("thisMonth", DEC_31, fiscalStart)).toEqual(["2025-12-01", "2025-12-31"])
+    expect(resolve("lastMonth", DEC_31, fiscalStart)).toEqual(["2025-11-01", "2025-11-30"])
+  })
+
+  it.each([
+    // [fiscal start, this quarter, last quarter, this year, last year]
+    [1, ["2026-01-01", "2026-03-31"], ["2025-10-01", "2025-12-31"], ["2026-01-01", "2026-12-31"], ["2025-01-01", "2025-12-31"]],
+    [7, ["2026-01-01", "2026-03-31"], ["2025-10-01", "2025-12-31"], ["2025-07-01", "2026-06-30"], ["2024-07-01", "2025-06-30"]],
+    [10, ["2026-01-01", "2026-03-31"], ["2025-10-01", "2025-12-31"], ["2025-10-01", "2026-09-30"], ["2024-10-01", "2025-09-30"]],
+  ])("on Jan 5 with the fiscal year starting in month %i", (fiscalStart, thisQuarter, lastQuarter, thisYear, lastYear) => {
+    expect(resolve("thisQuarter", JAN_5, fiscalStart)).toEqual(thisQuarter)
+    expect(resolve("lastQuarter", JAN_5, fiscalStart)).toEqual(lastQuarter)
+    expect(resolve("quarterToDate", JAN_5, fiscalStart)).toEqual([thisQuarter[0], "2026-01-05"])
+    expect(resolve("thisYear", JAN_5, fiscalStart)).toEqual(thisYear)
+    expect(resolve("lastYear", JAN_5, fiscalStart)).toEqual(lastYear)
+    expect(resolve("yearToDate", JAN_5, fiscalStart)).toEqual([thisYear[0], "2026-01-05"])
+  })
+
+  it.each([
+    [1, ["2025-10-01", "2025-12-31"], ["2025-07-01", "2025-09-30"], ["2025-01-01", "2025-12-31"], ["2024-01-01", "2024-12-31"]],
+    [7, ["2025-10-01", "2025-12-31"], ["2025-07-01", "2025-09-30"], ["2025-07-01", "2026-06-30"], ["2024-07-01", "2025-06-30"]],
+    [10, ["2025-10-01", "2025-12-31"], ["2025-07-01", "2025-09-30"], ["2025-10-01", "2026-09-30"], ["2024-10-01", "2025-09-30"]],
+  ])("on Dec 31 with the fiscal year starting in month %i", (fiscalStart, thisQuarter, lastQuarter, thisYear, lastYear) => {
+    expect(resolve("thisQuarter", DEC_31, fiscalStart)).toEqual(thisQuarter)
+    expect(resolve("lastQuarter", DEC_31, fiscalStart)).toEqual(lastQuarter)
+    expect(resolve("quarterToDate", DEC_31, fiscalStart)).toEqual([thisQuarter[0], "2025-12-31"])
+    expect(resolve("thisYear", DEC_31, fiscalStart)).toEqual(thisYear)
+    expect(resolve("lastYear", DEC_31, fiscalStart)).toEqual(lastYear)
+    expect(resolve("yearToDate", DEC_31, fiscalStart)).toEqual([thisYear[0], "2025-12-31"])
+  })
+
+  it("ends ranges on the last day of short months", () => {
+    expect(resolve("lastMonth", local("2024-03-01"), 1)).toEqual(["2024-02-01", "2024-02-29"])
+    expect(resolve("thisQuarter", local("2024-03-01"), 2)).toEqual(["2024-02-01", "2024-04-30"])
+  })
+
+  it("returns whole days at local midnight", () => {
+    const { startDate, endDate } = resolveDatePreset("last7Days", JAN_5)
+    expect([startDate.getHours(), endDate.getHours(), endDate.getMinutes()]).toEqual([0, 0, 0])
+  })
+})
+
+describe("fiscal years", () => {
+  it("starts the fiscal year in the previous calendar year before the start month", () => {
+    expect(day(fiscalYearStart(JAN_5, 7))).toBe("2025-07-01")
+    expect(day(fiscalYearStart(DEC_31, 7))).toBe("2025-07-01")
+    expect(day(fiscalYearStart(local("2025-09-30"), 10))).toBe("2024-10-01")
+    expect(day(fiscalYearStart(local("2025-10-01"), 10))).toBe("2025-10-01")
+  })
+
+  it.each([
+    ["Jan 5", JAN_5, 1, "Q1 FY2026"],
+    ["Jan 5", JAN_5, 7, "Q3 FY2026"],
+    ["Jan 5", JAN_5, 10, "Q2 FY2026"],
+    ["Dec 31", DEC_31, 1, "Q4 FY2025"],
+    ["Dec 31", DEC_31, 7, "Q2 FY2026"],
+    ["Dec 31", DEC_31, 10, "Q1 FY2026"],
+  ])("names %s in the fiscal year starting in month %i as %s", (_label, date, fiscalStart, name) => {
+    expect(describeFiscalQuarter(date, fiscalStart)).toBe(name)
+  })
+
+  it("accepts only whole months from 1 to 12", () => {
+    expect([1, 12].every(isValidFiscalYearStartMonth)).toBe(true)
+    expect([0, 13, 6.5, NaN].some(isValidFiscalYearStartMonth)).toBe(false)
+  })
+})
+
+describe("matchDatePreset", () => {
+  it("finds the preset a range came from", () => {
+    const { startDate, endDate } = resolveDatePreset("lastQuarter", JAN_5, 7)
+    expect(matchDatePreset(startDate, endDate, JAN_5, 7)).toBe("lastQuarter")
+    expect(matchDatePreset(startDate, addDays(endDate, 1), JAN_5, 7)).toBeNull()
+    expect(matchDatePreset(startDate, undefined, JAN_5, 7)).toBeNull()
+  })
+
+  it("prefers the picked preset when two give the same range", () => {
+    // On Dec 31 of a calendar fiscal year, year to date is the whole year
+    const { startDate, endDate } = resolveDatePreset("yearToDate", DEC_31, 1)
+    expect(matchDatePreset(startDate, endDate, DEC_31, 1)).toBe("thisYear")
+    expect(matchDatePreset(startDate, endDate, DEC_31, 1, "yearToDate")).toBe("yearToDate")
+    expect(matchDatePreset(startDate, endDate, DEC_31, 1, "last7Days")).toBe("thisYear")
+  })
+
+  it("depends on the fiscal year start", () => {
+    const { startDate, endDate } = resolveDatePreset("thisYear", JAN_5, 10)
+    expect(matchDatePreset(startDate, endDate, JAN_5, 10)).toBe("thisYear")
+    expect(matchDatePreset(startDate, endDate, JAN_5, 1)).toBeNull()
+  })
+})
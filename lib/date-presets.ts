@@ -0,0 +1,124 @@
+import { addDays, addMonths, isSameDay, startOfDay, startOfMonth } from "date-fns"
+
+// Quick date ranges relative to today. Quarters and years follow the fiscal calendar, which starts in the
+// configured month; with the default January start they are calendar quarters and years.
+// Ranges are whole local days: the end date is the last day included, at midnight, like the date pickers.
+
+export type DatePresetId =
+  | "last7Days"
+  | "last30Days"
+  | "last90Days"
+  | "thisMonth"
+  | "lastMonth"
+  | "thisQuarter"
+  | "lastQuarter"
+  | "quarterToDate"
+  | "thisYear"
+  | "lastYear"
+  | "yearToDate"
+
+export const DATE_PRESET_LABELS: Record<DatePresetId, string> = {
+  last7Days: "Last 7 days",
+  last30Days: "Last 30 days",
+  last90Days: "Last 90 days",
+  thisMonth: "This month",
+  lastMonth: "Last month",
+  thisQuarter: "This quarter",
+  lastQuarter: "Last quarter",
+  quarterToDate: "Quarter to date",
+  thisYear: "This year",
+  lastYear: "Last year",
+  yearToDate: "Year to date",
+}
+
+export const DATE_PRESETS = Object.keys(DATE_PRESET_LABELS) as DatePresetId[]
+
+// Month the fiscal year starts in, 1 (January) to 12
+export const DEFAULT_FISCAL_YEAR_START_MONTH = 1
+
+export interface DateRange {
+  startDate: Date
+  endDate: Date
+}
+
+export function isValidFiscalYearStartMonth(month: number): boolean {
+  return Number.isInteger(month) && month >= 1 && month <= 12
+}
+
+// First day of the fiscal year that contains `date`
+export function fiscalYearStart(date: Date, startMonth = DEFAULT_FISCAL_YEAR_START_MONTH): Date {
+  const start = new Date(date.getFullYear(), startMonth - 1, 1)
+  return date < start ? addMonths(start, -12) : start
+}
+
+// First day of the fiscal quarter that contains `date`
+export function fiscalQuarterStart(date: Date, startMonth = DEFAULT_FISCAL_YEAR_START_MONTH): Date {
+  const yearStart = fiscalYearStart(date, startMonth)
+  const monthsIn = (date.getFullYear() - yearStart.getFullYear()) * 12 + date.getMonth() - yearStart.getMonth()
+  return addMonths(yearStart, monthsIn - (monthsIn % 3))
+}
+
+// Fiscal years are named after the calendar year they end in, e.g. Jul 2025 to Jun 2026 is FY2026
+export function describeFiscalQuarter(date: Date, startMonth = DEFAULT_FISCAL_YEAR_START_MONTH): string {
+  const yearStart = fiscalYearStart(date, startMonth)
+  const monthsIn = (date.getFullYear() - yearStart.getFullYear()) * 12 + date.getMonth() - yearStart.getMonth()
+  return `Q${Math.floor(monthsIn / 3) + 1} FY${addMonths(yearStart, 11).getFullYear()}`
+}
+
+// Up to and including the day before `next`
+const until = (start: Date, next: Date): DateRange => ({ startDate: start, endDate: addDays(next, -1) })
+
+export function resolveDatePreset(
+  preset: DatePresetId,
+  now = new Date(),
+  fiscalYearStartMonth = DEFAULT_FISCAL_YEAR_START_MONTH,
+): DateRange {
+  const today = startOfDay(now)
+  const month = startOfMonth(today)
+  const quarter = fiscalQuarterStart(today, fiscalYearStartMonth)
+  const year = fiscalYearStart(today, fiscalYearStartMonth)
+
+  switch (preset) {
+    case "last7Days":
+      return { startDate: addDays(today, -6), endDate: today }
+    case "last30Days":
+      return { startDate: addDays(today, -29), endDate: today }
+    case "last90Days":
+      return { startDate: addDays(today, -89), endDate: today }
+    case "thisMonth":
+      return until(month, addMonths(month, 1))
+    case "lastMonth":
+      return until(addMonths(month, -1), month)
+    case "thisQuarter":
+      return until(quarter, addMonths(quarter, 3))
+    case "lastQuarter":
+      return until(addMonths(quarter, -3), quarter)
+    case "quarterToDate":
+      return { startDate: quarter, endDate: today }
+    case "thisYear":
+      return until(year, addMonths(year, 12))
+    case "lastYear":
+      return until(addMonths(year, -12), year)
+    case "yearToDate":
+      return { startDate: year, endDate: today }
+  }
+}
+
+// The preset that gives exactly this range today, so the picker can show it as selected. Some days two presets
+// give the same range (year to date is quarter to date in the first quarter); `preferred` wins those ties.
+export function matchDatePreset(
+  startDate: Date | undefined,
+  endDate: Date | undefined,
+  now = new Date(),
+  fiscalYearStartMonth = DEFAULT_FISCAL_YEAR_START_MONTH,
+  preferred: DatePresetId | null = null,
+): DatePresetId | null {
+  if (!startDate || !endDate) return null
+  const candidates = preferred ? [preferred, ...DATE_PRESETS] : DATE_PRESETS
+  return (
+    candidates.find((preset) => {
+      const range = resolveDatePreset(preset, now, fiscalYearStartMonth)
+      return isSameDay(range.startDate, startDate) && isSameDay(range.endDate, endDate)
+    }) ?? null
+  )
+}
@@ -0,0 +1,32 @@
+// Fixture format of the local HubSpot stand-in (app/lib/fake-hubspot.ts); lib/synthetic-crm.ts generates it,
+// or a test suite can hand-write a small portal.
+
+export interface FakeHubSpotRecord {
+  id: string
+  properties: Record<string, string | null>
+  // Associated record ids by object type ("companies", "contacts")
+  associations: Record<string, string[]>
+}
+
+export interface FakeHubSpotOwner {
+  id: string
+  firstName: string
+  lastName: string
+  email: string
+  userId: number
+}
+
+export interface FakeHubSpotPipeline {
+  id: string
+  label: string
+  displayOrder: number
+  stages: Array<{ id: string; label: string; displayOrder: number; metadata: Record<string, string> }>
+}
+
+export interface FakeHubSpotFixtures {
+  owners: FakeHubSpotOwner[]
+  companies: FakeHubSpotRecord[]
+  contacts: FakeHubSpotRecord[]
+  deals: FakeHubSpotRecord[]
+  pipelines: FakeHubSpotPipeline[]
+}
@@ -0,0 +1,162 @@
+import { describe, expect, it } from "vitest"
+import type { AccountData, QualificationRules } from "@/lib/types"
+import { parseAnalyticsRow, runAnalytics, type ParsedRow } from "@/lib/analytics-engine"
+import { DEFAULT_QUALIFICATION_RULES } from "@/lib/qualification-rules"
+import { METRIC_REGISTRY, metricsReducer } from "@/lib/metric-registry"
+
+const NOW = new Date(2025, 5, 30, 12)
+
+let nextId = 1
+const row = (fields: Partial<AccountData> = {}): AccountData => ({
+  "Account ID": nextId,
+  "Record ID": String(nextId++),
+  "Account Name": "Acme Supply",
+  Address: "61 5Th St  Buckhannon, WV 26201-2913",
+  "Total Sales": "$0.00",
+  "Date Created": "2025-06-02T09:15:00",
+  "Date Last Quoted": "N/A",
+  "Primary Rep Name": "John Anderson",
+  ...fields,
+})
+
+const metrics = (rows: AccountData[], rules: QualificationRules = DEFAULT_QUALIFICATION_RULES) =>
+  runAnalytics(rows, rules, [metricsReducer()], NOW).metrics
+
+const values = (result: { items: Array<{ key: string; values: Record<string, number> }> }) =>
+  Object.fromEntries(result.items.map((item) => [item.key, item.values]))
+
+describe("metric inputs", () => {
+  // `inputs` documents what each reducer reads, so reading anything else is a bug in one or the other
+  it.each(METRIC_REGISTRY.map((definition) => [definition.id, definition] as const))(
+    "%s reads only the fields it declares",
+    (_id, definition) => {
+      const read = new Set<string>()
+      const parsed = parseAnalyticsRow(
+        row({ "Analytics Source": "ORGANIC_SEARCH", "Last Touch Campaign": "Spring", "First URL": "https://x.com/blog" }),
+        DEFAULT_QUALIFICATION_RULES,
+      )
+      const tracked = new Proxy(parsed, {
+        get(target, key: string) {
+          read.add(key)
+          return target[key as keyof ParsedRow]
+        },
+      })
+      const state = definition.reducer.init({ rules: DEFAULT_QUALIFICATION_RULES, now: NOW, accounts: [], rowCount: 1 })
+      definition.reducer.add(state, tracked)
+
+      expect([...read].filter((key) => !(definition.inputs as string[]).includes(key))).toEqual([])
+    },
+  )
+})
+
+describe("traffic-sources", () => {
+  it("totals leads and revenue per normalized source, most leads first", () => {
+    const result = metrics([
+      row({ "Analytics Source": "ORGANIC_SEARCH", "Total Sales": "$1,000.00" }),
+      row({ "Analytics Source": "organic search", "Total Sales": "$3,000.00" }),
+      row({ "Latest Source": "PAID_SEARCH", "Total Sales": "$500.00" }),
+      row(),
+    ])["traffic-sources"]
+
+    expect(result.items.map((item) => item.key)).toEqual(["Organic Search", "Paid Search", "Unknown"])
+    expect(values(result)["Organic Search"]).toMatchObject({ leads: 2, revenue: 4000, avgDealSize: 2000 })
+  })
+
+  it("counts SQLs by funnel stage, so conversion follows the lead rules", () => {
+    const rules: QualificationRules = {
+      ...DEFAULT_QUALIFICATION_RULES,
+      stages: { ...DEFAULT_QUALIFICATION_RULES.stages, sql: [{ property: "lifecyclestage", values: ["qualified"] }] },
+    }
+    const result = metrics(
+      [
+        row({ "Analytics Source": "REFERRALS", "Lifecycle Stage": "qualified" }),
+        row({ "Analytics Source": "REFERRALS", "Lifecycle Stage": "salesqualifiedlead" }),
+        row({ "Analytics Source": "REFERRALS", "Funnel Stage": "sql" }),
+        row({ "Analytics Source": "REFERRALS", "Lifecycle Stage": "customer" }),
+      ],
+      rules,
+    )["traffic-sources"]
+
+    expect(values(result).Referral).toMatchObject({ leads: 4, conversionRate: 50, sql: 2, customer: 1, unstaged: 1 })
+  })
+})
+
+describe("lead-health", () => {
+  it("scores every lead, highest first, with temperature and risk tags", () => {
+    const result = metrics([
+      row({ "Record ID": "cold", "Date Created": "2025-03-01T00:00:00" }),
+      row({
+        "Record ID": "hot",
+        "Analytics Source": "Referral",
+        "Number of Visits": "6",
+        "Lifecycle Stage": "customer",
+        "Date Created": "2025-06-20T00:00:00",
+      }),
+    ])["lead-health"]
+
+    expect(result.items).toEqual([
+      { key: "hot", label: "Acme Supply", values: { healthScore: 100 }, tags: ["🔥 Hot", "✅ Low Risk"] },
+      { key: "cold", label: "Acme Supply", values: { healthScore: 50 }, tags: ["❄️ Cool", "🚨 High Risk"] },
+    ])
+  })
+})
+
+describe("geographic", () => {
+  it("groups by the state in the address, most revenue first", () => {
+    const result = metrics([
+      row({ Address: "780 E Main St  Jackson, OH 45640-2131", "Total Sales": "$100.00" }),
+      row({ Address: "1946 Camaro Ave  Columbus, OH 43207", "Total Sales": "$300.00" }),
+      row({ Address: "89 S 10Th St  Minneapolis, MN 55403-2412", "Total Sales": "$1,000.00" }),
+      row({ Address: "Somewhere without a zip" }),
+    ]).geographic
+
+    expect(result.items.map((item) => item.key)).toEqual(["MN", "OH", "Unknown"])
+    expect(values(result).OH).toEqual({ revenue: 400, leads: 2, revenuePerLead: 200 })
+  })
+})
+
+describe("campaigns", () => {
+  it("prefers the last touch campaign and skips leads without one", () => {
+    const result = metrics([
+      row({ "First Touch Campaign": "Spring", "Last Touch Campaign": "Summer", "Total Sales": "$200.00" }),
+      row({ "First Touch Campaign": "Spring", "Total Sales": "$50.00" }),
+      row({ "Last Touch Campaign": "Unknown Campaign" }),
+      row(),
+    ]).campaigns
+
+    expect(result.items.map((item) => item.key)).toEqual(["Summer", "Spring"])
+    expect(values(result).Summer).toEqual({ revenue: 200, leads: 1, revenuePerLead: 200 })
+  })
+})
+
+describe("peak-activity", () => {
+  it("counts leads per local creation hour and highlights the busiest reps", () => {
+    const result = metrics([
+      row({ "Date Created": "2025-06-02T09:15:00", "Primary Rep Name": "Sal Barrocas" }),
+      row({ "Date Created": "2025-06-03T09:45:00", "Primary Rep Name": "Sal Barrocas" }),
+      row({ "Date Created": "2025-06-03T14:00:00" }),
+      row({ "Date Created": "not a date", "Primary Rep Name": "" }),
+    ])["peak-activity"]
+
+    expect(result.items.map(({ key, values }) => [key, values.activity])).toEqual([
+      ["9", 2],
+      ["14", 1],
+    ])
+    expect(result.highlights?.labels).toEqual(["⚡ Sal Barrocas", "⚡ John Anderson", "⚡ Unknown"])
+  })
+})
+
+describe("landing-pages", () => {
+  it("groups first visits by page family and counts SQLs by funnel stage", () => {
+    const result = metrics([
+      row({ "First URL": "https://example.com/blog/towels", "Lifecycle Stage": "salesqualifiedlead", "Total Sales": "$90.00" }),
+      row({ "First URL": "https://example.com/blog/mops", "Lifecycle Stage": "lead", "Total Sales": "$10.00" }),
+      row({ "First URL": "https://example.com/", "Funnel Stage": "sql" }),
+      row(),
+    ])["landing-pages"]
+
+    expect(result.items.map((item) => item.key)).toEqual(["Blog", "Homepage"])
+    expect(values(result).Blog).toEqual({ leads: 2, revenue: 100, avgDealSize: 50, sqlCount: 1, conversionRate: 50 })
+    expect(values(result).Homepage).toMatchObject({ sqlCount: 1, conversionRate: 100 })
+  })
+})
@@ -0,0 +1,106 @@
+import type { MetricResult } from "@/lib/types"
+import type { AnalyticsContext, AnalyticsReducer, ParsedRow } from "@/lib/analytics-engine"
+import type { DashboardFilterDimension } from "@/lib/dashboard-filters"
+import { trafficSourcesMetric } from "@/lib/metrics/traffic-sources"
+import { leadHealthMetric } from "@/lib/metrics/lead-health"
+import { geographicMetric } from "@/lib/metrics/geographic"
+import { campaignsMetric } from "@/lib/metrics/campaigns"
+import { peakActivityMetric } from "@/lib/metrics/peak-activity"
+import { landingPagesMetric } from "@/lib/metrics/landing-pages"
+
+// A dashboard metric in one file: a reducer that runs in the analytics engine's single pass, the shape of what it
+// produces, and how the dashboard draws it. Registered metrics need no changes to ProcessedData or the dashboard.
+
+export type MetricFormat = "number" | "currency" | "percent" | "score"
+
+export interface MetricField {
+  key: string // Key in each item's `values`
+  label: string
+  format: MetricFormat
+  unit?: string // Appended to the main figure, e.g. "leads"
+}
+
+// The fields every item carries: `value` is the main figure, `details` the smaller ones beside it
+export interface MetricSchema {
+  value: MetricField
+  details: MetricField[]
+  badge?: MetricField
+  progress?: MetricField // 0 to 100, drawn as a bar
+}
+
+// "list" stacks ranked rows, "tiles" lays items out as a grid of small cards
+export interface MetricVisualization {
+  type: "list" | "tiles"
+  limit: number
+  fullWidth?: boolean
+  itemName?: string // Plural, e.g. "landing pages"; when set, the card says how many items did not fit
+}
+
+export interface MetricReducer<State> {
+  init(context: AnalyticsContext): State
+  add(state: State, row: ParsedRow): void
+  finish(state: State, context: AnalyticsContext): MetricResult
+}
+
+export interface MetricDefinition<State = unknown> {
+  id: string
+  title: string
+  description: string
+  inputs: Array<keyof ParsedRow> // The parsed row fields the reducer reads
+  reducer: MetricReducer<State>
+  schema: MetricSchema
+  visualization: MetricVisualization
+  emptyMessage: string
+  // When set, item keys are values of this dimension and clicking an item filters the dashboard to it
+  filterDimension?: DashboardFilterDimension
+}
+
+// In dashboard order
+export const METRIC_REGISTRY: MetricDefinition<any>[] = [
+  trafficSourcesMetric,
+  leadHealthMetric,
+  geographicMetric,
+  campaignsMetric,
+  peakActivityMetric,
+  landingPagesMetric,
+]
+
+// Runs every metric as one engine reducer, so they share the engine's single walk over the rows
+export function metricsReducer(definitions: MetricDefinition<any>[] = METRIC_REGISTRY): AnalyticsReducer<unknown[]> {
+  return {
+    name: "metrics",
+    init: (context) => definitions.map((definition) => definition.reducer.init(context)),
+    add(states, row) {
+      for (let i = 0; i < definitions.length; i++) definitions[i].reducer.add(states[i], row)
+    },
+    finish: (states, context) => ({
+      metrics: Object.fromEntries(
+        definitions.map((definition, i) => [definition.id, definition.reducer.finish(states[i], context)]),
+      ),
+    }),
+  }
+}
+
+export function formatMetricValue(value: number, format: MetricFormat): string {
+  if (isNaN(value) || !isFinite(value)) return format === "currency" ? "$0" : "0"
+  switch (format) {
+    case "currency":
+      return new Intl.NumberFormat("en-US", {
+        style: "currency",
+        currency: "USD",
+        notation: "compact",
+        compactDisplay: "short",
+        maximumFractionDigits: 1,
+      }).format(value)
+    case "percent":
+      return `${value.toFixed(1)}%`
+    case "score":
+      return `${Math.round(value)}/100`
+    default:
+      return new Intl.NumberFormat("en-US", {
+        notation: "compact",
+        compactDisplay: "short",
+        maximumFractionDigits: 1,
+      }).format(value)
+  }
+}
@@ -0,0 +1,51 @@
+import type { MetricSnapshot, ProcessedData, SnapshotComparison, SnapshotMetrics } from "@/lib/types"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const SNAPSHOT_COMPARISON_LABELS: Record<SnapshotComparison, string> = {
+  none: "No comparison",
+  previous: "Previous sync",
+  week: "Last week",
+  month: "Last month",
+}
+
+// Reps the dashboard hides, so they do not show up as leaderboard changes
+const isNamedRep = (rep: string) => !!rep.trim() && rep !== "N/A" && rep !== "Unknown Rep"
+
+// The figures the KPI cards, funnel and rep leaderboard show, computed the same way the dashboard does
+export function summarizeMetrics(data: ProcessedData): SnapshotMetrics {
+  const isEstimated = data.revenueSource === "estimated"
+  const salesByRep = Object.fromEntries(Object.entries(data.salesByRep).filter(([rep]) => isNamedRep(rep)))
+  return {
+    totalLeads: data.totalContacts,
+    activeReps: Object.keys(salesByRep).length,
+    pipelineValue: isEstimated ? data.totalRevenue : data.pipelineValue,
+    averageDealSize: data.averageDealSize,
+    revenueSource: data.revenueSource,
+    funnelStageCounts: data.funnelStageCounts,
+    salesByRep,
+  }
+}
+
+// Baselines must be older than the data being compared: "previous" is the last snapshot before it,
+// "week" and "month" the last snapshot at least 7 or 30 days before it
+export function baselineCutoff(comparison: Exclude<SnapshotComparison, "none">, reference: string): string {
+  const offsetDays = comparison === "week" ? 7 : comparison === "month" ? 30 : 0
+  return new Date(new Date(reference).getTime() - offsetDays * DAY_MS).toISOString()
+}
+
+export interface MetricDelta {
+  change: number
+  percent: number | null // Null when the baseline was zero
+}
+
+export function metricDelta(current: number, previous: number | undefined): MetricDelta | null {
+  if (previous === undefined || !isFinite(previous)) return null
+  const change = current - previous
+  return { change, percent: previous !== 0 ? (change / Math.abs(previous)) * 100 : null }
+}
+
+// Estimated and deal-based revenue are not comparable, so their deltas are left out
+export function revenueComparable(current: ProcessedData, baseline: MetricSnapshot | null | undefined): boolean {
+  return !!baseline && baseline.metrics.revenueSource === current.revenueSource
+}
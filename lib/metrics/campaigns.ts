@@ -0,0 +1,39 @@
+import type { MetricDefinition } from "@/lib/metric-registry"
+
+type CampaignTally = { leads: number; revenue: number }
+
+// Leads and revenue by converting campaign (last touch, else first touch), most revenue first
+export const campaignsMetric: MetricDefinition<Record<string, CampaignTally>> = {
+  id: "campaigns",
+  title: "🎯 Top Performing Campaigns",
+  description: "Marketing campaigns driving the most revenue",
+  inputs: ["campaign", "sales"],
+  reducer: {
+    init: () => ({}),
+    add(campaigns, row) {
+      if (!row.campaign) return
+      const campaign = (campaigns[row.campaign] ??= { leads: 0, revenue: 0 })
+      campaign.leads++
+      campaign.revenue += row.sales
+    },
+    finish: (campaigns) => ({
+      items: Object.entries(campaigns)
+        .sort(([, a], [, b]) => b.revenue - a.revenue)
+        .map(([campaign, { leads, revenue }]) => ({
+          key: campaign,
+          label: `🎯 ${campaign}`,
+          values: { revenue, leads, revenuePerLead: leads > 0 ? revenue / leads : 0 },
+        })),
+    }),
+  },
+  schema: {
+    value: { key: "revenue", label: "Revenue", format: "currency" },
+    details: [
+      { key: "leads", label: "leads generated", format: "number" },
+      { key: "revenuePerLead", label: "per lead", format: "currency" },
+    ],
+  },
+  visualization: { type: "list", limit: 5 },
+  emptyMessage: "No campaign data available",
+  filterDimension: "campaign",
+}
@@ -0,0 +1,38 @@
+import type { MetricDefinition } from "@/lib/metric-registry"
+
+type StateTally = { leads: number; revenue: number }
+
+// Leads and revenue by the state at the end of each address, most revenue first
+export const geographicMetric: MetricDefinition<Record<string, StateTally>> = {
+  id: "geographic",
+  title: "🗺️ Geographic Performance",
+  description: "Leads and revenue by state/region",
+  inputs: ["state", "sales"],
+  reducer: {
+    init: () => ({}),
+    add(states, row) {
+      const state = (states[row.state ?? "Unknown"] ??= { leads: 0, revenue: 0 })
+      state.leads++
+      state.revenue += row.sales
+    },
+    finish: (states) => ({
+      items: Object.entries(states)
+        .sort(([, a], [, b]) => b.revenue - a.revenue)
+        .map(([state, { leads, revenue }]) => ({
+          key: state,
+          label: state === "Unknown" ? "🌍 Unknown" : `🇺🇸 ${state}`,
+          values: { revenue, leads, revenuePerLead: leads > 0 ? revenue / leads : 0 },
+        })),
+    }),
+  },
+  schema: {
+    value: { key: "revenue", label: "Revenue", format: "currency" },
+    details: [
+      { key: "leads", label: "leads", format: "number" },
+      { key: "revenuePerLead", label: "avg", format: "currency" },
+    ],
+  },
+  visualization: { type: "list", limit: 6 },
+  emptyMessage: "No geographic data available",
+  filterDimension: "state",
+}
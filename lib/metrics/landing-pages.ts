@@ -0,0 +1,54 @@
+import type { MetricDefinition } from "@/lib/metric-registry"
+
+type PageTally = { leads: number; revenue: number; sqls: number }
+
+const pageIcon = (page: string): string =>
+  page === "Homepage" ? "🏠" : page.includes("Product") ? "📦" : page.includes("About") ? "ℹ️" :
+  page.includes("Contact") ? "📞" : page.includes("Blog") ? "📝" : page.includes("Pricing") ? "💰" :
+  page.includes("Demo") ? "🎬" : page.includes("Case") ? "📊" : page.includes("Resource") ? "📚" : "🌐"
+
+// Leads, revenue and SQL conversion by the page family of each lead's first visit, most leads first
+export const landingPagesMetric: MetricDefinition<Record<string, PageTally>> = {
+  id: "landing-pages",
+  title: "🌐 Top Landing Pages Performance",
+  description: "Which pages visitors land on first and their conversion rates to SQLs",
+  inputs: ["landingPage", "sales", "funnelStage"],
+  reducer: {
+    init: () => ({}),
+    add(pages, row) {
+      if (!row.landingPage) return
+      const page = (pages[row.landingPage] ??= { leads: 0, revenue: 0, sqls: 0 })
+      page.leads++
+      page.revenue += row.sales
+      if (row.funnelStage === "sql") page.sqls++
+    },
+    finish: (pages) => ({
+      items: Object.entries(pages)
+        .sort(([, a], [, b]) => b.leads - a.leads)
+        .map(([page, { leads, revenue, sqls }]) => ({
+          key: page,
+          label: `${pageIcon(page)} ${page}`,
+          values: {
+            leads,
+            revenue,
+            avgDealSize: leads > 0 ? revenue / leads : 0,
+            sqlCount: sqls,
+            conversionRate: leads > 0 ? (sqls / leads) * 100 : 0,
+          },
+        })),
+    }),
+  },
+  schema: {
+    value: { key: "leads", label: "Leads", format: "number" },
+    details: [
+      { key: "revenue", label: "Revenue", format: "currency" },
+      { key: "avgDealSize", label: "Avg Deal", format: "currency" },
+      { key: "sqlCount", label: "SQLs", format: "number" },
+    ],
+    badge: { key: "conversionRate", label: "SQL", format: "percent" },
+    progress: { key: "conversionRate", label: "Conversion Rate", format: "percent" },
+  },
+  visualization: { type: "tiles", limit: 9, fullWidth: true, itemName: "landing pages" },
+  emptyMessage: "No landing page data available. First URL data may not be populated for these contacts.",
+  filterDimension: "landingPage",
+}
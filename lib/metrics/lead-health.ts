@@ -0,0 +1,75 @@
+import type { AccountData } from "@/lib/types"
+import type { MetricDefinition } from "@/lib/metric-registry"
+
+type ScoredLead = { key: string; label: string; healthScore: number; created: Date | null }
+
+// 50 plus points for a strong source, repeat visits and a later lifecycle stage, capped at 100
+export function calculateLeadHealthScore(account: AccountData): number {
+  let score = 50
+  const source = account["Analytics Source"] || "Unknown"
+  if (source.includes("Organic Search")) score += 15
+  else if (source.includes("Paid Search")) score += 10
+  else if (source.includes("Referral")) score += 20
+
+  const visits = Number(account["Number of Visits"] || 0)
+  if (visits > 5) score += 15
+  else if (visits > 2) score += 10
+
+  const stage = account["Lifecycle Stage"]?.toLowerCase() || ""
+  if (stage === "salesqualifiedlead") score += 25
+  else if (stage === "marketingqualifiedlead") score += 15
+  else if (stage === "customer") score += 30
+
+  return Math.max(0, Math.min(100, score))
+}
+
+export function getLeadTemperature(healthScore: number): string {
+  if (healthScore >= 80) return "🔥 Hot"
+  if (healthScore >= 60) return "🌡️ Warm"
+  if (healthScore >= 40) return "❄️ Cool"
+  return "🧊 Cold"
+}
+
+export function getLeadRiskLevel(created: Date | null, now: Date): string {
+  if (!created) return "Unknown"
+  const daysSinceCreated = (now.getTime() - created.getTime()) / (1000 * 60 * 60 * 24)
+  if (daysSinceCreated > 60) return "🚨 High Risk"
+  if (daysSinceCreated > 30) return "⚠️ Medium Risk"
+  return "✅ Low Risk"
+}
+
+// Every lead's health score, highest first, tagged with its temperature and how long it has gone unconverted
+export const leadHealthMetric: MetricDefinition<ScoredLead[]> = {
+  id: "lead-health",
+  title: "🌡️ Lead Health & Temperature",
+  description: "Highest scoring leads with risk assessment",
+  inputs: ["row", "created"],
+  reducer: {
+    init: () => [],
+    add(leads, { row, created }) {
+      leads.push({
+        key: row["Record ID"] ?? `${row["Account ID"]}-${leads.length}`,
+        label: row["Account Name"],
+        healthScore: calculateLeadHealthScore(row),
+        created,
+      })
+    },
+    finish: (leads, { now }) => ({
+      items: leads
+        .sort((a, b) => b.healthScore - a.healthScore)
+        .map(({ key, label, healthScore, created }) => ({
+          key,
+          label,
+          values: { healthScore },
+          tags: [getLeadTemperature(healthScore), getLeadRiskLevel(created, now)],
+        })),
+    }),
+  },
+  schema: {
+    value: { key: "healthScore", label: "Health score", format: "score" },
+    details: [],
+    progress: { key: "healthScore", label: "Health score", format: "score" },
+  },
+  visualization: { type: "list", limit: 6 },
+  emptyMessage: "No health score data available",
+}
@@ -0,0 +1,45 @@
+import type { MetricDefinition } from "@/lib/metric-registry"
+
+type ActivityState = { hours: Record<number, number>; reps: Record<string, number> }
+
+// Hours of the day most leads were created in, plus the reps holding the most leads
+export const peakActivityMetric: MetricDefinition<ActivityState> = {
+  id: "peak-activity",
+  title: "⏰ Peak Activity Hours",
+  description: "When your leads are most active",
+  inputs: ["created", "row"],
+  reducer: {
+    init: () => ({ hours: {}, reps: {} }),
+    add({ hours, reps }, { created, row }) {
+      if (created && !isNaN(created.getTime())) {
+        const hour = created.getHours()
+        hours[hour] = (hours[hour] || 0) + 1
+      }
+      const rep = row["Primary Rep Name"] || "Unknown"
+      reps[rep] = (reps[rep] || 0) + 1
+    },
+    finish: ({ hours, reps }) => ({
+      items: Object.entries(hours)
+        .map(([hour, activity]) => ({ hour: Number(hour), activity }))
+        .sort((a, b) => b.activity - a.activity)
+        .map(({ hour, activity }) => ({
+          key: String(hour),
+          label: `🕐 ${hour}:00 - ${hour + 1}:00`,
+          values: { activity },
+        })),
+      highlights: {
+        title: "🏆 Top Performers",
+        labels: Object.entries(reps)
+          .sort(([, a], [, b]) => b - a)
+          .slice(0, 3)
+          .map(([rep]) => `⚡ ${rep}`),
+      },
+    }),
+  },
+  schema: {
+    value: { key: "activity", label: "Leads", format: "number", unit: "leads" },
+    details: [],
+  },
+  visualization: { type: "list", limit: 5 },
+  emptyMessage: "No activity data available",
+}
@@ -0,0 +1,54 @@
+import type { FunnelStage } from "@/lib/types"
+import type { MetricDefinition } from "@/lib/metric-registry"
+
+type SourceTally = { leads: number; revenue: number; sqls: number; stages: Record<FunnelStage | "unstaged", number> }
+
+// Leads, revenue and SQL conversion per normalized original source. Item values also carry the leads per funnel
+// stage (mql, sql, opportunity, customer, unstaged) for the dashboard's stacked source chart.
+export const trafficSourcesMetric: MetricDefinition<Record<string, SourceTally>> = {
+  id: "traffic-sources",
+  title: "🚦 Traffic Source Performance",
+  description: "Lead generation by source with conversion rates",
+  inputs: ["trafficSource", "sales", "funnelStage"],
+  reducer: {
+    init: () => ({}),
+    add(sources, row) {
+      const source = (sources[row.trafficSource] ??= {
+        leads: 0,
+        revenue: 0,
+        sqls: 0,
+        stages: { mql: 0, sql: 0, opportunity: 0, customer: 0, unstaged: 0 },
+      })
+      source.leads++
+      source.revenue += row.sales
+      if (row.funnelStage === "sql") source.sqls++
+      source.stages[row.funnelStage ?? "unstaged"]++
+    },
+    finish: (sources) => ({
+      items: Object.entries(sources)
+        .sort(([, a], [, b]) => b.leads - a.leads)
+        .map(([source, { leads, revenue, sqls, stages }]) => ({
+          key: source,
+          label: source,
+          values: {
+            revenue,
+            leads,
+            avgDealSize: leads > 0 ? revenue / leads : 0,
+            conversionRate: leads > 0 ? (sqls / leads) * 100 : 0,
+            ...stages,
+          },
+        })),
+    }),
+  },
+  schema: {
+    value: { key: "revenue", label: "Revenue", format: "currency" },
+    details: [
+      { key: "leads", label: "leads", format: "number" },
+      { key: "avgDealSize", label: "avg", format: "currency" },
+    ],
+    badge: { key: "conversionRate", label: "SQL", format: "percent" },
+  },
+  visualization: { type: "list", limit: 6 },
+  emptyMessage: "No traffic source data available",
+  filterDimension: "source",
+}
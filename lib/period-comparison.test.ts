@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest"
+import { comparisonRange, describeRange, type PeriodComparison } from "@/lib/period-comparison"
+
+// Ranges are local calendar days, so they are compared as YYYY-MM-DD in local time
+const day = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+const local = (value: string) => {
+  const [year, month, date] = value.split("-").map(Number)
+  return new Date(year, month - 1, date)
+}
+const compare = (start: string, end: string, comparison: Exclude<PeriodComparison, "none">) => {
+  const { startDate, endDate } = comparisonRange({ startDate: local(start), endDate: local(end) }, comparison)
+  return [day(startDate), day(endDate)]
+}
+
+describe("comparisonRange vs the previous period", () => {
+  it("compares a month with the whole month before, whatever its length", () => {
+    expect(compare("2025-02-01", "2025-02-28", "previousPeriod")).toEqual(["2025-01-01", "2025-01-31"])
+    expect(compare("2025-03-01", "2025-03-31", "previousPeriod")).toEqual(["2025-02-01", "2025-02-28"])
+    expect(compare("2024-03-01", "2024-03-31", "previousPeriod")).toEqual(["2024-02-01", "2024-02-29"])
+  })
+
+  it("compares Q1 with the previous Q4", () => {
+    expect(compare("2025-01-01", "2025-03-31", "previousPeriod")).toEqual(["2024-10-01", "2024-12-31"])
+    expect(compare("2025-04-01", "2025-06-30", "previousPeriod")).toEqual(["2025-01-01", "2025-03-31"])
+  })
+
+  it("compares a whole year with the year before", () => {
+    expect(compare("2025-01-01", "2025-12-31", "previousPeriod")).toEqual(["2024-01-01", "2024-12-31"])
+  })
+
+  it("steps other ranges back by their length in days", () => {
+    expect(compare("2025-01-31", "2025-01-31", "previousPeriod")).toEqual(["2025-01-30", "2025-01-30"])
+    expect(compare("2025-01-15", "2025-01-31", "previousPeriod")).toEqual(["2024-12-29", "2025-01-14"])
+    // Jan 31 to Feb 27 is four weeks, so the period before it is four weeks too
+    expect(compare("2025-01-31", "2025-02-27", "previousPeriod")).toEqual(["2025-01-03", "2025-01-30"])
+    expect(compare("2024-03-01", "2024-03-10", "previousPeriod")).toEqual(["2024-02-20", "2024-02-29"])
+  })
+})
+
+describe("comparisonRange vs the same period last year", () => {
+  it("compares a quarter with the same quarter a year earlier", () => {
+    expect(compare("2025-01-01", "2025-03-31", "previousYear")).toEqual(["2024-01-01", "2024-03-31"])
+    expect(compare("2024-10-01", "2024-12-31", "previousYear")).toEqual(["2023-10-01", "2023-12-31"])
+  })
+
+  it("compares February with the whole February before it, leap year or not", () => {
+    expect(compare("2025-02-01", "2025-02-28", "previousYear")).toEqual(["2024-02-01", "2024-02-29"])
+    expect(compare("2024-02-01", "2024-02-29", "previousYear")).toEqual(["2023-02-01", "2023-02-28"])
+  })
+
+  it("moves Feb 29 to Feb 28 in a range that is not whole months", () => {
+    expect(compare("2024-02-10", "2024-02-29", "previousYear")).toEqual(["2023-02-10", "2023-02-28"])
+    expect(compare("2024-02-29", "2024-03-10", "previousYear")).toEqual(["2023-02-28", "2023-03-10"])
+  })
+
+  it("keeps month-end days that exist in both years", () => {
+    expect(compare("2025-01-31", "2025-02-27", "previousYear")).toEqual(["2024-01-31", "2024-02-27"])
+    expect(compare("2025-03-31", "2025-04-15", "previousYear")).toEqual(["2024-03-31", "2024-04-15"])
+  })
+})
+
+describe("describeRange", () => {
+  it("spells out both ends", () => {
+    expect(describeRange({ startDate: local("2024-10-01"), endDate: local("2024-12-31") })).toBe(
+      "Oct 1, 2024 - Dec 31, 2024",
+    )
+  })
+})
@@ -0,0 +1,48 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  endOfMonth,
+  format,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+} from "date-fns"
+import type { DateRange } from "@/lib/date-presets"
+
+// The window a date range is compared against. Like the date pickers, ranges are whole local days with the
+// end date being the last day included.
+
+export type PeriodComparison = "none" | "previousPeriod" | "previousYear"
+
+export const PERIOD_COMPARISON_LABELS: Record<PeriodComparison, string> = {
+  none: "No period comparison",
+  previousPeriod: "vs previous period",
+  previousYear: "vs same period last year",
+}
+
+// Ranges of whole calendar months (a month, quarter or year) step back by months, so this quarter is compared
+// with the whole of last quarter however many days each has; other ranges step back by their length in days
+export function comparisonRange(range: DateRange, comparison: Exclude<PeriodComparison, "none">): DateRange {
+  const { startDate, endDate } = range
+  const wholeMonths = isSameDay(startDate, startOfMonth(startDate)) && isSameDay(endDate, endOfMonth(endDate))
+  if (comparison === "previousYear") {
+    const endDateBefore = addMonths(endDate, -12)
+    return {
+      startDate: addMonths(startDate, -12),
+      // A February ending on the 28th is compared with all of a leap-year February
+      endDate: wholeMonths ? startOfDay(endOfMonth(endDateBefore)) : endDateBefore,
+    }
+  }
+  if (wholeMonths) {
+    const months = differenceInCalendarMonths(endDate, startDate) + 1
+    return { startDate: addMonths(startDate, -months), endDate: addDays(startDate, -1) }
+  }
+  const days = differenceInCalendarDays(endDate, startDate) + 1
+  return { startDate: addDays(startDate, -days), endDate: addDays(startDate, -1) }
+}
+
+// e.g. "Oct 1, 2024 - Dec 31, 2024"
+export const describeRange = (range: DateRange): string =>
+  `${format(range.startDate, "MMM d, yyyy")} - ${format(range.endDate, "MMM d, yyyy")}`
@@ -0,0 +1,120 @@
+import type { FunnelStage, QualificationCondition, QualificationRules } from "@/lib/types"
+
+// Highest first: a contact matching several stages is counted in the furthest one
+export const FUNNEL_STAGES: FunnelStage[] = ["customer", "opportunity", "sql", "mql"]
+
+export const FUNNEL_STAGE_LABELS: Record<FunnelStage, string> = {
+  mql: "Marketing Qualified Lead",
+  sql: "Sales Qualified Lead",
+  opportunity: "Opportunity",
+  customer: "Customer",
+}
+
+// HubSpot lifecycle stage values as people read them, e.g. "salesqualifiedlead" as "Sales Qualified Lead"
+export const formatLifecycleStage = (stage: string): string => {
+  const stageMap: Record<string, string> = {
+    marketingqualifiedlead: "Marketing Qualified Lead",
+    salesqualifiedlead: "Sales Qualified Lead",
+    customer: "Customer",
+    lead: "Lead",
+    subscriber: "Subscriber",
+    opportunity: "Opportunity",
+    evangelist: "Evangelist",
+    other: "Other",
+  }
+  // Unknown stages are split on capital letters and capitalized
+  return (
+    stageMap[stage.toLowerCase()] ??
+    stage
+      .replace(/([A-Z])/g, " $1")
+      .replace(/^./, (str) => str.toUpperCase())
+      .trim()
+  )
+}
+
+const statusConditions = (values: string[]): QualificationCondition[] => [
+  { property: "lead_status", values },
+  { property: "hs_lead_status", values },
+]
+
+// Matches HubSpot's default lifecycle stages and the lead statuses this dashboard has always accepted
+export const DEFAULT_QUALIFICATION_RULES: QualificationRules = {
+  stages: {
+    mql: [
+      { property: "lifecyclestage", values: ["marketingqualifiedlead", "mql"] },
+      ...statusConditions(["marketing qualified lead", "mql"]),
+    ],
+    sql: [
+      { property: "lifecyclestage", values: ["salesqualifiedlead", "sql"] },
+      ...statusConditions(["sales qualified lead", "sql"]),
+    ],
+    opportunity: [{ property: "lifecyclestage", values: ["opportunity"] }],
+    customer: [{ property: "lifecyclestage", values: ["customer"] }],
+  },
+  qualifyingStages: ["mql", "sql"],
+}
+
+const matchesCondition = (properties: Record<string, string | null | undefined>, condition: QualificationCondition) => {
+  const value = properties[condition.property]?.trim().toLowerCase()
+  return !!value && condition.values.some((candidate) => candidate.trim().toLowerCase() === value)
+}
+
+export function classifyFunnelStage(
+  properties: Record<string, string | null | undefined>,
+  rules: QualificationRules,
+): FunnelStage | null {
+  return FUNNEL_STAGES.find((stage) => rules.stages[stage].some((condition) => matchesCondition(properties, condition))) ?? null
+}
+
+// Decides whether a contact belongs in the local store
+export function isQualified(properties: Record<string, string | null | undefined>, rules: QualificationRules): boolean {
+  return rules.qualifyingStages.some((stage) =>
+    rules.stages[stage].some((condition) => matchesCondition(properties, condition)),
+  )
+}
+
+// Contact properties the rules read, so syncs always fetch them
+export function ruleProperties(rules: QualificationRules): string[] {
+  return Array.from(new Set(FUNNEL_STAGES.flatMap((stage) => rules.stages[stage].map((condition) => condition.property))))
+}
+
+// Order-independent, so re-saving the same rules does not force a full resync
+export function rulesFingerprint(rules: QualificationRules): string {
+  const normalized = FUNNEL_STAGES.map((stage) => [
+    stage,
+    rules.qualifyingStages.includes(stage),
+    rules.stages[stage]
+      .map((condition) => `${condition.property}=${condition.values.map((value) => value.trim().toLowerCase()).sort().join("|")}`)
+      .sort(),
+  ])
+  return JSON.stringify(normalized)
+}
+
+// Returns a cleaned copy of the rules, or throws with a message fit for the editor
+export function normalizeQualificationRules(rules: QualificationRules): QualificationRules {
+  const stages = {} as Record<FunnelStage, QualificationCondition[]>
+  FUNNEL_STAGES.forEach((stage) => {
+    stages[stage] = (rules.stages?.[stage] ?? [])
+      .map((condition) => ({
+        property: condition.property.trim().toLowerCase(),
+        values: condition.values.map((value) => value.trim()).filter(Boolean),
+      }))
+      .filter((condition) => condition.property && condition.values.length > 0)
+      .map((condition) => {
+        if (!/^[a-z0-9_]+$/.test(condition.property)) {
+          throw new Error(`"${condition.property}" is not a valid HubSpot property name`)
+        }
+        return condition
+      })
+  })
+
+  const qualifyingStages = FUNNEL_STAGES.filter((stage) => rules.qualifyingStages?.includes(stage))
+  if (qualifyingStages.length === 0) throw new Error("Pick at least one stage to sync into the dashboard")
+  qualifyingStages.forEach((stage) => {
+    if (stages[stage].length === 0) {
+      throw new Error(`${FUNNEL_STAGE_LABELS[stage]} is synced but has no conditions`)
+    }
+  })
+
+  return { stages, qualifyingStages }
+}
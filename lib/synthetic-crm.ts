@@ -0,0 +1,557 @@
+import type { AccountData } from "@/lib/types"
+import { toCsv } from "@/lib/csv"
+import type {
+  FakeHubSpotFixtures,
+  FakeHubSpotOwner,
+  FakeHubSpotPipeline,
+  FakeHubSpotRecord,
+} from "@/lib/fake-hubspot-fixtures"
+
+// Seeded synthetic CRM data for demos, load tests and the local HubSpot stand-in. The same seed and size always
+// produce the same portal. Contacts are generated lazily, so a 500K-contact CSV never sits in memory at once.
+
+export interface SyntheticCrmOptions {
+  seed?: number
+  contacts?: number
+  now?: Date
+}
+
+// One contact with the deals it brought in
+export interface SyntheticContact {
+  contact: FakeHubSpotRecord
+  deals: FakeHubSpotRecord[]
+}
+
+export interface SyntheticCrm {
+  owners: FakeHubSpotOwner[]
+  companies: FakeHubSpotRecord[]
+  pipelines: FakeHubSpotPipeline[]
+  // Replays the same contacts on every call
+  contacts(): Generator<SyntheticContact>
+}
+
+export const SYNTHETIC_CONTACT_LIMITS = { min: 1, max: 500_000 }
+const DEFAULT_OPTIONS = { seed: 1, contacts: 1_000 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Created dates spread over two years, denser towards today like a growing portal
+const HISTORY_DAYS = 730
+
+// mulberry32: tiny, fast and good enough for fixture data
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+type Random = () => number
+
+const pick = <T>(random: Random, values: readonly T[]): T => values[Math.floor(random() * values.length)]
+
+function pickWeighted<T>(random: Random, options: ReadonlyArray<readonly [T, number]>): T {
+  const total = options.reduce((sum, [, weight]) => sum + weight, 0)
+  let roll = random() * total
+  for (const [value, weight] of options) {
+    roll -= weight
+    if (roll < 0) return value
+  }
+  return options[options.length - 1][0]
+}
+
+// For long lists (companies, reps): cumulative weights and a binary search instead of a scan per pick
+function weightedPicker<T>(options: ReadonlyArray<readonly [T, number]>): (random: Random) => T {
+  const cumulative: number[] = []
+  let total = 0
+  options.forEach(([, weight]) => cumulative.push((total += weight)))
+  return (random) => {
+    const roll = random() * total
+    let low = 0
+    let high = cumulative.length - 1
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (cumulative[middle] > roll) high = middle
+      else low = middle + 1
+    }
+    return options[low][0]
+  }
+}
+
+// Log-normal around `median`, for deal amounts and visit counts
+function logNormal(random: Random, median: number, spread: number): number {
+  const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+  return median * Math.exp(normal * spread)
+}
+
+// --- Reference data ---
+const FIRST_NAMES = [
+  "James", "Mary", "Robert", "Patricia", "John", "Jennifer", "Michael", "Linda", "David", "Elizabeth", "William",
+  "Barbara", "Richard", "Susan", "Joseph", "Jessica", "Thomas", "Sarah", "Carlos", "Karen", "Daniel", "Lisa",
+  "Matthew", "Nancy", "Anthony", "Sandra", "Mark", "Ashley", "Andrew", "Kimberly", "Luis", "Emily", "Kevin", "Maria",
+  "Brian", "Michelle", "Wei", "Priya", "Jamal", "Aisha", "Tyler", "Megan", "Hector", "Grace", "Ryan", "Olivia",
+] as const
+const LAST_NAMES = [
+  "Smith", "Johnson", "Williams", "Brown", "Jones", "Garcia", "Miller", "Davis", "Rodriguez", "Martinez", "Hernandez",
+  "Lopez", "Gonzalez", "Wilson", "Anderson", "Thomas", "Taylor", "Moore", "Jackson", "Martin", "Lee", "Perez",
+  "Thompson", "White", "Harris", "Sanchez", "Clark", "Ramirez", "Lewis", "Robinson", "Walker", "Young", "Allen",
+  "King", "Wright", "Scott", "Nguyen", "Patel", "Kim", "Chen", "Hill", "Flores", "Green", "Adams", "Nelson", "Baker",
+] as const
+const COMPANY_WORDS = [
+  "Summit", "Harbor", "Pioneer", "Cedar", "Atlas", "Beacon", "Granite", "Meridian", "Northwind", "Bluebird",
+  "Keystone", "Riverside", "Liberty", "Evergreen", "Frontier", "Ironwood", "Lakeshore", "Redwood", "Silverline",
+  "Trident", "Vanguard", "Westfield", "Apex", "Coastal", "Heritage", "Prairie", "Sterling", "Union", "Valley", "Eagle",
+] as const
+const INDUSTRIES = [
+  "Janitorial Supply", "Foodservice", "Hardware", "Dental", "Logistics", "Health", "Builders", "Software", "Realty",
+  "Hospitality", "Packaging", "Industrial", "Wholesale", "Distributors", "Medical Supply", "Facilities",
+] as const
+const COMPANY_SUFFIXES = ["Inc", "LLC", "Co", "Group", "Corp", "Partners"] as const
+const STREET_NAMES = [
+  "Main", "Oak", "Maple", "Washington", "Park", "Elm", "Lake", "Hill", "Pine", "Cedar", "Church", "Market",
+  "Union", "Broad", "Center", "Highland", "Jefferson", "Lincoln", "Madison", "Franklin", "Walnut", "Spring",
+] as const
+const STREET_SUFFIXES = ["St", "Ave", "Blvd", "Rd", "Dr", "Ln", "Way", "Pkwy"] as const
+// City, state, ZIP prefix, area code; weighted roughly by metro size
+const US_CITIES: ReadonlyArray<readonly [readonly [string, string, string, string], number]> = [
+  [["New York", "NY", "100", "212"], 8],
+  [["Los Angeles", "CA", "900", "213"], 7],
+  [["Chicago", "IL", "606", "312"], 6],
+  [["Houston", "TX", "770", "713"], 5],
+  [["Phoenix", "AZ", "850", "602"], 4],
+  [["Philadelphia", "PA", "191", "215"], 4],
+  [["San Antonio", "TX", "782", "210"], 3],
+  [["San Diego", "CA", "921", "619"], 3],
+  [["Dallas", "TX", "752", "214"], 4],
+  [["Austin", "TX", "787", "512"], 3],
+  [["Jacksonville", "FL", "322", "904"], 2],
+  [["Columbus", "OH", "432", "614"], 2],
+  [["Charlotte", "NC", "282", "704"], 2],
+  [["Indianapolis", "IN", "462", "317"], 2],
+  [["Seattle", "WA", "981", "206"], 3],
+  [["Denver", "CO", "802", "303"], 3],
+  [["Nashville", "TN", "372", "615"], 2],
+  [["Boston", "MA", "021", "617"], 3],
+  [["Atlanta", "GA", "303", "404"], 4],
+  [["Miami", "FL", "331", "305"], 3],
+  [["Minneapolis", "MN", "554", "612"], 2],
+  [["Portland", "OR", "972", "503"], 2],
+  [["Kansas City", "MO", "641", "816"], 2],
+  [["Raleigh", "NC", "276", "919"], 2],
+  [["Salt Lake City", "UT", "841", "801"], 1],
+  [["Buckhannon", "WV", "262", "304"], 1],
+  [["Jackson", "OH", "456", "740"], 1],
+  [["Boise", "ID", "837", "208"], 1],
+]
+const JOB_TITLES = [
+  "Owner", "Office Manager", "Purchasing Manager", "Operations Director", "VP Operations", "Facilities Manager",
+  "Procurement Specialist", "General Manager", "Founder", "Buyer", "Controller", "Director of Purchasing",
+] as const
+const LEAD_STATUSES = ["NEW", "OPEN", "IN_PROGRESS", "ATTEMPTED_TO_CONTACT", "CONNECTED", "BAD_TIMING"] as const
+
+// --- Sources, campaigns and landing pages ---
+type Source =
+  | "ORGANIC_SEARCH"
+  | "PAID_SEARCH"
+  | "PAID_SOCIAL"
+  | "SOCIAL_MEDIA"
+  | "EMAIL_MARKETING"
+  | "REFERRALS"
+  | "DIRECT_TRAFFIC"
+  | "OFFLINE"
+
+// Share of new contacts, and how much likelier than average each source is to move a contact down the funnel
+const SOURCES: ReadonlyArray<readonly [Source, number, number]> = [
+  ["ORGANIC_SEARCH", 28, 1.1],
+  ["PAID_SEARCH", 20, 1.25],
+  ["PAID_SOCIAL", 10, 0.7],
+  ["SOCIAL_MEDIA", 8, 0.6],
+  ["EMAIL_MARKETING", 12, 1.0],
+  ["REFERRALS", 8, 1.5],
+  ["DIRECT_TRAFFIC", 10, 1.0],
+  ["OFFLINE", 4, 1.3],
+]
+const SOURCE_WEIGHTS = SOURCES.map(([source, share]) => [source, share] as const)
+const SOURCE_LIFT = new Map(SOURCES.map(([source, , lift]) => [source, lift]))
+
+const CAMPAIGNS: Partial<Record<Source, readonly string[]>> = {
+  PAID_SEARCH: ["Brand Search", "Competitor Keywords", "Bulk Supplies - Search", "Spring Promo - Search"],
+  PAID_SOCIAL: ["Retargeting - Facebook", "LinkedIn Lead Gen", "Spring Promo - Social"],
+  EMAIL_MARKETING: ["Monthly Newsletter", "Reorder Reminder", "Webinar Invite", "Win-back Sequence"],
+  SOCIAL_MEDIA: ["Product Launch", "Customer Stories"],
+  OFFLINE: ["Trade Show", "Direct Mail"],
+}
+const SOURCE_DETAILS: Record<Source, { data1: readonly string[]; data2: readonly string[] }> = {
+  ORGANIC_SEARCH: { data1: ["google", "bing", "duckduckgo"], data2: ["janitorial supplies", "bulk paper towels", "unknown keywords"] },
+  PAID_SEARCH: { data1: ["google", "bing"], data2: ["commercial cleaning supplies", "wholesale gloves", "brand"] },
+  PAID_SOCIAL: { data1: ["facebook", "linkedin", "instagram"], data2: ["lookalike", "retargeting"] },
+  SOCIAL_MEDIA: { data1: ["facebook", "linkedin", "twitter"], data2: [""] },
+  EMAIL_MARKETING: { data1: ["newsletter", "sequence"], data2: [""] },
+  REFERRALS: { data1: ["partner-directory.example.org", "industry-forum.example.net", "supplier-review.example.com"], data2: [""] },
+  DIRECT_TRAFFIC: { data1: [""], data2: [""] },
+  OFFLINE: { data1: ["IMPORT", "CRM_UI"], data2: [""] },
+}
+const LANDING_PAGES = ["/", "/pricing", "/request-a-quote", "/products/paper", "/products/gloves", "/catalog", "/blog/cleaning-checklist", "/contact"] as const
+const SITE = "https://www.example-supply.com"
+
+// --- Lifecycle ---
+// Each step is taken with this probability (scaled by the source's lift), so the funnel narrows realistically
+const LIFECYCLE_STEPS: ReadonlyArray<readonly [string, number]> = [
+  ["subscriber", 1],
+  ["lead", 0.8],
+  ["marketingqualifiedlead", 0.55],
+  ["salesqualifiedlead", 0.45],
+  ["opportunity", 0.5],
+  ["customer", 0.45],
+]
+
+export const SYNTHETIC_DEAL_PIPELINE: FakeHubSpotPipeline = {
+  id: "default",
+  label: "Sales Pipeline",
+  displayOrder: 0,
+  stages: [
+    ["appointmentscheduled", "Appointment Scheduled", "0.2"],
+    ["qualifiedtobuy", "Qualified To Buy", "0.4"],
+    ["presentationscheduled", "Presentation Scheduled", "0.6"],
+    ["decisionmakerboughtin", "Decision Maker Bought-In", "0.8"],
+    ["contractsent", "Contract Sent", "0.9"],
+    ["closedwon", "Closed Won", "1.0"],
+    ["closedlost", "Closed Lost", "0.0"],
+  ].map(([id, label, probability], displayOrder) => ({
+    id,
+    label,
+    displayOrder,
+    metadata: { isClosed: String(id.startsWith("closed")), probability },
+  })),
+}
+const OPEN_DEAL_STAGES = SYNTHETIC_DEAL_PIPELINE.stages.filter((stage) => stage.metadata.isClosed === "false")
+
+// Size drives how many contacts a company gets and how big its deals are
+type CompanySize = "small" | "mid" | "large"
+const COMPANY_SIZES: ReadonlyArray<readonly [CompanySize, number]> = [
+  ["small", 70],
+  ["mid", 25],
+  ["large", 5],
+]
+const EMPLOYEES: Record<CompanySize, [number, number]> = { small: [5, 45], mid: [50, 450], large: [500, 4_500] }
+const CONTACTS_PER_SIZE: Record<CompanySize, number> = { small: 1, mid: 3, large: 8 }
+const DEAL_SIZES: Record<CompanySize, number> = { small: 2_500, mid: 12_000, large: 60_000 }
+
+const pad = (value: number, length: number) => String(value).padStart(length, "0")
+const isoDate = (time: number) => new Date(time).toISOString()
+
+// Fewer, bigger accounts than contacts, and about one rep per 2,000 contacts
+function portalShape(contacts: number) {
+  return {
+    owners: Math.min(Math.max(Math.round(contacts / 2_000), 6), 250),
+    companies: Math.max(Math.round(contacts / 3), 1),
+  }
+}
+
+export function generateSyntheticCrm(options: SyntheticCrmOptions = {}): SyntheticCrm {
+  const { seed = DEFAULT_OPTIONS.seed, contacts: contactCount = DEFAULT_OPTIONS.contacts } = options
+  if (!Number.isInteger(contactCount) || contactCount < SYNTHETIC_CONTACT_LIMITS.min || contactCount > SYNTHETIC_CONTACT_LIMITS.max) {
+    throw new Error(
+      `Synthetic datasets hold ${SYNTHETIC_CONTACT_LIMITS.min} to ${SYNTHETIC_CONTACT_LIMITS.max.toLocaleString()} contacts`,
+    )
+  }
+  const now = (options.now ?? new Date()).getTime()
+  const shape = portalShape(contactCount)
+  const random = seededRandom(seed)
+
+  const owners: FakeHubSpotOwner[] = Array.from({ length: shape.owners }, (_, index) => {
+    const firstName = pick(random, FIRST_NAMES)
+    const lastName = pick(random, LAST_NAMES)
+    return {
+      id: String(100_000 + index),
+      firstName,
+      lastName,
+      email: `${firstName}.${lastName}${index}@example-supply.com`.toLowerCase(),
+      userId: 900_000 + index,
+    }
+  })
+  // A few reps carry most of the book, as on any real team
+  const pickOwner = weightedPicker(owners.map((owner, index) => [owner, 1 / (1 + index * 0.35)] as const))
+
+  const companies: FakeHubSpotRecord[] = Array.from({ length: shape.companies }, (_, index) => {
+    const [city, state, zipPrefix] = pickWeighted(random, US_CITIES)
+    const name = `${pick(random, COMPANY_WORDS)} ${pick(random, INDUSTRIES)} ${pick(random, COMPANY_SUFFIXES)}`
+    const created = now - Math.floor(random() * HISTORY_DAYS * DAY_MS)
+    const size = pickWeighted(random, COMPANY_SIZES)
+    return {
+      id: String(1_000_000 + index),
+      properties: {
+        name: `${name} ${index + 1}`,
+        domain: `${name.toLowerCase().replace(/[^a-z]+/g, "")}${index + 1}.example.com`,
+        address: `${1 + Math.floor(random() * 9_899)} ${pick(random, STREET_NAMES)} ${pick(random, STREET_SUFFIXES)}`,
+        city,
+        state,
+        zip: `${zipPrefix}${pad(Math.floor(random() * 100), 2)}`,
+        numberofemployees: String(EMPLOYEES[size][0] + Math.floor(random() * EMPLOYEES[size][1])),
+        company_size: size,
+        hubspot_owner_id: pickOwner(random).id,
+        createdate: isoDate(created),
+        hs_lastmodifieddate: isoDate(created + Math.floor(random() * (now - created))),
+      },
+      associations: { contacts: [] },
+    }
+  })
+  const ownersById = new Map(owners.map((owner) => [owner.id, owner]))
+  const citiesByName = new Map(US_CITIES.map(([city]) => [city[0], city]))
+  const pickCompany = weightedPicker(
+    companies.map((company) => [company, CONTACTS_PER_SIZE[company.properties.company_size as CompanySize]] as const),
+  )
+
+  function* contacts(): Generator<SyntheticContact> {
+    // A separate stream, so replaying contacts does not depend on how far an earlier pass got
+    const random = seededRandom(seed * 7919 + 17)
+    let nextDealId = 5_000_000
+
+    for (let index = 0; index < contactCount; index++) {
+      const company = random() < 0.92 ? pickCompany(random) : null
+      const firstName = pick(random, FIRST_NAMES)
+      const lastName = pick(random, LAST_NAMES)
+      const [city, state, , areaCode] = citiesByName.get(company?.properties.city ?? "") ?? pickWeighted(random, US_CITIES)
+      // Contacts mostly belong to their company's rep
+      const companyOwner = ownersById.get(company?.properties.hubspot_owner_id ?? "")
+      const owner = companyOwner && random() < 0.85 ? companyOwner : pickOwner(random)
+      const source = pickWeighted(random, SOURCE_WEIGHTS)
+      const latestSource = random() < 0.65 ? source : pickWeighted(random, SOURCE_WEIGHTS)
+      const campaigns = CAMPAIGNS[source]
+      const firstCampaign = campaigns ? pick(random, campaigns) : null
+      const lastCampaign = CAMPAIGNS[latestSource] ? pick(random, CAMPAIGNS[latestSource]!) : firstCampaign
+      const details = SOURCE_DETAILS[source]
+      const landingPage = pick(random, LANDING_PAGES)
+      const sourceData1 = pick(random, details.data1)
+      const utm = firstCampaign
+        ? `?utm_source=${sourceData1}&utm_campaign=${firstCampaign.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`
+        : ""
+
+      // Walk the lifecycle: every step happens some days after the last, and never in the future
+      const created = now - Math.floor((1 - Math.sqrt(random())) * HISTORY_DAYS * DAY_MS)
+      const lift = SOURCE_LIFT.get(source) ?? 1
+      const stageDates: Record<string, string> = {}
+      let stage = LIFECYCLE_STEPS[0][0]
+      let stageTime = created
+      for (const [step, probability] of LIFECYCLE_STEPS) {
+        const at = step === "subscriber" ? created : stageTime + Math.floor((1 + random() * 30) * DAY_MS)
+        if (at > now || random() >= Math.min(probability * lift, 0.95)) break
+        stage = step
+        stageTime = at
+        stageDates[`hs_lifecyclestage_${step}_date`] = isoDate(at)
+      }
+
+      const id = String(10_000_000 + index)
+      const visits = Math.max(1, Math.round(logNormal(random, 4, 0.8)))
+      const firstVisit = created - Math.floor(random() * 14 * DAY_MS)
+
+      // Opportunities have an open deal; customers won one or more, and some SQLs already lost one
+      const dealSize = DEAL_SIZES[(company?.properties.company_size ?? "small") as CompanySize]
+      const wonDeals = () => Array.from({ length: 1 + Math.floor(random() * random() * 3) }, () => "closedwon")
+      const dealStages: string[] =
+        stage === "customer"
+          ? [...wonDeals(), ...(random() < 0.3 ? [pick(random, OPEN_DEAL_STAGES).id] : [])]
+          : stage === "opportunity"
+            ? [pick(random, OPEN_DEAL_STAGES).id, ...(random() < 0.15 ? ["closedlost"] : [])]
+            : stage === "salesqualifiedlead" && random() < 0.25
+              ? ["closedlost"]
+              : []
+      const deals = dealStages.map((dealStage, dealIndex): FakeHubSpotRecord => {
+        const dealCreated = Math.min(stageTime + Math.floor(dealIndex * random() * 60 * DAY_MS), now)
+        const closed = dealStage.startsWith("closed")
+        const closeDate = closed
+          ? Math.min(dealCreated + Math.floor((7 + random() * 60) * DAY_MS), now)
+          : dealCreated + Math.floor((14 + random() * 90) * DAY_MS)
+        return {
+          id: String(nextDealId++),
+          properties: {
+            dealname: `${company?.properties.name ?? `${firstName} ${lastName}`} - ${pick(random, ["Initial order", "Annual supply", "Expansion", "Reorder", "Pilot"])}`,
+            amount: (Math.round(logNormal(random, dealSize, 0.6) * 100) / 100).toFixed(2),
+            dealstage: dealStage,
+            pipeline: SYNTHETIC_DEAL_PIPELINE.id,
+            closedate: isoDate(closeDate),
+            createdate: isoDate(dealCreated),
+            hs_lastmodifieddate: isoDate(Math.min(closed ? closeDate : dealCreated + Math.floor(random() * 10 * DAY_MS), now)),
+            hubspot_owner_id: owner.id,
+          },
+          associations: { contacts: [id], companies: company ? [company.id] : [] },
+        }
+      })
+      const revenue = deals
+        .filter((deal) => deal.properties.dealstage === "closedwon")
+        .reduce((sum, deal) => sum + Number(deal.properties.amount), 0)
+      const lastActivity = Math.max(stageTime, ...deals.map((deal) => Date.parse(deal.properties.hs_lastmodifieddate!)))
+
+      const contact: FakeHubSpotRecord = {
+        id,
+        properties: {
+          firstname: firstName,
+          lastname: lastName,
+          email: `${firstName}.${lastName}${index}@${company?.properties.domain ?? "example.net"}`.toLowerCase(),
+          company: company?.properties.name ?? null,
+          lifecyclestage: stage,
+          hs_lead_status: ["lead", "marketingqualifiedlead"].includes(stage) ? pick(random, LEAD_STATUSES) : null,
+          createdate: isoDate(created),
+          lastmodifieddate: isoDate(Math.min(lastActivity + Math.floor(random() * 3 * DAY_MS), now)),
+          hubspot_owner_id: owner.id,
+          city,
+          state,
+          country: "United States",
+          jobtitle: pick(random, JOB_TITLES),
+          phone: `(${areaCode}) ${200 + Math.floor(random() * 799)}-${pad(Math.floor(random() * 10_000), 4)}`,
+          hs_analytics_source: source,
+          hs_latest_source: latestSource,
+          hs_analytics_source_data_1: sourceData1 || null,
+          hs_analytics_source_data_2: pick(random, details.data2) || null,
+          hs_latest_source_data_1: pick(random, SOURCE_DETAILS[latestSource].data1) || null,
+          hs_latest_source_data_2: null,
+          hs_analytics_first_touch_converting_campaign: firstCampaign,
+          hs_analytics_last_touch_converting_campaign: lastCampaign,
+          hs_analytics_first_url: `${SITE}${landingPage}${utm}`,
+          hs_analytics_last_url: `${SITE}${pick(random, LANDING_PAGES)}`,
+          hs_analytics_revenue: revenue > 0 ? revenue.toFixed(2) : null,
+          hs_analytics_num_visits: String(visits),
+          hs_analytics_num_page_views: String(visits + Math.round(visits * random() * 4)),
+          hs_analytics_average_page_views: (1 + random() * 4).toFixed(1),
+          hs_analytics_first_visit_timestamp: isoDate(firstVisit),
+          hs_analytics_last_visit_timestamp: isoDate(Math.min(lastActivity, now)),
+          first_conversion_event_name: pick(random, ["Request a Quote", "Newsletter Signup", "Catalog Download", "Contact Us"]),
+          recent_conversion_event_name: pick(random, ["Request a Quote", "Webinar Registration", "Contact Us", "Reorder Form"]),
+          ...stageDates,
+        },
+        associations: { companies: company ? [company.id] : [] },
+      }
+      yield { contact, deals }
+    }
+  }
+
+  return { owners, companies, pipelines: [SYNTHETIC_DEAL_PIPELINE], contacts }
+}
+
+// --- Fixtures for the local HubSpot stand-in ---
+export function syntheticFixtures(options: SyntheticCrmOptions = {}): FakeHubSpotFixtures {
+  const crm = generateSyntheticCrm(options)
+  const companiesById = new Map(crm.companies.map((company) => [company.id, company]))
+  const contacts: FakeHubSpotRecord[] = []
+  const deals: FakeHubSpotRecord[] = []
+  for (const { contact, deals: contactDeals } of crm.contacts()) {
+    contact.associations.companies.forEach((id) => companiesById.get(id)?.associations.contacts.push(contact.id))
+    contacts.push(contact)
+    deals.push(...contactDeals)
+  }
+  return { owners: crm.owners, companies: crm.companies, contacts, deals, pipelines: crm.pipelines }
+}
+
+// The same fixtures as JSON text in chunks. Companies go last since their contact associations are only known
+// once every contact has been generated; only they and the deals are held in memory.
+export function* syntheticFixtureChunks(crm: SyntheticCrm, recordsPerChunk = 2_000): Generator<string> {
+  const companiesById = new Map(crm.companies.map((company) => [company.id, company]))
+  const deals: FakeHubSpotRecord[] = []
+  yield `{"owners":${JSON.stringify(crm.owners)},"pipelines":${JSON.stringify(crm.pipelines)},"contacts":[`
+
+  let batch: string[] = []
+  let first = true
+  for (const { contact, deals: contactDeals } of crm.contacts()) {
+    contact.associations.companies.forEach((id) => companiesById.get(id)?.associations.contacts.push(contact.id))
+    deals.push(...contactDeals)
+    batch.push(JSON.stringify(contact))
+    if (batch.length === recordsPerChunk) {
+      yield (first ? "" : ",") + batch.join(",")
+      first = false
+      batch = []
+    }
+  }
+  if (batch.length > 0) yield (first ? "" : ",") + batch.join(",")
+
+  yield `],"deals":${JSON.stringify(deals)},"companies":${JSON.stringify(crm.companies)}}`
+}
+
+// --- AccountData rows, shaped like a CRM export ---
+export const SYNTHETIC_CSV_COLUMNS = [
+  "Account ID",
+  "Account Name",
+  "Address",
+  "Total Sales",
+  "Date Created",
+  "Date Last Quoted",
+  "Primary Rep Name",
+  "Lifecycle Stage",
+  "Analytics Source",
+  "Latest Source",
+  "Source Data 1",
+  "Source Data 2",
+  "First Touch Campaign",
+  "Last Touch Campaign",
+  "First URL",
+  "Last URL",
+  "Number of Visits",
+  "Number of Page Views",
+] as const satisfies ReadonlyArray<keyof AccountData>
+
+const usd = new Intl.NumberFormat("en-US", { style: "currency", currency: "USD" })
+// MM/DD/YYYY, the format the bundled export and ERP imports use
+const usDate = (iso: string | null | undefined) => {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return `${pad(date.getUTCMonth() + 1, 2)}/${pad(date.getUTCDate(), 2)}/${date.getUTCFullYear()}`
+}
+
+// One row per contact; contacts at the same company share its Account ID
+export function* syntheticAccountRows(crm: SyntheticCrm): Generator<AccountData> {
+  const companiesById = new Map(crm.companies.map((company) => [company.id, company]))
+  const ownersById = new Map(crm.owners.map((owner) => [owner.id, owner]))
+
+  for (const { contact, deals } of crm.contacts()) {
+    const p = contact.properties
+    const company = companiesById.get(contact.associations.companies[0] ?? "")
+    const owner = ownersById.get(p.hubspot_owner_id ?? "")
+    const won = deals.filter((deal) => deal.properties.dealstage === "closedwon")
+    const open = deals.filter((deal) => !String(deal.properties.dealstage).startsWith("closed"))
+    const sum = (list: FakeHubSpotRecord[]) => list.reduce((total, deal) => total + Number(deal.properties.amount), 0)
+    const lastQuoted = deals.map((deal) => deal.properties.createdate!).sort().at(-1)
+    const c = company?.properties
+
+    yield {
+      "Account ID": Number(company?.id ?? contact.id),
+      "Record ID": contact.id,
+      "Account Name": c?.name ?? `${p.firstname} ${p.lastname}`,
+      Address: c ? `${c.address}  ${c.city}, ${c.state} ${c.zip}` : `${p.city}, ${p.state}`,
+      "Total Sales": usd.format(sum(won)),
+      "Date Created": usDate(p.createdate),
+      "Date Last Quoted": usDate(lastQuoted),
+      "Primary Rep Name": owner ? `${owner.firstName} ${owner.lastName}` : "",
+      "Lifecycle Stage": p.lifecyclestage ?? "",
+      "Analytics Source": p.hs_analytics_source ?? "",
+      "Latest Source": p.hs_latest_source ?? "",
+      "Source Data 1": p.hs_analytics_source_data_1 ?? "",
+      "Source Data 2": p.hs_analytics_source_data_2 ?? "",
+      "First Touch Campaign": p.hs_analytics_first_touch_converting_campaign ?? "",
+      "Last Touch Campaign": p.hs_analytics_last_touch_converting_campaign ?? "",
+      "First URL": p.hs_analytics_first_url ?? "",
+      "Last URL": p.hs_analytics_last_url ?? "",
+      "Number of Visits": p.hs_analytics_num_visits ?? "0",
+      "Number of Page Views": p.hs_analytics_num_page_views ?? "0",
+      "Open Pipeline": String(sum(open)),
+      "Won Deal Count": won.length,
+      "Open Deal Count": open.length,
+      "Sales Source": "deals",
+    }
+  }
+}
+
+// CSV text in chunks of `rowsPerChunk`, header first, so large datasets can be streamed to a file or response
+export function* syntheticCsvChunks(crm: SyntheticCrm, rowsPerChunk = 2_000): Generator<string> {
+  yield toCsv([[...SYNTHETIC_CSV_COLUMNS]])
+  let batch: string[][] = []
+  for (const row of syntheticAccountRows(crm)) {
+    batch.push(SYNTHETIC_CSV_COLUMNS.map((column) => String(row[column] ?? "")))
+    if (batch.length === rowsPerChunk) {
+      yield toCsv(batch)
+      batch = []
+    }
+  }
+  if (batch.length > 0) yield toCsv(batch)
+}
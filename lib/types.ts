@@ -1,5 +1,8 @@
 export interface AccountData {
-  "Account ID": number
+  "Account ID": number // Stable per resolved account, shared by every contact at the same company
+  "Account Key"?: string // Identity the account was resolved from, e.g. "company:123" or "name:acme"
+  "Record ID"?: string // Source record: HubSpot contact ID or import line
+  "Contact Count"?: number // Only on account-level rows
   "Account Name": string
   Address: string
   "Total Sales": string // String from CSV/API, will be parsed to number
@@ -8,6 +11,7 @@ export interface AccountData {
   "Primary Rep Name": string
   Brand?: string
   "Lifecycle Stage"?: string // HubSpot lifecycle stage (MQL, SQL, customer, etc.)
+  "Funnel Stage"?: FunnelStage // Stage assigned by the qualification rules
   // Source and attribution tracking
   "Analytics Source"?: string // Original source (organic search, paid search, etc.)
   "Latest Source"?: string // Most recent source
@@ -19,31 +23,269 @@ export interface AccountData {
   "Last URL"?: string // Last URL visited
   "Number of Visits"?: string // Total number of visits
   "Number of Page Views"?: string // Total page views
+  // Deal-backed sales figures
+  "Open Pipeline"?: string // Sum of open deal amounts
+  "Won Deal Count"?: number // Closed-won deals behind "Total Sales"
+  "Open Deal Count"?: number
+  "Sales Source"?: "deals" | "estimated" // "estimated" means "Total Sales" is a lifecycle-stage placeholder
 }
 
 export interface ProcessedData {
-  totalAccounts: number
+  totalAccounts: number // Distinct accounts after identity resolution
+  totalContacts: number // Contact-level rows (qualified leads or imported rows)
+  qualificationRules: QualificationRules // Funnel stages were assigned with these, so filtered views can be recomputed
   totalRevenue: number
   averageDealSize: number
+  pipelineValue: number // Sum of open deal amounts
+  closedWonRevenue: number // Sum of closed-won deal amounts
+  revenueSource: "actual" | "estimated" // Whether revenue figures come from real amounts or lifecycle estimates
+  estimatedValueAccounts: number // Accounts whose "Total Sales" is a lifecycle-stage estimate
+  validationReport?: ValidationReport // Data problems found while ingesting the records behind this result
+  snapshot?: DataSnapshot // Only set for HubSpot data
   salesByRep: Record<string, { sales: number; accounts: number }>
   salesDistribution: Record<string, number>
-  monthlyTrends: Array<{ month: string; accounts: number; revenue: number }>
+  monthlyTrends: Array<{ key: string; month: string; accounts: number; revenue: number }> // key is e.g. "2025-01"
   topStates: Record<string, { accounts: number; sales: number }>
   recentlyQuoted: number
   salesByBrand: Record<string, { sales: number; accounts: number }>
   topPerformingAccounts: AccountData[]
   leastPerformingAccounts: AccountData[]
-  allAccounts: AccountData[]
+  allAccounts: AccountData[] // One row per resolved account
+  allContacts: AccountData[] // One row per contact (or imported row)
   lifecycleStageDistribution: Record<string, number> // Distribution of lifecycle stages
-  // New analytics features
-  trafficSourcePerformance: Record<string, { leads: number; revenue: number; conversionRate: number; avgDealSize: number }>
-  geographicDistribution: Record<string, { leads: number; revenue: number }>
-  leadHealthScores: Array<{ accountId: number; accountName: string; healthScore: number; temperature: string; riskLevel: string }>
-  campaignPerformance: Record<string, { leads: number; revenue: number; cost?: number; roi?: number }>
-  landingPagePerformance: Record<string, { leads: number; revenue: number; avgDealSize: number; sqlCount: number; conversionRate: number }>
-  timeBasedInsights: {
-    peakActivityHours: Array<{ hour: number; activity: number }>
-    seasonalTrends: Array<{ month: string; leads: number; revenue: number }>
-    responseTimeMetrics: { avgResponseTime: number; fastResponders: string[]; slowResponders: string[] }
-  }
+  funnelStageCounts: Record<FunnelStage, number> // Contacts per funnel stage under the qualification rules
+  // Output of each registered metric (lib/metric-registry.ts) by metric id
+  metrics: Record<string, MetricResult>
+}
+
+// One ranked entry of a registered metric, e.g. a traffic source or a landing page
+export interface MetricItem {
+  key: string
+  label: string
+  values: Record<string, number> // By the field keys the metric's schema declares
+  tags?: string[] // Short labels shown next to the item, e.g. lead temperature
+}
+
+export interface MetricResult {
+  items: MetricItem[] // Already in display order
+  highlights?: { title: string; labels: string[] }
+}
+
+// Raw HubSpot records as persisted in the local contact store
+export interface StoredContact {
+  id: string
+  properties: Record<string, string | null>
+  companyIds: string[]
+}
+
+export interface StoredCompany {
+  id: string
+  properties: Record<string, string | null>
+}
+
+export interface StoredDeal {
+  id: string
+  properties: Record<string, string | null>
+  contactIds: string[]
+  companyIds: string[]
+}
+
+export interface StoredPipelineStage {
+  id: string
+  pipelineId: string
+  pipelineLabel: string
+  label: string
+  displayOrder: number
+  isClosed: boolean
+  isWon: boolean
+}
+
+export interface StoredOwner {
+  id: string
+  firstName?: string
+  lastName?: string
+  email?: string
+}
+
+// --- HubSpot portals ---
+// A HubSpot account the dashboard syncs: the HUBSPOT_API_KEY private app, or one installed through OAuth
+export interface HubSpotPortal {
+  id: string // "default" for the private app, otherwise the HubSpot hub ID
+  name: string
+  domain: string | null
+  authType: "private-app" | "oauth"
+  installedAt: string | null
+}
+
+export interface PortalList {
+  portals: HubSpotPortal[]
+  activePortalId: string
+  canInstall: boolean // Whether the OAuth app is configured, so more portals can be connected
+}
+
+export type SyncMode = "incremental" | "full"
+
+export interface SyncMetadata {
+  watermark: string | null // Highest lastmodifieddate seen, as an ISO timestamp
+  dealWatermark: string | null // Highest deal hs_lastmodifieddate seen
+  lastSyncAt: string | null
+  lastFullSyncAt: string | null
+  lastSyncMode: SyncMode | null
+  rulesFingerprint: string | null // Qualification rules the store was last fully synced with
+  lastWebhookAt: string | null // When webhook events last changed the store
+}
+
+export interface SyncSummary {
+  mode: SyncMode
+  fetched: number
+  upserted: number
+  removed: number
+  deals: number
+  watermark: string | null
+}
+
+// --- Sync jobs ---
+export type SyncPhase = "contacts" | "deals" | "associations" | "companies" | "owners" | "pipelines" | "saving"
+export type SyncJobStatus = "running" | "completed" | "failed" | "cancelled"
+
+// Streamed to the browser while a sync job runs
+export type SyncProgressEvent =
+  | { type: "phase"; phase: SyncPhase; message: string }
+  | { type: "progress"; phase: SyncPhase; pages?: number; records: number; total?: number }
+  | { type: "warning"; message: string }
+  | { type: "status"; status: SyncJobStatus; message: string; summary?: SyncSummary }
+
+// --- Sync history and schedule ---
+export type SyncTrigger = "manual" | "scheduled"
+
+export interface SyncRun {
+  id: number
+  trigger: SyncTrigger
+  requestedMode: SyncMode
+  mode: SyncMode | null // What actually ran; an incremental request can turn into a full resync
+  status: SyncJobStatus
+  startedAt: string
+  finishedAt: string | null
+  fetched: number | null
+  upserted: number | null
+  removed: number | null
+  deals: number | null
+  apiCalls: number | null
+  error: string | null
+}
+
+// Cron expressions (minute hour day-of-month month day-of-week) in the server's time zone
+export interface SyncSchedule {
+  enabled: boolean
+  incrementalCron: string
+  fullCron: string
+}
+
+export interface SyncScheduleStatus extends SyncSchedule {
+  active: boolean // False when disabled or when no HubSpot API key is configured
+  nextIncrementalAt: string | null
+  nextFullAt: string | null
+}
+
+// --- Metric snapshots ---
+// The headline figures of a sync, kept so later syncs can show what changed
+export interface SnapshotMetrics {
+  totalLeads: number
+  activeReps: number
+  pipelineValue: number // Open deals, or the estimated total when revenueSource is "estimated"
+  averageDealSize: number
+  revenueSource: "actual" | "estimated"
+  funnelStageCounts: Record<FunnelStage, number>
+  salesByRep: Record<string, { sales: number; accounts: number }>
+}
+
+export interface MetricSnapshot {
+  id: number
+  runId: number | null
+  takenAt: string
+  metrics: SnapshotMetrics
+}
+
+export type SnapshotComparison = "none" | "previous" | "week" | "month"
+
+// Which stored sync the dashboard figures come from
+export interface DataSnapshot {
+  runId: number | null
+  syncedAt: string
+  mode: SyncMode | null
+  trigger: SyncTrigger | null
+}
+
+// --- File imports ---
+// AccountData keys an uploaded column can be mapped onto
+export type ImportField =
+  | "Account ID"
+  | "Account Name"
+  | "Address"
+  | "Total Sales"
+  | "Date Created"
+  | "Date Last Quoted"
+  | "Primary Rep Name"
+  | "Lifecycle Stage"
+  | "Analytics Source"
+  | "First Touch Campaign"
+  | "First URL"
+
+// Target field -> source column header
+export type ColumnMapping = Partial<Record<ImportField, string>>
+
+export interface ImportProfile {
+  id: string
+  name: string
+  mapping: ColumnMapping
+  updatedAt: string
+}
+
+export interface ImportRowError {
+  line: number
+  message: string
+}
+
+// What the upload step returns so the user can map columns before processing
+export interface ImportPreview {
+  id: string
+  fileName: string
+  headers: string[]
+  previewRows: string[][]
+  rowCount: number
+  errors: ImportRowError[]
+}
+
+// --- Validation ---
+export type ValidationSource = "csv" | "import" | "hubspot"
+
+// One coerced or missing value found while turning source records into AccountData
+export interface ValidationIssue {
+  record: string // e.g. "line 12" or "contact 1234"
+  field: string
+  problem: string
+  fallback: string // The value used instead
+}
+
+export interface ValidationReport {
+  source: ValidationSource
+  label: string // File name or "HubSpot"
+  generatedAt: string
+  recordCount: number
+  recordsWithIssues: number
+  issues: ValidationIssue[]
+}
+
+// --- Lead qualification ---
+export type FunnelStage = "mql" | "sql" | "opportunity" | "customer"
+
+// Matches when the contact's property equals any of the values (case-insensitive)
+export interface QualificationCondition {
+  property: string
+  values: string[]
+}
+
+export interface QualificationRules {
+  stages: Record<FunnelStage, QualificationCondition[]> // A contact is in a stage when any of its conditions match
+  qualifyingStages: FunnelStage[] // Stages synced into the local store
 }
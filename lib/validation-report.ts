@@ -0,0 +1,48 @@
+import type { ValidationIssue, ValidationReport, ValidationSource } from "@/lib/types"
+import { toCsv } from "@/lib/csv"
+
+// Collects issues while records are transformed, so every fallback that gets applied is accounted for
+export class ValidationReportBuilder {
+  private readonly issues: ValidationIssue[] = []
+
+  constructor(
+    private readonly source: ValidationSource,
+    private readonly label: string,
+  ) {}
+
+  add(record: string, field: string, problem: string, fallback: string) {
+    this.issues.push({ record, field, problem, fallback })
+  }
+
+  build(recordCount: number): ValidationReport {
+    return {
+      source: this.source,
+      label: this.label,
+      generatedAt: new Date().toISOString(),
+      recordCount,
+      recordsWithIssues: new Set(this.issues.map((issue) => issue.record)).size,
+      issues: this.issues,
+    }
+  }
+}
+
+// Issue counts per field and problem, most frequent first
+export function summarizeValidationIssues(
+  issues: ValidationIssue[],
+): Array<{ field: string; problem: string; count: number }> {
+  const counts = new Map<string, { field: string; problem: string; count: number }>()
+  issues.forEach(({ field, problem }) => {
+    const key = `${field}\u0000${problem}`
+    const entry = counts.get(key) ?? { field, problem, count: 0 }
+    entry.count++
+    counts.set(key, entry)
+  })
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count)
+}
+
+export function validationReportToCsv(report: ValidationReport): string {
+  return toCsv([
+    ["Record", "Field", "Problem", "Fallback"],
+    ...report.issues.map((issue) => [issue.record, issue.field, issue.problem, issue.fallback]),
+  ])
+}
@@ -9,6 +9,12 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Import uploads go through a server action, and ERP exports easily exceed the 1 MB default
+    serverActions: {
+      bodySizeLimit: "25mb",
+    },
+  },
 }
 
 export default nextConfig